@@ -27,6 +27,7 @@ import Settings from "./pages/Settings";
 import WalletPage from "./pages/WalletPage";
 import GetDojoCoinsPage from "./pages/GetDojoCoinsPage";
 import LabIDEPage from "./pages/LabIDEPage";
+import SnapshotViewerPage from "./pages/SnapshotViewerPage";
 import { UserProgressProvider } from "./context/UserProgressContext";
 import { SearchProvider } from "./context/SearchContext";
 import { BackendDataProvider } from "./context/BackendDataContext";
@@ -90,6 +91,8 @@ const App = () => (
                     <Route path="/course/:courseId/article/:articleId/ide" element={<LabIDEPage />} />
                     <Route path="/project/:projectId" element={<LabViewerPage />} />
                     <Route path="/project/:projectId/ide" element={<LabViewerPage />} />
+                    <Route path="/snapshot" element={<SnapshotViewerPage />} />
+                    <Route path="/snapshot/:snapshotId" element={<SnapshotViewerPage />} />
                     <Route path="/auth/callback" element={<AuthCallbackPage />} />
                     <Route path="/profile" element={<Profile />} />
                     <Route path="/settings" element={<Settings />} />
@@ -1,5 +1,5 @@
-import React, { useState, useCallback } from 'react';
-import { Play, Square, Settings, Trash2 } from 'lucide-react';
+import React, { forwardRef, useState, useCallback, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
+import { Play, Square, Settings, Trash2, FlaskConical, Bug, Pin, PinOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
@@ -10,26 +10,96 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
 import OutputPanel from './OutputPanel';
+import PreviewPanel from './PreviewPanel';
+import TestsPanel from './TestsPanel';
+import DebugPanel from './DebugPanel';
+import SchemaPanel from './SchemaPanel';
+import TerminalPanel from './TerminalPanel';
+import { EditorLocation } from './MonacoEditor';
 import { RunnerFactory } from '../../services/runners/RunnerFactory';
-import { ExecutionResult } from '../../types/runner';
+import { LabTestRunner } from '../../services/runners/LabTestRunner';
+import { RunnerStatus, runnerPool } from '../../services/runners/runnerPool';
+import { Breakpoints } from '../../services/runners/debugStepping';
+import { CodeRunner as Runner, CodeDiagnostic, ConsoleLog, ExecutionResult, FileMap, InputRequest, SqlDatabase, SupportedLanguage, TestRunSummary } from '../../types/runner';
 import { LabFile } from '../../types/lab';
 import { useToast } from '@/hooks/use-toast';
+import { useRunnerStatus } from '@/hooks/useRunnerStatus';
+
+// Delay before the live preview re-renders after an edit
+const PREVIEW_RELOAD_DELAY = 500;
+const MAX_PREVIEW_LOGS = 1000;
+
+const RUNNER_STATUS_BADGES: Record<RunnerStatus, { label: string; description: string; className: string; dotClassName: string }> = {
+  warm: {
+    label: 'Warm',
+    description: 'The runtime is loaded, so runs start right away',
+    className: 'text-green-400 border-green-500/50 bg-green-900/20',
+    dotClassName: 'bg-green-400'
+  },
+  warming: {
+    label: 'Warming up',
+    description: 'The runtime is loading in the background',
+    className: 'text-yellow-400 border-yellow-500/50 bg-yellow-900/20',
+    dotClassName: 'bg-yellow-400 animate-pulse'
+  },
+  cold: {
+    label: 'Cold',
+    description: 'The runtime loads when you next run, which takes a little longer',
+    className: 'text-slate-400 border-slate-600 bg-slate-800/50',
+    dotClassName: 'bg-slate-500'
+  }
+};
 
 interface CodeRunnerProps {
   selectedFile: LabFile | null;
   allFiles: LabFile[];
+  hiddenTests?: LabFile[];
   className?: string;
+  onDiagnostics?: (diagnostics: CodeDiagnostic[]) => void; // problems from the latest run, for editor markers
+  onNavigate?: (location: EditorLocation) => void;
+  breakpoints?: Breakpoints;
+  onDebugLocation?: (location: { file: string; line: number } | null) => void; // where a debug run is paused
+  confirmRun?: () => Promise<boolean>; // asked before code runs; false leaves it unrun
+  sandboxed?: boolean; // run in an opaque origin, for code the viewer didn't write
+}
+
+// Lets the IDE's command palette and keybindings start and stop runs
+export interface CodeRunnerHandle {
+  run: () => void;
+  stop: () => void;
 }
 
-const CodeRunner: React.FC<CodeRunnerProps> = ({
+const CodeRunner = forwardRef<CodeRunnerHandle, CodeRunnerProps>(({
   selectedFile,
   allFiles,
-  className = ''
-}) => {
+  hiddenTests,
+  className = '',
+  onDiagnostics,
+  onNavigate,
+  breakpoints = {},
+  onDebugLocation,
+  confirmRun,
+  sandboxed = false
+}, ref) => {
   const [isRunning, setIsRunning] = useState(false);
   const [executionResult, setExecutionResult] = useState<ExecutionResult | null>(null);
   const [activeTab, setActiveTab] = useState('output');
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+  const livePreviewRef = useRef(false);
+  const [stdinText, setStdinText] = useState('');
+  const [inputRequest, setInputRequest] = useState<InputRequest | null>(null);
+  const inputResolverRef = useRef<((value: string | null) => void) | null>(null);
+  const activeRunnerRef = useRef<Runner | null>(null);
+  const runIdRef = useRef(0); // Bumped by each run and by stopping, to drop runs that were stopped while loading
+  const [testSummary, setTestSummary] = useState<TestRunSummary | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const testRunnerRef = useRef<LabTestRunner | null>(null);
+  const [debugResult, setDebugResult] = useState<ExecutionResult | null>(null);
+  const [isDebugging, setIsDebugging] = useState(false);
+  const [sqlDatabase, setSqlDatabase] = useState<SqlDatabase | null>(null);
+  const [pinDatabase, setPinDatabase] = useState(false);
   const { toast } = useToast();
 
   // Detect language from selected file
@@ -37,40 +107,88 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
     ? RunnerFactory.detectLanguageFromFile(selectedFile.name)
     : null;
 
-  
-  // Check if runner is actually supported
-  const checkSupport = () => {
-    if (!detectedLanguage) {
-      return false;
-    }
-    
-    if (RunnerFactory.isLanguageSupported(detectedLanguage)) {
-      try {
-        const runner = RunnerFactory.createRunner(detectedLanguage);
-        return runner.isSupported();
-      } catch (error) {
-        return false;
-      }
-    }
-    return false;
-  };
-  
-  const actuallySupported = checkSupport();
+  // The tabs and actions on offer follow what the file's runner declares it can do
+  const capabilities = RunnerFactory.getCapabilities(detectedLanguage);
+  const isWebLanguage = !!capabilities.preview;
+  const canDebug = capabilities.debug;
+  const isSql = !!capabilities.database;
+  // Config files for DevOps labs are validated rather than run
+  const isConfigFile = !!capabilities.validation;
+  // The terminal works on the whole lab, whatever file is open
+  const hasTerminal = RunnerFactory.isRunnableInBrowser('shell');
+
+  // Checked without loading the runner, which only downloads when the file is first run
+  const actuallySupported = !!detectedLanguage && RunnerFactory.isRunnableInBrowser(detectedLanguage);
+  const runnerStatus = useRunnerStatus(actuallySupported ? detectedLanguage : null);
 
-  // Create file map for multi-file execution
+  // Create file map for multi-file execution, keyed by path so relative references resolve
   const createFileMap = useCallback(() => {
-    const fileMap: { [key: string]: string } = {};
-    allFiles.forEach(file => {
-      if (file.content && file.type === 'file') {
-        fileMap[file.name] = file.content;
-      }
-    });
+    const fileMap: FileMap = {};
+    const addFiles = (files: LabFile[]) => {
+      files.forEach(file => {
+        if (file.type === 'directory' && file.children) {
+          addFiles(file.children);
+        } else if (file.type === 'file' && file.content !== null && file.access_granted !== false) {
+          fileMap[file.path || file.name] = file.content;
+        }
+      });
+    };
+    addFiles(allFiles);
+
+    // The selected file carries the latest editor content
+    if (selectedFile?.content) {
+      fileMap[selectedFile.path || selectedFile.name] = selectedFile.content;
+    }
     return fileMap;
-  }, [allFiles]);
+  }, [allFiles, selectedFile]);
+
+  // Hidden tests are flattened the same way but kept apart so their details can be withheld
+  const hiddenTestMap = useMemo(() => {
+    const fileMap: FileMap = {};
+    const addFiles = (files: LabFile[]) => {
+      files.forEach(file => {
+        if (file.type === 'directory' && file.children) {
+          addFiles(file.children);
+        } else if (file.content && file.type === 'file') {
+          fileMap[file.path || file.name] = file.content;
+        }
+      });
+    };
+    addFiles(hiddenTests || []);
+    return fileMap;
+  }, [hiddenTests]);
+
+  // Only test files whose runner can run tests count, so the Tests tab isn't offered for nothing
+  const testFiles = useMemo(
+    () => [...LabTestRunner.findTestFiles(createFileMap()), ...Object.keys(hiddenTestMap)].filter(file =>
+      RunnerFactory.getCapabilities(RunnerFactory.detectLanguageFromFile(file)).tests
+    ),
+    [createFileMap, hiddenTestMap]
+  );
+
+  // Pause the run until the learner types a line in the output console
+  const requestInput = useCallback((request: InputRequest) => {
+    return new Promise<string | null>(resolve => {
+      inputResolverRef.current = resolve;
+      setInputRequest(request);
+      setActiveTab('output');
+    });
+  }, []);
+
+  const handleSubmitInput = useCallback((value: string | null) => {
+    const resolveInput = inputResolverRef.current;
+    inputResolverRef.current = null;
+    setInputRequest(null);
+    resolveInput?.(value);
+  }, []);
+
+  // Used to detect edits that should refresh the live preview
+  const fileMapSignature = useMemo(() => JSON.stringify(createFileMap()), [createFileMap]);
 
   // Execute code
-  const handleRunCode = useCallback(async () => {
+  const runCode = useCallback(async (silent = false) => {
     if (!selectedFile || !selectedFile.content || !detectedLanguage) {
+      if (silent) return;
       toast({
         title: "Cannot Run Code",
         description: "Please select a supported file with content to run.",
@@ -79,31 +197,67 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
       });
       return;
     }
+    // Preview reloads only follow a run the viewer already agreed to
+    if (!silent && confirmRun && !(await confirmRun())) return;
 
-    setIsRunning(true);
-    setActiveTab('output'); // Switch to output tab when running
+    if (!silent) {
+      setIsRunning(true);
+      setActiveTab('output'); // Switch to output tab when running
+    }
     
+    const runId = silent ? runIdRef.current : ++runIdRef.current;
+    let runner: Runner | null = null;
     try {
-      const runner = RunnerFactory.createRunner(detectedLanguage);
+      runner = await runnerPool.acquire(detectedLanguage);
+      // Stopped while the runner was still downloading
+      if (!silent && runId !== runIdRef.current) return;
+      if (!silent) {
+        activeRunnerRef.current = runner;
+      }
       
       if (!runner.isSupported()) {
         throw new Error('Code execution is not supported in this browser');
       }
 
       const fileMap = createFileMap();
-      const result = await runner.execute(selectedFile.content, fileMap);
+      const result = await runner.execute(selectedFile.content, fileMap, {
+        entryFile: selectedFile.path || selectedFile.name,
+        stdin: stdinText,
+        // Live preview re-runs happen in the background and never wait for input
+        onInput: silent ? undefined : requestInput,
+        // A pinned database carries on from the last SQL run instead of being rebuilt
+        database: detectedLanguage === 'sql' && pinDatabase ? sqlDatabase?.file : undefined,
+        sandboxed
+      });
+
+      // A stopped run can finish after the learner has already started another one
+      if (!silent && activeRunnerRef.current && activeRunnerRef.current !== runner) return;
       
       setExecutionResult(result);
+      if (result.database) {
+        setSqlDatabase(result.database);
+      }
+
+      // Web runs render into the preview tab and keep it in sync with later edits
+      livePreviewRef.current = !!result.preview;
+      if (result.preview) {
+        setPreviewHtml(result.preview);
+        if (!silent) {
+          setActiveTab('preview');
+        }
+      }
+
+      if (silent) return;
       
       if (result.success) {
         toast({
-          title: "Code Executed Successfully",
+          title: isConfigFile ? "Validation Passed" : "Code Executed Successfully",
           description: `Completed in ${result.executionTime}ms`,
           className: "bg-green-900 border-green-700 text-white",
         });
       } else {
         toast({
-          title: "Execution Failed",
+          title: isConfigFile ? "Validation Failed" : "Execution Failed",
           description: result.error || "Unknown error occurred",
           variant: "destructive",
           className: "bg-red-900 border-red-700 text-white",
@@ -118,6 +272,8 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
         executionTime: 0,
         logs: []
       });
+
+      if (silent) return;
       
       toast({
         title: "Execution Error",
@@ -126,19 +282,173 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
         className: "bg-red-900 border-red-700 text-white",
       });
     } finally {
-      setIsRunning(false);
+      if (runner) {
+        runnerPool.release(runner);
+      }
+      if (!silent && activeRunnerRef.current === runner) {
+        activeRunnerRef.current = null;
+        setIsRunning(false);
+      }
     }
-  }, [selectedFile, detectedLanguage, createFileMap, toast]);
+  }, [selectedFile, detectedLanguage, isConfigFile, createFileMap, stdinText, requestInput, pinDatabase, sqlDatabase, confirmRun, sandboxed, toast]);
+
+  const handleRunCode = useCallback(() => runCode(), [runCode]);
+
+  // Record a traced run that the Debug tab steps through
+  const handleDebugCode = useCallback(async () => {
+    if (!selectedFile || !selectedFile.content || !detectedLanguage) return;
+    if (confirmRun && !(await confirmRun())) return;
+
+    setIsDebugging(true);
+    setActiveTab('debug');
+
+    const runId = ++runIdRef.current;
+    let runner: Runner | null = null;
+    try {
+      runner = await runnerPool.acquire(detectedLanguage);
+      if (runId !== runIdRef.current) return;
+      activeRunnerRef.current = runner;
+      const result = await runner.execute(selectedFile.content, createFileMap(), {
+        entryFile: selectedFile.path || selectedFile.name,
+        stdin: stdinText,
+        onInput: requestInput,
+        debug: true,
+        sandboxed
+      });
+      if (activeRunnerRef.current !== runner) return;
+      setDebugResult(result);
+      setActiveTab('debug');
+    } catch (error) {
+      toast({
+        title: "Debugging Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        variant: "destructive",
+        className: "bg-red-900 border-red-700 text-white",
+      });
+    } finally {
+      if (runner) {
+        runnerPool.release(runner);
+      }
+      if (activeRunnerRef.current === runner) {
+        activeRunnerRef.current = null;
+        setIsDebugging(false);
+      }
+    }
+  }, [selectedFile, detectedLanguage, createFileMap, stdinText, requestInput, confirmRun, sandboxed, toast]);
+
+  // Re-render the live preview when lab files change
+  const runCodeRef = useRef(runCode);
+  useEffect(() => {
+    runCodeRef.current = runCode;
+  }, [runCode]);
+
+  useEffect(() => {
+    if (!isWebLanguage || !livePreviewRef.current) {
+      return;
+    }
+
+    const timer = setTimeout(() => runCodeRef.current(true), PREVIEW_RELOAD_DELAY);
+    return () => clearTimeout(timer);
+  }, [fileMapSignature, isWebLanguage]);
+
+  // Report problems from the latest run so the editor can mark them
+  const onDiagnosticsRef = useRef(onDiagnostics);
+  useEffect(() => {
+    onDiagnosticsRef.current = onDiagnostics;
+  }, [onDiagnostics]);
+
+  const runDiagnostics = executionResult?.diagnostics;
+  useEffect(() => {
+    onDiagnosticsRef.current?.(runDiagnostics || []);
+  }, [runDiagnostics]);
+
+  const knownFiles = useMemo(() => Object.keys(createFileMap()), [createFileMap]);
+
+  // The language most of the lab's runnable files are in. Its runtime starts loading as soon as
+  // the IDE opens and, being pooled, stays loaded while the learner moves between labs.
+  const labLanguage = useMemo(() => {
+    const counts = new Map<SupportedLanguage, number>();
+    knownFiles.forEach(file => {
+      const language = RunnerFactory.detectLanguageFromFile(file);
+      if (language && !RunnerFactory.getCapabilities(language).validation) {
+        counts.set(language, (counts.get(language) || 0) + 1);
+      }
+    });
+    return Array.from(counts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+  }, [knownFiles]);
+
+  // Warming starts an ordinary runtime, which a sandboxed run would only replace
+  useEffect(() => {
+    if (!sandboxed && labLanguage && RunnerFactory.isRunnableInBrowser(labLanguage)) {
+      runnerPool.warm(labLanguage);
+    }
+  }, [labLanguage, sandboxed]);
+
+  // Append console output coming from the preview page
+  const handlePreviewConsole = useCallback((log: ConsoleLog) => {
+    setExecutionResult(prev => {
+      if (!prev) return prev;
+      const logs = [...(prev.logs || []), log].slice(-MAX_PREVIEW_LOGS);
+      return { ...prev, logs, success: prev.success && log.type !== 'error' };
+    });
+  }, []);
+
+  const handleRunTests = useCallback(async () => {
+    if (confirmRun && !(await confirmRun())) return;
+    const testRunner = new LabTestRunner();
+    testRunnerRef.current = testRunner;
+    setIsTesting(true);
+    setActiveTab('tests');
+
+    try {
+      const summary = await testRunner.run(createFileMap(), hiddenTestMap, { sandboxed });
+      if (testRunnerRef.current !== testRunner) return;
+      setTestSummary(summary);
+    } catch (error) {
+      toast({
+        title: "Tests Failed to Run",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        variant: "destructive",
+        className: "bg-red-900 border-red-700 text-white",
+      });
+    } finally {
+      if (testRunnerRef.current === testRunner) {
+        testRunnerRef.current = null;
+        setIsTesting(false);
+      }
+    }
+  }, [createFileMap, hiddenTestMap, confirmRun, sandboxed, toast]);
 
   // Stop execution
   const handleStopExecution = useCallback(() => {
+    // Individual runners handle their own cleanup in the stop() method
+    runIdRef.current++;
+    activeRunnerRef.current?.stop();
+    activeRunnerRef.current = null;
+    // A program still waiting for input sees the end of input
+    handleSubmitInput(null);
     setIsRunning(false);
-    // Note: Individual runners handle their own cleanup in the stop() method
-  }, []);
+    setIsDebugging(false);
+    testRunnerRef.current?.stop();
+    testRunnerRef.current = null;
+    setIsTesting(false);
+  }, [handleSubmitInput]);
+
+  const isBusy = isRunning || isTesting || isDebugging;
+  useImperativeHandle(ref, () => ({
+    run: () => {
+      if (!isBusy && actuallySupported) handleRunCode();
+    },
+    stop: handleStopExecution
+  }), [isBusy, actuallySupported, handleRunCode, handleStopExecution]);
 
   // Clear output
   const handleClearOutput = useCallback(() => {
     setExecutionResult(null);
+    setTestSummary(null);
+    setDebugResult(null);
+    setPreviewHtml(null);
+    livePreviewRef.current = false;
     setActiveTab('output');
   }, []);
 
@@ -149,23 +459,63 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
         <div className="flex items-center gap-2">
           <Button 
             onClick={handleRunCode} 
-            disabled={isRunning || !actuallySupported}
+            disabled={isRunning || isTesting || isDebugging || !actuallySupported}
             className="bg-green-600 hover:bg-green-700 text-white border-green-600 hover:border-green-700"
           >
             {isRunning ? (
               <>
                 <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                Running...
+                {isConfigFile ? 'Validating...' : 'Running...'}
               </>
             ) : (
               <>
                 <Play className="w-4 h-4 mr-2" />
-                Run Code
+                {isConfigFile ? 'Validate' : 'Run Code'}
               </>
             )}
           </Button>
+
+          {canDebug && (
+            <Button
+              onClick={handleDebugCode}
+              disabled={isRunning || isTesting || isDebugging || !actuallySupported}
+              variant="outline"
+              className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white hover:border-slate-500"
+            >
+              <Bug className="w-4 h-4 mr-2" />
+              {isDebugging ? 'Debugging...' : 'Debug'}
+            </Button>
+          )}
+
+          {isSql && (
+            <Button
+              onClick={() => setPinDatabase(!pinDatabase)}
+              variant="outline"
+              title={pinDatabase
+                ? 'Unpin to rebuild the database from the lab files on every run'
+                : 'Keep the database between runs instead of rebuilding it from the lab files'}
+              className={`bg-slate-800 border-slate-600 hover:bg-slate-700 hover:text-white hover:border-slate-500 ${
+                pinDatabase ? 'text-yellow-300' : 'text-slate-300'
+              }`}
+            >
+              {pinDatabase ? <Pin className="w-4 h-4 mr-2" /> : <PinOff className="w-4 h-4 mr-2" />}
+              {pinDatabase ? 'Database Pinned' : 'Pin Database'}
+            </Button>
+          )}
+
+          {testFiles.length > 0 && (
+            <Button
+              onClick={handleRunTests}
+              disabled={isRunning || isTesting || isDebugging}
+              variant="outline"
+              className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white hover:border-slate-500"
+            >
+              <FlaskConical className="w-4 h-4 mr-2" />
+              {isTesting ? 'Testing...' : 'Run Tests'}
+            </Button>
+          )}
           
-          {isRunning && (
+          {(isRunning || isTesting || isDebugging) && (
             <Button 
               onClick={handleStopExecution} 
               variant="outline"
@@ -192,6 +542,17 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
             </Badge>
           )}
           
+          {runnerStatus && (
+            <Badge
+              variant="outline"
+              title={RUNNER_STATUS_BADGES[runnerStatus].description}
+              className={RUNNER_STATUS_BADGES[runnerStatus].className}
+            >
+              <span className={`w-1.5 h-1.5 rounded-full mr-1.5 ${RUNNER_STATUS_BADGES[runnerStatus].dotClassName}`} />
+              {RUNNER_STATUS_BADGES[runnerStatus].label}
+            </Badge>
+          )}
+
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button 
@@ -222,11 +583,105 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
             <TabsTrigger value="output" className="text-slate-400 data-[state=active]:text-white data-[state=active]:bg-slate-800 hover:text-slate-200">
               Output
             </TabsTrigger>
-            {/* Future tabs for console, preview, errors */}
+            {testFiles.length > 0 && (
+              <TabsTrigger value="tests" className="text-slate-400 data-[state=active]:text-white data-[state=active]:bg-slate-800 hover:text-slate-200">
+                Tests
+              </TabsTrigger>
+            )}
+            {canDebug && (
+              <TabsTrigger value="debug" className="text-slate-400 data-[state=active]:text-white data-[state=active]:bg-slate-800 hover:text-slate-200">
+                Debug
+              </TabsTrigger>
+            )}
+            {isSql && (
+              <TabsTrigger value="schema" className="text-slate-400 data-[state=active]:text-white data-[state=active]:bg-slate-800 hover:text-slate-200">
+                Schema
+              </TabsTrigger>
+            )}
+            {hasTerminal && (
+              <TabsTrigger value="terminal" className="text-slate-400 data-[state=active]:text-white data-[state=active]:bg-slate-800 hover:text-slate-200">
+                Terminal
+              </TabsTrigger>
+            )}
+            {capabilities.stdin && (
+              <TabsTrigger value="stdin" className="text-slate-400 data-[state=active]:text-white data-[state=active]:bg-slate-800 hover:text-slate-200">
+                Stdin
+              </TabsTrigger>
+            )}
+            {(isWebLanguage || previewHtml) && (
+              <TabsTrigger value="preview" className="text-slate-400 data-[state=active]:text-white data-[state=active]:bg-slate-800 hover:text-slate-200">
+                Preview
+              </TabsTrigger>
+            )}
           </TabsList>
           
           <TabsContent value="output" className="flex-1 mt-0 p-0">
-            <OutputPanel result={executionResult} isRunning={isRunning} />
+            <OutputPanel
+              result={executionResult}
+              isRunning={isRunning}
+              inputRequest={inputRequest}
+              onSubmitInput={handleSubmitInput}
+              knownFiles={knownFiles}
+              onNavigate={onNavigate}
+            />
+          </TabsContent>
+
+          <TabsContent value="tests" className="flex-1 mt-0 p-0">
+            <TestsPanel summary={testSummary} isRunning={isTesting} testFiles={testFiles} />
+          </TabsContent>
+
+          {/* Kept mounted so switching tabs keeps the paused position */}
+          {canDebug && (
+            <TabsContent value="debug" forceMount className="flex-1 mt-0 p-0 data-[state=inactive]:hidden">
+              <DebugPanel
+                result={debugResult}
+                isRunning={isDebugging}
+                breakpoints={breakpoints}
+                onStart={handleDebugCode}
+                onLocationChange={onDebugLocation}
+              />
+            </TabsContent>
+          )}
+
+          <TabsContent value="schema" className="flex-1 mt-0 p-0">
+            <SchemaPanel database={sqlDatabase} isPinned={pinDatabase} />
+          </TabsContent>
+
+          {/* Kept mounted so the shell's history and scrollback survive switching tabs */}
+          {hasTerminal && (
+            <TabsContent value="terminal" forceMount className="flex-1 mt-0 p-0 data-[state=inactive]:hidden">
+              <TerminalPanel getFiles={createFileMap} />
+            </TabsContent>
+          )}
+
+          <TabsContent value="stdin" className="flex-1 mt-0 p-0">
+            <Card className="p-4 bg-slate-900/50 border-slate-800 h-full flex flex-col">
+              <p className="text-sm text-slate-400 mb-2 flex-shrink-0">
+                {detectedLanguage === 'shell' ? (
+                  <>Lines entered here are read by <code className="text-slate-300">read</code> and by commands such as <code className="text-slate-300">cat</code> that read standard input.</>
+                ) : (
+                  <>
+                    Lines entered here are read by <code className="text-slate-300">input()</code> first.
+                    When they run out, the program asks for more in the Output tab.
+                  </>
+                )}
+                {(detectedLanguage === 'javascript' || detectedLanguage === 'typescript') && (
+                  <> In JavaScript, <code className="text-slate-300">input()</code> and <code className="text-slate-300">prompt()</code> return a promise once these lines run out, so use <code className="text-slate-300">await input('Name? ')</code> to ask in the Output tab.</>
+                )}
+              </p>
+              <Textarea
+                value={stdinText}
+                onChange={event => setStdinText(event.target.value)}
+                placeholder={detectedLanguage === 'shell' ? 'One line per read call' : 'One line per input() call'}
+                className="flex-1 min-h-[120px] bg-slate-950/60 border-slate-700 text-slate-200 font-mono text-sm resize-none"
+                spellCheck={false}
+              />
+            </Card>
+          </TabsContent>
+
+          {/* Kept mounted while hidden so the page keeps running and reporting console output */}
+          <TabsContent value="preview" forceMount className="flex-1 mt-0 p-0 data-[state=inactive]:hidden">
+            <PreviewPanel html={previewHtml} onConsoleMessage={handlePreviewConsole} />
           </TabsContent>
         </Tabs>
       </div>
@@ -244,6 +699,8 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
       )}
     </Card>
   );
-};
+});
+
+CodeRunner.displayName = 'CodeRunner';
 
 export default CodeRunner;
\ No newline at end of file
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { FileText } from 'lucide-react';
+import { LabFile } from '../../types/lab';
+import { IdeCommandDefinition, keybindingService } from '../../services/keybindingService';
+
+export interface PaletteCommand extends Pick<IdeCommandDefinition, 'id' | 'label' | 'group'> {
+  keys: string | null;
+  disabled?: boolean;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  mode: 'commands' | 'files';
+  onClose: () => void;
+  commands: PaletteCommand[];
+  files: LabFile[]; // every file in the workspace, for Go to File
+  modifiedPaths: Set<string>;
+  onSelectFile: (file: LabFile) => void;
+}
+
+const ITEM_CLASS = 'text-slate-300 data-[selected=true]:bg-slate-700 data-[selected=true]:text-white';
+
+// Searchable list of IDE commands, or of workspace files when opened with Go to File
+const CommandPalette: React.FC<CommandPaletteProps> = ({
+  isOpen,
+  mode,
+  onClose,
+  commands,
+  files,
+  modifiedPaths,
+  onSelectFile
+}) => {
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setSearch('');
+    }
+  }, [isOpen, mode]);
+
+  const runCommand = (command: PaletteCommand) => {
+    onClose();
+    // Let the dialog close first so commands that open another dialog get the focus
+    setTimeout(command.run, 0);
+  };
+
+  const groups = commands.reduce<Record<string, PaletteCommand[]>>((result, command) => ({
+    ...result,
+    [command.group]: [...(result[command.group] || []), command]
+  }), {});
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="overflow-hidden p-0 bg-slate-900 border-slate-700 sm:max-w-[560px] [&>button]:hidden">
+        <DialogTitle className="sr-only">{mode === 'files' ? 'Go to File' : 'Command Palette'}</DialogTitle>
+        <Command className="bg-slate-900 text-slate-200 [&_[cmdk-group-heading]]:text-slate-500 [&_[cmdk-input-wrapper]]:border-slate-700">
+          <CommandInput
+            value={search}
+            onValueChange={setSearch}
+            placeholder={mode === 'files' ? 'Search files by name...' : 'Type a command...'}
+            className="text-white placeholder:text-slate-500"
+          />
+          <CommandList className="max-h-[400px] custom-scrollbar">
+            <CommandEmpty className="py-6 text-center text-sm text-slate-400">
+              {mode === 'files' ? 'No matching files.' : 'No matching commands.'}
+            </CommandEmpty>
+            {mode === 'files' ? (
+              <CommandGroup heading="Files">
+                {files.map(file => (
+                  <CommandItem
+                    key={file.path}
+                    value={file.path}
+                    onSelect={() => {
+                      onClose();
+                      onSelectFile(file);
+                    }}
+                    className={ITEM_CLASS}
+                  >
+                    <FileText className="w-4 h-4 mr-2 text-slate-400 flex-shrink-0" />
+                    <span className="truncate">{file.name}</span>
+                    <span className="ml-2 text-xs text-slate-500 truncate">{file.path}</span>
+                    {modifiedPaths.has(file.path) && (
+                      <span className="ml-auto w-2 h-2 bg-yellow-400 rounded-full flex-shrink-0" />
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ) : (
+              Object.entries(groups).map(([group, items]) => (
+                <CommandGroup key={group} heading={group}>
+                  {items.map(command => (
+                    <CommandItem
+                      key={command.id}
+                      value={`${command.group} ${command.label}`}
+                      disabled={command.disabled}
+                      onSelect={() => runCommand(command)}
+                      className={ITEM_CLASS}
+                    >
+                      {command.label}
+                      {command.keys && (
+                        <CommandShortcut className="text-slate-500">{keybindingService.format(command.keys)}</CommandShortcut>
+                      )}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              ))
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CornerDownLeft, Keyboard } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { InputRequest } from '../../types/runner';
+
+interface ConsoleInputProps {
+  request: InputRequest;
+  onSubmit: (value: string | null) => void;
+}
+
+// Terminal view shown while a running program waits for a line of input
+const ConsoleInput: React.FC<ConsoleInputProps> = ({ request, onSubmit }) => {
+  const [value, setValue] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setValue('');
+    inputRef.current?.focus();
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [request]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSubmit(value);
+  };
+
+  // Ctrl+D ends the input like in a terminal
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.ctrlKey && event.key === 'd') {
+      event.preventDefault();
+      onSubmit(null);
+    }
+  };
+
+  return (
+    <Card className="p-4 bg-slate-900/50 border-slate-800 h-full flex flex-col">
+      <div className="flex items-center gap-2 mb-4 flex-shrink-0">
+        <Keyboard className="w-5 h-5 text-blue-400" />
+        <span className="text-white font-medium">Waiting for input</span>
+      </div>
+
+      <div
+        className="flex-1 overflow-y-auto min-h-0 pr-2 custom-scrollbar"
+        style={{ maxHeight: 'calc(100vh - 400px)' }}
+      >
+        <div className="p-3 bg-slate-950/60 border border-slate-700 rounded-lg font-mono text-sm">
+          {request.logs.map((log, index) => (
+            <pre
+              key={index}
+              className={`whitespace-pre-wrap break-words ${
+                log.type === 'error' ? 'text-red-300' : log.type === 'warn' ? 'text-yellow-300' : 'text-slate-300'
+              }`}
+            >
+              {log.content}
+            </pre>
+          ))}
+
+          <form onSubmit={handleSubmit} className="flex items-center gap-2 mt-1">
+            {request.prompt && (
+              <span className="text-slate-300 whitespace-pre flex-shrink-0">{request.prompt}</span>
+            )}
+            <Input
+              ref={inputRef}
+              value={value}
+              onChange={event => setValue(event.target.value)}
+              onKeyDown={handleKeyDown}
+              className="h-8 bg-slate-900 border-slate-600 text-white font-mono"
+              aria-label="Program input"
+            />
+            <Button
+              type="submit"
+              size="sm"
+              className="bg-blue-600 hover:bg-blue-700 text-white flex-shrink-0"
+            >
+              <CornerDownLeft className="w-4 h-4" />
+            </Button>
+          </form>
+          <p className="text-xs text-slate-500 mt-2">Press Enter to send the line, Ctrl+D to end input</p>
+          <div ref={bottomRef} />
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default ConsoleInput;
@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AlertTriangle, ArrowDownToLine, ArrowUpFromLine, Bug, CheckCircle, Play, Redo, StepBack, XCircle
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { DebugStep, DebugVariable, ExecutionResult } from '../../types/runner';
+import { Breakpoints, DebugCommand, findNextStep } from '../../services/runners/debugStepping';
+
+interface DebugPanelProps {
+  result: ExecutionResult | null;
+  isRunning: boolean;
+  breakpoints: Breakpoints;
+  onStart: () => void;
+  onLocationChange?: (location: { file: string; line: number } | null) => void; // where the program is paused
+}
+
+const toolbarButtonClass =
+  'bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white hover:border-slate-500';
+
+const VariableList: React.FC<{ title: string; variables: DebugVariable[] }> = ({ title, variables }) => (
+  <div className="mb-3">
+    <div className="text-xs uppercase tracking-wide text-slate-500 mb-1">{title}</div>
+    {variables.length === 0 ? (
+      <p className="text-sm text-slate-500">No variables</p>
+    ) : (
+      <ul className="space-y-0.5">
+        {variables.map(variable => (
+          <li key={variable.name} className="flex gap-2 text-sm font-mono">
+            <span className="text-blue-300 flex-shrink-0">{variable.name}</span>
+            <span className="text-slate-500 flex-shrink-0">{variable.type}</span>
+            <span className="text-slate-200 break-all">{variable.value}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+// Steps through a recorded debug run of the program
+const DebugPanel: React.FC<DebugPanelProps> = ({ result, isRunning, breakpoints, onStart, onLocationChange }) => {
+  const steps = result?.debugTrace?.steps;
+  const truncated = !!result?.debugTrace?.truncated;
+  const [current, setCurrent] = useState(0);
+  const [selectedFrame, setSelectedFrame] = useState(0);
+
+  // Breakpoints toggled after a run only affect the following commands
+  const breakpointsRef = useRef(breakpoints);
+  breakpointsRef.current = breakpoints;
+
+  // A new run pauses at the first breakpoint it hit, or on its first line
+  useEffect(() => {
+    if (steps) {
+      const firstBreakpoint = findNextStep(steps, -1, 'continue', breakpointsRef.current);
+      setCurrent(firstBreakpoint < steps.length ? firstBreakpoint : 0);
+      setSelectedFrame(0);
+    }
+  }, [steps]);
+
+  const step: DebugStep | null = steps && current < steps.length ? steps[current] : null;
+  const finished = !!steps && !step;
+  const frames = step ? [...step.stack].reverse() : []; // innermost first
+  const frame = frames[Math.min(selectedFrame, frames.length - 1)];
+
+  const onLocationChangeRef = useRef(onLocationChange);
+  onLocationChangeRef.current = onLocationChange;
+
+  const pausedFile = frame?.file;
+  const pausedLine = frame?.line;
+  useEffect(() => {
+    onLocationChangeRef.current?.(pausedFile && pausedLine ? { file: pausedFile, line: pausedLine } : null);
+  }, [pausedFile, pausedLine]);
+
+  useEffect(() => () => onLocationChangeRef.current?.(null), []);
+
+  const runCommand = useCallback((command: DebugCommand) => {
+    if (!steps) return;
+    setCurrent(findNextStep(steps, current, command, breakpoints));
+    setSelectedFrame(0);
+  }, [steps, current, breakpoints]);
+
+  if (isRunning) {
+    return (
+      <Card className="p-4 bg-slate-900/50 border-slate-800 h-full">
+        <div className="flex items-center justify-center h-full">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400 mx-auto mb-4"></div>
+            <p className="text-slate-300">Recording program run...</p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  if (!steps) {
+    return (
+      <Card className="p-4 bg-slate-900/50 border-slate-800 h-full">
+        <div className="flex items-center justify-center h-full">
+          <div className="text-center text-slate-400">
+            <Bug className="w-10 h-10 mx-auto mb-4" />
+            <p className="text-lg">Ready to debug</p>
+            <p className="text-sm mt-2">
+              Click in the editor gutter to set breakpoints, then start debugging to step through your program.
+            </p>
+            <Button onClick={onStart} variant="outline" className={`mt-4 ${toolbarButtonClass}`}>
+              <Bug className="w-4 h-4 mr-2" />
+              Start Debugging
+            </Button>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  const output = step ? (result?.output || '').slice(0, step.outputLength) : result?.output || '';
+
+  return (
+    <Card className="p-4 bg-slate-900/50 border-slate-800 h-full flex flex-col">
+      <div className="flex items-center gap-1 mb-3 flex-shrink-0 flex-wrap">
+        <Button size="sm" variant="outline" onClick={onStart} className={toolbarButtonClass} title="Restart">
+          <Bug className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => runCommand('continue')} disabled={finished} className={toolbarButtonClass} title="Continue">
+          <Play className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => runCommand('stepOver')} disabled={finished} className={toolbarButtonClass} title="Step Over">
+          <Redo className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => runCommand('stepInto')} disabled={finished} className={toolbarButtonClass} title="Step Into">
+          <ArrowDownToLine className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => runCommand('stepOut')} disabled={finished} className={toolbarButtonClass} title="Step Out">
+          <ArrowUpFromLine className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => runCommand('stepBack')} disabled={current === 0} className={toolbarButtonClass} title="Step Back">
+          <StepBack className="w-4 h-4" />
+        </Button>
+        <span className="ml-2 text-sm text-slate-400">
+          {step
+            ? `Paused at ${step.file}:${step.line} (step ${current + 1} of ${steps.length})`
+            : truncated ? 'Recording limit reached' : 'Program finished'}
+        </span>
+      </div>
+
+      <div
+        className="flex-1 overflow-y-auto min-h-0 pr-2 custom-scrollbar"
+        style={{ maxHeight: 'calc(100vh - 400px)' }}
+      >
+        {truncated && (
+          <p className="mb-3 p-2 text-sm text-yellow-200 bg-yellow-900/20 border border-yellow-500/30 rounded">
+            Only the first {result?.debugTrace?.stepLimit} lines were recorded, so breakpoints the program
+            reached after that can't be stopped at. Try a smaller input, or debug the part you are
+            interested in on its own.
+          </p>
+        )}
+
+        {step?.exception && (
+          <pre className="mb-3 p-2 text-sm text-red-200 bg-red-900/20 border border-red-500/30 rounded whitespace-pre-wrap break-words">
+            {step.exception}
+          </pre>
+        )}
+
+        {finished && (
+          <div className="mb-3 flex items-center gap-2 text-sm">
+            {truncated ? (
+              <>
+                <AlertTriangle className="w-4 h-4 text-yellow-400" />
+                <span className="text-slate-300">
+                  This is the end of the recording. The program went on and {result?.success ? 'completed' : 'failed'},
+                  with the output below.
+                </span>
+              </>
+            ) : result?.success ? (
+              <>
+                <CheckCircle className="w-4 h-4 text-green-400" />
+                <span className="text-slate-300">Completed in {result.executionTime}ms</span>
+              </>
+            ) : (
+              <>
+                <XCircle className="w-4 h-4 text-red-400" />
+                <pre className="text-red-200 whitespace-pre-wrap break-words">{result?.error || 'Execution failed'}</pre>
+              </>
+            )}
+          </div>
+        )}
+
+        {step && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-3">
+            <div>
+              <div className="text-xs uppercase tracking-wide text-slate-500 mb-1">Call Stack</div>
+              <ul>
+                {frames.map((item, index) => (
+                  <li key={index}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedFrame(index)}
+                      className={`w-full text-left px-2 py-0.5 rounded text-sm font-mono ${
+                        item === frame ? 'bg-slate-800 text-white' : 'text-slate-300 hover:text-white'
+                      }`}
+                    >
+                      {item.name}
+                      <span className="text-slate-500"> {item.file}:{item.line}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              {frame && frame.name !== '<module>' && (
+                <VariableList title="Locals" variables={frame.locals} />
+              )}
+              <VariableList title="Globals" variables={step.globals} />
+            </div>
+          </div>
+        )}
+
+        {output && (
+          <div>
+            <div className="text-xs uppercase tracking-wide text-slate-500 mb-1">Output</div>
+            <pre className="text-sm text-slate-300 whitespace-pre-wrap break-words">{output}</pre>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default DebugPanel;
@@ -0,0 +1,141 @@
+import React from 'react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import { Columns2, FileText, Pin, PinOff, X } from 'lucide-react';
+import { EditorTab } from '../../services/editorLayoutService';
+import { labWorkspaceService } from '../../services/labWorkspaceService';
+
+interface EditorTabsProps {
+  tabs: EditorTab[];
+  activePath: string | null; // file in the active pane
+  visiblePaths: Array<string | null>; // files shown in any pane
+  modifiedPaths: Set<string>;
+  onSelect: (path: string) => void;
+  onClose: (path: string) => void;
+  onCloseOthers: (path: string) => void;
+  onCloseAll: () => void;
+  onTogglePin: (path: string) => void;
+  onOpenToSide: (path: string) => void;
+}
+
+const MENU_ITEM_CLASS = 'text-slate-300 hover:bg-slate-700 hover:text-white focus:bg-slate-700 focus:text-white';
+
+// Tabs of the files open in the editor, with a context menu for closing, pinning and splitting
+const EditorTabs: React.FC<EditorTabsProps> = ({
+  tabs,
+  activePath,
+  visiblePaths,
+  modifiedPaths,
+  onSelect,
+  onClose,
+  onCloseOthers,
+  onCloseAll,
+  onTogglePin,
+  onOpenToSide
+}) => {
+  if (tabs.length === 0) return null;
+
+  // Files with the same name get their folder next to it
+  const names = tabs.map(tab => labWorkspaceService.getName(tab.path));
+  const isDuplicate = (name: string) => names.filter(item => item === name).length > 1;
+
+  return (
+    <div className="flex items-end gap-1 overflow-x-auto custom-scrollbar border-b border-slate-800 mb-2">
+      {tabs.map(tab => {
+        const name = labWorkspaceService.getName(tab.path);
+        const folder = labWorkspaceService.getParent(tab.path);
+        const isActive = tab.path === activePath;
+        const isVisible = visiblePaths.includes(tab.path);
+        const isModified = modifiedPaths.has(tab.path);
+
+        return (
+          <ContextMenu key={tab.path}>
+            <ContextMenuTrigger asChild>
+              <div
+                className={`group flex items-center gap-2 pl-3 pr-1 py-1.5 rounded-t-md border-b-2 text-sm whitespace-nowrap cursor-pointer flex-shrink-0 ${
+                  isActive
+                    ? 'bg-slate-800 border-blue-500 text-white'
+                    : isVisible
+                      ? 'bg-slate-800/60 border-slate-600 text-slate-200'
+                      : 'border-transparent text-slate-400 hover:bg-slate-800/60 hover:text-slate-200'
+                }`}
+                title={tab.path}
+                onClick={() => onSelect(tab.path)}
+                onAuxClick={event => {
+                  // Middle click closes, as in most editors
+                  if (event.button === 1) {
+                    event.preventDefault();
+                    onClose(tab.path);
+                  }
+                }}
+              >
+                <FileText className="w-3.5 h-3.5 text-slate-400 flex-shrink-0" />
+                <span>{name}</span>
+                {folder && isDuplicate(name) && <span className="text-xs text-slate-500">{folder}</span>}
+                {tab.pinned ? (
+                  <button
+                    type="button"
+                    onClick={event => {
+                      event.stopPropagation();
+                      onTogglePin(tab.path);
+                    }}
+                    className="p-0.5 rounded hover:bg-slate-600"
+                    title="Unpin"
+                  >
+                    <Pin className={`w-3.5 h-3.5 ${isModified ? 'text-yellow-400' : 'text-slate-400'}`} />
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={event => {
+                      event.stopPropagation();
+                      onClose(tab.path);
+                    }}
+                    className="relative p-0.5 rounded hover:bg-slate-600 w-5 h-5 flex items-center justify-center"
+                    title={isModified ? 'Close (unsaved edits are kept)' : 'Close'}
+                  >
+                    {/* Modified files show a dot that turns into the close button on hover */}
+                    {isModified && <span className="w-2 h-2 bg-yellow-400 rounded-full group-hover:hidden" />}
+                    <X
+                      className={`w-3.5 h-3.5 ${
+                        isModified ? 'hidden group-hover:block' : isActive ? '' : 'opacity-0 group-hover:opacity-100'
+                      }`}
+                    />
+                  </button>
+                )}
+              </div>
+            </ContextMenuTrigger>
+            <ContextMenuContent className="bg-slate-900 border-slate-700">
+              <ContextMenuItem onClick={() => onClose(tab.path)} className={MENU_ITEM_CLASS}>
+                <X className="w-4 h-4 mr-2" />
+                Close
+              </ContextMenuItem>
+              <ContextMenuItem onClick={() => onCloseOthers(tab.path)} className={MENU_ITEM_CLASS}>
+                Close Others
+              </ContextMenuItem>
+              <ContextMenuItem onClick={onCloseAll} className={MENU_ITEM_CLASS}>
+                Close All
+              </ContextMenuItem>
+              <ContextMenuSeparator className="bg-slate-700" />
+              <ContextMenuItem onClick={() => onTogglePin(tab.path)} className={MENU_ITEM_CLASS}>
+                {tab.pinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                {tab.pinned ? 'Unpin' : 'Pin'}
+              </ContextMenuItem>
+              <ContextMenuItem onClick={() => onOpenToSide(tab.path)} className={MENU_ITEM_CLASS}>
+                <Columns2 className="w-4 h-4 mr-2" />
+                Open to the Side
+              </ContextMenuItem>
+            </ContextMenuContent>
+          </ContextMenu>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EditorTabs;
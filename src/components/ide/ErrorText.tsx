@@ -0,0 +1,43 @@
+import React, { useMemo } from 'react';
+import { findErrorLocations } from '../../services/runners/errorLocations';
+import { EditorLocation } from './MonacoEditor';
+
+interface ErrorTextProps {
+  text: string;
+  knownFiles: string[];
+  onNavigate?: (location: EditorLocation) => void;
+  className?: string;
+}
+
+// Error output with lab file positions rendered as links into the editor
+const ErrorText: React.FC<ErrorTextProps> = ({ text, knownFiles, onNavigate, className = '' }) => {
+  const parts = useMemo(() => {
+    if (!onNavigate) {
+      return [text];
+    }
+
+    const result: React.ReactNode[] = [];
+    let position = 0;
+    findErrorLocations(text, knownFiles).forEach((location, index) => {
+      result.push(text.slice(position, location.index));
+      result.push(
+        <button
+          key={index}
+          type="button"
+          onClick={() => onNavigate({ file: location.file, line: location.line, column: location.column })}
+          className="underline decoration-dotted hover:text-white"
+          title={`Go to ${location.file}:${location.line}`}
+        >
+          {text.slice(location.index, location.index + location.length)}
+        </button>
+      );
+      position = location.index + location.length;
+    });
+    result.push(text.slice(position));
+    return result;
+  }, [text, knownFiles, onNavigate]);
+
+  return <pre className={`whitespace-pre-wrap break-words ${className}`}>{parts}</pre>;
+};
+
+export default ErrorText;
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface FilePathDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  description: string;
+  initialValue: string;
+  submitLabel: string;
+  onSubmit: (value: string) => string | null; // returns an error message to keep the dialog open
+}
+
+// Asks for a file or folder name when creating, renaming or moving workspace files
+const FilePathDialog: React.FC<FilePathDialogProps> = ({
+  isOpen,
+  onClose,
+  title,
+  description,
+  initialValue,
+  submitLabel,
+  onSubmit
+}) => {
+  const [value, setValue] = useState(initialValue);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setValue(initialValue);
+      setError(null);
+    }
+  }, [isOpen, initialValue]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const message = onSubmit(value);
+    if (message) {
+      setError(message);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[450px] bg-slate-900 border-slate-700">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="text-white">{title}</DialogTitle>
+            <DialogDescription className="text-slate-300">{description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            <Input
+              value={value}
+              onChange={event => {
+                setValue(event.target.value);
+                setError(null);
+              }}
+              autoFocus
+              spellCheck={false}
+              className="bg-slate-950/60 border-slate-700 text-slate-200 font-mono"
+            />
+            {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white">
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FilePathDialog;
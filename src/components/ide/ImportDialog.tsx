@@ -0,0 +1,239 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { FileUp, FolderUp, Upload } from 'lucide-react';
+import { LabFile } from '../../types/lab';
+import { ImportItem, ImportItemStatus, ImportPlan, ImportTooLargeError, labImportService } from '../../services/labImportService';
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  files: LabFile[]; // current workspace tree with the learner's content applied
+  onImport: (items: ImportItem[]) => void; // the overwritten and added files the learner kept selected
+}
+
+const STATUS_STYLES: Record<ImportItemStatus, string> = {
+  overwrite: 'text-yellow-400 border-yellow-500/50 bg-yellow-900/20',
+  add: 'text-green-400 border-green-500/50 bg-green-900/20',
+  unchanged: 'text-slate-400 border-slate-600 bg-slate-800/50',
+  skipped: 'text-red-400 border-red-500/50 bg-red-900/20'
+};
+
+const STATUS_LABELS: Record<ImportItemStatus, string> = {
+  overwrite: 'Overwrite',
+  add: 'Add',
+  unchanged: 'Unchanged',
+  skipped: 'Skipped'
+};
+
+// Brings files from a zip, a folder or single files into the workspace after a preview
+const ImportDialog: React.FC<ImportDialogProps> = ({ isOpen, onClose, files, onImport }) => {
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [unreadable, setUnreadable] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPlan(null);
+      setUnreadable([]);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const readFiles = async (load: () => Promise<Array<{ file: File; path: string }>>) => {
+    setIsReading(true);
+    setError(null);
+    try {
+      const result = await labImportService.readFiles(await load());
+      if (result.files.length === 0) {
+        setError('No text files were found to import.');
+        setPlan(null);
+      } else {
+        const newPlan = labImportService.planImport(result.files, files);
+        setPlan(newPlan);
+        setSelected(new Set(newPlan.items
+          .filter(item => item.status === 'overwrite' || item.status === 'add')
+          .map(item => item.path)));
+      }
+      setUnreadable(result.skipped);
+    } catch (error) {
+      console.warn('Failed to read imported files:', error);
+      setError(error instanceof ImportTooLargeError
+        ? error.message
+        : 'These files could not be read. Zips must be valid and unencrypted.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (picked.length > 0) {
+      readFiles(async () => picked.map(file => ({ file, path: file.webkitRelativePath || file.name })));
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    // The item list is only readable during the event, so the entries are taken right away
+    const entries = labImportService.readDroppedItems(event.dataTransfer.items);
+    readFiles(() => entries);
+  };
+
+  const toggleItem = (path: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const importable = plan?.items.filter(item => selected.has(item.path)) || [];
+  const counts = (plan?.items || []).reduce(
+    (result, item) => ({ ...result, [item.status]: result[item.status] + 1 }),
+    { overwrite: 0, add: 0, unchanged: 0, skipped: 0 } as Record<ImportItemStatus, number>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[650px] bg-slate-900 border-slate-700 max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white">
+            <Upload className="w-5 h-5 text-blue-400" />
+            Import Files
+          </DialogTitle>
+          <DialogDescription className="text-slate-300">
+            Continue work from a local editor. Imported files become unsaved changes you can review before saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          onDragOver={event => {
+            event.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`rounded-lg border-2 border-dashed p-6 text-center transition-colors ${
+            isDragging ? 'border-blue-500 bg-blue-900/20' : 'border-slate-700 bg-slate-950/40'
+          }`}
+        >
+          <p className="text-sm text-slate-300 mb-3">Drop a zip, a folder or files here</p>
+          <div className="flex justify-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isReading}
+              className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+            >
+              <FileUp className="w-4 h-4 mr-2" />
+              Choose Files or Zip
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => folderInputRef.current?.click()}
+              disabled={isReading}
+              className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+            >
+              <FolderUp className="w-4 h-4 mr-2" />
+              Choose Folder
+            </Button>
+          </div>
+          <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleInputChange} />
+          <input
+            ref={folderInputRef}
+            type="file"
+            className="hidden"
+            onChange={handleInputChange}
+            {...{ webkitdirectory: '', directory: '' }}
+          />
+        </div>
+
+        {isReading && <p className="text-sm text-slate-400">Reading files...</p>}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {plan && (
+          <div className="flex-1 overflow-y-auto min-h-0 pr-2 custom-scrollbar">
+            <p className="text-sm text-slate-400 mb-2">
+              {counts.overwrite} to overwrite, {counts.add} to add
+              {counts.unchanged > 0 && `, ${counts.unchanged} unchanged`}
+              {counts.skipped + unreadable.length > 0 && `, ${counts.skipped + unreadable.length} skipped`}
+              {plan.stripped && ` (inside ${plan.stripped}/)`}
+            </p>
+            <ul className="space-y-1">
+              {plan.items.map(item => {
+                const canImport = item.status === 'overwrite' || item.status === 'add';
+                return (
+                  <li key={item.path} className="flex items-center gap-2 bg-slate-800/50 rounded-lg px-3 py-2">
+                    <Checkbox
+                      checked={selected.has(item.path)}
+                      onCheckedChange={() => toggleItem(item.path)}
+                      disabled={!canImport}
+                      className="border-slate-600"
+                    />
+                    <Badge variant="outline" className={`text-xs ${STATUS_STYLES[item.status]}`}>
+                      {STATUS_LABELS[item.status]}
+                    </Badge>
+                    <span className="text-sm text-slate-200 font-mono truncate">{item.path}</span>
+                    {item.reason && <span className="ml-auto text-xs text-slate-500 flex-shrink-0">{item.reason}</span>}
+                  </li>
+                );
+              })}
+              {unreadable.map(path => (
+                <li key={`unreadable-${path}`} className="flex items-center gap-2 bg-slate-800/50 rounded-lg px-3 py-2">
+                  <Checkbox checked={false} disabled className="border-slate-600" />
+                  <Badge variant="outline" className={`text-xs ${STATUS_STYLES.skipped}`}>
+                    {STATUS_LABELS.skipped}
+                  </Badge>
+                  <span className="text-sm text-slate-200 font-mono truncate">{path}</span>
+                  <span className="ml-auto text-xs text-slate-500 flex-shrink-0">Binary or too large</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onImport(importable)}
+            disabled={importable.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            Import {importable.length > 0 && `${importable.length} File${importable.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
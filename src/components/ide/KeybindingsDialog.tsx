@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Keyboard, X } from 'lucide-react';
+import { IDE_COMMANDS, IdeCommandId, Keybindings, keybindingService } from '../../services/keybindingService';
+
+interface KeybindingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  keybindings: Keybindings;
+}
+
+// Cheat sheet of the IDE's keyboard shortcuts, where each one can be changed or removed
+const KeybindingsDialog: React.FC<KeybindingsDialogProps> = ({ isOpen, onClose, keybindings }) => {
+  const [recording, setRecording] = useState<IdeCommandId | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setRecording(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const updateKeybinding = (id: IdeCommandId, keys: string | null) => {
+    try {
+      keybindingService.setKeybinding(id, keys);
+      setRecording(null);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'These keys can\'t be used');
+    }
+  };
+
+  const handleRecordKeyDown = (event: React.KeyboardEvent, id: IdeCommandId) => {
+    event.preventDefault();
+    event.stopPropagation();
+    // The dialog already turned Esc into a cancel
+    if (event.code === 'Escape') return;
+    const keys = keybindingService.fromEvent(event);
+    if (keys) {
+      updateKeybinding(id, keys);
+    }
+  };
+
+  const groups = Array.from(new Set(IDE_COMMANDS.map(command => command.group)));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent
+        className="sm:max-w-[600px] bg-slate-900 border-slate-700 max-h-[85vh] flex flex-col"
+        onEscapeKeyDown={event => {
+          // Esc while recording only cancels the recording
+          if (recording) {
+            event.preventDefault();
+            setRecording(null);
+            setError(null);
+          }
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white">
+            <Keyboard className="w-5 h-5 text-blue-400" />
+            Keyboard Shortcuts
+          </DialogTitle>
+          <DialogDescription className="text-slate-300">
+            Click a shortcut to change it, then press the new keys. Esc cancels.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto min-h-0 pr-2 custom-scrollbar space-y-4">
+          {groups.map(group => (
+            <div key={group}>
+              <h4 className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-2">{group}</h4>
+              <ul className="space-y-1">
+                {IDE_COMMANDS.filter(command => command.group === group).map(command => {
+                  const keys = keybindings[command.id];
+                  const isRecording = recording === command.id;
+                  return (
+                    <li key={command.id} className="flex items-center gap-2 bg-slate-800/50 rounded-lg px-3 py-2">
+                      <span className="text-sm text-slate-200 flex-1">{command.label}</span>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setRecording(command.id);
+                          setError(null);
+                        }}
+                        onKeyDown={isRecording ? event => handleRecordKeyDown(event, command.id) : undefined}
+                        onBlur={() => isRecording && setRecording(null)}
+                        className={`min-w-[120px] px-2 py-1 rounded border text-xs font-mono ${
+                          isRecording
+                            ? 'border-blue-500 bg-blue-900/30 text-blue-200'
+                            : 'border-slate-600 bg-slate-900 text-slate-300 hover:border-slate-400'
+                        }`}
+                      >
+                        {isRecording ? 'Press keys...' : keys ? keybindingService.format(keys) : 'Not set'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateKeybinding(command.id, null)}
+                        disabled={!keys}
+                        className="text-slate-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-slate-500"
+                        title="Remove shortcut"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              keybindingService.resetKeybindings();
+              setError(null);
+            }}
+            className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+          >
+            Reset to Defaults
+          </Button>
+          <Button onClick={onClose} className="bg-blue-600 hover:bg-blue-700 text-white">
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeybindingsDialog;
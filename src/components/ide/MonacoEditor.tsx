@@ -1,15 +1,85 @@
-import React, { useRef } from 'react';
-import Editor from '@monaco-editor/react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import Editor, { DiffEditor } from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
 import { LabFile } from '../../types/lab';
+import { CodeDiagnostic } from '../../types/runner';
+import { keybindingService } from '../../services/keybindingService';
+import { formatService } from '../../services/formatService';
+import { LintRules, lintService } from '../../services/lintService';
+
+export interface EditorLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+// An IDE command the editor runs itself when its keys are pressed while it has focus
+export interface EditorCommand {
+  id: string;
+  label: string;
+  keys: string | null;
+  run: () => void;
+}
+
+export interface MonacoEditorHandle {
+  format: () => Promise<void>; // rejects when the file can't be formatted, e.g. because of syntax errors
+}
 
 interface MonacoEditorProps {
   file: LabFile | null;
   onContentChange: (content: string) => void;
   readOnly?: boolean;
   language?: string;
+  markers?: CodeDiagnostic[]; // problems from the last run in this file
+  revealLocation?: EditorLocation | null; // moves the cursor there once this file is open
+  breakpoints?: number[]; // debugger breakpoint lines in this file
+  onToggleBreakpoint?: (line: number) => void;
+  debugLine?: number | null; // line the debugger is paused on in this file
+  diffOriginal?: string | null; // shows a read-only diff of the file against this content instead of the editor
+  commands?: EditorCommand[];
+  lintRules?: LintRules | null; // lint the open file with these rules; no linting when unset
+  viewState?: editor.ICodeEditorViewState | null; // where the learner left off in this file, restored when it opens
+  onViewStateChange?: (path: string, viewState: editor.ICodeEditorViewState) => void;
+  onFocus?: () => void;
 }
 
+// Owner of the markers set from run results, separate from Monaco's own language markers
+const RUN_MARKER_OWNER = 'labdojo-run';
+const LINT_MARKER_OWNER = 'labdojo-lint';
+
+// Wait for typing to pause before linting
+const LINT_DELAY = 600;
+// Cursor and scroll changes are reported once they settle
+const VIEW_STATE_DELAY = 500;
+
+// Markers for problems on lines the model has, underlining the word at each location
+const createMarkers = (
+  monaco: typeof import('monaco-editor'),
+  model: editor.ITextModel,
+  diagnostics: CodeDiagnostic[]
+): editor.IMarkerData[] => {
+  const severities = {
+    error: monaco.MarkerSeverity.Error,
+    warning: monaco.MarkerSeverity.Warning,
+    info: monaco.MarkerSeverity.Info
+  };
+  const lineCount = model.getLineCount();
+  return diagnostics.filter(diagnostic => diagnostic.line <= lineCount).map(diagnostic => {
+    const column = Math.min(diagnostic.column, model.getLineMaxColumn(diagnostic.line));
+    const word = model.getWordAtPosition({ lineNumber: diagnostic.line, column });
+    return {
+      severity: severities[diagnostic.severity],
+      message: diagnostic.message,
+      source: diagnostic.source,
+      code: diagnostic.code !== undefined ? String(diagnostic.code) : undefined,
+      startLineNumber: diagnostic.line,
+      startColumn: word ? word.startColumn : column,
+      endLineNumber: diagnostic.line,
+      endColumn: word ? word.endColumn : model.getLineMaxColumn(diagnostic.line)
+    };
+  });
+};
+
 // Language mappings for file extensions
 const LANGUAGE_MAP: { [key: string]: string } = {
   '.js': 'javascript',
@@ -39,13 +109,191 @@ const LANGUAGE_MAP: { [key: string]: string } = {
   '.txt': 'plaintext',
 };
 
-const MonacoEditor: React.FC<MonacoEditorProps> = ({
+const MonacoEditor = forwardRef<MonacoEditorHandle, MonacoEditorProps>(({
   file,
   onContentChange,
   readOnly = false,
-  language
-}) => {
+  language,
+  markers,
+  revealLocation,
+  breakpoints,
+  onToggleBreakpoint,
+  debugLine,
+  diffOriginal,
+  commands,
+  lintRules,
+  viewState,
+  onViewStateChange,
+  onFocus
+}, ref) => {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const [monacoInstance, setMonacoInstance] = useState<typeof import('monaco-editor') | null>(null);
+  const glyphsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const debugDecorationsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const onToggleBreakpointRef = useRef(onToggleBreakpoint);
+  onToggleBreakpointRef.current = onToggleBreakpoint;
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
+  const viewStateRef = useRef(viewState);
+  viewStateRef.current = viewState;
+  const onViewStateChangeRef = useRef(onViewStateChange);
+  onViewStateChangeRef.current = onViewStateChange;
+  const onFocusRef = useRef(onFocus);
+  onFocusRef.current = onFocus;
+
+  useImperativeHandle(ref, () => ({
+    format: async () => {
+      const editorInstance = editorRef.current;
+      const model = editorInstance?.getModel();
+      if (!editorInstance || !model || !file || readOnly) return;
+
+      if (!formatService.canFormat(file.path)) {
+        await editorInstance.getAction('editor.action.formatDocument')?.run();
+        return;
+      }
+
+      const content = model.getValue();
+      const formatted = await formatService.format(file.path, content);
+      if (formatted !== content && !model.isDisposed()) {
+        // One undoable edit, so Ctrl+Z brings back the unformatted code
+        editorInstance.pushUndoStop();
+        editorInstance.executeEdits('format', [{ range: model.getFullModelRange(), text: formatted }]);
+        editorInstance.pushUndoStop();
+      }
+    }
+  }), [file, readOnly]);
+
+  // Lint problems as markers, kept apart from the ones the last run reported
+  const filePath = file?.path;
+  const fileContent = file?.content;
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!monacoInstance || !model || !filePath) return;
+    if (!lintRules) {
+      monacoInstance.editor.setModelMarkers(model, LINT_MARKER_OWNER, []);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      lintService.lint(filePath, fileContent || '', lintRules)
+        .catch(error => {
+          console.warn('Failed to lint file:', error);
+          return [];
+        })
+        .then(problems => {
+          if (!model.isDisposed()) {
+            monacoInstance.editor.setModelMarkers(model, LINT_MARKER_OWNER, createMarkers(monacoInstance, model, problems));
+          }
+        });
+    }, LINT_DELAY);
+    return () => clearTimeout(timer);
+  }, [monacoInstance, filePath, fileContent, lintRules]);
+
+  // Lint rules also hide the matching TypeScript diagnostics in JS and TS files
+  useEffect(() => {
+    if (!monacoInstance || !lintRules) return;
+    const diagnosticCodesToIgnore = lintService.getIgnoredTypeScriptCodes(lintRules);
+    [monacoInstance.languages.typescript.javascriptDefaults, monacoInstance.languages.typescript.typescriptDefaults]
+      .forEach(defaults => defaults.setDiagnosticsOptions({ ...defaults.getDiagnosticsOptions(), diagnosticCodesToIgnore }));
+  }, [monacoInstance, lintRules]);
+
+  // IDE commands become editor actions, so their keys win over the editor's own bindings while it has focus
+  const commandKeys = (commands || []).map(command => `${command.id}=${command.keys}`).join('|');
+  useEffect(() => {
+    const editorInstance = editorRef.current;
+    if (!monacoInstance || !editorInstance) return;
+
+    const actions = (commandsRef.current || []).map(command => {
+      const keybinding = command.keys ? keybindingService.toMonaco(command.keys, monacoInstance) : null;
+      return editorInstance.addAction({
+        id: `labdojo.${command.id}`,
+        label: command.label,
+        keybindings: keybinding !== null ? [keybinding] : [],
+        run: () => commandsRef.current?.find(item => item.id === command.id)?.run()
+      });
+    });
+    return () => actions.forEach(action => action.dispose());
+  }, [monacoInstance, commandKeys]);
+
+  // Show run problems as squiggles and gutter markers
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!monacoInstance || !model) return;
+
+    const fileMarkers = createMarkers(monacoInstance, model, markers || []);
+    monacoInstance.editor.setModelMarkers(model, RUN_MARKER_OWNER, fileMarkers);
+    glyphsRef.current?.clear();
+    glyphsRef.current = editorRef.current?.createDecorationsCollection(
+      fileMarkers
+        .filter(marker => marker.severity === monacoInstance.MarkerSeverity.Error)
+        .map(marker => ({
+          range: new monacoInstance.Range(marker.startLineNumber, 1, marker.startLineNumber, 1),
+          options: { glyphMarginClassName: 'monaco-error-glyph', glyphMarginHoverMessage: { value: marker.message } }
+        }))
+    ) || null;
+  }, [monacoInstance, markers, file?.path]);
+
+  // Bring back the cursor, selection, scroll and folds of each file as it opens, and report them as they change.
+  // The cleanup runs before the editor switches models, so it still captures the file being left.
+  useEffect(() => {
+    const editorInstance = editorRef.current;
+    const path = file?.path;
+    if (!monacoInstance || !editorInstance || !path) return;
+
+    if (viewStateRef.current) {
+      editorInstance.restoreViewState(viewStateRef.current);
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const report = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const state = editorInstance.saveViewState();
+        if (state) onViewStateChangeRef.current?.(path, state);
+      }, VIEW_STATE_DELAY);
+    };
+    // Folding changes the scroll height, so it is reported along with scrolling
+    const listeners = [editorInstance.onDidChangeCursorSelection(report), editorInstance.onDidScrollChange(report)];
+
+    return () => {
+      listeners.forEach(listener => listener.dispose());
+      clearTimeout(timer);
+      const state = editorInstance.getModel() ? editorInstance.saveViewState() : null;
+      if (state) onViewStateChangeRef.current?.(path, state);
+    };
+  }, [monacoInstance, file?.path]);
+
+  // Jump to a location picked in the output panel
+  useEffect(() => {
+    const editorInstance = editorRef.current;
+    if (!editorInstance || !revealLocation || revealLocation.file !== file?.path) return;
+
+    const position = { lineNumber: revealLocation.line, column: revealLocation.column };
+    editorInstance.setPosition(position);
+    editorInstance.revealPositionInCenter(position);
+    editorInstance.focus();
+  }, [revealLocation, monacoInstance, file?.path]);
+
+  // Show breakpoints in the gutter and highlight the line the debugger is paused on
+  useEffect(() => {
+    const editorInstance = editorRef.current;
+    if (!monacoInstance || !editorInstance) return;
+
+    const decorations: editor.IModelDeltaDecoration[] = (breakpoints || []).map(line => ({
+      range: new monacoInstance.Range(line, 1, line, 1),
+      options: { glyphMarginClassName: 'monaco-breakpoint-glyph', glyphMarginHoverMessage: { value: 'Breakpoint' } }
+    }));
+    if (debugLine) {
+      decorations.push({
+        range: new monacoInstance.Range(debugLine, 1, debugLine, 1),
+        options: { isWholeLine: true, className: 'monaco-debug-line' }
+      });
+      editorInstance.revealLineInCenterIfOutsideViewport(debugLine);
+    }
+
+    debugDecorationsRef.current?.clear();
+    debugDecorationsRef.current = editorInstance.createDecorationsCollection(decorations);
+  }, [monacoInstance, breakpoints, debugLine, file?.path]);
 
   // Determine language from file extension
   const getLanguage = (fileName: string): string => {
@@ -59,6 +307,16 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({
   const handleEditorDidMount = (editorInstance: editor.IStandaloneCodeEditor, monaco: typeof import('monaco-editor')) => {
     try {
       editorRef.current = editorInstance;
+      setMonacoInstance(monaco);
+
+      editorInstance.onDidFocusEditorText(() => onFocusRef.current?.());
+
+      // Clicking the glyph margin toggles a breakpoint on that line
+      editorInstance.onMouseDown(event => {
+        if (event.target.type === monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN && event.target.position) {
+          onToggleBreakpointRef.current?.(event.target.position.lineNumber);
+        }
+      });
 
       // Configure TypeScript/JavaScript language features for real IntelliSense
       const jsDefaults = monaco.languages.typescript.javascriptDefaults;
@@ -83,7 +341,10 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({
         allowNonTsExtensions: true,
         moduleResolution: monaco.languages.typescript.ModuleResolutionKind.NodeJs,
         module: monaco.languages.typescript.ModuleKind.CommonJS,
-        noEmit: true,
+        // Emit is used by the TypeScript runner; inline maps keep runtime errors on .ts lines
+        noEmit: false,
+        inlineSourceMap: true,
+        inlineSources: true,
         esModuleInterop: true,
         jsx: monaco.languages.typescript.JsxEmit.React,
         reactNamespace: 'React',
@@ -297,6 +558,7 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({
         wordBasedSuggestions: 'currentDocument',
         // Error and validation settings
         renderValidationDecorations: 'on',
+        glyphMargin: true,
         // Hover settings
         hover: {
           enabled: true,
@@ -344,70 +606,107 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({
     );
   }
 
+  const isDiffing = diffOriginal !== undefined && diffOriginal !== null;
+
   return (
     <div className="h-full rounded-lg overflow-hidden border border-slate-800">
-      <Editor
-        value={file.content || ''}
-        language={getLanguage(file.name)}
-        theme="labdojo-dark"
-        onChange={handleChange}
-        onMount={handleEditorDidMount}
-        options={{
-          readOnly,
-          minimap: { enabled: true, maxColumn: 120 },
-          scrollBeyondLastLine: false,
-          automaticLayout: true,
-          wordWrap: 'on',
-          fontSize: 14,
-          lineHeight: 20,
-          fontFamily: 'Monaco, Menlo, "Ubuntu Mono", monospace',
-          tabSize: 2,
-          insertSpaces: true,
-          bracketPairColorization: { enabled: true },
-          guides: {
-            bracketPairs: true,
-            indentation: true,
-          },
-          // Enhanced IntelliSense and validation
-          quickSuggestions: {
-            other: true,
-            comments: false,
-            strings: false
-          },
-          parameterHints: {
-            enabled: true,
-            cycle: true
-          },
-          suggestOnTriggerCharacters: true,
-          acceptSuggestionOnEnter: 'on',
-          snippetSuggestions: 'top',
-          wordBasedSuggestions: 'currentDocument',
-          renderValidationDecorations: 'on',
-          hover: {
-            enabled: true,
-            delay: 300
-          },
-          formatOnPaste: true,
-          formatOnType: true,
-          folding: true,
-          foldingStrategy: 'indentation',
-          showFoldingControls: 'always',
-          matchBrackets: 'always',
-          autoIndent: 'advanced',
-          cursorSmoothCaretAnimation: 'explicit',
-          smoothScrolling: true,
-        }}
-        loading={
-          <div className="h-full flex items-center justify-center bg-slate-950">
-            <div className="text-center text-slate-400">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400 mx-auto mb-4"></div>
-              <p>Loading editor...</p>
+      {/* The editor stays mounted behind the diff so its setup and view state survive */}
+      <div className={isDiffing ? 'hidden' : 'h-full'}>
+        <Editor
+          // Model per lab path, shared with the TypeScript runner for cross-file checks and with the
+          // other pane of a split, so it has to outlive this editor
+          path={file.path}
+          keepCurrentModel
+          value={file.content || ''}
+          language={getLanguage(file.name)}
+          theme="labdojo-dark"
+          onChange={handleChange}
+          onMount={handleEditorDidMount}
+          options={{
+            readOnly,
+            minimap: { enabled: true, maxColumn: 120 },
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            wordWrap: 'on',
+            fontSize: 14,
+            lineHeight: 20,
+            fontFamily: 'Monaco, Menlo, "Ubuntu Mono", monospace',
+            tabSize: 2,
+            insertSpaces: true,
+            bracketPairColorization: { enabled: true },
+            guides: {
+              bracketPairs: true,
+              indentation: true,
+            },
+            // Enhanced IntelliSense and validation
+            quickSuggestions: {
+              other: true,
+              comments: false,
+              strings: false
+            },
+            parameterHints: {
+              enabled: true,
+              cycle: true
+            },
+            suggestOnTriggerCharacters: true,
+            acceptSuggestionOnEnter: 'on',
+            snippetSuggestions: 'top',
+            wordBasedSuggestions: 'currentDocument',
+            renderValidationDecorations: 'on',
+            hover: {
+              enabled: true,
+              delay: 300
+            },
+            formatOnPaste: true,
+            formatOnType: true,
+            folding: true,
+            foldingStrategy: 'indentation',
+            showFoldingControls: 'always',
+            matchBrackets: 'always',
+            autoIndent: 'advanced',
+            cursorSmoothCaretAnimation: 'explicit',
+            smoothScrolling: true,
+          }}
+          loading={
+            <div className="h-full flex items-center justify-center bg-slate-950">
+              <div className="text-center text-slate-400">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400 mx-auto mb-4"></div>
+                <p>Loading editor...</p>
+              </div>
             </div>
-          </div>
-        }
-      />
+          }
+        />
+      </div>
+      {isDiffing && (
+        <DiffEditor
+          // Fresh models per file so the diff never shows another file's content
+          key={file.path}
+          original={diffOriginal}
+          modified={file.content || ''}
+          language={getLanguage(file.name)}
+          theme="labdojo-dark"
+          options={{
+            readOnly: true,
+            originalEditable: false,
+            renderSideBySide: true,
+            minimap: { enabled: false },
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            fontSize: 14,
+            lineHeight: 20,
+            fontFamily: 'Monaco, Menlo, "Ubuntu Mono", monospace',
+          }}
+          loading={
+            <div className="h-full flex items-center justify-center bg-slate-950">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400"></div>
+            </div>
+          }
+        />
+      )}
     </div>
   );
-};
+});
+
+MonacoEditor.displayName = 'MonacoEditor';
 
 export default MonacoEditor;
\ No newline at end of file
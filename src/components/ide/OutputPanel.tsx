@@ -1,15 +1,34 @@
 import React from 'react';
-import { ExecutionResult } from '../../types/runner';
+import { ExecutionResult, InputRequest } from '../../types/runner';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, XCircle, Clock, Activity } from 'lucide-react';
+import ConsoleInput from './ConsoleInput';
+import RichOutput from './RichOutput';
+import ErrorText from './ErrorText';
+import { EditorLocation } from './MonacoEditor';
+import { CheckCircle, XCircle, Clock, Activity, AlertTriangle, Info } from 'lucide-react';
 
 interface OutputPanelProps {
   result: ExecutionResult | null;
   isRunning: boolean;
+  inputRequest?: InputRequest | null;
+  onSubmitInput?: (value: string | null) => void;
+  knownFiles?: string[];
+  onNavigate?: (location: EditorLocation) => void;
 }
 
-const OutputPanel: React.FC<OutputPanelProps> = ({ result, isRunning }) => {
+const OutputPanel: React.FC<OutputPanelProps> = ({
+  result,
+  isRunning,
+  inputRequest,
+  onSubmitInput,
+  knownFiles = [],
+  onNavigate
+}) => {
+  if (isRunning && inputRequest && onSubmitInput) {
+    return <ConsoleInput request={inputRequest} onSubmit={onSubmitInput} />;
+  }
+
   if (isRunning) {
     return (
       <Card className="p-4 bg-slate-900/50 border-slate-800 h-full">
@@ -71,26 +90,78 @@ const OutputPanel: React.FC<OutputPanelProps> = ({ result, isRunning }) => {
         className="flex-1 overflow-y-auto min-h-0 pr-2 custom-scrollbar" 
         style={{ maxHeight: 'calc(100vh - 400px)' }}
       >
+        {result.diagnostics && result.diagnostics.length > 0 && (
+          <div className="mb-4 p-3 bg-slate-900/50 border border-yellow-500/30 rounded-lg">
+            <div className="flex items-center gap-2 mb-2">
+              <AlertTriangle className="w-4 h-4 text-yellow-400" />
+              <span className="text-yellow-300 font-medium">Problems</span>
+              <Badge variant="outline" className="text-xs text-slate-400 border-slate-600">
+                {result.diagnostics.length}
+              </Badge>
+            </div>
+            <ul className="space-y-1">
+              {result.diagnostics.map((diagnostic, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm font-mono">
+                  {diagnostic.severity === 'error' ? (
+                    <XCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+                  ) : diagnostic.severity === 'warning' ? (
+                    <AlertTriangle className="w-4 h-4 text-yellow-400 flex-shrink-0 mt-0.5" />
+                  ) : (
+                    <Info className="w-4 h-4 text-blue-400 flex-shrink-0 mt-0.5" />
+                  )}
+                  {onNavigate ? (
+                    <button
+                      type="button"
+                      onClick={() => onNavigate({ file: diagnostic.file, line: diagnostic.line, column: diagnostic.column })}
+                      className="text-slate-400 flex-shrink-0 underline decoration-dotted hover:text-white"
+                      title={`Go to ${diagnostic.file}:${diagnostic.line}`}
+                    >
+                      {diagnostic.file}:{diagnostic.line}:{diagnostic.column}
+                    </button>
+                  ) : (
+                    <span className="text-slate-400 flex-shrink-0">
+                      {diagnostic.file}:{diagnostic.line}:{diagnostic.column}
+                    </span>
+                  )}
+                  <pre className="text-slate-300 whitespace-pre-wrap break-words">
+                    {diagnostic.message}
+                    {diagnostic.code !== undefined && (
+                      <span className="text-slate-500"> {diagnostic.source ? `${diagnostic.source}(${diagnostic.code})` : diagnostic.code}</span>
+                    )}
+                  </pre>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {result.error && (
           <div className="mb-4 p-3 bg-red-900/20 border border-red-500/30 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
               <XCircle className="w-4 h-4 text-red-400" />
               <span className="text-red-300 font-medium">Error</span>
             </div>
-            <pre className="text-sm text-red-200 whitespace-pre-wrap break-words">
-              {result.error}
-            </pre>
+            <ErrorText
+              text={result.error}
+              knownFiles={knownFiles}
+              onNavigate={onNavigate}
+              className="text-sm text-red-200"
+            />
           </div>
         )}
 
-        {result.output && (
+        {(result.output || result.formattedOutput) && (
           <div className="mb-4 p-3 bg-slate-900/50 border border-slate-700 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
               <span className="text-slate-300 font-medium">Output</span>
             </div>
-            <pre className="text-sm text-slate-300 whitespace-pre-wrap break-words">
-              {result.output}
-            </pre>
+            {result.formattedOutput ? (
+              <RichOutput items={result.formattedOutput} />
+            ) : (
+              <pre className="text-sm text-slate-300 whitespace-pre-wrap break-words">
+                {result.output}
+              </pre>
+            )}
           </div>
         )}
 
@@ -123,13 +194,17 @@ const OutputPanel: React.FC<OutputPanelProps> = ({ result, isRunning }) => {
                     {new Date(log.timestamp).toLocaleTimeString()}
                   </span>
                 </div>
-                <pre className="whitespace-pre-wrap break-words">{log.content}</pre>
+                {log.type === 'error' ? (
+                  <ErrorText text={log.content} knownFiles={knownFiles} onNavigate={onNavigate} />
+                ) : (
+                  <pre className="whitespace-pre-wrap break-words">{log.content}</pre>
+                )}
               </div>
             ))}
           </div>
         )}
 
-        {!result.output && !result.error && (!result.logs || result.logs.length === 0) && (
+        {!result.output && !result.formattedOutput && !result.error && (!result.logs || result.logs.length === 0) && (!result.diagnostics || result.diagnostics.length === 0) && (
           <div className="text-center text-slate-400 py-8">
             <p>No output generated</p>
             <p className="text-sm mt-1">Your code ran successfully but produced no output</p>
@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ConsoleLog } from '../../types/runner';
+import { PREVIEW_MESSAGE_SOURCE } from '../../services/runners/runnerConstants';
+
+interface PreviewPanelProps {
+  html: string | null;
+  onConsoleMessage: (log: ConsoleLog) => void;
+}
+
+const PreviewPanel: React.FC<PreviewPanelProps> = ({ html, onConsoleMessage }) => {
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Forward console output from the sandboxed page to the output panel
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      // Only accept messages coming from our own preview frame
+      if (!iframeRef.current || event.source !== iframeRef.current.contentWindow) {
+        return;
+      }
+
+      const data = event.data;
+      if (!data || data.source !== PREVIEW_MESSAGE_SOURCE) {
+        return;
+      }
+
+      const type = ['log', 'error', 'warn', 'info'].includes(data.type) ? data.type : 'log';
+      onConsoleMessage({
+        type,
+        content: String(data.content ?? ''),
+        timestamp: typeof data.timestamp === 'number' ? data.timestamp : Date.now()
+      });
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [onConsoleMessage]);
+
+  if (!html) {
+    return (
+      <Card className="p-4 bg-slate-900/50 border-slate-800 h-full">
+        <div className="flex items-center justify-center h-full">
+          <div className="text-center text-slate-400">
+            <div className="text-4xl mb-4">🖥️</div>
+            <p className="text-lg">No preview yet</p>
+            <p className="text-sm mt-2">Run an HTML or CSS file to render a live preview</p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-2 bg-slate-900/50 border-slate-800 h-full flex flex-col">
+      <div className="flex items-center justify-between mb-2 flex-shrink-0">
+        <span className="text-xs text-slate-400">Sandboxed preview - updates as you edit</span>
+        <Button
+          onClick={() => setReloadKey(key => key + 1)}
+          variant="outline"
+          size="sm"
+          className="h-7 bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+          title="Reload preview"
+        >
+          <RefreshCw className="w-3 h-3" />
+        </Button>
+      </div>
+      <iframe
+        key={reloadKey}
+        ref={iframeRef}
+        title="Lab preview"
+        srcDoc={html}
+        // No allow-same-origin: the page gets an opaque origin and cannot reach the app's storage or cookies
+        sandbox="allow-scripts allow-modals allow-forms"
+        className="flex-1 w-full min-h-[300px] rounded bg-white border border-slate-700"
+      />
+    </Card>
+  );
+};
+
+export default PreviewPanel;
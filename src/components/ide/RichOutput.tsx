@@ -0,0 +1,150 @@
+import React, { useCallback, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FormattedOutput, TableOutput } from '../../types/runner';
+
+interface RichOutputProps {
+  items: FormattedOutput[];
+}
+
+// Styles for HTML reprs such as pandas DataFrames, matching the dark output panel
+const HTML_OUTPUT_STYLES = `
+  body { margin: 0; font: 13px ui-monospace, SFMono-Regular, Menlo, monospace; color: #cbd5e1; background: transparent; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #334155; padding: 4px 8px; text-align: right; }
+  th { background: #1e293b; color: #f1f5f9; }
+  tr:nth-child(even) td { background: rgba(30, 41, 59, 0.5); }
+`;
+
+const downloadFile = (href: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Scripts never run inside the frame, so it can stay same-origin and be sized to its content
+const HtmlOutput: React.FC<{ html: string }> = ({ html }) => {
+  const [height, setHeight] = useState(80);
+
+  const handleLoad = useCallback((event: React.SyntheticEvent<HTMLIFrameElement>) => {
+    const document = event.currentTarget.contentDocument;
+    if (document) {
+      setHeight(document.documentElement.scrollHeight);
+    }
+  }, []);
+
+  return (
+    <iframe
+      title="HTML output"
+      sandbox="allow-same-origin"
+      srcDoc={`<!DOCTYPE html><html><head><style>${HTML_OUTPUT_STYLES}</style></head><body>${html}</body></html>`}
+      onLoad={handleLoad}
+      className="w-full border-0 bg-transparent"
+      style={{ height }}
+    />
+  );
+};
+
+// Result set of a SQL statement; NULL is set apart from the text 'NULL'
+const TableResult: React.FC<{ table: TableOutput }> = ({ table }) => (
+  <div className="border border-slate-700 rounded">
+    <pre className="px-2 py-1 text-xs text-slate-400 bg-slate-800/60 border-b border-slate-700 whitespace-pre-wrap break-words">
+      {table.statement}
+    </pre>
+    <div className="overflow-x-auto max-h-80 custom-scrollbar">
+      <table className="text-sm font-mono text-slate-300 border-collapse">
+        <thead>
+          <tr>
+            {table.columns.map((column, index) => (
+              <th key={index} className="sticky top-0 px-2 py-1 text-left font-medium text-slate-100 bg-slate-800 border-b border-slate-700">
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="even:bg-slate-800/40">
+              {row.map((value, columnIndex) => (
+                <td
+                  key={columnIndex}
+                  className={`px-2 py-0.5 whitespace-pre ${typeof value === 'number' ? 'text-right' : ''}`}
+                >
+                  {value === null ? <span className="italic text-slate-500">NULL</span> : value}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+    <div className="px-2 py-1 text-xs text-slate-500 border-t border-slate-700">
+      {table.rows.length < table.rowCount
+        ? `Showing ${table.rows.length} of ${table.rowCount} rows`
+        : `${table.rowCount} row${table.rowCount === 1 ? '' : 's'}`}
+    </div>
+  </div>
+);
+
+const RichOutput: React.FC<RichOutputProps> = ({ items }) => {
+  const handleDownloadHtml = useCallback((html: string, index: number) => {
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+    downloadFile(url, `output-${index + 1}.html`);
+    URL.revokeObjectURL(url);
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => {
+        if (item.type === 'table') {
+          return <TableResult key={index} table={item.content as TableOutput} />;
+        }
+
+        const content = String(item.content);
+
+        if (item.type === 'plot') {
+          return (
+            <div key={index} className="relative group inline-block bg-white rounded">
+              <img src={content} alt={`Figure ${index + 1}`} className="max-w-full rounded" />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => downloadFile(content, `figure-${index + 1}.png`)}
+                className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+              >
+                <Download className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        }
+
+        if (item.type === 'html') {
+          return (
+            <div key={index} className="relative group overflow-x-auto">
+              <HtmlOutput html={content} />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleDownloadHtml(content, index)}
+                className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+              >
+                <Download className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        }
+
+        return (
+          <pre key={index} className="text-sm text-slate-300 whitespace-pre-wrap break-words">
+            {content}
+          </pre>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RichOutput;
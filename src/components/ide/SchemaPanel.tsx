@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Database, Eye, KeyRound, Pin, Table2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { SqlDatabase, SqlTable } from '../../types/runner';
+
+interface SchemaPanelProps {
+  database: SqlDatabase | null; // as the latest SQL run left it
+  isPinned: boolean;
+}
+
+const SchemaTable: React.FC<{ table: SqlTable }> = ({ table }) => {
+  const [expanded, setExpanded] = useState(true);
+
+  return (
+    <div className="mb-3 p-3 bg-slate-900/50 border border-slate-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 text-left"
+      >
+        {expanded ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+        {table.type === 'view' ? <Eye className="w-4 h-4 text-purple-400" /> : <Table2 className="w-4 h-4 text-blue-400" />}
+        <span className="text-slate-200 font-medium font-mono break-all">{table.name}</span>
+        {table.type === 'view' && (
+          <Badge variant="outline" className="text-xs text-slate-400 border-slate-600">view</Badge>
+        )}
+        {table.rowCount !== null && (
+          <span className="ml-auto text-xs text-slate-500 flex-shrink-0">
+            {table.rowCount} {table.rowCount === 1 ? 'row' : 'rows'}
+          </span>
+        )}
+      </button>
+
+      {expanded && (
+        <ul className="mt-2 ml-6">
+          {table.columns.map(column => (
+            <li key={column.name} className="flex items-center gap-2 py-0.5 text-sm font-mono">
+              {column.primaryKey ? (
+                <KeyRound className="w-3 h-3 text-yellow-400 flex-shrink-0" aria-label="Primary key" />
+              ) : (
+                <span className="w-3 flex-shrink-0" />
+              )}
+              <span className="text-slate-300 break-all">{column.name}</span>
+              <span className="text-slate-500">{column.type}</span>
+              {column.notNull && !column.primaryKey && (
+                <span className="text-xs text-slate-500">NOT NULL</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Tables and views of the database the learner's SQL runs against
+const SchemaPanel: React.FC<SchemaPanelProps> = ({ database, isPinned }) => {
+  if (!database) {
+    return (
+      <Card className="p-4 bg-slate-900/50 border-slate-800 h-full">
+        <div className="flex items-center justify-center h-full">
+          <div className="text-center text-slate-400">
+            <Database className="w-10 h-10 mx-auto mb-4" />
+            <p className="text-lg">No database yet</p>
+            <p className="text-sm mt-2">Run a SQL file to see its tables here.</p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4 bg-slate-900/50 border-slate-800 h-full flex flex-col">
+      <div className="flex items-center justify-between mb-4 flex-shrink-0">
+        <div className="flex items-center gap-2">
+          <Database className="w-5 h-5 text-blue-400" />
+          <span className="text-white font-medium">Schema</span>
+          <Badge variant="outline" className="text-xs text-slate-400 border-slate-600">
+            {database.tables.length} {database.tables.length === 1 ? 'object' : 'objects'}
+          </Badge>
+        </div>
+        <span className="flex items-center gap-1 text-xs text-slate-400">
+          {isPinned && <Pin className="w-3 h-3" />}
+          {isPinned ? 'Kept for the next run' : 'Rebuilt from the lab files on each run'}
+        </span>
+      </div>
+
+      <div
+        className="flex-1 overflow-y-auto min-h-0 pr-2 custom-scrollbar"
+        style={{ maxHeight: 'calc(100vh - 400px)' }}
+      >
+        {database.tables.length === 0 ? (
+          <p className="text-sm text-slate-400">The database has no tables.</p>
+        ) : (
+          database.tables.map(table => <SchemaTable key={table.name} table={table} />)
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default SchemaPanel;
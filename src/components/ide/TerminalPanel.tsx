@@ -0,0 +1,326 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw, SquareTerminal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ShellResult } from '../../services/runners/shellSession';
+import { ShellStoppedError, ShellWorkerSession } from '../../services/runners/shellWorkerSession';
+import { ShellSyntaxError, parseScript } from '../../services/runners/shellParser';
+import { ANSI } from '../../services/runners/shellCommands';
+import { FileMap } from '../../types/runner';
+
+interface TerminalPanelProps {
+  getFiles: () => FileMap; // Read when the shell starts, so later edits need a reset
+}
+
+interface TerminalLine {
+  id: number;
+  text: string; // May contain ANSI colour codes
+  isError?: boolean;
+}
+
+const HISTORY_KEY = 'labdojo_shell_history';
+const MAX_HISTORY = 100;
+const MAX_LINES = 1000;
+
+// Select Graphic Rendition sequences, the only escape codes the shell's commands emit
+const SGR_SEQUENCE = new RegExp(`${String.fromCharCode(27)}\\[([0-9;]*)m`, 'g');
+
+const COLOURS: Record<number, string> = {
+  30: 'text-slate-500',
+  31: 'text-red-400',
+  32: 'text-green-400',
+  33: 'text-yellow-400',
+  34: 'text-blue-400',
+  35: 'text-purple-400',
+  36: 'text-cyan-400',
+  37: 'text-slate-200',
+  90: 'text-slate-400',
+  91: 'text-red-300',
+  92: 'text-green-300',
+  93: 'text-yellow-300',
+  94: 'text-blue-300',
+  95: 'text-purple-300',
+  96: 'text-cyan-300',
+  97: 'text-white'
+};
+
+// Splits text at its colour codes into spans styled with the matching Tailwind classes
+const renderAnsi = (text: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let bold = false;
+  let colour: string | null = null;
+  let position = 0;
+
+  const addText = (value: string) => {
+    if (!value) return;
+    const className = [colour, bold ? 'font-bold' : null].filter(Boolean).join(' ');
+    nodes.push(className ? <span key={nodes.length} className={className}>{value}</span> : value);
+  };
+
+  for (const match of text.matchAll(SGR_SEQUENCE)) {
+    addText(text.substring(position, match.index));
+    position = match.index! + match[0].length;
+    (match[1] || '0').split(';').map(Number).forEach(code => {
+      if (code === 0) {
+        bold = false;
+        colour = null;
+      } else if (code === 1) {
+        bold = true;
+      } else if (code === 22) {
+        bold = false;
+      } else if (code === 39) {
+        colour = null;
+      } else if (COLOURS[code]) {
+        colour = COLOURS[code];
+      }
+    });
+  }
+  addText(text.substring(position));
+  return nodes;
+};
+
+const loadHistory = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(entry => typeof entry === 'string') : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+const saveHistory = (history: string[]) => {
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history.slice(-MAX_HISTORY)));
+  } catch (error) {
+    console.warn('Failed to save the shell history:', error);
+  }
+};
+
+// Commands that stop at an unclosed quote or block continue on the next line, as in Bash
+const isIncomplete = (source: string) => {
+  try {
+    parseScript(source);
+    return false;
+  } catch (error) {
+    return error instanceof ShellSyntaxError && /unexpected (end of file|EOF)/.test(error.message);
+  }
+};
+
+// A command typed over several lines as the single line history recalls, e.g. if x; then y; fi
+const toHistoryEntry = (lines: string[]) => {
+  const entry = lines.reduce((joined, line) => {
+    const trimmed = line.trim();
+    if (!joined) return trimmed;
+    return /(\b(then|do|else)|[{(|]|&&|\|\|)$/.test(joined) ? `${joined} ${trimmed}` : `${joined}; ${trimmed}`;
+  }, '');
+  return isIncomplete(entry) ? lines.join(' ') : entry;
+};
+
+// Interactive terminal on the simulated shell, with a copy of the lab's files in the home directory
+const TerminalPanel: React.FC<TerminalPanelProps> = ({ getFiles }) => {
+  const sessionRef = useRef<ShellWorkerSession | null>(null);
+  const nextIdRef = useRef(0);
+  const [lines, setLines] = useState<TerminalLine[]>([]);
+  const [value, setValue] = useState('');
+  const [pending, setPending] = useState<string[]>([]); // Earlier lines of an unfinished command
+  const [history, setHistory] = useState<string[]>(loadHistory);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const getSession = () => {
+    if (!sessionRef.current) {
+      sessionRef.current = new ShellWorkerSession(getFiles(), { tty: true });
+    }
+    return sessionRef.current;
+  };
+
+  // Nothing is prompted for while a command runs
+  const prompt = isRunning ? '' : pending.length > 0 ? '> ' : getSession().prompt;
+
+  useEffect(() => () => sessionRef.current?.stop(), []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [lines]);
+
+  const appendLines = (...added: Array<Omit<TerminalLine, 'id'>>) => {
+    setLines(current => [...current, ...added.map(line => ({ ...line, id: nextIdRef.current++ }))].slice(-MAX_LINES));
+  };
+
+  const resetSession = () => {
+    sessionRef.current?.stop();
+    sessionRef.current = null;
+    setIsRunning(false);
+    setLines([]);
+    setPending([]);
+    setValue('');
+    inputRef.current?.focus();
+  };
+
+  const runCommand = async () => {
+    const echo = { text: prompt + value };
+    const source = [...pending, value].join('\n');
+    setValue('');
+    setHistoryIndex(null);
+
+    if (!source.trim()) {
+      appendLines(echo);
+      return;
+    }
+    if (isIncomplete(source)) {
+      appendLines(echo);
+      setPending([...pending, value]);
+      return;
+    }
+    setPending([]);
+
+    const entry = pending.length > 0 ? toHistoryEntry([...pending, value]) : source;
+    const updatedHistory = history[history.length - 1] === entry ? history : [...history, entry].slice(-MAX_HISTORY);
+    const session = getSession();
+    session.history = updatedHistory;
+    appendLines(echo);
+    setIsRunning(true);
+    let result: ShellResult;
+    try {
+      result = await session.run(source);
+    } catch (error) {
+      // Ctrl+C and Reset stop the session themselves
+      if (error instanceof ShellStoppedError) return;
+      sessionRef.current?.stop();
+      sessionRef.current = null;
+      setIsRunning(false);
+      appendLines({ text: `${error instanceof Error ? error.message : 'The shell failed'} - a new shell was started`, isError: true });
+      return;
+    }
+    if (sessionRef.current !== session) return;
+    setIsRunning(false);
+    // history -c replaces the session's list
+    setHistory(session.history);
+    saveHistory(session.history);
+    const output: Array<Omit<TerminalLine, 'id'>> = [];
+    if (result.stdout) output.push({ text: result.stdout.replace(/\n$/, '') });
+    if (result.stderr) output.push({ text: result.stderr.replace(/\n$/, ''), isError: true });
+    if (result.exited) {
+      session.stop();
+      sessionRef.current = null;
+      output.push({ text: `${ANSI.separator}[shell exited with status ${result.status} - a new shell was started]${ANSI.reset}` });
+    }
+
+    // clear empties the screen; anything printed after it still shows
+    const cleared = result.stdout.lastIndexOf(ANSI.clearScreen);
+    if (cleared === -1) {
+      appendLines(...output);
+    } else {
+      setLines([]);
+      const rest = result.stdout.substring(cleared + ANSI.clearScreen.length).replace(/\n$/, '');
+      appendLines(...(rest ? [{ text: rest }] : []), ...output.slice(1));
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.ctrlKey && event.key === 'c' && isRunning) {
+      // Stopping a command ends the shell it ran in, the way closing a hung terminal would
+      event.preventDefault();
+      sessionRef.current?.stop();
+      sessionRef.current = null;
+      setIsRunning(false);
+      appendLines({ text: '^C' }, { text: `${ANSI.separator}[command stopped - a new shell was started]${ANSI.reset}` });
+    } else if (isRunning) {
+      if (event.key === 'Enter' || event.key === 'Tab') event.preventDefault();
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      runCommand();
+    } else if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      if (history.length === 0) return;
+      const current = historyIndex ?? history.length;
+      const next = Math.min(Math.max(current + (event.key === 'ArrowUp' ? -1 : 1), 0), history.length);
+      if (historyIndex === null) setDraft(value);
+      setHistoryIndex(next === history.length ? null : next);
+      setValue(next === history.length ? draft : history[next]);
+    } else if (event.key === 'Tab') {
+      event.preventDefault();
+      const typed = value;
+      getSession().complete(typed).then(completion => {
+        if (completion.candidates.length > 0) {
+          appendLines({ text: prompt + typed }, { text: completion.candidates.join('  ') });
+        }
+        // Typing on while the shell answered wins over the completion
+        setValue(current => (current === typed ? completion.input : current));
+      }).catch(() => undefined);
+    } else if (event.ctrlKey && event.key === 'l') {
+      event.preventDefault();
+      setLines([]);
+    } else if (event.ctrlKey && event.key === 'c') {
+      // Copying a selection still works; without one Ctrl+C abandons the line
+      if (window.getSelection()?.toString()) return;
+      event.preventDefault();
+      appendLines({ text: `${prompt}${value}^C` });
+      setValue('');
+      setPending([]);
+      setHistoryIndex(null);
+    }
+  };
+
+  return (
+    <Card className="p-4 bg-slate-900/50 border-slate-800 h-full flex flex-col">
+      <div className="flex items-center justify-between mb-4 flex-shrink-0">
+        <div className="flex items-center gap-2">
+          <SquareTerminal className="w-5 h-5 text-green-400" />
+          <span className="text-white font-medium">Terminal</span>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={resetSession}
+          className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white hover:border-slate-500"
+          title="Start a new shell with the lab's current files"
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </Button>
+      </div>
+
+      <div
+        className="flex-1 overflow-y-auto min-h-0 pr-2 custom-scrollbar"
+        style={{ maxHeight: 'calc(100vh - 400px)' }}
+        onClick={() => {
+          if (!window.getSelection()?.toString()) inputRef.current?.focus();
+        }}
+      >
+        <div className="p-3 bg-slate-950/60 border border-slate-700 rounded-lg font-mono text-sm text-slate-300 min-h-full">
+          <p className="text-slate-500 mb-2">
+            The lab's files are in your home directory (~). Changes made here are not saved to the lab.
+          </p>
+          {lines.map(line => (
+            <pre key={line.id} className={`whitespace-pre-wrap break-words ${line.isError ? 'text-red-300' : ''}`}>
+              {renderAnsi(line.text)}
+            </pre>
+          ))}
+          <div className="flex items-start">
+            <pre className="whitespace-pre flex-shrink-0">{renderAnsi(prompt)}</pre>
+            <input
+              ref={inputRef}
+              value={value}
+              onChange={event => {
+                setValue(event.target.value);
+                setHistoryIndex(null);
+              }}
+              onKeyDown={handleKeyDown}
+              className="flex-1 min-w-0 bg-transparent border-none outline-none text-slate-100 font-mono text-sm p-0"
+              spellCheck={false}
+              autoComplete="off"
+              aria-label="Shell command"
+            />
+          </div>
+          <div ref={bottomRef} />
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default TerminalPanel;
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import {
+  CheckCircle, XCircle, AlertTriangle, MinusCircle, ChevronDown, ChevronRight, Clock, EyeOff, FlaskConical
+} from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { TestCaseResult, TestFileResult, TestRunSummary, TestStatus } from '../../types/runner';
+
+interface TestsPanelProps {
+  summary: TestRunSummary | null;
+  isRunning: boolean;
+  testFiles: string[];
+}
+
+const StatusIcon: React.FC<{ status: TestStatus }> = ({ status }) => {
+  switch (status) {
+    case 'passed':
+      return <CheckCircle className="w-4 h-4 text-green-400 flex-shrink-0" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" />;
+    case 'error':
+      return <AlertTriangle className="w-4 h-4 text-orange-400 flex-shrink-0" />;
+    default:
+      return <MinusCircle className="w-4 h-4 text-slate-500 flex-shrink-0" />;
+  }
+};
+
+const TestCase: React.FC<{ test: TestCaseResult }> = ({ test }) => {
+  const hasDetails = !!(test.message || test.expected !== undefined || test.actual !== undefined);
+  const [expanded, setExpanded] = useState(test.status === 'failed' || test.status === 'error');
+
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={() => hasDetails && setExpanded(!expanded)}
+        className={`w-full flex items-center gap-2 py-1 text-left text-sm ${hasDetails ? 'hover:text-white' : 'cursor-default'}`}
+      >
+        {hasDetails ? (
+          expanded ? <ChevronDown className="w-3 h-3 text-slate-500" /> : <ChevronRight className="w-3 h-3 text-slate-500" />
+        ) : (
+          <span className="w-3" />
+        )}
+        <StatusIcon status={test.status} />
+        <span className="text-slate-300 font-mono break-all">{test.name}</span>
+        <span className="ml-auto text-xs text-slate-500 flex-shrink-0">{test.duration}ms</span>
+      </button>
+
+      {expanded && hasDetails && (
+        <div className="ml-9 mb-2 space-y-2">
+          {test.message && (
+            <pre className="text-sm text-red-200 whitespace-pre-wrap break-words">{test.message}</pre>
+          )}
+          {(test.expected !== undefined || test.actual !== undefined) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <div className="p-2 bg-green-900/20 border border-green-500/30 rounded">
+                <div className="text-xs text-green-300 mb-1">Expected</div>
+                <pre className="text-sm text-green-100 whitespace-pre-wrap break-words">{test.expected}</pre>
+              </div>
+              <div className="p-2 bg-red-900/20 border border-red-500/30 rounded">
+                <div className="text-xs text-red-300 mb-1">Received</div>
+                <pre className="text-sm text-red-100 whitespace-pre-wrap break-words">{test.actual}</pre>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+const TestFile: React.FC<{ result: TestFileResult }> = ({ result }) => {
+  const failed = !!result.error || result.tests.some(test => test.status === 'failed' || test.status === 'error');
+  const [expanded, setExpanded] = useState(true);
+
+  return (
+    <div className="mb-3 p-3 bg-slate-900/50 border border-slate-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 text-left"
+      >
+        {expanded ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+        {failed ? <XCircle className="w-4 h-4 text-red-400" /> : <CheckCircle className="w-4 h-4 text-green-400" />}
+        <span className="text-slate-200 font-medium font-mono break-all">{result.file}</span>
+        {result.hidden && (
+          <Badge variant="outline" className="text-xs text-slate-400 border-slate-600 gap-1">
+            <EyeOff className="w-3 h-3" />
+            Hidden
+          </Badge>
+        )}
+        <span className="ml-auto text-xs text-slate-500 flex-shrink-0">
+          {result.tests.filter(test => test.status === 'passed').length}/{result.tests.length}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-2">
+          {result.error && (
+            <pre className="mb-2 p-2 text-sm text-red-200 bg-red-900/20 border border-red-500/30 rounded whitespace-pre-wrap break-words">
+              {result.error}
+            </pre>
+          )}
+          <ul>
+            {result.tests.map((test, index) => (
+              <TestCase key={`${test.name}-${index}`} test={test} />
+            ))}
+          </ul>
+          {result.output && (
+            <details className="mt-2">
+              <summary className="text-xs text-slate-400 cursor-pointer hover:text-slate-200">Output</summary>
+              <pre className="mt-1 text-sm text-slate-300 whitespace-pre-wrap break-words">{result.output}</pre>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TestsPanel: React.FC<TestsPanelProps> = ({ summary, isRunning, testFiles }) => {
+  if (isRunning) {
+    return (
+      <Card className="p-4 bg-slate-900/50 border-slate-800 h-full">
+        <div className="flex items-center justify-center h-full">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400 mx-auto mb-4"></div>
+            <p className="text-slate-300">Running tests...</p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <Card className="p-4 bg-slate-900/50 border-slate-800 h-full">
+        <div className="flex items-center justify-center h-full">
+          <div className="text-center text-slate-400">
+            <FlaskConical className="w-10 h-10 mx-auto mb-4" />
+            <p className="text-lg">Ready to run tests</p>
+            <p className="text-sm mt-2">
+              {testFiles.length} test {testFiles.length === 1 ? 'file' : 'files'} found. Click Run Tests to check your work.
+            </p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  const allPassed = summary.failed === 0 && summary.total > 0;
+
+  return (
+    <Card className="p-4 bg-slate-900/50 border-slate-800 h-full flex flex-col">
+      <div className="flex items-center justify-between mb-4 flex-shrink-0">
+        <div className="flex items-center gap-2">
+          {allPassed ? (
+            <CheckCircle className="w-5 h-5 text-green-400" />
+          ) : (
+            <XCircle className="w-5 h-5 text-red-400" />
+          )}
+          <span className="text-white font-medium">
+            {allPassed ? 'All Tests Passed' : 'Tests Failed'}
+          </span>
+          <Badge variant="outline" className="text-green-400 border-green-500/50 bg-green-900/20">
+            {summary.passed} passed
+          </Badge>
+          {summary.failed > 0 && (
+            <Badge variant="outline" className="text-red-400 border-red-500/50 bg-red-900/20">
+              {summary.failed} failed
+            </Badge>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 text-sm text-slate-400">
+          <Clock className="w-4 h-4" />
+          <span>{summary.executionTime}ms</span>
+        </div>
+      </div>
+
+      <div
+        className="flex-1 overflow-y-auto min-h-0 pr-2 custom-scrollbar"
+        style={{ maxHeight: 'calc(100vh - 400px)' }}
+      >
+        {summary.files.map(result => (
+          <TestFile key={result.file} result={result} />
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default TestsPanel;
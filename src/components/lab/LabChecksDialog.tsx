@@ -0,0 +1,110 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, Circle, ListChecks, Loader2, XCircle } from 'lucide-react';
+import { LabCheckResult, LabCompletionCheck } from '../../types/lab';
+import { labCheckService } from '../../services/labCheckService';
+
+interface LabChecksDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  checks: LabCompletionCheck[];
+  results: LabCheckResult[] | null;
+  isChecking: boolean;
+  onRunChecks: () => void;
+  canComplete: boolean;
+  isCompleting: boolean;
+  onComplete: () => void;
+}
+
+const LabChecksDialog: React.FC<LabChecksDialogProps> = ({
+  isOpen,
+  onClose,
+  checks,
+  results,
+  isChecking,
+  onRunChecks,
+  canComplete,
+  isCompleting,
+  onComplete
+}) => {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px] bg-slate-900 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white">
+            <ListChecks className="w-5 h-5 text-blue-400" />
+            Lab Checks
+          </DialogTitle>
+          <DialogDescription className="text-slate-300">
+            These checks must pass before the lab can be marked as complete
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-2">
+          {checks.map(check => {
+            const result = results?.find(item => item.id === check.id);
+            return (
+              <li key={check.id} className="flex items-start gap-3 bg-slate-800/50 rounded-lg p-3">
+                {isChecking ? (
+                  <Loader2 className="w-5 h-5 text-slate-400 animate-spin flex-shrink-0" />
+                ) : !result ? (
+                  <Circle className="w-5 h-5 text-slate-500 flex-shrink-0" />
+                ) : result.passed ? (
+                  <CheckCircle className="w-5 h-5 text-green-400 flex-shrink-0" />
+                ) : (
+                  <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <p className="text-white text-sm">{labCheckService.describeCheck(check)}</p>
+                  {result?.message && !isChecking && (
+                    <p className={`text-xs mt-1 break-words ${result.passed ? 'text-slate-400' : 'text-red-300'}`}>
+                      {result.message}
+                    </p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-between items-center pt-4">
+          <Button
+            variant="outline"
+            onClick={onRunChecks}
+            disabled={isChecking}
+            className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-800 hover:text-white"
+          >
+            {isChecking ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Checking...
+              </>
+            ) : (
+              <>
+                <ListChecks className="w-4 h-4 mr-2" />
+                {results ? 'Run Checks Again' : 'Run Checks'}
+              </>
+            )}
+          </Button>
+          <Button
+            onClick={onComplete}
+            disabled={!canComplete || isChecking || isCompleting}
+            className="bg-green-700 hover:bg-green-600 text-white"
+          >
+            <CheckCircle className="w-4 h-4 mr-2" />
+            {isCompleting ? 'Completing...' : 'Complete'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LabChecksDialog;
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { HardDrive, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { StorageUsage, StoredWorkspaceSummary, labStorageService } from '../../services/labStorageService';
+import { useToast } from '@/hooks/use-toast';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Shows what the IDE keeps in browser storage and lets the learner clear it per lab or all at once
+const LabStorageCard: React.FC = () => {
+  const { toast } = useToast();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The workspace about to be cleared, or 'all'
+  const [clearTarget, setClearTarget] = useState<StoredWorkspaceSummary | 'all' | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setUsage(await labStorageService.getUsage());
+      setError(null);
+    } catch (error) {
+      console.warn('Failed to read lab storage:', error);
+      setError('Browser storage is not available.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const confirmClear = async () => {
+    const target = clearTarget;
+    setClearTarget(null);
+    if (!target) return;
+
+    try {
+      if (target === 'all') {
+        await labStorageService.clearAll();
+      } else {
+        await labStorageService.deleteWorkspace(target.id);
+      }
+      toast({
+        title: "Storage Cleared",
+        description: target === 'all' ? 'All stored lab workspaces were removed' : `Removed ${target.title || target.id}`,
+        className: "bg-green-900 border-green-700 text-white",
+      });
+    } catch (error) {
+      toast({
+        title: "Clear Failed",
+        description: error instanceof Error ? error.message : 'Failed to clear storage',
+        variant: "destructive",
+        className: "bg-red-900 border-red-700 text-white",
+      });
+    }
+    await loadUsage();
+  };
+
+  const workspaces = usage?.workspaces || [];
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-slate-200 flex items-center gap-2">
+          <HardDrive className="w-5 h-5" />
+          Lab Storage
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error ? (
+          <p className="text-sm text-slate-500">{error}</p>
+        ) : !usage ? (
+          <p className="text-sm text-slate-500">Loading...</p>
+        ) : (
+          <>
+            <div>
+              <div className="flex justify-between text-sm mb-2">
+                <span className="text-slate-300">
+                  {usage.usage !== null ? `${formatBytes(usage.usage)} used` : 'Usage unknown'}
+                </span>
+                {usage.quota !== null && (
+                  <span className="text-slate-500">of {formatBytes(usage.quota)} available to this site</span>
+                )}
+              </div>
+              {usage.usage !== null && usage.quota ? (
+                <Progress
+                  value={Math.min(100, (usage.usage / usage.quota) * 100)}
+                  className="h-2 bg-slate-800 [&>div]:bg-gradient-to-r [&>div]:from-blue-500 [&>div]:to-cyan-500"
+                />
+              ) : null}
+              <p className="text-sm text-slate-500 mt-2">
+                Cached lab content: {formatBytes(usage.contentCacheSize)}. It is refetched when needed.
+              </p>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h4 className="text-slate-300 text-sm font-medium">Stored Lab Workspaces</h4>
+                  <p className="text-sm text-slate-500">Edits, file changes and checkpoints kept in this browser</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setClearTarget('all')}
+                  disabled={workspaces.length === 0 && usage.contentCacheSize === 0}
+                  className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Clear All
+                </Button>
+              </div>
+
+              {workspaces.length === 0 ? (
+                <p className="text-sm text-slate-500">No lab workspaces are stored.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {workspaces.map(workspace => (
+                    <li key={workspace.id} className="flex items-center gap-3 bg-slate-800/50 rounded-lg p-3">
+                      <div className="min-w-0">
+                        {workspace.path ? (
+                          <Link to={workspace.path} className="text-sm text-white hover:text-blue-400 truncate block">
+                            {workspace.title || workspace.id}
+                          </Link>
+                        ) : (
+                          <p className="text-sm text-white truncate">{workspace.title || workspace.id}</p>
+                        )}
+                        <p className="text-xs text-slate-400">
+                          {formatBytes(workspace.size)} · {workspace.fileCount} edited
+                          {workspace.fileCount === 1 ? ' file' : ' files'} · {workspace.checkpointCount}
+                          {workspace.checkpointCount === 1 ? ' checkpoint' : ' checkpoints'} · last opened{' '}
+                          {new Date(workspace.accessedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setClearTarget(workspace)}
+                        className="ml-auto text-slate-400 hover:text-red-400 hover:bg-slate-700 flex-shrink-0"
+                        title="Clear stored workspace"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={clearTarget !== null} onOpenChange={open => !open && setClearTarget(null)}>
+        <AlertDialogContent className="bg-slate-900 border-slate-700">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">
+              {clearTarget === 'all' ? 'Clear all lab storage?' : `Clear ${clearTarget?.title || clearTarget?.id}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-slate-300">
+              {clearTarget === 'all'
+                ? 'Every stored lab workspace, including unsaved edits and checkpoints, will be removed from this browser.'
+                : 'Unsaved edits, file changes and checkpoints for this lab will be removed from this browser.'}
+              {' '}This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={confirmClear} className="bg-red-600 hover:bg-red-700 text-white">
+              Clear
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default LabStorageCard;
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { WorkspaceConflict } from '../../services/labSyncService';
+
+interface SyncConflictDialogProps {
+  isOpen: boolean;
+  onClose: () => void; // leaves the conflict for later; syncing waits until it is resolved
+  conflicts: WorkspaceConflict[];
+  getLabContent: (path: string) => string; // shown for a side that went back to the lab version
+  onResolve: (choices: Record<string, string | null>) => void;
+}
+
+type Choice = 'local' | 'remote';
+
+// Lets the learner pick, file by file, between this device's version and the one from another device
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({
+  isOpen,
+  onClose,
+  conflicts,
+  getLabContent,
+  onResolve
+}) => {
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setChoices({});
+      setSelectedPath(conflicts[0]?.path ?? null);
+    }
+  }, [isOpen, conflicts]);
+
+  const selected = conflicts.find(conflict => conflict.path === selectedPath) || conflicts[0];
+  const choiceFor = (path: string) => choices[path] || 'local';
+
+  const chooseAll = (choice: Choice) => {
+    setChoices(Object.fromEntries(conflicts.map(conflict => [conflict.path, choice])));
+  };
+
+  const handleResolve = () => {
+    onResolve(Object.fromEntries(conflicts.map(conflict => [
+      conflict.path,
+      choiceFor(conflict.path) === 'local' ? conflict.local : conflict.remote
+    ])));
+  };
+
+  const describe = (content: string | null) => content ?? getLabContent(selected?.path || '');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[1000px] bg-slate-900 border-slate-700 max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white">
+            <AlertTriangle className="w-5 h-5 text-amber-400" />
+            Sync Conflicts
+          </DialogTitle>
+          <DialogDescription className="text-slate-300">
+            These files were changed on this device and on another one. Choose which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 flex-1 min-h-0">
+          <ul className="w-64 flex-shrink-0 space-y-1 overflow-y-auto custom-scrollbar">
+            {conflicts.map(conflict => (
+              <li key={conflict.path}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedPath(conflict.path)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm ${
+                    conflict === selected ? 'bg-slate-800 text-white' : 'text-slate-300 hover:bg-slate-800/50'
+                  }`}
+                >
+                  <span className="block font-mono truncate">{conflict.path}</span>
+                  <Badge variant="outline" className="mt-1 text-xs text-slate-300 border-slate-600">
+                    {choiceFor(conflict.path) === 'local' ? 'Keeping mine' : 'Using theirs'}
+                  </Badge>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="flex items-center gap-2 mb-2 text-xs text-slate-400">
+                <span className="flex-1">Other device{selected.remote === null && ' (lab version)'}</span>
+                <span className="flex-1">This device{selected.local === null && ' (lab version)'}</span>
+              </div>
+              <div className="h-[50vh] rounded-lg overflow-hidden border border-slate-800">
+                <DiffEditor
+                  // Fresh models per file so the diff never shows another file's content
+                  key={selected.path}
+                  original={describe(selected.remote)}
+                  modified={describe(selected.local)}
+                  theme="labdojo-dark"
+                  options={{
+                    readOnly: true,
+                    originalEditable: false,
+                    renderSideBySide: true,
+                    minimap: { enabled: false },
+                    scrollBeyondLastLine: false,
+                    automaticLayout: true,
+                    fontSize: 13,
+                    fontFamily: 'Monaco, Menlo, "Ubuntu Mono", monospace',
+                  }}
+                />
+              </div>
+              <div className="flex gap-2 mt-3">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setChoices(prev => ({ ...prev, [selected.path]: 'remote' }))}
+                  className={choiceFor(selected.path) === 'remote'
+                    ? 'bg-blue-600 border-blue-500 text-white hover:bg-blue-700 hover:text-white'
+                    : 'bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white'}
+                >
+                  Use Theirs
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setChoices(prev => ({ ...prev, [selected.path]: 'local' }))}
+                  className={choiceFor(selected.path) === 'local'
+                    ? 'bg-blue-600 border-blue-500 text-white hover:bg-blue-700 hover:text-white'
+                    : 'bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white'}
+                >
+                  Keep Mine
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => chooseAll('remote')}
+            className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+          >
+            Use All Theirs
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => chooseAll('local')}
+            className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+          >
+            Keep All Mine
+          </Button>
+          <Button onClick={handleResolve} className="bg-blue-600 hover:bg-blue-700 text-white">
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncConflictDialog;
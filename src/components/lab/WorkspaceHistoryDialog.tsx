@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Bookmark, GitCompare, History, RotateCcw, Trash2 } from 'lucide-react';
+import { WorkspaceFileChange, WorkspaceFileStatus } from '../../services/labWorkspaceService';
+import { WorkspaceCheckpoint } from '../../types/lab';
+
+interface WorkspaceHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  changedFiles: WorkspaceFileChange[];
+  checkpoints: WorkspaceCheckpoint[];
+  onCreateCheckpoint: (name: string) => void;
+  onRestoreCheckpoint: (checkpoint: WorkspaceCheckpoint) => void;
+  onDeleteCheckpoint: (checkpoint: WorkspaceCheckpoint) => void;
+  onCompareFile: (path: string) => void; // opens the file in a diff against the lab version
+}
+
+const STATUS_STYLES: Record<WorkspaceFileStatus, string> = {
+  added: 'text-green-400 border-green-500/50 bg-green-900/20',
+  modified: 'text-yellow-400 border-yellow-500/50 bg-yellow-900/20',
+  renamed: 'text-blue-400 border-blue-500/50 bg-blue-900/20',
+  deleted: 'text-red-400 border-red-500/50 bg-red-900/20'
+};
+
+const WorkspaceHistoryDialog: React.FC<WorkspaceHistoryDialogProps> = ({
+  isOpen,
+  onClose,
+  changedFiles,
+  checkpoints,
+  onCreateCheckpoint,
+  onRestoreCheckpoint,
+  onDeleteCheckpoint,
+  onCompareFile
+}) => {
+  const [checkpointName, setCheckpointName] = useState('');
+  // Restoring replaces the current files, so it takes a second click
+  const [confirmingRestore, setConfirmingRestore] = useState<string | null>(null);
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    onCreateCheckpoint(checkpointName.trim() || `Checkpoint ${checkpoints.length + 1}`);
+    setCheckpointName('');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] bg-slate-900 border-slate-700 max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white">
+            <History className="w-5 h-5 text-blue-400" />
+            Workspace History
+          </DialogTitle>
+          <DialogDescription className="text-slate-300">
+            Review what you changed and save checkpoints you can come back to
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto min-h-0 pr-2 custom-scrollbar space-y-6">
+          <section>
+            <h4 className="text-sm font-medium text-white mb-2">
+              Changed Files <span className="text-slate-400">({changedFiles.length})</span>
+            </h4>
+            {changedFiles.length === 0 ? (
+              <p className="text-sm text-slate-400">Your files match the lab as shipped.</p>
+            ) : (
+              <ul className="space-y-1">
+                {changedFiles.map(change => (
+                  <li key={`${change.status}-${change.path}`} className="flex items-center gap-2 bg-slate-800/50 rounded-lg px-3 py-2">
+                    <Badge variant="outline" className={`text-xs capitalize ${STATUS_STYLES[change.status]}`}>
+                      {change.status}
+                    </Badge>
+                    <span className="text-sm text-slate-200 font-mono truncate">
+                      {change.from && <span className="text-slate-500">{change.from} → </span>}
+                      {change.path}
+                    </span>
+                    {change.status !== 'deleted' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onCompareFile(change.path)}
+                        className="ml-auto text-slate-400 hover:text-white hover:bg-slate-700 flex-shrink-0"
+                        title="Compare with the lab version"
+                      >
+                        <GitCompare className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section>
+            <h4 className="text-sm font-medium text-white mb-2">Checkpoints</h4>
+            <form onSubmit={handleCreate} className="flex gap-2 mb-3">
+              <Input
+                value={checkpointName}
+                onChange={event => setCheckpointName(event.target.value)}
+                placeholder={`Checkpoint ${checkpoints.length + 1}`}
+                className="bg-slate-950/60 border-slate-700 text-slate-200"
+              />
+              <Button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white flex-shrink-0">
+                <Bookmark className="w-4 h-4 mr-2" />
+                Create
+              </Button>
+            </form>
+
+            {checkpoints.length === 0 ? (
+              <p className="text-sm text-slate-400">No checkpoints yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {checkpoints.map(checkpoint => (
+                  <li key={checkpoint.id} className="flex items-center gap-3 bg-slate-800/50 rounded-lg p-3">
+                    <div className="min-w-0">
+                      <p className="text-white text-sm truncate">{checkpoint.name}</p>
+                      <p className="text-xs text-slate-400">
+                        {new Date(checkpoint.createdAt).toLocaleString()} · {Object.keys(checkpoint.files).length} changed
+                        {Object.keys(checkpoint.files).length === 1 ? ' file' : ' files'}
+                      </p>
+                    </div>
+                    <div className="ml-auto flex items-center gap-1 flex-shrink-0">
+                      {confirmingRestore === checkpoint.id ? (
+                        <>
+                          <Button
+                            size="sm"
+                            onClick={() => {
+                              setConfirmingRestore(null);
+                              onRestoreCheckpoint(checkpoint);
+                            }}
+                            className="bg-amber-600 hover:bg-amber-700 text-white"
+                          >
+                            Replace Files
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setConfirmingRestore(null)}
+                            className="text-slate-400 hover:text-white hover:bg-slate-700"
+                          >
+                            Cancel
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setConfirmingRestore(checkpoint.id)}
+                            className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                            title="Replace your current files with this checkpoint"
+                          >
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                            Restore
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => onDeleteCheckpoint(checkpoint)}
+                            className="text-slate-400 hover:text-red-400 hover:bg-slate-700"
+                            title="Delete checkpoint"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkspaceHistoryDialog;
@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+import { IdeCommandId, Keybindings, keybindingService } from '../services/keybindingService';
+
+type CommandHandlers = Partial<Record<IdeCommandId, () => void>>;
+
+// Runs IDE commands from their keybindings anywhere on the page and keeps up with customised keys
+export const useKeybindings = (handlers: CommandHandlers): Keybindings => {
+  const [keybindings, setKeybindings] = useState(() => keybindingService.getKeybindings());
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => keybindingService.subscribe(setKeybindings), []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // The editor runs the same commands through its own actions
+      if (event.defaultPrevented || (event.target instanceof Element && event.target.closest('.monaco-editor'))) {
+        return;
+      }
+
+      const keys = keybindingService.fromEvent(event);
+      if (!keys) return;
+      const id = (Object.keys(keybindings) as IdeCommandId[]).find(commandId => keybindings[commandId] === keys);
+      const handler = id ? handlersRef.current[id] : undefined;
+      if (handler) {
+        event.preventDefault();
+        handler();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keybindings]);
+
+  return keybindings;
+};
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { RunnerStatus, runnerPool } from '../services/runners/runnerPool';
+import { SupportedLanguage } from '../types/runner';
+
+// Whether the pooled runner for a language is loaded and ready, kept up to date as it changes
+export const useRunnerStatus = (language: SupportedLanguage | null): RunnerStatus | null => {
+  const [status, setStatus] = useState(() => (language ? runnerPool.getStatus(language) : null));
+
+  useEffect(() => {
+    const update = () => setStatus(language ? runnerPool.getStatus(language) : null);
+    update();
+    return runnerPool.subscribe(update);
+  }, [language]);
+
+  return status;
+};
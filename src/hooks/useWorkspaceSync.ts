@@ -0,0 +1,210 @@
+// Custom hook for syncing an IDE workspace with the backend across devices
+
+import { useEffect, useRef, useState } from 'react';
+import { apiService } from '../services/apiService';
+import { labStorageService } from '../services/labStorageService';
+import { WorkspaceMerge, labSyncService } from '../services/labSyncService';
+import { RemoteWorkspace, WorkspaceSnapshot } from '../types/lab';
+
+export type WorkspaceSyncStatus = 'off' | 'syncing' | 'synced' | 'offline' | 'conflict' | 'error';
+
+interface WorkspaceSyncOptions {
+  storageId: string;
+  labUrl: string;
+  ready: boolean; // the IDE has loaded the lab and the local workspace
+  onApply: (snapshot: WorkspaceSnapshot) => void; // shows changes that came from another device
+}
+
+interface WorkspaceSync {
+  enabled: boolean;
+  status: WorkspaceSyncStatus;
+  syncedAt: number | null;
+  conflicts: WorkspaceMerge['conflicts'];
+  setEnabled: (enabled: boolean) => void;
+  scheduleUpload: () => void; // call after the saved files, tree or checkpoints change
+  resolveConflicts: (choices: Record<string, string | null>) => void;
+}
+
+// Uploads wait for a pause in saving
+const UPLOAD_DELAY = 2000;
+
+const toSnapshot = ({ files, changes, checkpoints }: RemoteWorkspace): WorkspaceSnapshot => ({ files, changes, checkpoints });
+
+export const useWorkspaceSync = ({ storageId, labUrl, ready, onApply }: WorkspaceSyncOptions): WorkspaceSync => {
+  const [enabled, setEnabledState] = useState(false);
+  const [status, setStatus] = useState<WorkspaceSyncStatus>('off');
+  const [syncedAt, setSyncedAt] = useState<number | null>(null);
+  // A merge waiting for the learner to pick between conflicting files
+  const [pendingMerge, setPendingMergeState] = useState<{ merge: WorkspaceMerge; remote: RemoteWorkspace } | null>(null);
+  // Read by uploads that were scheduled before the conflict showed up
+  const pendingMergeRef = useRef(pendingMerge);
+
+  const uploadTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const busyRef = useRef(false);
+  const changedWhileBusyRef = useRef(false);
+  const onApplyRef = useRef(onApply);
+  onApplyRef.current = onApply;
+
+  const setPendingMerge = (value: { merge: WorkspaceMerge; remote: RemoteWorkspace } | null) => {
+    pendingMergeRef.current = value;
+    setPendingMergeState(value);
+  };
+
+  const getLocal = () => labSyncService.getSnapshot(labStorageService.getWorkspace(storageId));
+
+  // Both sides now match the remote copy
+  const markSynced = (remote: RemoteWorkspace) => {
+    const now = Date.now();
+    labStorageService.updateWorkspace(storageId, {
+      sync: { enabled: true, revision: remote.revision, base: toSnapshot(remote), syncedAt: now }
+    }).catch(error => console.warn('Failed to store sync state:', error));
+    setSyncedAt(now);
+    setStatus('synced');
+  };
+
+  const upload = async (snapshot: WorkspaceSnapshot, revision: number | null): Promise<void> => {
+    const result = await apiService.saveLabWorkspace(labUrl, snapshot, revision);
+    if (result.status === 'conflict') {
+      // Another device uploaded first
+      await reconcile(result.workspace);
+    } else {
+      markSynced(result.workspace);
+    }
+  };
+
+  // Takes a merged workspace as the local one and uploads it unless the backend already has it
+  const finish = async (merged: WorkspaceSnapshot, remote: RemoteWorkspace) => {
+    if (!labSyncService.isSame(merged, getLocal())) {
+      labStorageService.updateWorkspace(storageId, {
+        saved: merged.files,
+        changes: merged.changes,
+        checkpoints: merged.checkpoints
+      }).catch(error => console.warn('Failed to store synced workspace:', error));
+      onApplyRef.current(merged);
+    }
+
+    if (labSyncService.isSame(merged, toSnapshot(remote))) {
+      markSynced(remote);
+    } else {
+      await upload(merged, remote.revision);
+    }
+  };
+
+  const reconcile = async (remote: RemoteWorkspace | null) => {
+    if (!remote) {
+      await upload(getLocal(), null);
+      return;
+    }
+
+    const merge = labSyncService.merge(labStorageService.getWorkspace(storageId).sync?.base ?? null, getLocal(), remote);
+    if (merge.conflicts.length > 0) {
+      setPendingMerge({ merge, remote });
+      setStatus('conflict');
+      return;
+    }
+    await finish(merge.merged, remote);
+  };
+
+  // Runs one sync task at a time; changes made meanwhile are uploaded right after
+  const run = async (task: () => Promise<void>) => {
+    if (busyRef.current) {
+      changedWhileBusyRef.current = true;
+      return;
+    }
+
+    busyRef.current = true;
+    setStatus('syncing');
+    try {
+      await task();
+    } catch (error) {
+      console.warn('Workspace sync failed:', error);
+      // The local store keeps everything; the next change or reconnect tries again
+      setStatus(navigator.onLine ? 'error' : 'offline');
+    } finally {
+      busyRef.current = false;
+      if (changedWhileBusyRef.current) {
+        changedWhileBusyRef.current = false;
+        scheduleUpload();
+      }
+    }
+  };
+
+  // Fetches what other devices uploaded and merges it in
+  const pull = () => run(async () => reconcile(await apiService.getLabWorkspace(labUrl)));
+
+  const push = () => run(async () => {
+    if (pendingMergeRef.current) return;
+    const { revision, base } = labStorageService.getWorkspace(storageId).sync || { revision: null, base: null };
+    const local = getLocal();
+    if (revision !== null && base && labSyncService.isSame(local, base)) {
+      setStatus('synced');
+      return;
+    }
+    await upload(local, revision);
+  });
+
+  const pullRef = useRef(pull);
+  pullRef.current = pull;
+  const pushRef = useRef(push);
+  pushRef.current = push;
+
+  const scheduleUpload = () => {
+    const sync = labStorageService.getWorkspace(storageId).sync;
+    if (!ready || !sync?.enabled || pendingMergeRef.current) return;
+    clearTimeout(uploadTimerRef.current);
+    uploadTimerRef.current = setTimeout(() => pushRef.current(), UPLOAD_DELAY);
+  };
+
+  const setEnabled = (value: boolean) => {
+    const sync = labStorageService.getWorkspace(storageId).sync;
+    labStorageService.updateWorkspace(storageId, {
+      sync: { revision: null, base: null, syncedAt: null, ...sync, enabled: value }
+    }).catch(error => console.warn('Failed to store sync state:', error));
+    setEnabledState(value);
+
+    if (value) {
+      pull();
+    } else {
+      clearTimeout(uploadTimerRef.current);
+      setPendingMerge(null);
+      setStatus('off');
+    }
+  };
+
+  const resolveConflicts = (choices: Record<string, string | null>) => {
+    if (!pendingMerge) return;
+    const { merge, remote } = pendingMerge;
+    setPendingMerge(null);
+    run(() => finish(labSyncService.resolve(merge, choices), remote));
+  };
+
+  // Picks up the lab's sync setting once its workspace is loaded and catches up with other devices
+  useEffect(() => {
+    if (!ready) return;
+    const sync = labStorageService.getWorkspace(storageId).sync;
+    setEnabledState(!!sync?.enabled);
+    setSyncedAt(sync?.syncedAt ?? null);
+    setStatus(sync?.enabled ? 'synced' : 'off');
+    if (sync?.enabled) {
+      pullRef.current();
+    }
+  }, [ready, storageId]);
+
+  // Edits made offline go up once the connection is back
+  useEffect(() => {
+    if (!enabled) return;
+    const handleOnline = () => pullRef.current();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [enabled]);
+
+  return {
+    enabled,
+    status,
+    syncedAt,
+    conflicts: pendingMerge?.merge.conflicts || [],
+    setEnabled,
+    scheduleUpload,
+    resolveConflicts
+  };
+};
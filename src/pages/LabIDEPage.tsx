@@ -1,12 +1,23 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Helmet } from 'react-helmet-async';
-import { ArrowLeft, FileText, Folder, FolderOpen, Code, Eye, Save, RotateCcw, RefreshCcw, Download, Coins, CheckCircle } from 'lucide-react';
+import {
+  ArrowLeft, FileText, Folder, FolderOpen, Code, Eye, Save, RotateCcw, RefreshCcw, Download, Coins, CheckCircle, ListChecks,
+  FilePlus, FolderPlus, MoreHorizontal, Pencil, FolderInput, Trash2, History, GitCompare,
+  Cloud, CloudOff, AlertTriangle, Upload, Share2, Command as CommandIcon, X
+} from 'lucide-react';
+import type { editor } from 'monaco-editor';
 import Header from '../components/layout/Header';
-import MonacoEditor from '../components/ide/MonacoEditor';
-import CodeRunner from '../components/ide/CodeRunner';
+import MonacoEditor, { EditorCommand, EditorLocation, MonacoEditorHandle } from '../components/ide/MonacoEditor';
+import CodeRunner, { CodeRunnerHandle } from '../components/ide/CodeRunner';
+import CommandPalette, { PaletteCommand } from '../components/ide/CommandPalette';
+import KeybindingsDialog from '../components/ide/KeybindingsDialog';
+import EditorTabs from '../components/ide/EditorTabs';
+import FilePathDialog from '../components/ide/FilePathDialog';
+import ImportDialog from '../components/ide/ImportDialog';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,21 +28,62 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { apiService } from '../services/apiService';
-import { LabContent, LabFile } from '../types/lab';
+import { LabCheckResult, LabContent, LabFile, WorkspaceChanges, WorkspaceCheckpoint, WorkspaceSnapshot } from '../types/lab';
+import { CodeDiagnostic } from '../types/runner';
+import { Breakpoints } from '../services/runners/debugStepping';
 import { PurchaseRequest } from '../types/dojoCoins';
 import { useBackendData } from '../context/BackendDataContext';
 import { useAuth } from '../context/AuthContext';
 import { useDojoWallet } from '../context/DojoWalletContext';
 import PurchaseConfirmationDialog from '../components/lab/PurchaseConfirmationDialog';
 import LabNavigationButtons from '../components/lab/LabNavigationButtons';
+import LabChecksDialog from '../components/lab/LabChecksDialog';
+import WorkspaceHistoryDialog from '../components/lab/WorkspaceHistoryDialog';
+import SyncConflictDialog from '../components/lab/SyncConflictDialog';
+import { labCheckService } from '../services/labCheckService';
+import { ImportItem } from '../services/labImportService';
+import { labSnapshotService } from '../services/labSnapshotService';
+import { EMPTY_WORKSPACE_CHANGES, labWorkspaceService } from '../services/labWorkspaceService';
+import { StorageQuotaError, WorkspaceData, labStorageService } from '../services/labStorageService';
+import { EMPTY_EDITOR_LAYOUT, EditorLayout, editorLayoutService } from '../services/editorLayoutService';
 import { useToast } from '@/hooks/use-toast';
+import { useWorkspaceSync } from '../hooks/useWorkspaceSync';
+import { useKeybindings } from '../hooks/useKeybindings';
+import { useLabNavigation } from '../hooks/useLabNavigation';
+import { IDE_COMMANDS, IdeCommandId, keybindingService } from '../services/keybindingService';
+import { formatService } from '../services/formatService';
+import { lintService } from '../services/lintService';
 
-// Combine regular lab files with premium preview files (copied from LabViewerPage)
-const combineLabFiles = (labContent: LabContent | null): LabFile[] => {
+// Editor widths by grid columns, spelled out so Tailwind keeps the classes
+const EDITOR_SPAN_CLASSES: Record<number, string> = {
+  3: 'lg:col-span-3',
+  4: 'lg:col-span-4',
+  5: 'lg:col-span-5',
+  6: 'lg:col-span-6'
+};
+
+// Combine regular lab files with premium preview files (copied from LabViewerPage).
+// Workspace changes only apply to the regular files; preview files always stay as shipped.
+const combineLabFiles = (labContent: LabContent | null, changes = EMPTY_WORKSPACE_CHANGES): LabFile[] => {
   if (!labContent?.content) return [];
   
-  const regularFiles = labContent.content.lab_files || [];
+  const regularFiles = labWorkspaceService.applyChanges(labContent.content.lab_files || [], changes);
   const previewFiles = labContent.content.premium_preview || [];
   
   // Mark preview files with a special indicator and unique paths
@@ -46,6 +98,23 @@ const combineLabFiles = (labContent: LabContent | null): LabFile[] => {
   return [...regularFiles, ...markedPreviewFiles];
 };
 
+// Puts the learner's content into the tree: pending edits first, then saved files, then what the
+// lab shipped for the file at its current path
+const applyWorkspaceContent = (
+  files: LabFile[],
+  modifiedFiles: Map<string, string>,
+  savedContent: Map<string, string>,
+  workspaceChanges: WorkspaceChanges,
+  originalFiles: Map<string, string>
+): LabFile[] => files.map(file => {
+  if (file.type === 'directory' && file.children) {
+    return { ...file, children: applyWorkspaceContent(file.children, modifiedFiles, savedContent, workspaceChanges, originalFiles) };
+  }
+  const content = modifiedFiles.get(file.path) ?? savedContent.get(file.path) ??
+    (file.content !== null ? labWorkspaceService.getLabContent(workspaceChanges, originalFiles, file.path) : undefined);
+  return content !== undefined ? { ...file, content } : file;
+});
+
 const LabIDEPage: React.FC = () => {
   const { courseId, labId, articleId } = useParams<{ courseId: string; labId?: string; articleId?: string }>();
   const navigate = useNavigate();
@@ -64,11 +133,8 @@ const LabIDEPage: React.FC = () => {
   const contentType = labId ? 'lab' : 'article';
   const contentId = labId || articleId;
   
-  // LocalStorage keys for this specific content
-  const pendingChangesKey = `ide-pending-${courseId}-${contentType}-${contentId}`;
-  const savedContentKey = `ide-saved-${courseId}-${contentType}-${contentId}`;
-  const cachedContentKey = `lab-content-${courseId}-${contentType}-${contentId}`;
-  const cacheTimestampKey = `lab-content-timestamp-${courseId}-${contentType}-${contentId}`;
+  // Workspace and cached content for this lab are stored under one id
+  const storageId = `${courseId}-${contentType}-${contentId}`;
   
   // State
   const [labContent, setLabContent] = useState<LabContent | null>(null);
@@ -83,6 +149,46 @@ const LabIDEPage: React.FC = () => {
   const [showPurchaseDialog, setShowPurchaseDialog] = useState(false);
   const [isCompleting, setIsCompleting] = useState(false);
   const [isCompleted, setIsCompleted] = useState(false);
+  const [showChecksDialog, setShowChecksDialog] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  // Results are only valid for the files they were run against
+  const [checkRun, setCheckRun] = useState<{ results: LabCheckResult[]; filesKey: string } | null>(null);
+  const [runDiagnostics, setRunDiagnostics] = useState<CodeDiagnostic[]>([]);
+  const [revealLocation, setRevealLocation] = useState<EditorLocation | null>(null);
+  const [breakpoints, setBreakpoints] = useState<Breakpoints>({});
+  const [debugLocation, setDebugLocation] = useState<{ file: string; line: number } | null>(null);
+  const [workspaceChanges, setWorkspaceChanges] = useState<WorkspaceChanges>(EMPTY_WORKSPACE_CHANGES);
+  const [pathDialog, setPathDialog] = useState<{ action: 'file' | 'folder' | 'rename' | 'move'; path: string } | null>(null);
+  const [fileToDelete, setFileToDelete] = useState<LabFile | null>(null);
+  const [checkpoints, setCheckpoints] = useState<WorkspaceCheckpoint[]>([]);
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
+  // What the open file is diffed against: 'original' or a checkpoint id; null shows the editor
+  const [compareTarget, setCompareTarget] = useState<string | null>(null);
+  const [showConflictDialog, setShowConflictDialog] = useState(true);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [paletteMode, setPaletteMode] = useState<'commands' | 'files' | null>(null);
+  const [showKeybindingsDialog, setShowKeybindingsDialog] = useState(false);
+  const [showFileExplorer, setShowFileExplorer] = useState(true);
+  const [showRunnerPanel, setShowRunnerPanel] = useState(true);
+  const [formatOnSaveChoice, setFormatOnSaveChoice] = useState(() => formatService.getFormatOnSave());
+  // Tabs and panes; the active pane always shows selectedFile
+  const [editorLayout, setEditorLayout] = useState<EditorLayout>(EMPTY_EDITOR_LAYOUT);
+  // Lab whose stored layout editorLayout holds, so nothing is written before it has been restored
+  const layoutStorageIdRef = useRef<string | null>(null);
+  const editorHandleRef = useRef<MonacoEditorHandle>(null);
+  const runnerHandleRef = useRef<CodeRunnerHandle>(null);
+  // A full storage is reported once per visit rather than on every keystroke
+  const quotaWarningShownRef = useRef(false);
+
+  // Problems from the last run by file, for the editor panes
+  const markersByFile = useMemo(
+    () => runDiagnostics.reduce<Record<string, CodeDiagnostic[]>>((result, diagnostic) => ({
+      ...result,
+      [diagnostic.file]: [...(result[diagnostic.file] || []), diagnostic]
+    }), {}),
+    [runDiagnostics]
+  );
 
   // Get course and content resource data (memoized to prevent infinite loops)
   const course = useMemo(() => data?.courses?.[courseId], [data?.courses, courseId]);
@@ -97,104 +203,101 @@ const LabIDEPage: React.FC = () => {
   // Check if already completed in backend data
   const isAlreadyCompleted = contentResource?.completed;
 
-  // LocalStorage helper functions
-  const savePendingChanges = (changes: Map<string, string>) => {
-    try {
-      const changesObject = Object.fromEntries(changes);
-      localStorage.setItem(pendingChangesKey, JSON.stringify(changesObject));
-    } catch (error) {
-      console.warn('Failed to save pending changes:', error);
+  const { previousLab, nextLab } = useLabNavigation(courseId || '', labId, articleId);
+
+  // Lint rules and format on save come from the lab, so beginner labs can be more lenient
+  const lintConfig = labContent?.lab_info?.lint;
+  const lintRules = useMemo(() => lintService.resolveRules(lintConfig), [lintConfig]);
+  const formatOnSave = formatOnSaveChoice ?? !!lintConfig?.format_on_save;
+
+  // Storage helper functions. Reads come from the workspace loaded at the start of fetchLabData;
+  // writes land in memory right away and reach IndexedDB in the background.
+  const saveWorkspace = (update: Partial<WorkspaceData>) => {
+    labStorageService
+      .updateWorkspace(storageId, {
+        ...update,
+        title: labContent?.lab_info?.title ?? labStorageService.getWorkspace(storageId).title,
+        path: `/course/${courseId}/${contentType}/${contentId}/ide`
+      })
+      .catch(error => {
+        if (!(error instanceof StorageQuotaError)) {
+          console.warn('Failed to save workspace:', error);
+        } else if (!quotaWarningShownRef.current) {
+          quotaWarningShownRef.current = true;
+          toast({
+            title: "Storage Full",
+            description: error.message,
+            variant: "destructive",
+            className: "bg-red-900 border-red-700 text-white",
+          });
+        }
+      });
+ 
+    // Unsaved edits stay on this device; everything else follows the learner when sync is on
+    if ('saved' in update || 'changes' in update || 'checkpoints' in update) {
+      workspaceSync.scheduleUpload();
     }
   };
 
+  const savePendingChanges = (changes: Map<string, string>) => {
+    saveWorkspace({ pending: Object.fromEntries(changes) });
+  };
+
   const loadPendingChanges = (): Map<string, string> => {
-    try {
-      const stored = localStorage.getItem(pendingChangesKey);
-      if (stored) {
-        const changesObject = JSON.parse(stored);
-        return new Map(Object.entries(changesObject) as [string, string][]);
-      }
-    } catch (error) {
-      console.warn('Failed to load pending changes:', error);
-    }
-    return new Map();
+    return new Map(Object.entries(labStorageService.getWorkspace(storageId).pending));
+  };
+
+  const saveWorkspaceChanges = (changes: WorkspaceChanges) => {
+    saveWorkspace({ changes });
+  };
+
+  const loadWorkspaceChanges = (): WorkspaceChanges => {
+    const changes = labStorageService.getWorkspace(storageId).changes;
+    return changes ? { ...EMPTY_WORKSPACE_CHANGES, ...changes } : EMPTY_WORKSPACE_CHANGES;
+  };
+
+  // Checkpoints survive Reload Content, so they are never part of clearAllStorage
+  const saveCheckpoints = (items: WorkspaceCheckpoint[]) => {
+    saveWorkspace({ checkpoints: items });
   };
 
   const clearAllStorage = () => {
-    try {
-      localStorage.removeItem(pendingChangesKey);
-      localStorage.removeItem(savedContentKey);
-      localStorage.removeItem(cachedContentKey);
-      localStorage.removeItem(cacheTimestampKey);
-    } catch (error) {
-      console.warn('Failed to clear IDE storage:', error);
-    }
+    saveWorkspace({ pending: {}, saved: {}, changes: null });
+    clearCache();
   };
 
   // Cache management functions
   const saveCachedContent = (content: LabContent) => {
-    try {
-      localStorage.setItem(cachedContentKey, JSON.stringify(content));
-      localStorage.setItem(cacheTimestampKey, Date.now().toString());
-    } catch (error) {
+    labStorageService.setCachedContent(storageId, content).catch(error => {
       console.warn('Failed to cache content:', error);
-    }
+    });
   };
 
-  const loadCachedContent = (): LabContent | null => {
+  const loadCachedContent = async (): Promise<LabContent | null> => {
     try {
-      const cached = localStorage.getItem(cachedContentKey);
-      const timestamp = localStorage.getItem(cacheTimestampKey);
-      
-      if (cached && timestamp) {
-        const cacheAge = Date.now() - parseInt(timestamp);
-        const maxCacheAge = 30 * 60 * 1000; // 30 minutes
-        
-        if (cacheAge < maxCacheAge) {
-          return JSON.parse(cached);
-        } else {
-          // Cache expired, clean up
-          localStorage.removeItem(cachedContentKey);
-          localStorage.removeItem(cacheTimestampKey);
-        }
-      }
+      return await labStorageService.getCachedContent(storageId);
     } catch (error) {
       console.warn('Failed to load cached content:', error);
+      return null;
     }
-    return null;
   };
 
   const clearCache = () => {
-    try {
-      localStorage.removeItem(cachedContentKey);
-      localStorage.removeItem(cacheTimestampKey);
-    } catch (error) {
+    labStorageService.removeCachedContent(storageId).catch(error => {
       console.warn('Failed to clear cache:', error);
-    }
+    });
   };
 
   const saveSingleFile = (filePath: string, content: string) => {
-    try {
-      const existing = localStorage.getItem(savedContentKey);
-      const savedContent = existing ? JSON.parse(existing) : {};
-      savedContent[filePath] = content;
-      localStorage.setItem(savedContentKey, JSON.stringify(savedContent));
-    } catch (error) {
-      console.warn('Failed to save file:', error);
-    }
+    saveWorkspace({ saved: { ...labStorageService.getWorkspace(storageId).saved, [filePath]: content } });
+  };
+
+  const replaceSavedContent = (content: Map<string, string>) => {
+    saveWorkspace({ saved: Object.fromEntries(content) });
   };
 
   const loadSavedContent = (): Map<string, string> => {
-    try {
-      const stored = localStorage.getItem(savedContentKey);
-      if (stored) {
-        const contentObject = JSON.parse(stored);
-        return new Map(Object.entries(contentObject) as [string, string][]);
-      }
-    } catch (error) {
-      console.warn('Failed to load saved content:', error);
-    }
-    return new Map();
+    return new Map(Object.entries(labStorageService.getWorkspace(storageId).saved));
   };
 
   // Recursively collect all files including nested ones
@@ -213,6 +316,10 @@ const LabIDEPage: React.FC = () => {
     return result;
   };
 
+  // Apply the user's saved and pending edits so the code runner sees the current workspace
+  const getWorkspaceFiles = (files: LabFile[]): LabFile[] =>
+    applyWorkspaceContent(files, modifiedFiles, loadSavedContent(), workspaceChanges, originalFiles);
+
   // Count only files, not folders
   const countFiles = (files: LabFile[]): number => {
     let count = 0;
@@ -231,12 +338,12 @@ const LabIDEPage: React.FC = () => {
     if (!labContent) return;
 
     try {
-      const allTopLevelFiles = combineLabFiles(labContent);
+      const allTopLevelFiles = getWorkspaceFiles(combineLabFiles(labContent, workspaceChanges));
       const allFiles = getAllFilesRecursively(allTopLevelFiles);
       
       // Filter out preview files but include both free and premium actual content
       const downloadableFiles = allFiles.filter(file => 
-        file.content && 
+        file.content !== null && 
         file.access_granted !== false
       );
 
@@ -256,7 +363,7 @@ const LabIDEPage: React.FC = () => {
 
       // Add each file to the ZIP with proper folder structure
       downloadableFiles.forEach(file => {
-        if (file.content) {
+        if (file.content !== null) {
           // Use the full path to maintain folder structure
           const filePath = file.path || file.name;
           zip.file(filePath, file.content);
@@ -301,18 +408,18 @@ const LabIDEPage: React.FC = () => {
         return false;
       } else {
         // First visit in this session - check if user has any saved work
-        const pendingChanges = localStorage.getItem(pendingChangesKey);
-        const savedContent = localStorage.getItem(savedContentKey);
+        const workspace = labStorageService.getWorkspace(storageId);
         
-        const hasPending = pendingChanges && pendingChanges !== '{}';
-        const hasSaved = savedContent && savedContent !== '{}';
+        const hasPending = Object.keys(workspace.pending).length > 0;
+        const hasSaved = Object.keys(workspace.saved).length > 0;
+        const hasWorkspaceChanges = !!workspace.changes;
         
         // Mark that we've visited this page
         sessionStorage.setItem(sessionKey, 'visited');
         
         // If user has saved work, likely they're returning after a session break
         // Only treat as refresh if they have no saved work at all
-        return !(hasPending || hasSaved);
+        return !(hasPending || hasSaved || hasWorkspaceChanges);
       }
       
     } catch (error) {
@@ -340,16 +447,21 @@ const LabIDEPage: React.FC = () => {
       setIsLoading(true);
       setError(null);
       
+      // The learner's stored work has to be in memory before it is applied below
+      await labStorageService.loadWorkspace(storageId).catch(error => {
+        console.warn('Failed to load stored workspace:', error);
+      });
+      
       // Check for cached content first (unless force refresh)
       if (!forceRefresh) {
-        const cachedContent = loadCachedContent();
+        const cachedContent = await loadCachedContent();
         if (cachedContent) {
           setLabContent(cachedContent);
           
           // Store original content for all files
           const allFiles = combineLabFiles(cachedContent);
           const originalContent = new Map<string, string>();
-          allFiles.forEach(file => {
+          getAllFilesRecursively(allFiles).forEach(file => {
             originalContent.set(file.path, file.content || '');
           });
           setOriginalFiles(originalContent);
@@ -359,14 +471,7 @@ const LabIDEPage: React.FC = () => {
           
           if (isRefresh) {
             // Page refresh - clear all storage and start fresh with cached content
-            const pendingChangesKey = `ide-pending-${courseId}-${contentType}-${contentId}`;
-            const savedContentKey = `ide-saved-${courseId}-${contentType}-${contentId}`;
-            try {
-              localStorage.removeItem(pendingChangesKey);
-              localStorage.removeItem(savedContentKey);
-            } catch (error) {
-              console.warn('Failed to clear IDE storage:', error);
-            }
+            saveWorkspace({ pending: {}, saved: {}, changes: null });
           } else {
             // Navigation - restore user's work
             const pendingChanges = loadPendingChanges();
@@ -376,6 +481,7 @@ const LabIDEPage: React.FC = () => {
             if (pendingChanges.size > 0) {
               setModifiedFiles(pendingChanges);
             }
+            setWorkspaceChanges(loadWorkspaceChanges());
             
             // Apply content to files: saved content first, then pending changes
             allFiles.forEach(file => {
@@ -441,7 +547,7 @@ const LabIDEPage: React.FC = () => {
         // Store original content for all files
         const allFiles = combineLabFiles(contentResponse.data);
         const originalContent = new Map<string, string>();
-        allFiles.forEach(file => {
+        getAllFilesRecursively(allFiles).forEach(file => {
           originalContent.set(file.path, file.content || '');
         });
         setOriginalFiles(originalContent);
@@ -462,6 +568,7 @@ const LabIDEPage: React.FC = () => {
           if (pendingChanges.size > 0) {
             setModifiedFiles(pendingChanges);
           }
+          setWorkspaceChanges(loadWorkspaceChanges());
           
           // Apply content to files: saved content first, then pending changes
           allFiles.forEach(file => {
@@ -535,8 +642,19 @@ const LabIDEPage: React.FC = () => {
     }
   }, [fetchLabData, authLoading, isAuthenticated, contentUrl, contentResource]);
 
+  // Checkpoints are kept per lab, independent of how the content was loaded
+  useEffect(() => {
+    labStorageService
+      .loadWorkspace(storageId)
+      .then(workspace => setCheckpoints(workspace.checkpoints))
+      .catch(error => {
+        console.warn('Failed to load checkpoints:', error);
+        setCheckpoints([]);
+      });
+  }, [storageId]);
+
   // Note: We don't clean up sessionStorage navigation flag anymore
-  // Instead, we use the presence of localStorage changes to detect navigation vs refresh
+  // Instead, we use the presence of stored changes to detect navigation vs refresh
 
   // Toggle folder expand/collapse
   const toggleFolder = (path: string) => {
@@ -566,11 +684,22 @@ const LabIDEPage: React.FC = () => {
       handlePurchaseClick();
     }
 
-    // Apply user's changes to the selected file (in case it doesn't have them)
+    setRevealLocation(null);
+    setSelectedFile(getFileWithChanges(file));
+  };
+
+  // Apply user's changes to a file being opened (in case it doesn't have them)
+  const getFileWithChanges = (file: LabFile): LabFile => {
     const pendingChanges = loadPendingChanges();
     const savedContent = loadSavedContent();
     
     const fileWithChanges = { ...file };
+
+    // Start from the lab version, since tree content can still hold edits applied when the page loaded
+    const labVersion = labWorkspaceService.getLabContent(workspaceChanges, originalFiles, file.path);
+    if (labVersion !== undefined && file.content !== null) {
+      fileWithChanges.content = labVersion;
+    }
     
     // First apply saved content (from Save button)
     const saved = savedContent.get(file.path);
@@ -584,33 +713,451 @@ const LabIDEPage: React.FC = () => {
       fileWithChanges.content = pending;
     }
     
-    setSelectedFile(fileWithChanges);
+    return fileWithChanges;
+  };
+
+  // A file of the current workspace by path, as it is shown in an editor pane
+  const getOpenFile = (path: string | null): LabFile | null => {
+    const file = path ? labWorkspaceService.findFile(combineLabFiles(labContent, workspaceChanges), path) : null;
+    return file && file.type === 'file' ? getFileWithChanges(file) : null;
+  };
+
+  // Open a lab file by path, expanding the folders it is in
+  const openFileAtPath = (path: string) => {
+    const findFile = (files: LabFile[], ancestors: string[]): { file: LabFile; ancestors: string[] } | null => {
+      for (const file of files) {
+        if (file.type === 'file' && file.path === path) {
+          return { file, ancestors };
+        }
+        if (file.type === 'directory' && file.children) {
+          const found = findFile(file.children, [...ancestors, file.path]);
+          if (found) return found;
+        }
+      }
+      return null;
+    };
+
+    const found = findFile(combineLabFiles(labContent, workspaceChanges), []);
+    if (!found) return false;
+
+    setExpandedFolders(prev => new Set([...prev, ...found.ancestors]));
+    if (selectedFile?.path !== path) {
+      handleFileSelect(found.file);
+    }
+    return true;
+  };
+
+  // Open the file an error points at and move the cursor to the spot
+  const handleNavigate = (location: EditorLocation) => {
+    if (openFileAtPath(location.file)) {
+      setRevealLocation({ ...location });
+    }
+  };
+
+  // Follow the debugger into whichever file it is paused in
+  const handleDebugLocation = (location: { file: string; line: number } | null) => {
+    if (location) {
+      openFileAtPath(location.file);
+    }
+    setDebugLocation(location);
+  };
+
+  const handleToggleBreakpoint = (path: string, line: number) => {
+    setBreakpoints(prev => {
+      const lines = prev[path] || [];
+      return {
+        ...prev,
+        [path]: lines.includes(line) ? lines.filter(item => item !== line) : [...lines, line]
+      };
+    });
+  };
+
+  // Tab and pane changes; the file in the active pane becomes the open file
+  const applyEditorLayout = (layout: EditorLayout) => {
+    setEditorLayout(layout);
+    const activePath = layout.panes[layout.activePane];
+    if (activePath !== (selectedFile?.path ?? null)) {
+      setRevealLocation(null);
+      // A diff belongs to the file it was opened for
+      setCompareTarget(null);
+      setSelectedFile(getOpenFile(activePath));
+    }
+  };
+
+  const handleSelectTab = (path: string) => {
+    applyEditorLayout(editorLayoutService.show(editorLayout, path));
+  };
+
+  const handleTogglePinTab = (path: string) => {
+    const pinned = editorLayout.tabs.find(tab => tab.path === path)?.pinned;
+    applyEditorLayout(editorLayoutService.setPinned(editorLayout, path, !pinned));
+  };
+
+  const handleFocusPane = (pane: number) => {
+    applyEditorLayout(editorLayoutService.focusPane(editorLayout, pane));
+  };
+
+  const handleViewStateChange = (path: string, viewState: editor.ICodeEditorViewState) => {
+    setEditorLayout(prev => editorLayoutService.setViewState(prev, path, viewState));
+  };
+
+  // Bring back the tabs the learner had open in this lab; the file picked on load is kept when none of them exist anymore
+  const restoreEditorLayout = () => {
+    layoutStorageIdRef.current = storageId;
+    const stored = labStorageService.getWorkspace(storageId).layout;
+    const files = combineLabFiles(labContent, workspaceChanges);
+    const layout = stored
+      ? editorLayoutService.retainTabs({ ...EMPTY_EDITOR_LAYOUT, ...stored }, path => labWorkspaceService.findFile(files, path)?.type === 'file')
+      : EMPTY_EDITOR_LAYOUT;
+    const activeFile = getOpenFile(layout.panes[layout.activePane]);
+
+    if (activeFile) {
+      setEditorLayout(layout);
+      setSelectedFile(activeFile);
+    } else {
+      setEditorLayout(editorLayoutService.show(layout, selectedFile?.path ?? null));
+    }
+  };
+  const restoreEditorLayoutRef = useRef(restoreEditorLayout);
+  restoreEditorLayoutRef.current = restoreEditorLayout;
+
+  // Layout changes are written once the stored layout has been restored. Declared before the restoring
+  // effect, so the layout of the lab open before is never written over this lab's.
+  const saveWorkspaceRef = useRef(saveWorkspace);
+  saveWorkspaceRef.current = saveWorkspace;
+  useEffect(() => {
+    if (layoutStorageIdRef.current === storageId) {
+      saveWorkspaceRef.current({ layout: editorLayout });
+    }
+  }, [editorLayout, storageId]);
+
+  // Once the lab has loaded its layout is restored; after that, whatever file gets opened, from the tree,
+  // the palette or an error location, shows in the active pane, and tabs of files that are gone close
+  const selectedPath = selectedFile?.path ?? null;
+  useEffect(() => {
+    if (isLoading || !labContent) return;
+    if (layoutStorageIdRef.current !== storageId) {
+      restoreEditorLayoutRef.current();
+      return;
+    }
+
+    const files = combineLabFiles(labContent, workspaceChanges);
+    setEditorLayout(prev => editorLayoutService.show(
+      editorLayoutService.retainTabs(prev, path => labWorkspaceService.findFile(files, path)?.type === 'file'),
+      selectedPath
+    ));
+  }, [isLoading, labContent, workspaceChanges, storageId, selectedPath]);
+
+  // Content the lab shipped for the file now at this path; empty for files the learner created
+  const getOriginalContent = (path: string) =>
+    labWorkspaceService.getLabContent(workspaceChanges, originalFiles, path) || '';
+
+  const applyWorkspaceChanges = (changes: WorkspaceChanges) => {
+    setWorkspaceChanges(changes);
+    saveWorkspaceChanges(changes);
+  };
+
+  const expandFoldersTo = (path: string) => {
+    if (!path) return;
+    const segments = path.split('/');
+    const folders = segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+    setExpandedFolders(prev => new Set([...prev, ...folders]));
+  };
+
+  // Carry pending and saved content, breakpoints and the open file along with a rename, or drop them on delete
+  const moveFileState = (from: string, to: string | null) => {
+    const newModifiedFiles = labWorkspaceService.movePathEntries(modifiedFiles, from, to);
+    setModifiedFiles(newModifiedFiles);
+    savePendingChanges(newModifiedFiles);
+    replaceSavedContent(labWorkspaceService.movePathEntries(loadSavedContent(), from, to));
+    setBreakpoints(prev => Object.fromEntries(labWorkspaceService.movePathEntries(new Map(Object.entries(prev)), from, to)));
+
+    // Tabs follow the rename; a deleted open file gives way to the tab next to it
+    const layout = editorLayoutService.movePath(editorLayout, from, to);
+    setEditorLayout(layout);
+
+    if (selectedFile && (selectedFile.path === from || selectedFile.path.startsWith(`${from}/`))) {
+      if (to === null) {
+        setSelectedFile(getOpenFile(layout.panes[layout.activePane]));
+      } else {
+        const path = to + selectedFile.path.slice(from.length);
+        setSelectedFile({ ...selectedFile, path, name: labWorkspaceService.getName(path) });
+      }
+    }
+  };
+
+  // Create, rename or move from the file tree; returns the problem to show in the dialog, if any
+  const handlePathSubmit = (value: string): string | null => {
+    if (!pathDialog) return null;
+    const labFiles = labContent?.content?.lab_files || [];
+    const { action, path } = pathDialog;
+
+    try {
+      if (action === 'file') {
+        const changes = labWorkspaceService.createFile(labFiles, workspaceChanges, value);
+        const createdPath = changes.created[changes.created.length - 1];
+        applyWorkspaceChanges(changes);
+        expandFoldersTo(labWorkspaceService.getParent(createdPath));
+        const created = labWorkspaceService.findFile(labWorkspaceService.applyChanges(labFiles, changes), createdPath);
+        if (created) {
+          handleFileSelect(created);
+        }
+      } else if (action === 'folder') {
+        const changes = labWorkspaceService.createFolder(labFiles, workspaceChanges, value);
+        applyWorkspaceChanges(changes);
+        expandFoldersTo(changes.folders[changes.folders.length - 1]);
+      } else {
+        if (action === 'rename' && !value.trim()) {
+          return 'Enter a name';
+        }
+        if (action === 'rename' && /[\\/]/.test(value)) {
+          return 'Use Move to put it in another folder';
+        }
+        // Renaming keeps the folder, moving keeps the name
+        const target = labWorkspaceService.normalizePath(action === 'rename'
+          ? `${labWorkspaceService.getParent(path)}/${value}`
+          : `${value}/${labWorkspaceService.getName(path)}`);
+        const changes = labWorkspaceService.move(labFiles, workspaceChanges, path, target);
+        applyWorkspaceChanges(changes);
+        moveFileState(path, target);
+        expandFoldersTo(labWorkspaceService.getParent(target));
+      }
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Something went wrong';
+    }
+  };
+
+  const confirmDeleteFile = () => {
+    if (!fileToDelete) return;
+
+    try {
+      applyWorkspaceChanges(
+        labWorkspaceService.remove(labContent?.content?.lab_files || [], workspaceChanges, fileToDelete.path)
+      );
+      moveFileState(fileToDelete.path, null);
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Unable to delete this file",
+        variant: "destructive",
+        className: "bg-red-900 border-red-700 text-white",
+      });
+    } finally {
+      setFileToDelete(null);
+    }
+  };
+
+  // Imported files become pending edits; new ones are created first so they show up in the tree
+  const handleImportFiles = (items: ImportItem[]) => {
+    const labFiles = labContent?.content?.lab_files || [];
+    const savedContent = loadSavedContent();
+    const newModifiedFiles = new Map(modifiedFiles);
+    let changes = workspaceChanges;
+    let importedCount = 0;
+
+    items.forEach(item => {
+      try {
+        if (item.status === 'add') {
+          changes = labWorkspaceService.createFile(labFiles, changes, item.path);
+        }
+      } catch (error) {
+        console.warn(`Skipped importing ${item.path}:`, error);
+        return;
+      }
+
+      const baseline = savedContent.get(item.path) ?? labWorkspaceService.getLabContent(changes, originalFiles, item.path) ?? '';
+      if (item.content !== baseline) {
+        newModifiedFiles.set(item.path, item.content);
+      } else {
+        newModifiedFiles.delete(item.path);
+      }
+      expandFoldersTo(labWorkspaceService.getParent(item.path));
+      importedCount++;
+    });
+
+    if (changes !== workspaceChanges) {
+      applyWorkspaceChanges(changes);
+    }
+    setModifiedFiles(newModifiedFiles);
+    savePendingChanges(newModifiedFiles);
+
+    const openFile = items.find(item => item.path === selectedFile?.path);
+    if (selectedFile && openFile) {
+      setSelectedFile({ ...selectedFile, content: openFile.content });
+    }
+
+    setShowImportDialog(false);
+    toast({
+      title: "Files Imported",
+      description: `Imported ${importedCount} file${importedCount === 1 ? '' : 's'} as unsaved changes`,
+      className: "bg-green-900 border-green-700 text-white",
+    });
+  };
+
+  // Copies a link to a read-only copy of the learner's current files; premium files are never included
+  const handleShareSnapshot = async () => {
+    if (!courseId || !contentId) return;
+    setIsSharing(true);
+    try {
+      const { snapshot, premiumSkipped } = labSnapshotService.createSnapshot(
+        {
+          url: contentUrl,
+          title: labContent?.lab_info?.title || labStorageService.getWorkspace(storageId).title || contentType,
+          course_id: courseId,
+          content_type: contentType,
+          content_id: contentId
+        },
+        getCurrentLabFiles(),
+        workspaceChanges,
+        originalFiles,
+        selectedFile?.path ?? null
+      );
+      const link = await labSnapshotService.createLink(snapshot);
+      const copied = await navigator.clipboard.writeText(link).then(() => true, () => false);
+      const skippedNote = premiumSkipped > 0
+        ? ` ${premiumSkipped} premium file${premiumSkipped === 1 ? ' was' : 's were'} left out.`
+        : '';
+      toast({
+        title: copied ? "Snapshot Link Copied" : "Snapshot Link Created",
+        description: `${copied ? 'Anyone with the link can view and run your files.' : link}${skippedNote}`,
+        className: "bg-green-900 border-green-700 text-white",
+      });
+    } catch (error) {
+      console.error('Failed to share snapshot:', error);
+      toast({
+        title: "Share Failed",
+        description: "Could not create a snapshot link. Please try again.",
+        variant: "destructive",
+        className: "bg-red-900 border-red-700 text-white",
+      });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  // The current tree of regular lab files with the learner's content applied
+  const getCurrentLabFiles = () =>
+    getWorkspaceFiles(labWorkspaceService.applyChanges(labContent?.content?.lab_files || [], workspaceChanges));
+
+  const handleCreateCheckpoint = (name: string) => {
+    const checkpoint = labWorkspaceService.createCheckpoint(name, getCurrentLabFiles(), workspaceChanges, originalFiles);
+    const newCheckpoints = [checkpoint, ...checkpoints];
+    setCheckpoints(newCheckpoints);
+    saveCheckpoints(newCheckpoints);
+    toast({
+      title: "Checkpoint Created",
+      description: `Saved "${checkpoint.name}"`,
+      className: "bg-green-900 border-green-700 text-white",
+    });
+  };
+
+  // Replace the workspace with a checkpoint; its content becomes the saved layer and pending edits are dropped
+  const handleRestoreCheckpoint = (checkpoint: WorkspaceCheckpoint) => {
+    const labFiles = labContent?.content?.lab_files || [];
+    applyWorkspaceChanges(checkpoint.changes);
+    replaceSavedContent(new Map(Object.entries(checkpoint.files)));
+    setModifiedFiles(new Map());
+    savePendingChanges(new Map());
+
+    const restored = selectedFile &&
+      labWorkspaceService.findFile(labWorkspaceService.applyChanges(labFiles, checkpoint.changes), selectedFile.path);
+    if (restored && restored.type === 'file') {
+      setSelectedFile({
+        ...restored,
+        content: labWorkspaceService.getCheckpointContent(checkpoint, originalFiles, restored.path)
+      });
+    } else {
+      setSelectedFile(null);
+    }
+
+    setShowHistoryDialog(false);
+    toast({
+      title: "Checkpoint Restored",
+      description: `Your files now match "${checkpoint.name}"`,
+      className: "bg-green-900 border-green-700 text-white",
+    });
+  };
+
+  const handleDeleteCheckpoint = (checkpoint: WorkspaceCheckpoint) => {
+    const newCheckpoints = checkpoints.filter(item => item.id !== checkpoint.id);
+    setCheckpoints(newCheckpoints);
+    saveCheckpoints(newCheckpoints);
+    if (compareTarget === checkpoint.id) {
+      setCompareTarget('original');
+    }
+  };
+
+  // Show what another device synced; the open file follows unless it has unsaved edits here
+  const applySyncedWorkspace = (snapshot: WorkspaceSnapshot) => {
+    setWorkspaceChanges(snapshot.changes);
+    setCheckpoints(snapshot.checkpoints);
+
+    if (selectedFile && !modifiedFiles.has(selectedFile.path)) {
+      const labFiles = labContent?.content?.lab_files || [];
+      const synced = labWorkspaceService.findFile(labWorkspaceService.applyChanges(labFiles, snapshot.changes), selectedFile.path);
+      if (synced && synced.type === 'file') {
+        setSelectedFile({
+          ...synced,
+          content: snapshot.files[synced.path] ??
+            labWorkspaceService.getLabContent(snapshot.changes, originalFiles, synced.path) ?? synced.content
+        });
+      } else {
+        setSelectedFile(null);
+      }
+    }
+  };
+
+  const workspaceSync = useWorkspaceSync({
+    storageId,
+    labUrl: contentUrl,
+    ready: !!labContent && !isLoading,
+    onApply: applySyncedWorkspace
+  });
+
+  const handleResolveConflicts = (choices: Record<string, string | null>) => {
+    workspaceSync.resolveConflicts(choices);
+    setShowConflictDialog(true);
+  };
+
+  const handleCompareFile = (path: string) => {
+    if (openFileAtPath(path)) {
+      setCompareTarget('original');
+      setShowHistoryDialog(false);
+    }
   };
 
   // Handle content changes in editor
-  const handleContentChange = (newContent: string) => {
-    if (!selectedFile) return;
-    
+  // Edits come from the pane showing the file, which is not always the active one
+  const handleContentChange = (path: string, newContent: string) => {
     // Check against the "baseline" content (saved content or original)
     const savedContent = loadSavedContent();
-    const baseline = savedContent.get(selectedFile.path) || originalFiles.get(selectedFile.path) || '';
+    const baseline = savedContent.get(path) || getOriginalContent(path);
     
     // Update the modified files map (pending changes)
     const newModifiedFiles = new Map(modifiedFiles);
     if (newContent !== baseline) {
-      newModifiedFiles.set(selectedFile.path, newContent);
+      newModifiedFiles.set(path, newContent);
     } else {
-      newModifiedFiles.delete(selectedFile.path);
+      newModifiedFiles.delete(path);
     }
     
     setModifiedFiles(newModifiedFiles);
     savePendingChanges(newModifiedFiles);
 
     // Update the selected file content
-    setSelectedFile({
-      ...selectedFile,
-      content: newContent
-    });
+    if (selectedFile?.path === path) {
+      setSelectedFile({
+        ...selectedFile,
+        content: newContent
+      });
+    }
+  };
+
+  // Content as it gets saved; files that don't parse are saved as they are
+  const formatForSave = async (path: string, content: string): Promise<string> => {
+    if (!formatOnSave || !formatService.canFormat(path)) return content;
+    return formatService.format(path, content).catch(() => content);
   };
 
   // Handle save current file
@@ -619,9 +1166,13 @@ const LabIDEPage: React.FC = () => {
     
     try {
       setIsSaving(true);
+      const content = await formatForSave(selectedFile.path, selectedFile.content || '');
       
       // Save the current content to persistent storage
-      saveSingleFile(selectedFile.path, selectedFile.content || '');
+      saveSingleFile(selectedFile.path, content);
+      if (content !== selectedFile.content) {
+        setSelectedFile({ ...selectedFile, content });
+      }
       
       // Remove from pending changes (it's now saved)
       const newModifiedFiles = new Map(modifiedFiles);
@@ -636,13 +1187,36 @@ const LabIDEPage: React.FC = () => {
     }
   };
 
+  // Save every file with pending edits at once
+  const handleSaveAllFiles = async () => {
+    if (modifiedFiles.size === 0) return;
+
+    try {
+      setIsSaving(true);
+      const contents = await Promise.all(
+        Array.from(modifiedFiles, async ([path, content]) => [path, await formatForSave(path, content)] as const)
+      );
+      saveWorkspace({ saved: { ...labStorageService.getWorkspace(storageId).saved, ...Object.fromEntries(contents) } });
+      const openFile = contents.find(([path]) => path === selectedFile?.path);
+      if (selectedFile && openFile && openFile[1] !== selectedFile.content) {
+        setSelectedFile({ ...selectedFile, content: openFile[1] });
+      }
+      setModifiedFiles(new Map());
+      savePendingChanges(new Map());
+    } catch (error) {
+      console.warn('Failed to save files:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   // Handle revert current file
   const handleRevertFile = () => {
     if (!selectedFile) return;
     
     // Revert to saved content (if exists) or original content
     const savedContent = loadSavedContent();
-    const revertToContent = savedContent.get(selectedFile.path) || originalFiles.get(selectedFile.path) || '';
+    const revertToContent = savedContent.get(selectedFile.path) || getOriginalContent(selectedFile.path);
     
     // Update file content
     setSelectedFile({
@@ -668,11 +1242,13 @@ const LabIDEPage: React.FC = () => {
       // Clear all user changes and cache
       clearAllStorage();
       setModifiedFiles(new Map());
+      setWorkspaceChanges(EMPTY_WORKSPACE_CHANGES);
       
       // Force refetch data
       setIsLoading(true);
       setError(null);
       setSelectedFile(null);
+      setEditorLayout(EMPTY_EDITOR_LAYOUT);
       
       // Refetch the lab content with force refresh
       await fetchLabData(true);
@@ -746,11 +1322,50 @@ const LabIDEPage: React.FC = () => {
     }
   };
 
+  const handleRunChecks = async () => {
+    const files = labCheckService.toFileMap(getWorkspaceFiles(combineLabFiles(labContent, workspaceChanges)));
+
+    try {
+      setIsChecking(true);
+      const results = await labCheckService.runChecks(completionChecks, {
+        files,
+        // The tree can hold edits restored at load time, so compare with the content as fetched
+        originalFiles: Object.fromEntries(
+          Object.keys(labCheckService.toFileMap(combineLabFiles(labContent))).map(path => [path, originalFiles.get(path) ?? ''])
+        ),
+        hiddenTests: labCheckService.toFileMap(labContent?.content?.hidden_tests || [])
+      });
+      setCheckRun({ results, filesKey: JSON.stringify(files) });
+    } catch (error) {
+      console.error('Error running lab checks:', error);
+      toast({
+        title: "Checks Failed to Run",
+        description: "An unexpected error occurred while checking your work",
+        variant: "destructive",
+        className: "bg-red-900 border-red-700 text-white",
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
   const handleCompleteClick = async () => {
     if (!contentUrl) return;
 
+    // Labs with checks can only be completed with a passing, signed summary
+    if (!checksPassed) return;
+
     try {
       setIsCompleting(true);
+
+      const completion = completionChecks.length > 0 && checkRun
+        ? await labCheckService.createSignedCompletion(
+            contentUrl,
+            checkRun.results,
+            JSON.parse(checkRun.filesKey),
+            labContent?.completion_token
+          )
+        : null;
       
       const baseUrl = import.meta.env.VITE_BACKEND_BASE_PATH || 'http://localhost:5000';
       const response = await fetch(`${baseUrl}/api/v1/labs/complete`, {
@@ -759,11 +1374,13 @@ const LabIDEPage: React.FC = () => {
         headers: {
           'X-Lab-Url': contentUrl,
           'Content-Type': 'application/json'
-        }
+        },
+        body: completion ? JSON.stringify(completion) : undefined
       });
 
       if (response.ok) {
         setIsCompleted(true);
+        setShowChecksDialog(false);
         toast({
           title: "Lab Completed!",
           description: "You have successfully completed this lab",
@@ -793,6 +1410,39 @@ const LabIDEPage: React.FC = () => {
     }
   };
 
+  // The workspace as the code runner sees it, kept stable between renders that don't change it
+  const runnerFiles = useMemo(() => {
+    const savedContent = new Map(Object.entries(labStorageService.getWorkspace(storageId).saved));
+    return applyWorkspaceContent(
+      combineLabFiles(labContent, workspaceChanges), modifiedFiles, savedContent, workspaceChanges, originalFiles
+    );
+  }, [labContent, workspaceChanges, modifiedFiles, originalFiles, storageId]);
+
+  // The current files in the form checkRun.filesKey records them, rebuilt when the workspace state
+  // changes rather than on every render. Saved content is only written together with that state.
+  const checkedFilesKey = useMemo(() => {
+    if (!checkRun) return null;
+    const savedContent = new Map(Object.entries(labStorageService.getWorkspace(storageId).saved));
+    const files = applyWorkspaceContent(
+      combineLabFiles(labContent, workspaceChanges), modifiedFiles, savedContent, workspaceChanges, originalFiles
+    );
+    return JSON.stringify(labCheckService.toFileMap(files));
+  }, [checkRun, labContent, workspaceChanges, modifiedFiles, originalFiles, storageId]);
+
+  // Checks declared by the lab; completion stays disabled until they pass on the current files
+  const completionChecks = labContent?.lab_info?.completion_checks || [];
+  const checksCurrent = !!checkRun && checkRun.filesKey === checkedFilesKey;
+  const checksPassed = completionChecks.length === 0 ||
+    (checksCurrent && !!checkRun && checkRun.results.every(result => result.passed));
+
+  // Content the open file is compared against in the diff view
+  const compareCheckpoint = checkpoints.find(checkpoint => checkpoint.id === compareTarget);
+  const diffOriginal = !selectedFile || !compareTarget
+    ? null
+    : compareCheckpoint
+      ? labWorkspaceService.getCheckpointContent(compareCheckpoint, originalFiles, selectedFile.path)
+      : getOriginalContent(selectedFile.path);
+
   // Check if there are premium files and user doesn't have access
   const hasPremiumFiles = labContent?.content?.premium_files_count > 0;
   const hasAccess = labContent?.access?.has_premium_access || false;
@@ -805,36 +1455,101 @@ const LabIDEPage: React.FC = () => {
       <div className={`${level > 0 ? 'ml-4' : ''}`}>
         {files.map((file, index) => {
           const isPremium = isPremiumPreviewFile(file);
+          const isProtected = labWorkspaceService.isProtected(file);
           
           return (
             <div key={`${file.path}-${index}`} className="mb-1">
-              <button
-                onClick={() => handleFileSelect(file)}
-                className={`flex items-center gap-2 p-2 rounded-lg w-full text-left transition-colors relative ${
+              <div
+                className={`group flex items-center rounded-lg transition-colors ${
                   selectedFile?.path === file.path && file.type === 'file'
                     ? 'bg-blue-600 text-white'
                     : 'hover:bg-slate-700 text-slate-300'
                 }`}
               >
-                {file.type === 'directory' ? (
-                  expandedFolders.has(file.path) ? (
-                    <FolderOpen className="w-4 h-4 text-blue-400 flex-shrink-0" />
+                <button
+                  onClick={() => handleFileSelect(file)}
+                  className="flex items-center gap-2 p-2 flex-1 min-w-0 text-left relative"
+                >
+                  {file.type === 'directory' ? (
+                    expandedFolders.has(file.path) ? (
+                      <FolderOpen className="w-4 h-4 text-blue-400 flex-shrink-0" />
+                    ) : (
+                      <Folder className="w-4 h-4 text-blue-400 flex-shrink-0" />
+                    )
                   ) : (
-                    <Folder className="w-4 h-4 text-blue-400 flex-shrink-0" />
-                  )
-                ) : (
-                  <FileText className="w-4 h-4 text-slate-400 flex-shrink-0" />
-                )}
-                <span className="text-sm flex-1 truncate">{file.name}</span>
-                
-                {isPremium && (
-                  <span className="text-xs bg-blue-600 text-white px-1 rounded flex-shrink-0">PREVIEW</span>
-                )}
-                
-                {file.type === 'file' && modifiedFiles.has(file.path) && (
-                  <div className="w-2 h-2 bg-yellow-400 rounded-full flex-shrink-0" title="Modified" />
+                    <FileText className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                  )}
+                  <span className="text-sm flex-1 truncate">{file.name}</span>
+                  
+                  {isPremium && (
+                    <span className="text-xs bg-blue-600 text-white px-1 rounded flex-shrink-0">PREVIEW</span>
+                  )}
+                  
+                  {file.type === 'file' && modifiedFiles.has(file.path) && (
+                    <div className="w-2 h-2 bg-yellow-400 rounded-full flex-shrink-0" title="Modified" />
+                  )}
+                </button>
+
+                {(file.type === 'directory' || !isProtected) && (
+                  // Non-modal so the dialogs opened from it get focus back cleanly
+                  <DropdownMenu modal={false}>
+                    <DropdownMenuTrigger asChild>
+                      <button
+                        className="p-1 mr-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100 hover:bg-slate-600 flex-shrink-0"
+                        title="File actions"
+                      >
+                        <MoreHorizontal className="w-4 h-4" />
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent className="bg-slate-900 border-slate-700">
+                      {file.type === 'directory' && (
+                        <>
+                          <DropdownMenuItem
+                            onClick={() => setPathDialog({ action: 'file', path: file.path })}
+                            className="text-slate-300 hover:bg-slate-700 hover:text-white focus:bg-slate-700 focus:text-white"
+                          >
+                            <FilePlus className="w-4 h-4 mr-2" />
+                            New File
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setPathDialog({ action: 'folder', path: file.path })}
+                            className="text-slate-300 hover:bg-slate-700 hover:text-white focus:bg-slate-700 focus:text-white"
+                          >
+                            <FolderPlus className="w-4 h-4 mr-2" />
+                            New Folder
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                      {file.type === 'directory' && !isProtected && <DropdownMenuSeparator className="bg-slate-700" />}
+                      {!isProtected && (
+                        <>
+                          <DropdownMenuItem
+                            onClick={() => setPathDialog({ action: 'rename', path: file.path })}
+                            className="text-slate-300 hover:bg-slate-700 hover:text-white focus:bg-slate-700 focus:text-white"
+                          >
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setPathDialog({ action: 'move', path: file.path })}
+                            className="text-slate-300 hover:bg-slate-700 hover:text-white focus:bg-slate-700 focus:text-white"
+                          >
+                            <FolderInput className="w-4 h-4 mr-2" />
+                            Move
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setFileToDelete(file)}
+                            className="text-red-400 hover:bg-slate-700 hover:text-red-300 focus:bg-slate-700 focus:text-red-300"
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 )}
-              </button>
+              </div>
               
               {file.type === 'directory' && file.children && expandedFolders.has(file.path) && (
                 <div className="ml-4">
@@ -848,6 +1563,116 @@ const LabIDEPage: React.FC = () => {
     );
   };
 
+  // Text for the create, rename and move dialog
+  const pathDialogText = (() => {
+    if (!pathDialog) return null;
+    const { action, path } = pathDialog;
+    const name = labWorkspaceService.getName(path);
+    switch (action) {
+      case 'file':
+        return {
+          title: 'New File',
+          description: 'Enter the path of the new file. Use / to put it in a folder.',
+          initialValue: path ? `${path}/` : '',
+          submitLabel: 'Create'
+        };
+      case 'folder':
+        return {
+          title: 'New Folder',
+          description: 'Enter the path of the new folder. Use / to nest it in another folder.',
+          initialValue: path ? `${path}/` : '',
+          submitLabel: 'Create'
+        };
+      case 'rename':
+        return { title: `Rename ${name}`, description: 'Enter the new name.', initialValue: name, submitLabel: 'Rename' };
+      case 'move':
+        return {
+          title: `Move ${name}`,
+          description: 'Enter the folder to move it into. Leave it empty for the top level.',
+          initialValue: labWorkspaceService.getParent(path),
+          submitLabel: 'Move'
+        };
+    }
+  })();
+
+  const handleFormatDocument = () => {
+    editorHandleRef.current?.format().catch(error => {
+      console.warn('Failed to format file:', error);
+      toast({
+        title: "Format Failed",
+        description: "This file could not be formatted. Fix any syntax errors and try again.",
+        variant: "destructive",
+        className: "bg-red-900 border-red-700 text-white",
+      });
+    });
+  };
+
+  const handleToggleFormatOnSave = () => {
+    formatService.setFormatOnSave(!formatOnSave);
+    setFormatOnSaveChoice(!formatOnSave);
+    toast({
+      title: formatOnSave ? "Format on Save Off" : "Format on Save On",
+      description: formatOnSave ? "Files are saved as you wrote them" : "Files are formatted each time you save",
+      className: "bg-green-900 border-green-700 text-white",
+    });
+  };
+
+  // Commands for the palette, the keybindings and the editor; each is disabled when it has nothing to act on
+  const navigateToLab = (lab: { id: string; type: 'lab' | 'article' } | null) => {
+    if (lab) navigate(`/course/${courseId}/${lab.type}/${lab.id}/ide`);
+  };
+  const commandHandlers: Record<IdeCommandId, { run: () => void; disabled?: boolean }> = {
+    palette: { run: () => setPaletteMode('commands') },
+    shortcuts: { run: () => setShowKeybindingsDialog(true) },
+    run: {
+      run: () => {
+        setShowRunnerPanel(true);
+        runnerHandleRef.current?.run();
+      },
+      disabled: !selectedFile
+    },
+    stop: { run: () => runnerHandleRef.current?.stop() },
+    save: { run: handleSaveFile, disabled: !selectedFile || !modifiedFiles.has(selectedFile.path) },
+    saveAll: { run: handleSaveAllFiles, disabled: modifiedFiles.size === 0 },
+    revert: { run: handleRevertFile, disabled: !selectedFile || !modifiedFiles.has(selectedFile.path) },
+    switchFile: { run: () => setPaletteMode('files'), disabled: !labContent },
+    format: { run: handleFormatDocument, disabled: !selectedFile || !!compareTarget },
+    formatOnSave: { run: handleToggleFormatOnSave },
+    download: { run: downloadAccessibleFiles, disabled: !labContent },
+    toggleFiles: { run: () => setShowFileExplorer(!showFileExplorer) },
+    toggleRunner: { run: () => setShowRunnerPanel(!showRunnerPanel) },
+    splitEditor: {
+      run: () => selectedFile && applyEditorLayout(editorLayoutService.openToSide(editorLayout, selectedFile.path)),
+      disabled: !selectedFile
+    },
+    closeTab: {
+      run: () => selectedFile && applyEditorLayout(editorLayoutService.closeTabs(editorLayout, [selectedFile.path])),
+      disabled: !selectedFile
+    },
+    closeOtherTabs: {
+      run: () => selectedFile && applyEditorLayout(editorLayoutService.closeOtherTabs(editorLayout, selectedFile.path)),
+      disabled: !selectedFile || editorLayout.tabs.length < 2
+    },
+    pinTab: { run: () => selectedFile && handleTogglePinTab(selectedFile.path), disabled: !selectedFile },
+    nextLab: { run: () => navigateToLab(nextLab), disabled: !nextLab },
+    previousLab: { run: () => navigateToLab(previousLab), disabled: !previousLab },
+    reset: { run: handleReloadFresh, disabled: !labContent }
+  };
+  // Keys of a disabled command still do nothing rather than fall through to the browser or the editor
+  const runCommand = (id: IdeCommandId) => {
+    if (!commandHandlers[id].disabled) commandHandlers[id].run();
+  };
+  const keybindings = useKeybindings(Object.fromEntries(IDE_COMMANDS.map(command => [command.id, () => runCommand(command.id)])));
+  const paletteCommands: PaletteCommand[] = IDE_COMMANDS
+    .filter(command => command.id !== 'palette')
+    .map(command => ({ ...command, keys: keybindings[command.id], ...commandHandlers[command.id] }));
+  const editorCommands: EditorCommand[] = IDE_COMMANDS
+    .filter(command => keybindings[command.id])
+    .map(command => ({ id: command.id, label: command.label, keys: keybindings[command.id], run: () => runCommand(command.id) }));
+
+  // The editor takes the room of hidden panels
+  const editorSpan = 3 + (showFileExplorer ? 0 : 1) + (showRunnerPanel ? 0 : 2);
+
   // Loading state
   if (isLoading || authLoading) {
     return (
@@ -936,6 +1761,88 @@ const LabIDEPage: React.FC = () => {
                     Purchase for {labCost} Coins
                   </Button>
                 )}
+                <DropdownMenu modal={false}>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className={`bg-slate-800 border-slate-600 hover:bg-slate-700 hover:text-white ${
+                        workspaceSync.status === 'conflict' ? 'text-amber-400' : 'text-slate-300'
+                      }`}
+                      title="Sync this workspace across your devices"
+                    >
+                      {workspaceSync.status === 'conflict' ? (
+                        <AlertTriangle className="w-4 h-4 mr-2" />
+                      ) : workspaceSync.enabled && workspaceSync.status !== 'offline' && workspaceSync.status !== 'error' ? (
+                        <Cloud className={`w-4 h-4 mr-2 ${workspaceSync.status === 'syncing' ? 'animate-pulse' : ''}`} />
+                      ) : (
+                        <CloudOff className="w-4 h-4 mr-2" />
+                      )}
+                      Sync
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="bg-slate-900 border-slate-700 w-64">
+                    <DropdownMenuLabel className="text-xs font-normal text-slate-400">
+                      {{
+                        off: 'Saved files, file changes and checkpoints stay on this device.',
+                        syncing: 'Syncing...',
+                        synced: workspaceSync.syncedAt
+                          ? `Synced at ${new Date(workspaceSync.syncedAt).toLocaleTimeString()}`
+                          : 'Synced',
+                        offline: 'Offline. Your work is kept here and syncs when you reconnect.',
+                        conflict: 'Some files changed on another device too.',
+                        error: 'Sync failed. It will try again with your next change.'
+                      }[workspaceSync.status]}
+                    </DropdownMenuLabel>
+                    <DropdownMenuSeparator className="bg-slate-700" />
+                    {workspaceSync.status === 'conflict' && (
+                      <DropdownMenuItem
+                        onClick={() => setShowConflictDialog(true)}
+                        className="text-amber-400 hover:bg-slate-700 focus:bg-slate-700 focus:text-amber-300"
+                      >
+                        <AlertTriangle className="w-4 h-4 mr-2" />
+                        Resolve Conflicts
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem
+                      onClick={() => workspaceSync.setEnabled(!workspaceSync.enabled)}
+                      className="text-slate-300 hover:bg-slate-700 hover:text-white focus:bg-slate-700 focus:text-white"
+                    >
+                      {workspaceSync.enabled ? <CloudOff className="w-4 h-4 mr-2" /> : <Cloud className="w-4 h-4 mr-2" />}
+                      {workspaceSync.enabled ? 'Turn Off Sync' : 'Sync Across Devices'}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button
+                  onClick={() => setPaletteMode('commands')}
+                  variant="outline"
+                  size="sm"
+                  className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                  title={keybindings.palette ? `Commands (${keybindingService.format(keybindings.palette)})` : 'Commands'}
+                >
+                  <CommandIcon className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={handleShareSnapshot}
+                  disabled={isSharing || !contentUrl}
+                  variant="outline"
+                  size="sm"
+                  className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                  title="Copy a link to a read-only snapshot of your files"
+                >
+                  <Share2 className="w-4 h-4 mr-2" />
+                  {isSharing ? 'Sharing...' : 'Share'}
+                </Button>
+                <Button
+                  onClick={() => setShowHistoryDialog(true)}
+                  variant="outline"
+                  size="sm"
+                  className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                  title="Changed files and checkpoints"
+                >
+                  <History className="w-4 h-4 mr-2" />
+                  History
+                </Button>
                 <Button
                   onClick={handleReloadFresh}
                   variant="outline"
@@ -955,16 +1862,28 @@ const LabIDEPage: React.FC = () => {
                   <Eye className="w-4 h-4 mr-2" />
                   View Mode
                 </Button>
+                {completionChecks.length > 0 && !(isCompleted || isAlreadyCompleted) && (
+                  <Button
+                    onClick={() => setShowChecksDialog(true)}
+                    variant="outline"
+                    size="sm"
+                    className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white hover:border-blue-500"
+                    title="Run the checks this lab requires before completion"
+                  >
+                    <ListChecks className="w-4 h-4 mr-2" />
+                    Checks
+                  </Button>
+                )}
                 <Button
                   onClick={handleCompleteClick}
-                  disabled={isCompleting || isCompleted || isAlreadyCompleted}
+                  disabled={isCompleting || isCompleted || isAlreadyCompleted || !checksPassed}
                   size="sm"
                   className={`${
                     isCompleted || isAlreadyCompleted
                       ? 'bg-green-600 border-green-500 text-white cursor-default' 
                       : 'bg-green-700 hover:bg-green-600 border-green-600 text-white hover:border-green-500'
                   }`}
-                  title={isCompleted || isAlreadyCompleted ? `${contentType.charAt(0).toUpperCase() + contentType.slice(1)} completed` : `Mark ${contentType} as completed`}
+                  title={isCompleted || isAlreadyCompleted ? `${contentType.charAt(0).toUpperCase() + contentType.slice(1)} completed` : checksPassed ? `Mark ${contentType} as completed` : 'Pass the lab checks to complete'}
                 >
                   <CheckCircle className="w-4 h-4 mr-2" />
                   {isCompleting ? 'Completing...' : (isCompleted || isAlreadyCompleted) ? 'Completed' : 'Complete'}
@@ -991,14 +1910,41 @@ const LabIDEPage: React.FC = () => {
         <div className="container mx-auto px-4 py-6">
           <div className="grid grid-cols-1 lg:grid-cols-6 gap-6 h-[calc(100vh-220px)]">
             {/* File Explorer */}
-            <div className="lg:col-span-1">
+            <div className={showFileExplorer ? 'lg:col-span-1' : 'hidden'}>
               <Card className="p-4 bg-slate-900/50 border-slate-800">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-lg font-semibold text-white">Files</h3>
                   <div className="flex items-center gap-2">
                     <div className="text-xs text-slate-400">
-                      {countFiles(combineLabFiles(labContent))} files
+                      {countFiles(combineLabFiles(labContent, workspaceChanges))} files
                     </div>
+                    <Button
+                      onClick={() => setPathDialog({ action: 'file', path: '' })}
+                      variant="outline"
+                      size="sm"
+                      className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                      title="New file"
+                    >
+                      <FilePlus className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={() => setPathDialog({ action: 'folder', path: '' })}
+                      variant="outline"
+                      size="sm"
+                      className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                      title="New folder"
+                    >
+                      <FolderPlus className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={() => setShowImportDialog(true)}
+                      variant="outline"
+                      size="sm"
+                      className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                      title="Import files from a zip, a folder or your computer"
+                    >
+                      <Upload className="w-4 h-4" />
+                    </Button>
                     <Button
                       onClick={downloadAccessibleFiles}
                       variant="outline"
@@ -1011,13 +1957,13 @@ const LabIDEPage: React.FC = () => {
                   </div>
                 </div>
                 <div className="max-h-96 overflow-y-auto">
-                  {labContent && renderFileTree(combineLabFiles(labContent))}
+                  {labContent && renderFileTree(combineLabFiles(labContent, workspaceChanges))}
                 </div>
               </Card>
             </div>
 
             {/* Monaco Editor */}
-            <div className="lg:col-span-3">
+            <div className={EDITOR_SPAN_CLASSES[editorSpan]}>
               <Card className="p-4 bg-slate-900/50 border-slate-800 h-full">
                 <div className="flex items-center justify-between mb-4">
                   <div className="flex items-center gap-2">
@@ -1033,6 +1979,41 @@ const LabIDEPage: React.FC = () => {
                   </div>
                   
                   <div className="flex items-center gap-3">
+                    {selectedFile && compareTarget && (
+                      <Select value={compareTarget} onValueChange={setCompareTarget}>
+                        <SelectTrigger className="h-9 w-[180px] bg-slate-800 border-slate-600 text-slate-300">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-900 border-slate-700">
+                          <SelectItem value="original" className="text-slate-300 focus:bg-slate-700 focus:text-white">
+                            Lab original
+                          </SelectItem>
+                          {checkpoints.map(checkpoint => (
+                            <SelectItem
+                              key={checkpoint.id}
+                              value={checkpoint.id}
+                              className="text-slate-300 focus:bg-slate-700 focus:text-white"
+                            >
+                              {checkpoint.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {selectedFile && (
+                      <Button
+                        onClick={() => setCompareTarget(compareTarget ? null : 'original')}
+                        size="sm"
+                        variant="outline"
+                        className={`border-slate-600 hover:bg-slate-700 hover:text-white ${
+                          compareTarget ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-300'
+                        }`}
+                        title={compareTarget ? 'Back to editing' : 'Compare with the lab original or a checkpoint'}
+                      >
+                        <GitCompare className="w-4 h-4 mr-2" />
+                        Compare
+                      </Button>
+                    )}
                     {selectedFile && modifiedFiles.has(selectedFile.path) && (
                       <>
                         <Button
@@ -1063,20 +2044,84 @@ const LabIDEPage: React.FC = () => {
                 </div>
                 
                 <div className="h-full flex flex-col" style={{ maxHeight: 'calc(100vh - 320px)' }}>
-                  <MonacoEditor
-                    file={selectedFile}
-                    onContentChange={handleContentChange}
-                    readOnly={false}
+                  <EditorTabs
+                    tabs={editorLayout.tabs}
+                    activePath={selectedFile?.path ?? null}
+                    visiblePaths={editorLayout.panes}
+                    modifiedPaths={new Set(modifiedFiles.keys())}
+                    onSelect={handleSelectTab}
+                    onClose={path => applyEditorLayout(editorLayoutService.closeTabs(editorLayout, [path]))}
+                    onCloseOthers={path => applyEditorLayout(editorLayoutService.closeOtherTabs(editorLayout, path))}
+                    onCloseAll={() => applyEditorLayout(editorLayoutService.closeAllTabs(editorLayout))}
+                    onTogglePin={handleTogglePinTab}
+                    onOpenToSide={path => applyEditorLayout(editorLayoutService.openToSide(editorLayout, path))}
                   />
+                  <ResizablePanelGroup direction="horizontal" autoSaveId="labdojo-editor-split" className="flex-1 min-h-0">
+                    {editorLayout.panes.map((panePath, pane) => {
+                      const isActive = pane === editorLayout.activePane;
+                      // The active pane shows the open file itself, which has its edits even before they reach storage
+                      const paneFile = isActive ? selectedFile : getOpenFile(panePath);
+                      const isSplit = editorLayout.panes.length > 1;
+                      return (
+                        <React.Fragment key={pane}>
+                          {pane > 0 && <ResizableHandle withHandle className="mx-1 bg-slate-800" />}
+                          <ResizablePanel id={`editor-pane-${pane}`} order={pane} minSize={20} className="flex flex-col">
+                            {isSplit && (
+                              <div
+                                className={`flex items-center gap-2 px-2 py-1 mb-1 rounded text-xs border-t-2 ${
+                                  isActive ? 'border-blue-500 text-white' : 'border-transparent text-slate-400'
+                                }`}
+                              >
+                                <span className="truncate flex-1">{paneFile?.path || 'No file open'}</span>
+                                <button
+                                  type="button"
+                                  onClick={() => applyEditorLayout(editorLayoutService.closePane(editorLayout, pane))}
+                                  className="p-0.5 rounded hover:bg-slate-700 hover:text-white"
+                                  title="Close this side"
+                                >
+                                  <X className="w-3.5 h-3.5" />
+                                </button>
+                              </div>
+                            )}
+                            <div className="flex-1 min-h-0">
+                              <MonacoEditor
+                                ref={isActive ? editorHandleRef : undefined}
+                                file={paneFile}
+                                onContentChange={content => paneFile && handleContentChange(paneFile.path, content)}
+                                readOnly={false}
+                                markers={paneFile ? markersByFile[paneFile.path] : undefined}
+                                revealLocation={isActive ? revealLocation : null}
+                                breakpoints={paneFile ? breakpoints[paneFile.path] : undefined}
+                                onToggleBreakpoint={line => paneFile && handleToggleBreakpoint(paneFile.path, line)}
+                                debugLine={paneFile && debugLocation?.file === paneFile.path ? debugLocation.line : null}
+                                diffOriginal={isActive ? diffOriginal : null}
+                                commands={editorCommands}
+                                lintRules={lintRules}
+                                viewState={paneFile ? editorLayout.viewStates[paneFile.path] : null}
+                                onViewStateChange={handleViewStateChange}
+                                onFocus={() => handleFocusPane(pane)}
+                              />
+                            </div>
+                          </ResizablePanel>
+                        </React.Fragment>
+                      );
+                    })}
+                  </ResizablePanelGroup>
                 </div>
               </Card>
             </div>
 
             {/* Code Runner Panel */}
-            <div className="lg:col-span-2">
+            <div className={showRunnerPanel ? 'lg:col-span-2' : 'hidden'}>
               <CodeRunner
+                ref={runnerHandleRef}
                 selectedFile={selectedFile}
-                allFiles={combineLabFiles(labContent)}
+                allFiles={runnerFiles}
+                hiddenTests={labContent?.content?.hidden_tests}
+                onDiagnostics={setRunDiagnostics}
+                onNavigate={handleNavigate}
+                breakpoints={breakpoints}
+                onDebugLocation={handleDebugLocation}
                 className="h-full"
               />
             </div>
@@ -1101,11 +2146,12 @@ const LabIDEPage: React.FC = () => {
                 <ul className="text-sm text-slate-300 space-y-1">
                   <li>• All unsaved changes (pending edits)</li>
                   <li>• All saved changes (from Save button)</li>
+                  <li>• Files and folders you created, renamed or deleted</li>
                   <li>• Any modifications made during this session</li>
                 </ul>
               </div>
               <p className="text-sm text-slate-300">
-                You will get the latest version from the backend. This action cannot be undone.
+                You will get the latest version from the backend. Your checkpoints are kept, but this action cannot be undone.
               </p>
             </div>
           </AlertDialogHeader>
@@ -1124,6 +2170,92 @@ const LabIDEPage: React.FC = () => {
         </AlertDialogContent>
       </AlertDialog>
 
+      <CommandPalette
+        isOpen={paletteMode !== null}
+        mode={paletteMode || 'commands'}
+        onClose={() => setPaletteMode(null)}
+        commands={paletteCommands}
+        files={paletteMode === 'files' ? getAllFilesRecursively(combineLabFiles(labContent, workspaceChanges)) : []}
+        modifiedPaths={new Set(modifiedFiles.keys())}
+        onSelectFile={file => {
+          handleFileSelect(file);
+          expandFoldersTo(labWorkspaceService.getParent(file.path));
+        }}
+      />
+
+      <KeybindingsDialog
+        isOpen={showKeybindingsDialog}
+        onClose={() => setShowKeybindingsDialog(false)}
+        keybindings={keybindings}
+      />
+
+      <ImportDialog
+        isOpen={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        files={showImportDialog ? getCurrentLabFiles() : []}
+        onImport={handleImportFiles}
+      />
+
+      <SyncConflictDialog
+        isOpen={workspaceSync.conflicts.length > 0 && showConflictDialog}
+        onClose={() => setShowConflictDialog(false)}
+        conflicts={workspaceSync.conflicts}
+        getLabContent={getOriginalContent}
+        onResolve={handleResolveConflicts}
+      />
+
+      {/* Changed Files and Checkpoints Dialog */}
+      <WorkspaceHistoryDialog
+        isOpen={showHistoryDialog}
+        onClose={() => setShowHistoryDialog(false)}
+        changedFiles={showHistoryDialog ? labWorkspaceService.getChangedFiles(getCurrentLabFiles(), workspaceChanges, originalFiles) : []}
+        checkpoints={checkpoints}
+        onCreateCheckpoint={handleCreateCheckpoint}
+        onRestoreCheckpoint={handleRestoreCheckpoint}
+        onDeleteCheckpoint={handleDeleteCheckpoint}
+        onCompareFile={handleCompareFile}
+      />
+
+      {/* Create, Rename and Move Dialog */}
+      <FilePathDialog
+        isOpen={!!pathDialog}
+        onClose={() => setPathDialog(null)}
+        title={pathDialogText?.title || ''}
+        description={pathDialogText?.description || ''}
+        initialValue={pathDialogText?.initialValue || ''}
+        submitLabel={pathDialogText?.submitLabel || ''}
+        onSubmit={handlePathSubmit}
+      />
+
+      {/* Delete Confirmation Modal */}
+      <AlertDialog open={!!fileToDelete} onOpenChange={open => !open && setFileToDelete(null)}>
+        <AlertDialogContent className="bg-slate-900 border-slate-700">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white flex items-center gap-2">
+              <Trash2 className="w-5 h-5 text-red-400" />
+              Delete {fileToDelete?.name}
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-slate-300">
+              {fileToDelete?.type === 'directory'
+                ? 'This folder and everything in it will be removed from your workspace, including unsaved changes.'
+                : 'This file will be removed from your workspace, including unsaved changes.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDeleteFile}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Purchase Confirmation Dialog */}
       {labContent && (
         <PurchaseConfirmationDialog
@@ -1142,6 +2274,21 @@ const LabIDEPage: React.FC = () => {
           onGetMoreCoins={() => navigate('/packages')}
         />
       )}
+
+      {/* Completion Checks Dialog */}
+      {completionChecks.length > 0 && (
+        <LabChecksDialog
+          isOpen={showChecksDialog}
+          onClose={() => setShowChecksDialog(false)}
+          checks={completionChecks}
+          results={checksCurrent && checkRun ? checkRun.results : null}
+          isChecking={isChecking}
+          onRunChecks={handleRunChecks}
+          canComplete={checksPassed && !isCompleted && !isAlreadyCompleted}
+          isCompleting={isCompleting}
+          onComplete={handleCompleteClick}
+        />
+      )}
     </>
   );
 };
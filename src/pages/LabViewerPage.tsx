@@ -16,6 +16,7 @@ import PurchaseConfirmationDialog from '../components/lab/PurchaseConfirmationDi
 import LabUnderConstruction from '../components/lab/LabUnderConstruction';
 import { useToast } from '@/hooks/use-toast';
 import { errorLoggingService } from '../services/errorLoggingService';
+import { labStorageService } from '../services/labStorageService';
 import MarkdownRenderer from '../components/ui/markdown-renderer';
 import LabNavigationButtons from '../components/lab/LabNavigationButtons';
 
@@ -116,10 +117,8 @@ const LabViewerPage: React.FC = () => {
   const navigate = useNavigate();
   const [labContent, setLabContent] = useState<LabContent | null>(null);
   
-  // Cache keys for this specific content
+  // Cache key for this specific content, shared with the IDE
   const cacheKey = projectId ? `project-${projectId}` : `${courseId}-${contentType}-${contentId}`;
-  const cachedContentKey = `lab-content-${cacheKey}`;
-  const cacheTimestampKey = `lab-content-timestamp-${cacheKey}`;
   const [selectedFile, setSelectedFile] = useState<LabFile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -134,44 +133,24 @@ const LabViewerPage: React.FC = () => {
   
   // Cache management functions
   const saveCachedContent = (content: LabContent) => {
-    try {
-      localStorage.setItem(cachedContentKey, JSON.stringify(content));
-      localStorage.setItem(cacheTimestampKey, Date.now().toString());
-    } catch (error) {
+    labStorageService.setCachedContent(cacheKey, content).catch(error => {
       console.warn('Failed to cache content:', error);
-    }
+    });
   };
 
-  const loadCachedContent = (): LabContent | null => {
+  const loadCachedContent = async (): Promise<LabContent | null> => {
     try {
-      const cached = localStorage.getItem(cachedContentKey);
-      const timestamp = localStorage.getItem(cacheTimestampKey);
-      
-      if (cached && timestamp) {
-        const cacheAge = Date.now() - parseInt(timestamp);
-        const maxCacheAge = 30 * 60 * 1000; // 30 minutes
-        
-        if (cacheAge < maxCacheAge) {
-          return JSON.parse(cached);
-        } else {
-          // Cache expired, clean up
-          localStorage.removeItem(cachedContentKey);
-          localStorage.removeItem(cacheTimestampKey);
-        }
-      }
+      return await labStorageService.getCachedContent(cacheKey);
     } catch (error) {
       console.warn('Failed to load cached content:', error);
+      return null;
     }
-    return null;
   };
 
   const clearCache = () => {
-    try {
-      localStorage.removeItem(cachedContentKey);
-      localStorage.removeItem(cacheTimestampKey);
-    } catch (error) {
+    labStorageService.removeCachedContent(cacheKey).catch(error => {
       console.warn('Failed to clear cache:', error);
-    }
+    });
   };
 
   // Check authentication and redirect if not authenticated
@@ -201,7 +180,7 @@ const LabViewerPage: React.FC = () => {
       
       // Check for cached content first (unless force refresh)
       if (!forceRefresh) {
-        const cachedContent = loadCachedContent();
+        const cachedContent = await loadCachedContent();
         if (cachedContent) {
           setLabContent(cachedContent);
           
@@ -390,8 +369,11 @@ const LabViewerPage: React.FC = () => {
     }
   };
 
+  // Labs with completion checks are completed from the IDE, where the checks run on the learner's files
+  const requiresChecks = (labContent?.lab_info?.completion_checks?.length || 0) > 0;
+
   const handleCompleteClick = async () => {
-    if (!contentUrl) return;
+    if (!contentUrl || requiresChecks) return;
 
     try {
       setIsCompleting(true);
@@ -748,14 +730,16 @@ const LabViewerPage: React.FC = () => {
                   
                   <Button
                     onClick={handleCompleteClick}
-                    disabled={isCompleting || isCompleted || isAlreadyCompleted}
+                    disabled={isCompleting || isCompleted || isAlreadyCompleted || requiresChecks}
                     size="sm"
                     className={`${
                       isCompleted || isAlreadyCompleted
                         ? 'bg-green-600 border-green-500 text-white cursor-default' 
                         : 'bg-green-700 hover:bg-green-600 border-green-600 text-white hover:border-green-500'
                     }`}
-                    title={isCompleted || isAlreadyCompleted ? `${contentType === 'lab' ? 'Lab' : contentType === 'project' ? 'Project' : 'Article'} completed` : `Mark ${contentType} as completed`}
+                    title={isCompleted || isAlreadyCompleted
+                      ? `${contentType === 'lab' ? 'Lab' : contentType === 'project' ? 'Project' : 'Article'} completed`
+                      : requiresChecks ? 'Switch to Edit Mode and pass the lab checks to complete' : `Mark ${contentType} as completed`}
                   >
                     <CheckCircle className="w-4 h-4 mr-2" />
                     {isCompleting ? 'Completing...' : (isCompleted || isAlreadyCompleted) ? 'Completed' : 'Complete'}
@@ -26,6 +26,7 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Slider } from '@/components/ui/slider';
 import { cn } from '@/lib/utils';
+import LabStorageCard from '../components/lab/LabStorageCard';
 
 // Settings state interface
 interface SettingsState {
@@ -385,6 +386,10 @@ const Settings: React.FC = () => {
           </Card>
 
 
+          {/* Lab Storage */}
+          <LabStorageCard />
+
+
           {/* Save Actions */}
           {hasChanges && (
             <Card className="bg-blue-900/20 border-blue-500/30">
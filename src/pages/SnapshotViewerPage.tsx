@@ -0,0 +1,346 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { Helmet } from 'react-helmet-async';
+import { Code, Eye, FileText, Folder, FolderOpen, GitCompare, Share2, ShieldAlert } from 'lucide-react';
+import Header from '../components/layout/Header';
+import MonacoEditor, { EditorLocation } from '../components/ide/MonacoEditor';
+import CodeRunner from '../components/ide/CodeRunner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { apiService } from '../services/apiService';
+import { labSnapshotService } from '../services/labSnapshotService';
+import { labWorkspaceService } from '../services/labWorkspaceService';
+import { LabFile, LabSnapshot } from '../types/lab';
+import { CodeDiagnostic } from '../types/runner';
+
+const flattenFiles = (files: LabFile[]): LabFile[] =>
+  files.flatMap(file => (file.type === 'directory' ? flattenFiles(file.children || []) : [file]));
+
+// Read-only IDE for a workspace someone shared by link
+const SnapshotViewerPage: React.FC = () => {
+  const { snapshotId } = useParams<{ snapshotId?: string }>();
+  const location = useLocation();
+  const [snapshot, setSnapshot] = useState<LabSnapshot | null>(null);
+  const [files, setFiles] = useState<LabFile[]>([]);
+  const [originalFiles, setOriginalFiles] = useState<Map<string, string>>(new Map());
+  const [hasLabFiles, setHasLabFiles] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<LabFile | null>(null);
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+  const [isComparing, setIsComparing] = useState(false);
+  const [runDiagnostics, setRunDiagnostics] = useState<CodeDiagnostic[]>([]);
+  const [revealLocation, setRevealLocation] = useState<EditorLocation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunConfirmOpen, setIsRunConfirmOpen] = useState(false);
+  const runConfirmedRef = useRef(false);
+  const pendingRunConfirmRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const fragment = location.hash.replace(/^#/, '');
+
+  useEffect(() => {
+    const loadSnapshot = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const loaded = await labSnapshotService.loadSnapshot(snapshotId, fragment);
+        if (!loaded) {
+          setError('This snapshot does not exist or has expired.');
+          return;
+        }
+
+        // The lab as this viewer may see it; premium files stay locked unless they bought them
+        const labResponse = await apiService.getLabContent(loaded.lab.url);
+        const labFiles = labResponse.success ? labResponse.data?.content?.lab_files || [] : null;
+        const original = new Map<string, string>();
+        flattenFiles(labFiles || []).forEach(file => original.set(file.path, file.content || ''));
+
+        const tree = labSnapshotService.buildTree(loaded, labFiles);
+        const allFiles = flattenFiles(tree);
+        const initial = allFiles.find(file => file.path === loaded.selected_path) ||
+          allFiles.find(file => file.path in loaded.files) ||
+          allFiles[0] ||
+          null;
+
+        setSnapshot(loaded);
+        setFiles(tree);
+        setOriginalFiles(original);
+        setHasLabFiles(!!labFiles);
+        setSelectedFile(initial);
+        if (initial?.path.includes('/')) {
+          const segments = initial.path.split('/').slice(0, -1);
+          setExpandedFolders(new Set(segments.map((_, index) => segments.slice(0, index + 1).join('/'))));
+        }
+      } catch (error) {
+        console.warn('Failed to open snapshot:', error);
+        setError('This snapshot link is broken or incomplete.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSnapshot();
+  }, [snapshotId, fragment]);
+
+  const editorMarkers = useMemo(
+    () => runDiagnostics.filter(diagnostic => diagnostic.file === selectedFile?.path),
+    [runDiagnostics, selectedFile?.path]
+  );
+
+  // The code runs sandboxed, away from the viewer's account, but a stranger's code still shouldn't
+  // start without the viewer knowing, so ask once before it does
+  const confirmRun = useCallback(() => {
+    if (runConfirmedRef.current) return Promise.resolve(true);
+    return new Promise<boolean>(resolve => {
+      pendingRunConfirmRef.current = resolve;
+      setIsRunConfirmOpen(true);
+    });
+  }, []);
+
+  const settleRunConfirm = (confirmed: boolean) => {
+    const resolve = pendingRunConfirmRef.current;
+    if (!resolve) return;
+    pendingRunConfirmRef.current = null;
+    runConfirmedRef.current = confirmed;
+    setIsRunConfirmOpen(false);
+    resolve(confirmed);
+  };
+
+  const findFile = (path: string) => flattenFiles(files).find(file => file.path === path) || null;
+
+  const handleNavigate = (target: EditorLocation) => {
+    const file = findFile(target.file);
+    if (file) {
+      setSelectedFile(file);
+      setRevealLocation({ ...target });
+    }
+  };
+
+  const toggleFolder = (path: string) => {
+    setExpandedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const isChanged = (path: string) => !!snapshot && path in snapshot.files;
+
+  // What the lab shipped for the open file; empty for files the learner created
+  const diffOriginal = isComparing && selectedFile && snapshot && hasLabFiles
+    ? labWorkspaceService.getLabContent(snapshot.changes, originalFiles, selectedFile.path) ?? ''
+    : null;
+
+  const renderFileTree = (items: LabFile[], level = 0) => (
+    <div className={level > 0 ? 'ml-4' : ''}>
+      {items.map(file => (
+        <div key={file.path} className="mb-1">
+          <button
+            onClick={() => (file.type === 'directory' ? toggleFolder(file.path) : setSelectedFile(file))}
+            className={`w-full flex items-center gap-2 p-2 rounded-lg text-left transition-colors ${
+              selectedFile?.path === file.path && file.type === 'file'
+                ? 'bg-blue-600 text-white'
+                : 'hover:bg-slate-700 text-slate-300'
+            }`}
+          >
+            {file.type === 'directory' ? (
+              expandedFolders.has(file.path) ? (
+                <FolderOpen className="w-4 h-4 text-blue-400 flex-shrink-0" />
+              ) : (
+                <Folder className="w-4 h-4 text-blue-400 flex-shrink-0" />
+              )
+            ) : (
+              <FileText className="w-4 h-4 text-slate-400 flex-shrink-0" />
+            )}
+            <span className="text-sm flex-1 truncate">{file.name}</span>
+            {file.type === 'file' && isChanged(file.path) && (
+              <div className="w-2 h-2 bg-yellow-400 rounded-full flex-shrink-0" title="Changed by the learner" />
+            )}
+          </button>
+          {file.type === 'directory' && expandedFolders.has(file.path) && file.children && (
+            renderFileTree(file.children, level + 1)
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-950">
+        <Header />
+        <div className="flex items-center justify-center py-20">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400 mx-auto mb-4"></div>
+            <p className="text-slate-300">Loading snapshot...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !snapshot) {
+    return (
+      <div className="min-h-screen bg-slate-950">
+        <Header />
+        <div className="flex items-center justify-center py-20">
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-white mb-2">Snapshot Not Available</h1>
+            <p className="text-slate-300 mb-4">{error}</p>
+            <Link to="/">
+              <Button variant="outline">Go Home</Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const labPath = `/course/${snapshot.lab.course_id}/${snapshot.lab.content_type}/${snapshot.lab.content_id}`;
+
+  return (
+    <>
+      <Helmet>
+        <title>{`${snapshot.lab.title} - Shared Snapshot | LabDojo`}</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <div className="min-h-screen bg-slate-950">
+        <Header />
+
+        <div className="border-b border-slate-800 bg-slate-900/50">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Code className="w-5 h-5 text-blue-400" />
+                <span className="text-white font-medium">{snapshot.lab.title}</span>
+                <span className="px-2 py-1 bg-blue-900/30 border border-blue-500/30 text-blue-300 text-xs rounded-full flex items-center gap-1">
+                  <Share2 className="w-3 h-3" />
+                  Read-only Snapshot
+                </span>
+                <span className="text-sm text-slate-400">
+                  Shared {new Date(snapshot.created_at).toLocaleString()}
+                </span>
+              </div>
+              <Link to={labPath}>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                >
+                  <Eye className="w-4 h-4 mr-2" />
+                  Open Lab
+                </Button>
+              </Link>
+            </div>
+            {!hasLabFiles && (
+              <p className="mt-3 text-sm text-yellow-200">
+                The lab could not be loaded, so only the files the learner changed are shown.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="container mx-auto px-4 py-6">
+          <div className="grid grid-cols-1 lg:grid-cols-6 gap-6 h-[calc(100vh-220px)]">
+            <div className="lg:col-span-1">
+              <Card className="p-4 bg-slate-900/50 border-slate-800">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-white">Files</h3>
+                  <div className="text-xs text-slate-400">{Object.keys(snapshot.files).length} changed</div>
+                </div>
+                <div className="max-h-96 overflow-y-auto">{renderFileTree(files)}</div>
+              </Card>
+            </div>
+
+            <div className="lg:col-span-3">
+              <Card className="p-4 bg-slate-900/50 border-slate-800 h-full">
+                <div className="flex items-center justify-between mb-4">
+                  <span className="text-white font-medium truncate">{selectedFile?.path}</span>
+                  {selectedFile && hasLabFiles && (
+                    <Button
+                      onClick={() => setIsComparing(!isComparing)}
+                      variant="outline"
+                      size="sm"
+                      className={isComparing
+                        ? 'bg-blue-600 border-blue-500 text-white hover:bg-blue-700 hover:text-white'
+                        : 'bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white'}
+                      title="Compare with the lab version"
+                    >
+                      <GitCompare className="w-4 h-4 mr-2" />
+                      Compare
+                    </Button>
+                  )}
+                </div>
+                <div className="h-[calc(100%-60px)]">
+                  <MonacoEditor
+                    file={selectedFile}
+                    onContentChange={() => undefined}
+                    readOnly
+                    markers={editorMarkers}
+                    revealLocation={revealLocation}
+                    diffOriginal={diffOriginal}
+                  />
+                </div>
+              </Card>
+            </div>
+
+            <div className="lg:col-span-2">
+              <CodeRunner
+                selectedFile={selectedFile}
+                allFiles={files}
+                onDiagnostics={setRunDiagnostics}
+                onNavigate={handleNavigate}
+                confirmRun={confirmRun}
+                sandboxed
+                className="h-full"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <AlertDialog open={isRunConfirmOpen} onOpenChange={open => !open && settleRunConfirm(false)}>
+        <AlertDialogContent className="bg-slate-900 border-slate-700">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white flex items-center gap-2">
+              <ShieldAlert className="w-5 h-5 text-yellow-400" />
+              Run someone else's code?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-slate-300">
+              This code was written by whoever shared the link, not by you. It runs in a sandbox without access to
+              your account, but it can still use your browser and network. Only run it if you trust the person who
+              shared it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => settleRunConfirm(true)}
+              className="bg-yellow-600 hover:bg-yellow-700 text-white"
+            >
+              Run Code
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default SnapshotViewerPage;
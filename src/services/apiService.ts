@@ -1,6 +1,6 @@
 
 import { BackendResponse, ApiError } from '../types/backend';
-import { LabContentResponse } from '../types/lab';
+import { LabContentResponse, LabSnapshot, RemoteWorkspace, WorkspaceSaveResult, WorkspaceSnapshot } from '../types/lab';
 import { authService } from './authService';
 
 const BASE_URL = import.meta.env.VITE_BACKEND_BASE_PATH || 'http://localhost:5000';
@@ -170,6 +170,92 @@ class ApiService {
   }
 
 
+  // The learner's synced workspace for a lab, or null if nothing was uploaded yet
+  async getLabWorkspace(labUrl: string): Promise<RemoteWorkspace | null> {
+    const response = await fetch(
+      `${BASE_URL}/api/v1/lab/workspace`,
+      this.enhanceRequestWithAuth({
+        method: 'GET',
+        headers: { 'X-Lab-Url': labUrl }
+      })
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (response.status === 401) {
+      await this.handleAuthError();
+      throw new Error('Authentication failed');
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data ?? null;
+  }
+
+  // Uploads a workspace on top of `baseRevision`; the backend answers 409 with its newer copy
+  // when another device uploaded in between
+  async saveLabWorkspace(
+    labUrl: string,
+    workspace: WorkspaceSnapshot,
+    baseRevision: number | null
+  ): Promise<WorkspaceSaveResult> {
+    const response = await fetch(
+      `${BASE_URL}/api/v1/lab/workspace`,
+      this.enhanceRequestWithAuth({
+        method: 'PUT',
+        headers: { 'X-Lab-Url': labUrl },
+        body: JSON.stringify({ base_revision: baseRevision, workspace })
+      })
+    );
+
+    if (response.status === 401) {
+      await this.handleAuthError();
+      throw new Error('Authentication failed');
+    }
+    if (response.status !== 409 && !response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return { status: response.status === 409 ? 'conflict' : 'saved', workspace: data.data };
+  }
+
+  // Stores a snapshot too large for a link and returns the id to share instead
+  async createLabSnapshot(snapshot: LabSnapshot): Promise<string> {
+    try {
+      const response = await this.fetchWithRetry(`${BASE_URL}/api/v1/lab/snapshots`, {
+        method: 'POST',
+        body: JSON.stringify(snapshot),
+      });
+      const data = await response.json();
+      return data.data.id;
+    } catch (error) {
+      console.error('Failed to store snapshot:', error);
+      throw error;
+    }
+  }
+
+  // Null when the snapshot doesn't exist or has expired
+  async getLabSnapshot(id: string): Promise<LabSnapshot | null> {
+    const response = await fetch(
+      `${BASE_URL}/api/v1/lab/snapshots/${encodeURIComponent(id)}`,
+      this.enhanceRequestWithAuth({ method: 'GET' })
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data ?? null;
+  }
+
   async refreshData(): Promise<BackendResponse> {
     return this.getAllData();
   }
@@ -0,0 +1,118 @@
+import type { editor } from 'monaco-editor';
+
+export interface EditorTab {
+  path: string;
+  pinned: boolean; // pinned tabs stay first and are kept by Close Others and Close All
+}
+
+// Open tabs, the side-by-side split and where the learner left off in each file, kept per lab
+export interface EditorLayout {
+  tabs: EditorTab[];
+  panes: Array<string | null>; // file shown in each pane, left to right; two entries when split
+  activePane: number; // the pane with the open file the IDE acts on
+  viewStates: Record<string, editor.ICodeEditorViewState>; // cursor, selection, scroll and folded regions by path
+}
+
+export const EMPTY_EDITOR_LAYOUT: EditorLayout = { tabs: [], panes: [null], activePane: 0, viewStates: {} };
+
+const isInside = (path: string, folder: string) => path === folder || path.startsWith(`${folder}/`);
+
+const replacePrefix = (path: string, from: string, to: string) => to + path.slice(from.length);
+
+// Pinned tabs first, each group in the order the tabs were opened
+const sortTabs = (tabs: EditorTab[]) => [...tabs.filter(tab => tab.pinned), ...tabs.filter(tab => !tab.pinned)];
+
+class EditorLayoutService {
+  // Shows a file in the active pane, opening a tab for it if there is none
+  show(layout: EditorLayout, path: string | null): EditorLayout {
+    const hasTab = path === null || layout.tabs.some(tab => tab.path === path);
+    if (hasTab && layout.panes[layout.activePane] === path) return layout;
+
+    return {
+      ...layout,
+      tabs: hasTab ? layout.tabs : [...layout.tabs, { path: path!, pinned: false }],
+      panes: layout.panes.map((item, index) => (index === layout.activePane ? path : item))
+    };
+  }
+
+  // Shows a file next to the active pane, splitting the editor if it isn't split yet
+  openToSide(layout: EditorLayout, path: string): EditorLayout {
+    if (layout.panes.length === 1 && layout.panes[0] === null) return this.show(layout, path);
+    const pane = layout.panes.length > 1 ? 1 - layout.activePane : 1;
+    const panes = layout.panes.length > 1 ? layout.panes : [layout.panes[0], null];
+    return this.show({ ...layout, panes, activePane: pane }, path);
+  }
+
+  focusPane(layout: EditorLayout, pane: number): EditorLayout {
+    return pane === layout.activePane || pane >= layout.panes.length ? layout : { ...layout, activePane: pane };
+  }
+
+  closePane(layout: EditorLayout, pane: number): EditorLayout {
+    if (layout.panes.length < 2) return layout;
+    return { ...layout, panes: layout.panes.filter((_, index) => index !== pane), activePane: 0 };
+  }
+
+  // Closes tabs; panes showing one move to the nearest tab left open, and a split left with nothing new to show closes
+  closeTabs(layout: EditorLayout, paths: string[]): EditorLayout {
+    const closing = new Set(paths.filter(path => layout.tabs.some(tab => tab.path === path)));
+    if (closing.size === 0) return layout;
+
+    const tabs = layout.tabs.filter(tab => !closing.has(tab.path));
+    const nearestOpen = (path: string) => {
+      const index = layout.tabs.findIndex(tab => tab.path === path);
+      const next = layout.tabs.slice(index + 1).find(tab => !closing.has(tab.path)) ||
+        layout.tabs.slice(0, index).reverse().find(tab => !closing.has(tab.path));
+      return next?.path ?? null;
+    };
+    const panes = layout.panes.map(path => (path !== null && closing.has(path) ? nearestOpen(path) : path));
+    const movedOntoOther = panes.length > 1 && panes[0] === panes[1] && panes.some((path, index) => path !== layout.panes[index]);
+
+    if (panes.length > 1 && (panes.includes(null) || movedOntoOther)) {
+      const keep = panes[layout.activePane] !== null ? layout.activePane : 1 - layout.activePane;
+      return { ...layout, tabs, panes: [panes[keep]], activePane: 0 };
+    }
+    return { ...layout, tabs, panes };
+  }
+
+  closeOtherTabs(layout: EditorLayout, path: string): EditorLayout {
+    return this.closeTabs(layout, layout.tabs.filter(tab => !tab.pinned && tab.path !== path).map(tab => tab.path));
+  }
+
+  closeAllTabs(layout: EditorLayout): EditorLayout {
+    return this.closeTabs(layout, layout.tabs.filter(tab => !tab.pinned).map(tab => tab.path));
+  }
+
+  setPinned(layout: EditorLayout, path: string, pinned: boolean): EditorLayout {
+    return { ...layout, tabs: sortTabs(layout.tabs.map(tab => (tab.path === path ? { ...tab, pinned } : tab))) };
+  }
+
+  setViewState(layout: EditorLayout, path: string, viewState: editor.ICodeEditorViewState): EditorLayout {
+    return { ...layout, viewStates: { ...layout.viewStates, [path]: viewState } };
+  }
+
+  // Follows a rename or move of a file or folder, or closes its tabs when `to` is null
+  movePath(layout: EditorLayout, from: string, to: string | null): EditorLayout {
+    if (to === null) {
+      const closed = this.closeTabs(layout, layout.tabs.filter(tab => isInside(tab.path, from)).map(tab => tab.path));
+      return {
+        ...closed,
+        viewStates: Object.fromEntries(Object.entries(closed.viewStates).filter(([path]) => !isInside(path, from)))
+      };
+    }
+
+    const move = (path: string) => (isInside(path, from) ? replacePrefix(path, from, to) : path);
+    return {
+      ...layout,
+      tabs: layout.tabs.map(tab => ({ ...tab, path: move(tab.path) })),
+      panes: layout.panes.map(path => (path === null ? null : move(path))),
+      viewStates: Object.fromEntries(Object.entries(layout.viewStates).map(([path, viewState]) => [move(path), viewState]))
+    };
+  }
+
+  // Closes the tabs of files that are no longer in the workspace, e.g. after restoring a checkpoint
+  retainTabs(layout: EditorLayout, exists: (path: string) => boolean): EditorLayout {
+    return this.closeTabs(layout, layout.tabs.filter(tab => !exists(tab.path)).map(tab => tab.path));
+  }
+}
+
+export const editorLayoutService = new EditorLayoutService();
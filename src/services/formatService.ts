@@ -0,0 +1,77 @@
+import type { Plugin } from 'prettier';
+import { pythonToolsService } from './runners/pythonToolsService';
+
+// Prettier parser by file extension; Python is formatted with autopep8 instead
+const PRETTIER_PARSERS: Record<string, string> = {
+  js: 'babel',
+  jsx: 'babel',
+  mjs: 'babel',
+  cjs: 'babel',
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  json: 'json',
+  yml: 'yaml',
+  yaml: 'yaml',
+  md: 'markdown'
+};
+
+const FORMAT_ON_SAVE_KEY = 'labdojo_format_on_save';
+
+const getExtension = (path: string) => path.split('.').pop()?.toLowerCase() || '';
+
+// Prettier and its parsers are only downloaded the first time a file of that kind is formatted
+const loadPlugins = async (parser: string): Promise<Plugin[]> => {
+  switch (parser) {
+    case 'typescript':
+      return Promise.all([import('prettier/plugins/typescript'), import('prettier/plugins/estree')]);
+    case 'yaml':
+      return [await import('prettier/plugins/yaml')];
+    case 'markdown':
+      return [await import('prettier/plugins/markdown')];
+    default:
+      return Promise.all([import('prettier/plugins/babel'), import('prettier/plugins/estree')]);
+  }
+};
+
+class FormatService {
+  canFormat(path: string): boolean {
+    const extension = getExtension(path);
+    return extension === 'py' || extension in PRETTIER_PARSERS;
+  }
+
+  // Formatted content; throws when the file has syntax errors the formatter can't get past
+  async format(path: string, content: string): Promise<string> {
+    const extension = getExtension(path);
+    if (extension === 'py') {
+      return pythonToolsService.format(content, path);
+    }
+
+    const parser = PRETTIER_PARSERS[extension];
+    if (!parser) return content;
+
+    const [prettier, plugins] = await Promise.all([import('prettier/standalone'), loadPlugins(parser)]);
+    return prettier.format(content, { parser, plugins, filepath: path });
+  }
+
+  // The learner's own choice, which wins over the lab's default; null when they never made one
+  getFormatOnSave(): boolean | null {
+    try {
+      const stored = localStorage.getItem(FORMAT_ON_SAVE_KEY);
+      return stored === null ? null : stored === 'true';
+    } catch (error) {
+      return null;
+    }
+  }
+
+  setFormatOnSave(enabled: boolean) {
+    try {
+      localStorage.setItem(FORMAT_ON_SAVE_KEY, String(enabled));
+    } catch (error) {
+      console.warn('Failed to save the format on save setting:', error);
+    }
+  }
+}
+
+export const formatService = new FormatService();
@@ -0,0 +1,225 @@
+export type IdeCommandId =
+  | 'palette'
+  | 'run'
+  | 'stop'
+  | 'save'
+  | 'saveAll'
+  | 'revert'
+  | 'switchFile'
+  | 'toggleFiles'
+  | 'toggleRunner'
+  | 'splitEditor'
+  | 'closeTab'
+  | 'closeOtherTabs'
+  | 'pinTab'
+  | 'format'
+  | 'formatOnSave'
+  | 'nextLab'
+  | 'previousLab'
+  | 'reset'
+  | 'download'
+  | 'shortcuts';
+
+export interface IdeCommandDefinition {
+  id: IdeCommandId;
+  label: string;
+  group: 'General' | 'Run' | 'Files' | 'View' | 'Lab';
+  defaultKeys: string | null; // e.g. "Mod+Shift+P"; Mod is Cmd on macOS and Ctrl elsewhere
+}
+
+export const IDE_COMMANDS: IdeCommandDefinition[] = [
+  { id: 'palette', label: 'Show Command Palette', group: 'General', defaultKeys: 'Mod+Shift+P' },
+  { id: 'shortcuts', label: 'Show Keyboard Shortcuts', group: 'General', defaultKeys: 'Mod+Alt+K' },
+  { id: 'run', label: 'Run Code', group: 'Run', defaultKeys: 'Mod+Enter' },
+  { id: 'stop', label: 'Stop Running', group: 'Run', defaultKeys: 'Mod+Shift+Enter' },
+  { id: 'save', label: 'Save File', group: 'Files', defaultKeys: 'Mod+S' },
+  { id: 'saveAll', label: 'Save All Files', group: 'Files', defaultKeys: 'Mod+Alt+S' },
+  { id: 'revert', label: 'Revert File', group: 'Files', defaultKeys: null },
+  { id: 'switchFile', label: 'Go to File', group: 'Files', defaultKeys: 'Mod+P' },
+  { id: 'format', label: 'Format Document', group: 'Files', defaultKeys: 'Alt+Shift+F' },
+  { id: 'formatOnSave', label: 'Toggle Format on Save', group: 'Files', defaultKeys: null },
+  { id: 'download', label: 'Download Files as ZIP', group: 'Files', defaultKeys: null },
+  { id: 'closeTab', label: 'Close Tab', group: 'Files', defaultKeys: 'Alt+W' },
+  { id: 'closeOtherTabs', label: 'Close Other Tabs', group: 'Files', defaultKeys: null },
+  { id: 'pinTab', label: 'Pin or Unpin Tab', group: 'Files', defaultKeys: null },
+  { id: 'toggleFiles', label: 'Toggle File Explorer', group: 'View', defaultKeys: 'Mod+B' },
+  { id: 'toggleRunner', label: 'Toggle Runner Panel', group: 'View', defaultKeys: 'Mod+J' },
+  { id: 'splitEditor', label: 'Split Editor', group: 'View', defaultKeys: 'Mod+\\' },
+  { id: 'nextLab', label: 'Next Lab', group: 'Lab', defaultKeys: 'Mod+Alt+ArrowRight' },
+  { id: 'previousLab', label: 'Previous Lab', group: 'Lab', defaultKeys: 'Mod+Alt+ArrowLeft' },
+  { id: 'reset', label: 'Reload Fresh Content', group: 'Lab', defaultKeys: null }
+];
+
+export type Keybindings = Record<IdeCommandId, string | null>;
+
+const STORAGE_KEY = 'labdojo_keybindings';
+
+// Editing shortcuts learners rely on inside the editor; IDE commands may not take them over
+const RESERVED_KEYS = [
+  'Mod+C', 'Mod+V', 'Mod+X', 'Mod+Z', 'Mod+Shift+Z', 'Mod+Y', 'Mod+A', 'Mod+F', 'Mod+H', 'Mod+D',
+  'Mod+/', 'Mod+[', 'Mod+]', 'Tab', 'Shift+Tab', 'Escape', 'F1'
+];
+
+// KeyboardEvent.code -> [key name used in bindings, Monaco KeyCode name]
+const NAMED_KEYS: Record<string, [string, string]> = {
+  Enter: ['Enter', 'Enter'],
+  Escape: ['Escape', 'Escape'],
+  Tab: ['Tab', 'Tab'],
+  Space: ['Space', 'Space'],
+  Backspace: ['Backspace', 'Backspace'],
+  Delete: ['Delete', 'Delete'],
+  ArrowUp: ['ArrowUp', 'UpArrow'],
+  ArrowDown: ['ArrowDown', 'DownArrow'],
+  ArrowLeft: ['ArrowLeft', 'LeftArrow'],
+  ArrowRight: ['ArrowRight', 'RightArrow'],
+  PageUp: ['PageUp', 'PageUp'],
+  PageDown: ['PageDown', 'PageDown'],
+  Home: ['Home', 'Home'],
+  End: ['End', 'End'],
+  Slash: ['/', 'Slash'],
+  Backslash: ['\\', 'Backslash'],
+  Period: ['.', 'Period'],
+  Comma: [',', 'Comma'],
+  Semicolon: [';', 'Semicolon'],
+  Quote: ["'", 'Quote'],
+  BracketLeft: ['[', 'BracketLeft'],
+  BracketRight: [']', 'BracketRight'],
+  Minus: ['-', 'Minus'],
+  Equal: ['=', 'Equal'],
+  Backquote: ['`', 'Backquote']
+};
+
+const MODIFIER_CODES = ['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'];
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+class KeybindingService {
+  private overrides: Partial<Keybindings> | null = null;
+  private listeners = new Set<(keybindings: Keybindings) => void>();
+
+  getKeybindings(): Keybindings {
+    const overrides = this.loadOverrides();
+    return Object.fromEntries(
+      IDE_COMMANDS.map(command => [command.id, command.id in overrides ? overrides[command.id] ?? null : command.defaultKeys])
+    ) as Keybindings;
+  }
+
+  // Assigns keys to a command, or unbinds it with null; throws when the keys can't be used
+  setKeybinding(id: IdeCommandId, keys: string | null) {
+    if (keys !== null) {
+      this.validate(id, keys);
+    }
+    const overrides = { ...this.loadOverrides(), [id]: keys };
+    const command = IDE_COMMANDS.find(item => item.id === id);
+    if (command?.defaultKeys === keys) {
+      delete overrides[id];
+    }
+    this.saveOverrides(overrides);
+  }
+
+  resetKeybindings() {
+    this.saveOverrides({});
+  }
+
+  subscribe(listener: (keybindings: Keybindings) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Keys for a keyboard event, e.g. "Mod+Shift+P"; null for lone modifiers and unsupported keys
+  fromEvent(event: Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null {
+    if (MODIFIER_CODES.includes(event.code)) return null;
+    // Ctrl on macOS is left to the system and the editor
+    if (isMac() && event.ctrlKey) return null;
+
+    const key = this.keyFromCode(event.code);
+    if (!key) return null;
+
+    const parts: string[] = [];
+    if (isMac() ? event.metaKey : event.ctrlKey) parts.push('Mod');
+    if (event.altKey) parts.push('Alt');
+    if (event.shiftKey) parts.push('Shift');
+    return [...parts, key].join('+');
+  }
+
+  // Keys as shown to the learner, e.g. "⌘⇧P" on macOS and "Ctrl+Shift+P" elsewhere
+  format(keys: string): string {
+    const mac = isMac();
+    const labels: Record<string, string> = mac
+      ? { Mod: '⌘', Alt: '⌥', Shift: '⇧', Enter: '↩', ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' }
+      : { Mod: 'Ctrl', ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+    const parts = keys.split('+').map(part => labels[part] || part);
+    return parts.join(mac ? '' : '+');
+  }
+
+  // Monaco keybinding number for keys, so the editor runs the command instead of its own action
+  toMonaco(keys: string, monaco: typeof import('monaco-editor')): number | null {
+    const parts = keys.split('+');
+    const key = parts[parts.length - 1];
+    const named = Object.values(NAMED_KEYS).find(([name]) => name === key);
+    const codeName = named
+      ? named[1]
+      : /^[A-Z]$/.test(key) ? `Key${key}` : /^[0-9]$/.test(key) ? `Digit${key}` : /^F([1-9]|1[0-2])$/.test(key) ? key : null;
+    const keyCode = codeName ? monaco.KeyCode[codeName as keyof typeof monaco.KeyCode] : undefined;
+    if (keyCode === undefined) return null;
+
+    return parts.slice(0, -1).reduce((result, modifier) => {
+      if (modifier === 'Mod') return result | monaco.KeyMod.CtrlCmd;
+      if (modifier === 'Alt') return result | monaco.KeyMod.Alt;
+      if (modifier === 'Shift') return result | monaco.KeyMod.Shift;
+      return result;
+    }, keyCode as number);
+  }
+
+  private validate(id: IdeCommandId, keys: string) {
+    const parts = keys.split('+');
+    const key = parts[parts.length - 1];
+    if (RESERVED_KEYS.includes(keys)) {
+      throw new Error(`${this.format(keys)} is an editor shortcut`);
+    }
+    if (!parts.includes('Mod') && !parts.includes('Alt') && !/^F([1-9]|1[0-2])$/.test(key)) {
+      throw new Error('Add Ctrl, Cmd or Alt so the keys don\'t type text');
+    }
+    const keybindings = this.getKeybindings();
+    const taken = IDE_COMMANDS.find(command => command.id !== id && keybindings[command.id] === keys);
+    if (taken) {
+      throw new Error(`${this.format(keys)} is already used by ${taken.label}`);
+    }
+  }
+
+  private keyFromCode(code: string): string | null {
+    if (NAMED_KEYS[code]) return NAMED_KEYS[code][0];
+    const letter = code.match(/^Key([A-Z])$/);
+    if (letter) return letter[1];
+    const digit = code.match(/^Digit([0-9])$/);
+    if (digit) return digit[1];
+    return /^F([1-9]|1[0-2])$/.test(code) ? code : null;
+  }
+
+  private loadOverrides(): Partial<Keybindings> {
+    if (!this.overrides) {
+      try {
+        this.overrides = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+      } catch (error) {
+        console.warn('Failed to load keybindings:', error);
+        this.overrides = {};
+      }
+    }
+    return this.overrides || {};
+  }
+
+  private saveOverrides(overrides: Partial<Keybindings>) {
+    this.overrides = overrides;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+    } catch (error) {
+      console.warn('Failed to save keybindings:', error);
+    }
+    const keybindings = this.getKeybindings();
+    this.listeners.forEach(listener => listener(keybindings));
+  }
+}
+
+export const keybindingService = new KeybindingService();
@@ -0,0 +1,186 @@
+import { LabCheckResult, LabCompletionCheck, LabCompletionSummary, LabFile, SignedLabCompletion } from '../types/lab';
+import { ExecutionResult, FileMap } from '../types/runner';
+import { RunnerFactory } from './runners/RunnerFactory';
+import { runnerPool } from './runners/runnerPool';
+import { LabTestRunner } from './runners/LabTestRunner';
+
+export interface LabCheckContext {
+  files: FileMap; // the learner's current files
+  originalFiles: FileMap; // the files as the lab shipped them
+  hiddenTests: FileMap;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Compare program output and file content without caring about line endings or trailing spaces
+const normalizeText = (text: string) =>
+  text.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trim();
+
+class LabCheckService {
+  // Flattens a lab file tree into a path -> content map, skipping files without access
+  toFileMap(files: LabFile[]): FileMap {
+    const fileMap: FileMap = {};
+    const addFiles = (items: LabFile[]) => {
+      items.forEach(file => {
+        if (file.type === 'directory' && file.children) {
+          addFiles(file.children);
+        } else if (file.type === 'file' && file.content !== null && file.access_granted !== false) {
+          fileMap[file.path || file.name] = file.content;
+        }
+      });
+    };
+    addFiles(files);
+    return fileMap;
+  }
+
+  async runChecks(checks: LabCompletionCheck[], context: LabCheckContext): Promise<LabCheckResult[]> {
+    const results: LabCheckResult[] = [];
+
+    // Checks run one at a time so only one runner is busy
+    for (const check of checks) {
+      try {
+        results.push(await this.runCheck(check, context));
+      } catch (error) {
+        results.push({
+          id: check.id,
+          type: check.type,
+          description: this.describeCheck(check),
+          passed: false,
+          message: error instanceof Error ? error.message : 'Check failed to run'
+        });
+      }
+    }
+
+    return results;
+  }
+
+  describeCheck(check: LabCompletionCheck): string {
+    if (check.description) {
+      return check.description;
+    }
+
+    switch (check.type) {
+      case 'tests_pass':
+        return check.files?.length ? `Tests pass in ${check.files.join(', ')}` : 'All tests pass';
+      case 'output_matches':
+        return `${check.file} prints the expected output`;
+      case 'files_modified':
+        return `Edit ${check.files.join(', ')}`;
+    }
+  }
+
+  async createSignedCompletion(
+    labUrl: string,
+    results: LabCheckResult[],
+    files: FileMap,
+    completionToken?: string
+  ): Promise<SignedLabCompletion> {
+    const summary: LabCompletionSummary = {
+      lab_url: labUrl,
+      checked_at: new Date().toISOString(),
+      passed: results.every(result => result.passed),
+      checks: results.map(({ id, type, passed }) => ({ id, type, passed })),
+      files_digest: await this.digestFiles(files)
+    };
+    const summaryText = JSON.stringify(summary);
+
+    // Without a token from the backend the summary is sent unsigned and the backend decides
+    if (!completionToken) {
+      return { summary: summaryText, signature: null };
+    }
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(completionToken),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(summaryText));
+    return { summary: summaryText, signature: toHex(signature) };
+  }
+
+  private async runCheck(check: LabCompletionCheck, context: LabCheckContext): Promise<LabCheckResult> {
+    const result = { id: check.id, type: check.type, description: this.describeCheck(check) };
+
+    switch (check.type) {
+      case 'tests_pass': {
+        // The lab's own test files are run, so editing or deleting them can't make the check pass
+        const labTests = Object.fromEntries(
+          Object.entries(context.originalFiles).filter(([path]) => LabTestRunner.isTestFile(path))
+        );
+        const summary = await new LabTestRunner().run({ ...context.files, ...labTests }, context.hiddenTests);
+        const files = check.files?.length
+          ? summary.files.filter(file => check.files?.includes(file.file))
+          : summary.files;
+        const tests = files.flatMap(file => file.tests);
+        const failing = tests.filter(test => test.status === 'failed' || test.status === 'error').length +
+          files.filter(file => file.error).length;
+
+        if (tests.length === 0) {
+          return { ...result, passed: false, message: 'No tests were found' };
+        }
+        // Every test file has to report, not just some of them
+        const silent = [
+          ...(check.files || []).filter(path => !files.some(file => file.file === path)),
+          ...files.filter(file => file.tests.length === 0 && !file.error).map(file => file.file)
+        ];
+        if (silent.length > 0) {
+          return { ...result, passed: false, message: `No tests ran in ${silent.join(', ')}` };
+        }
+        return failing === 0
+          ? { ...result, passed: true, message: `${tests.length} tests passed` }
+          : { ...result, passed: false, message: `${failing} of ${tests.length} tests failed` };
+      }
+
+      case 'output_matches': {
+        const code = context.files[check.file];
+        const language = RunnerFactory.detectLanguageFromFile(check.file);
+        if (code === undefined || !language || !RunnerFactory.isLanguageSupported(language)) {
+          return { ...result, passed: false, message: `${check.file} cannot be run` };
+        }
+
+        const runner = await runnerPool.acquire(language);
+        let execution: ExecutionResult;
+        try {
+          execution = await runner.execute(code, context.files, {
+            entryFile: check.file,
+            stdin: check.stdin
+          });
+        } finally {
+          runnerPool.release(runner);
+        }
+        if (!execution.success) {
+          return { ...result, passed: false, message: execution.error || 'The program failed' };
+        }
+
+        const output = normalizeText(execution.output);
+        const passed = check.pattern !== undefined
+          ? new RegExp(check.pattern, 'm').test(output)
+          : output === normalizeText(check.expected || '');
+        return { ...result, passed, message: passed ? undefined : 'The output does not match what the lab expects' };
+      }
+
+      case 'files_modified': {
+        const unchanged = check.files.filter(file =>
+          context.files[file] === undefined ||
+          normalizeText(context.files[file]) === normalizeText(context.originalFiles[file] || '')
+        );
+        return unchanged.length === 0
+          ? { ...result, passed: true }
+          : { ...result, passed: false, message: `Not modified yet: ${unchanged.join(', ')}` };
+      }
+    }
+  }
+
+  // Ties the summary to the files that were checked
+  private async digestFiles(files: FileMap): Promise<string> {
+    const entries = Object.keys(files).sort().map(path => [path, files[path]]);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(entries)));
+    return toHex(digest);
+  }
+}
+
+export const labCheckService = new LabCheckService();
@@ -0,0 +1,243 @@
+import type JSZip from 'jszip';
+import { LabFile } from '../types/lab';
+import { labWorkspaceService } from './labWorkspaceService';
+
+// A text file read from a zip, a dropped folder or the file picker, with its path relative to the import root
+export interface ImportedFile {
+  path: string;
+  content: string;
+}
+
+export type ImportItemStatus = 'overwrite' | 'add' | 'unchanged' | 'skipped';
+
+export interface ImportItem {
+  path: string; // where it lands in the workspace
+  status: ImportItemStatus;
+  content: string;
+  reason?: string; // why a file is skipped
+}
+
+export interface ImportPlan {
+  items: ImportItem[];
+  stripped: string | null; // leading folder removed so the files line up with the lab tree
+}
+
+// Larger files are almost certainly not something the learner edited
+const MAX_FILE_SIZE = 1024 * 1024;
+
+// Caps on a whole zip, so a small archive can't expand into something that stalls the tab. The
+// size applies to the zip file and, counted while unpacking, to the files taken from it.
+const MAX_ZIP_ENTRIES = 1000;
+const MAX_ZIP_SIZE = 20 * 1024 * 1024;
+
+// Editor and OS leftovers that never belong in a lab
+const IGNORED_SEGMENTS = ['__MACOSX', '.git', 'node_modules', '__pycache__', '.venv', '.idea', '.vscode'];
+const IGNORED_NAMES = ['.DS_Store', 'Thumbs.db', 'desktop.ini'];
+
+const isIgnored = (path: string) => {
+  const segments = path.split('/');
+  return segments.some(segment => IGNORED_SEGMENTS.includes(segment)) ||
+    IGNORED_NAMES.includes(segments[segments.length - 1]);
+};
+
+// Null for binary files, which the editor can't show
+const decodeText = (bytes: Uint8Array): string | null => {
+  if (bytes.includes(0)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+// internalStream is part of JSZip's API but missing from its typings
+type ZipEntry = JSZip.JSZipObject & {
+  internalStream(type: 'uint8array'): {
+    on(event: 'data', listener: (chunk: Uint8Array) => void): ZipEntryStream;
+    on(event: 'error', listener: (error: unknown) => void): ZipEntryStream;
+    on(event: 'end', listener: () => void): ZipEntryStream;
+    pause(): ZipEntryStream;
+    resume(): ZipEntryStream;
+  };
+};
+type ZipEntryStream = ReturnType<ZipEntry['internalStream']>;
+
+// Null once the entry grows past the limit; the bytes are counted as they are unpacked, since the
+// sizes a zip declares can't be trusted
+const readZipEntry = (entry: ZipEntry, limit: number): Promise<Uint8Array | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const stream = entry.internalStream('uint8array');
+    stream
+      .on('data', chunk => {
+        size += chunk.length;
+        if (size > limit) {
+          stream.pause();
+          resolve(null);
+        } else {
+          chunks.push(chunk);
+        }
+      })
+      .on('error', reject)
+      .on('end', () => {
+        const bytes = new Uint8Array(size);
+        let offset = 0;
+        for (const chunk of chunks) {
+          bytes.set(chunk, offset);
+          offset += chunk.length;
+        }
+        resolve(bytes);
+      })
+      .resume();
+  });
+
+export class ImportTooLargeError extends Error {
+  constructor() {
+    super(`This zip is too large to import. Zips can hold up to ${MAX_ZIP_ENTRIES} files and ${MAX_ZIP_SIZE / 1024 / 1024} MB.`);
+    this.name = 'ImportTooLargeError';
+  }
+}
+
+const flattenFiles = (files: LabFile[]): LabFile[] =>
+  files.flatMap(file => (file.type === 'directory' ? flattenFiles(file.children || []) : [file]));
+
+class LabImportService {
+  // Reads picked or dropped files; zips are unpacked, binary and oversized files are left out
+  async readFiles(files: Array<{ file: File; path: string }>): Promise<{ files: ImportedFile[]; skipped: string[] }> {
+    const result: ImportedFile[] = [];
+    const skipped: string[] = [];
+
+    for (const { file, path } of files) {
+      if (file.name.toLowerCase().endsWith('.zip')) {
+        const unpacked = await this.readZip(file);
+        result.push(...unpacked.files);
+        skipped.push(...unpacked.skipped);
+        continue;
+      }
+
+      const normalized = labWorkspaceService.normalizePath(path);
+      if (isIgnored(normalized)) continue;
+      if (file.size > MAX_FILE_SIZE) {
+        skipped.push(normalized);
+        continue;
+      }
+
+      const content = decodeText(new Uint8Array(await file.arrayBuffer()));
+      if (content === null) {
+        skipped.push(normalized);
+      } else {
+        result.push({ path: normalized, content });
+      }
+    }
+
+    return { files: result, skipped };
+  }
+
+  async readZip(file: File): Promise<{ files: ImportedFile[]; skipped: string[] }> {
+    if (file.size > MAX_ZIP_SIZE) throw new ImportTooLargeError();
+    const JSZip = (await import('jszip')).default;
+    const zip = await JSZip.loadAsync(file);
+    const files: ImportedFile[] = [];
+    const skipped: string[] = [];
+
+    const entries = Object.values(zip.files) as ZipEntry[];
+    if (entries.length > MAX_ZIP_ENTRIES) throw new ImportTooLargeError();
+
+    let total = 0;
+    for (const entry of entries) {
+      const path = labWorkspaceService.normalizePath(entry.name);
+      if (entry.dir || isIgnored(path)) continue;
+
+      // Files too large on their own, or for what is left of the zip's budget, are skipped
+      const bytes = await readZipEntry(entry, Math.min(MAX_FILE_SIZE, MAX_ZIP_SIZE - total));
+      const content = bytes && decodeText(bytes);
+      if (!bytes || content === null) {
+        skipped.push(path);
+      } else {
+        total += bytes.length;
+        files.push({ path, content });
+      }
+    }
+
+    return { files, skipped };
+  }
+
+  // Walks a dropped folder; the browser hands folders over as entries rather than files
+  async readDroppedItems(items: DataTransferItemList): Promise<Array<{ file: File; path: string }>> {
+    const entries = Array.from(items)
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+
+    const result: Array<{ file: File; path: string }> = [];
+    const visit = async (entry: FileSystemEntry): Promise<void> => {
+      if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        result.push({ file, path: entry.fullPath });
+      } else if (entry.isDirectory && !IGNORED_SEGMENTS.includes(entry.name)) {
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        // readEntries hands out a batch at a time until it returns none
+        let batch: FileSystemEntry[];
+        do {
+          batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+          for (const child of batch) {
+            await visit(child);
+          }
+        } while (batch.length > 0);
+      }
+    };
+
+    for (const entry of entries) {
+      await visit(entry);
+    }
+    return result;
+  }
+
+  // Lines the imported paths up with the workspace and sorts out what each file would do.
+  // `files` is the current tree with the learner's content applied.
+  planImport(imported: ImportedFile[], files: LabFile[]): ImportPlan {
+    const existing = new Map(flattenFiles(files).map(file => [file.path, file]));
+    const stripped = this.findRootToStrip(imported, files, existing);
+
+    const seen = new Set<string>();
+    const items = imported.map((file): ImportItem => {
+      const path = stripped ? file.path.slice(stripped.length + 1) : file.path;
+      const current = existing.get(path);
+
+      if (seen.has(path)) {
+        return { path, status: 'skipped', content: file.content, reason: 'Duplicate path' };
+      }
+      seen.add(path);
+
+      if (current) {
+        if (labWorkspaceService.isProtected(current) || current.content === null) {
+          return { path, status: 'skipped', content: file.content, reason: 'Premium file' };
+        }
+        return { path, status: current.content === file.content ? 'unchanged' : 'overwrite', content: file.content };
+      }
+
+      try {
+        labWorkspaceService.validateNewPath(files, path);
+        return { path, status: 'add', content: file.content };
+      } catch (error) {
+        return { path, status: 'skipped', content: file.content, reason: error instanceof Error ? error.message : 'Invalid path' };
+      }
+    });
+
+    return { items: items.sort((a, b) => a.path.localeCompare(b.path)), stripped };
+  }
+
+  // A zip or folder usually wraps the files in one top-level folder the lab doesn't have;
+  // it is dropped when that lines up more files with the lab
+  private findRootToStrip(imported: ImportedFile[], files: LabFile[], existing: Map<string, LabFile>): string | null {
+    const roots = new Set(imported.map(file => (file.path.includes('/') ? file.path.split('/')[0] : '')));
+    if (roots.size !== 1 || roots.has('')) return null;
+
+    const [root] = roots;
+    const matches = (strip: boolean) =>
+      imported.filter(file => existing.has(strip ? file.path.slice(root.length + 1) : file.path)).length;
+    return !labWorkspaceService.findFile(files, root) && matches(true) >= matches(false) ? root : null;
+  }
+}
+
+export const labImportService = new LabImportService();
@@ -0,0 +1,102 @@
+import { LabFile, LabSnapshot, WorkspaceChanges } from '../types/lab';
+import { apiService } from './apiService';
+import { labWorkspaceService } from './labWorkspaceService';
+
+// Longer links get cut off by chat apps and browsers, so bigger snapshots are stored on the backend
+const MAX_LINK_DATA_LENGTH = 8000;
+
+const flattenFiles = (files: LabFile[]): LabFile[] =>
+  files.flatMap(file => (file.type === 'directory' ? flattenFiles(file.children || []) : [file]));
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+class LabSnapshotService {
+  // `files` is the current tree with the learner's content applied
+  createSnapshot(
+    lab: LabSnapshot['lab'],
+    files: LabFile[],
+    changes: WorkspaceChanges,
+    originalFiles: Map<string, string>,
+    selectedPath: string | null
+  ): { snapshot: LabSnapshot; premiumSkipped: number } {
+    const { files: changed } = labWorkspaceService.createCheckpoint('snapshot', files, changes, originalFiles);
+
+    // The person opening the link may not have bought the premium files, even if the learner did
+    const premiumPaths = new Set(flattenFiles(files).filter(file => file.is_premium).map(file => file.path));
+    const shared = Object.fromEntries(Object.entries(changed).filter(([path]) => !premiumPaths.has(path)));
+
+    return {
+      snapshot: {
+        version: 1,
+        lab,
+        created_at: new Date().toISOString(),
+        changes,
+        files: shared,
+        selected_path: selectedPath && !premiumPaths.has(selectedPath) ? selectedPath : null
+      },
+      premiumSkipped: Object.keys(changed).length - Object.keys(shared).length
+    };
+  }
+
+  // Link to the read-only viewer: the snapshot itself in the URL fragment, or a stored id when it is too big
+  async createLink(snapshot: LabSnapshot): Promise<string> {
+    const encoded = await this.encode(snapshot).catch(() => null);
+    if (encoded && encoded.length <= MAX_LINK_DATA_LENGTH) {
+      return `${window.location.origin}/snapshot#${encoded}`;
+    }
+    const id = await apiService.createLabSnapshot(snapshot);
+    return `${window.location.origin}/snapshot/${encodeURIComponent(id)}`;
+  }
+
+  // Reads a snapshot from a stored id or from the link's fragment
+  async loadSnapshot(id: string | undefined, fragment: string): Promise<LabSnapshot | null> {
+    if (id) {
+      return apiService.getLabSnapshot(id);
+    }
+    return fragment ? this.decode(fragment) : null;
+  }
+
+  async encode(snapshot: LabSnapshot): Promise<string> {
+    const json = new TextEncoder().encode(JSON.stringify(snapshot));
+    return toBase64Url(await transform(json, new CompressionStream('gzip')));
+  }
+
+  async decode(encoded: string): Promise<LabSnapshot> {
+    const json = await transform(fromBase64Url(encoded), new DecompressionStream('gzip'));
+    const snapshot = JSON.parse(new TextDecoder().decode(json));
+    if (snapshot?.version !== 1 || !snapshot.lab || !snapshot.files) {
+      throw new Error('Unsupported snapshot');
+    }
+    return snapshot;
+  }
+
+  // The snapshot's files on top of the lab as the viewer can see it; without the lab only the changed files show
+  buildTree(snapshot: LabSnapshot, labFiles: LabFile[] | null): LabFile[] {
+    const changes = labFiles
+      ? snapshot.changes
+      : { created: Object.keys(snapshot.files), folders: [], moved: {}, deleted: [] };
+    const applyContent = (files: LabFile[]): LabFile[] => files.map(file => {
+      if (file.type === 'directory') {
+        return { ...file, children: applyContent(file.children || []) };
+      }
+      return file.path in snapshot.files ? { ...file, content: snapshot.files[file.path] } : file;
+    });
+    return applyContent(labWorkspaceService.applyChanges(labFiles || [], changes));
+  }
+}
+
+export const labSnapshotService = new LabSnapshotService();
@@ -0,0 +1,415 @@
+import { LabContent, WorkspaceChanges, WorkspaceCheckpoint, WorkspaceSnapshot } from '../types/lab';
+import { EditorLayout } from './editorLayoutService';
+
+// Everything the IDE keeps for one lab besides the lab content itself
+export interface WorkspaceData {
+  title?: string;
+  path?: string; // route of the IDE page, for links from the settings screen
+  pending: Record<string, string>; // unsaved edits by file path
+  saved: Record<string, string>; // saved edits by file path
+  changes: WorkspaceChanges | null;
+  checkpoints: WorkspaceCheckpoint[];
+  sync: WorkspaceSyncState | null;
+  layout: EditorLayout | null; // open tabs and per-file view state; stays on this device
+}
+
+// Cross-device sync for one lab, kept with the workspace so it works offline
+export interface WorkspaceSyncState {
+  enabled: boolean;
+  revision: number | null; // backend revision the local copy is based on
+  base: WorkspaceSnapshot | null; // what both sides last agreed on, for three-way merges
+  syncedAt: number | null;
+}
+
+export interface StoredWorkspaceSummary {
+  id: string;
+  title?: string;
+  path?: string;
+  size: number; // approximate bytes
+  fileCount: number; // files with pending or saved edits
+  checkpointCount: number;
+  accessedAt: number;
+}
+
+export interface StorageUsage {
+  usage: number | null; // bytes used by the whole site, when the browser reports it
+  quota: number | null;
+  workspaces: StoredWorkspaceSummary[];
+  contentCacheSize: number; // approximate bytes of cached lab content
+}
+
+// Records carry the shape version they were written with; others are ignored rather than misread
+interface StoredRecord<T> {
+  id: string;
+  version: number;
+  updatedAt: number;
+  accessedAt: number; // drives least-recently-used eviction
+  value: T;
+}
+
+const DB_NAME = 'labdojo-labs';
+const DB_VERSION = 1;
+const RECORD_VERSION = 1;
+const WORKSPACE_STORE = 'workspaces';
+const CONTENT_STORE = 'content';
+const META_STORE = 'meta';
+
+// Cached lab content is refetched after this long
+const CONTENT_MAX_AGE = 30 * 60 * 1000;
+// Least recently opened labs lose their cached content beyond this count
+const MAX_CACHED_CONTENT = 20;
+// Edits are written after typing pauses
+const WRITE_DELAY = 300;
+
+// localStorage keys from before IndexedDB, by workspace field
+const LEGACY_WORKSPACE_PREFIXES: Record<string, keyof WorkspaceData> = {
+  'ide-pending-': 'pending',
+  'ide-saved-': 'saved',
+  'ide-workspace-': 'changes',
+  'ide-checkpoints-': 'checkpoints'
+};
+const LEGACY_CONTENT_PREFIX = 'lab-content-';
+const LEGACY_TIMESTAMP_PREFIX = 'lab-content-timestamp-';
+
+const emptyWorkspace = (): WorkspaceData => ({ pending: {}, saved: {}, changes: null, checkpoints: [], sync: null, layout: null });
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Storage transaction aborted'));
+  });
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+const sizeOf = (value: unknown) => JSON.stringify(value ?? null).length * 2;
+
+export class StorageQuotaError extends Error {
+  constructor() {
+    super('Browser storage is full. Clear stored lab workspaces in Settings to free up space.');
+    this.name = 'StorageQuotaError';
+  }
+}
+
+class LabStorageService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private workspaces = new Map<string, StoredRecord<WorkspaceData>>();
+  private writeTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private writeWaiters = new Map<string, Array<{ resolve: () => void; reject: (error: unknown) => void }>>();
+
+  constructor() {
+    // Best effort to get the last edits written when the tab goes away
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.flush());
+    }
+  }
+
+  // Reads a workspace into memory so the IDE can use it synchronously afterwards.
+  // The in-memory copy is always the newest, so it is only read once per page load.
+  async loadWorkspace(id: string): Promise<WorkspaceData> {
+    const loaded = this.workspaces.get(id);
+    if (loaded) {
+      return loaded.value;
+    }
+
+    const db = await this.getDb();
+    const transaction = db.transaction(WORKSPACE_STORE, 'readwrite');
+    const store = transaction.objectStore(WORKSPACE_STORE);
+    const stored = await requestToPromise<StoredRecord<WorkspaceData> | undefined>(store.get(id));
+
+    const now = Date.now();
+    if (stored?.version === RECORD_VERSION) {
+      store.put({ ...stored, accessedAt: now });
+    }
+    await transactionDone(transaction);
+
+    // Another call may have loaded or changed it while this one waited
+    if (!this.workspaces.has(id)) {
+      this.workspaces.set(id, stored?.version === RECORD_VERSION
+        ? { ...stored, value: { ...emptyWorkspace(), ...stored.value }, accessedAt: now }
+        : { id, version: RECORD_VERSION, updatedAt: now, accessedAt: now, value: emptyWorkspace() });
+    }
+    return this.workspaces.get(id)!.value;
+  }
+
+  // The in-memory copy; empty until loadWorkspace has finished
+  getWorkspace(id: string): WorkspaceData {
+    return this.workspaces.get(id)?.value || emptyWorkspace();
+  }
+
+  // Applies the change right away and writes it to IndexedDB shortly after
+  updateWorkspace(id: string, update: Partial<WorkspaceData>): Promise<void> {
+    const now = Date.now();
+    const current = this.workspaces.get(id) || { id, version: RECORD_VERSION, updatedAt: now, accessedAt: now, value: emptyWorkspace() };
+    this.workspaces.set(id, { ...current, updatedAt: now, accessedAt: now, value: { ...current.value, ...update } });
+
+    return new Promise<void>((resolve, reject) => {
+      this.writeWaiters.set(id, [...(this.writeWaiters.get(id) || []), { resolve, reject }]);
+      clearTimeout(this.writeTimers.get(id));
+      this.writeTimers.set(id, setTimeout(() => this.writeWorkspace(id), WRITE_DELAY));
+    });
+  }
+
+  async deleteWorkspace(id: string): Promise<void> {
+    clearTimeout(this.writeTimers.get(id));
+    this.writeTimers.delete(id);
+    this.writeWaiters.get(id)?.forEach(waiter => waiter.resolve());
+    this.writeWaiters.delete(id);
+    this.workspaces.delete(id);
+
+    const db = await this.getDb();
+    const transaction = db.transaction([WORKSPACE_STORE, CONTENT_STORE], 'readwrite');
+    transaction.objectStore(WORKSPACE_STORE).delete(id);
+    transaction.objectStore(CONTENT_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async getCachedContent(id: string): Promise<LabContent | null> {
+    const db = await this.getDb();
+    const transaction = db.transaction(CONTENT_STORE, 'readwrite');
+    const store = transaction.objectStore(CONTENT_STORE);
+    const stored = await requestToPromise<StoredRecord<LabContent> | undefined>(store.get(id));
+
+    let content: LabContent | null = null;
+    if (stored?.version === RECORD_VERSION && Date.now() - stored.updatedAt < CONTENT_MAX_AGE) {
+      store.put({ ...stored, accessedAt: Date.now() });
+      content = stored.value;
+    } else if (stored) {
+      // Expired or written by another version
+      store.delete(id);
+    }
+    await transactionDone(transaction);
+    return content;
+  }
+
+  async setCachedContent(id: string, content: LabContent): Promise<void> {
+    const now = Date.now();
+    const record: StoredRecord<LabContent> = { id, version: RECORD_VERSION, updatedAt: now, accessedAt: now, value: content };
+    await this.writeWithEviction(CONTENT_STORE, record);
+    await this.evictContent(MAX_CACHED_CONTENT);
+  }
+
+  async removeCachedContent(id: string): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(CONTENT_STORE, 'readwrite');
+    transaction.objectStore(CONTENT_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async getUsage(): Promise<StorageUsage> {
+    await this.flush();
+    const db = await this.getDb();
+    const transaction = db.transaction([WORKSPACE_STORE, CONTENT_STORE]);
+    const [workspaces, contents] = await Promise.all([
+      requestToPromise<StoredRecord<WorkspaceData>[]>(transaction.objectStore(WORKSPACE_STORE).getAll()),
+      requestToPromise<StoredRecord<LabContent>[]>(transaction.objectStore(CONTENT_STORE).getAll())
+    ]);
+
+    const estimate = await navigator.storage?.estimate?.().catch(() => null);
+    const summaries: StoredWorkspaceSummary[] = workspaces
+      .filter(record => record.version === RECORD_VERSION)
+      .map(record => ({
+        id: record.id,
+        title: record.value.title,
+        path: record.value.path,
+        size: sizeOf(record.value),
+        fileCount: new Set([...Object.keys(record.value.pending || {}), ...Object.keys(record.value.saved || {})]).size,
+        checkpointCount: record.value.checkpoints?.length || 0,
+        accessedAt: record.accessedAt
+      }))
+      .sort((a, b) => b.accessedAt - a.accessedAt);
+
+    return {
+      usage: estimate?.usage ?? null,
+      quota: estimate?.quota ?? null,
+      workspaces: summaries,
+      contentCacheSize: contents.reduce((total, record) => total + sizeOf(record.value), 0)
+    };
+  }
+
+  async clearAll(): Promise<void> {
+    this.writeTimers.forEach(timer => clearTimeout(timer));
+    this.writeTimers.clear();
+    this.writeWaiters.forEach(waiters => waiters.forEach(waiter => waiter.resolve()));
+    this.writeWaiters.clear();
+    this.workspaces.clear();
+
+    const db = await this.getDb();
+    const transaction = db.transaction([WORKSPACE_STORE, CONTENT_STORE], 'readwrite');
+    transaction.objectStore(WORKSPACE_STORE).clear();
+    transaction.objectStore(CONTENT_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  // Writes every queued workspace change now
+  async flush(): Promise<void> {
+    const ids = [...this.writeTimers.keys()];
+    await Promise.all(ids.map(id => this.writeWorkspace(id)));
+  }
+
+  private async writeWorkspace(id: string): Promise<void> {
+    clearTimeout(this.writeTimers.get(id));
+    this.writeTimers.delete(id);
+    const waiters = this.writeWaiters.get(id) || [];
+    this.writeWaiters.delete(id);
+
+    const record = this.workspaces.get(id);
+    try {
+      if (record) {
+        await this.writeWithEviction(WORKSPACE_STORE, record, id);
+      }
+      waiters.forEach(waiter => waiter.resolve());
+    } catch (error) {
+      waiters.forEach(waiter => waiter.reject(error));
+    }
+  }
+
+  // On a full quota, frees space from the least recently used labs and tries again
+  private async writeWithEviction<T>(storeName: string, record: StoredRecord<T>, keepId = record.id): Promise<void> {
+    const put = async () => {
+      const db = await this.getDb();
+      const transaction = db.transaction(storeName, 'readwrite');
+      transaction.objectStore(storeName).put(record);
+      await transactionDone(transaction);
+    };
+
+    try {
+      await put();
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+
+      // Cached content can always be refetched, so it goes first; other labs' workspaces go after that
+      while (await this.evictLeastRecent(keepId)) {
+        try {
+          await put();
+          return;
+        } catch (retryError) {
+          if (!isQuotaError(retryError)) throw retryError;
+        }
+      }
+      throw new StorageQuotaError();
+    }
+  }
+
+  private async evictLeastRecent(keepId: string): Promise<boolean> {
+    const db = await this.getDb();
+    for (const storeName of [CONTENT_STORE, WORKSPACE_STORE]) {
+      const records = await requestToPromise<StoredRecord<unknown>[]>(
+        db.transaction(storeName).objectStore(storeName).getAll()
+      );
+      const oldest = records
+        .filter(record => record.id !== keepId)
+        .sort((a, b) => a.accessedAt - b.accessedAt)[0];
+
+      if (oldest) {
+        const transaction = db.transaction(storeName, 'readwrite');
+        transaction.objectStore(storeName).delete(oldest.id);
+        await transactionDone(transaction);
+        if (storeName === WORKSPACE_STORE) {
+          this.workspaces.delete(oldest.id);
+        }
+        console.warn(`Evicted stored lab data for ${oldest.id} to free up space`);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async evictContent(limit: number): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(CONTENT_STORE, 'readwrite');
+    const store = transaction.objectStore(CONTENT_STORE);
+    const records = await requestToPromise<StoredRecord<LabContent>[]>(store.getAll());
+    records
+      .sort((a, b) => b.accessedAt - a.accessedAt)
+      .slice(limit)
+      .forEach(record => store.delete(record.id));
+    await transactionDone(transaction);
+  }
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+          db.createObjectStore(CONTENT_STORE, { keyPath: 'id' });
+          db.createObjectStore(META_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).then(async db => {
+        await this.migrateLocalStorage(db);
+        return db;
+      });
+
+      // Let a later call try again
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // One-time move of the old ide-* and lab-content-* localStorage keys into IndexedDB
+  private async migrateLocalStorage(db: IDBDatabase): Promise<void> {
+    const meta = db.transaction(META_STORE).objectStore(META_STORE);
+    if (await requestToPromise(meta.get('migratedLocalStorage'))) {
+      return;
+    }
+
+    const workspaces = new Map<string, WorkspaceData>();
+    const contents = new Map<string, { content: LabContent; cachedAt: number }>();
+    const migratedKeys: string[] = [];
+
+    for (let index = 0; index < localStorage.length; index++) {
+      const key = localStorage.key(index);
+      const raw = key ? localStorage.getItem(key) : null;
+      if (!key || raw === null) continue;
+
+      try {
+        const prefix = Object.keys(LEGACY_WORKSPACE_PREFIXES).find(item => key.startsWith(item));
+        if (prefix) {
+          const id = key.slice(prefix.length);
+          const workspace = workspaces.get(id) || emptyWorkspace();
+          workspaces.set(id, { ...workspace, [LEGACY_WORKSPACE_PREFIXES[prefix]]: JSON.parse(raw) });
+          migratedKeys.push(key);
+        } else if (key.startsWith(LEGACY_TIMESTAMP_PREFIX)) {
+          migratedKeys.push(key);
+        } else if (key.startsWith(LEGACY_CONTENT_PREFIX)) {
+          const id = key.slice(LEGACY_CONTENT_PREFIX.length);
+          const cachedAt = parseInt(localStorage.getItem(`${LEGACY_TIMESTAMP_PREFIX}${id}`) || '0');
+          contents.set(id, { content: JSON.parse(raw), cachedAt });
+          migratedKeys.push(key);
+        }
+      } catch (error) {
+        console.warn(`Skipping unreadable stored lab data in ${key}:`, error);
+        migratedKeys.push(key);
+      }
+    }
+
+    const now = Date.now();
+    const transaction = db.transaction([WORKSPACE_STORE, CONTENT_STORE, META_STORE], 'readwrite');
+    workspaces.forEach((value, id) => {
+      transaction.objectStore(WORKSPACE_STORE).put({ id, version: RECORD_VERSION, updatedAt: now, accessedAt: now, value });
+    });
+    contents.forEach(({ content, cachedAt }, id) => {
+      transaction.objectStore(CONTENT_STORE).put({ id, version: RECORD_VERSION, updatedAt: cachedAt, accessedAt: cachedAt, value: content });
+    });
+    transaction.objectStore(META_STORE).put(true, 'migratedLocalStorage');
+    await transactionDone(transaction);
+
+    // Only removed once they are safely in IndexedDB
+    migratedKeys.forEach(key => localStorage.removeItem(key));
+  }
+}
+
+export const labStorageService = new LabStorageService();
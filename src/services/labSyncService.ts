@@ -0,0 +1,126 @@
+import { WorkspaceChanges, WorkspaceSnapshot } from '../types/lab';
+import { WorkspaceData } from './labStorageService';
+import { EMPTY_WORKSPACE_CHANGES } from './labWorkspaceService';
+
+// A file two devices changed differently since they last synced; null means that side
+// dropped its edit and is back on the lab version
+export interface WorkspaceConflict {
+  path: string;
+  local: string | null;
+  remote: string | null;
+}
+
+export interface WorkspaceMerge {
+  merged: WorkspaceSnapshot; // conflicted files keep the local content until they are resolved
+  conflicts: WorkspaceConflict[];
+}
+
+const EMPTY_SNAPSHOT: WorkspaceSnapshot = { files: {}, changes: EMPTY_WORKSPACE_CHANGES, checkpoints: [] };
+
+// Order-independent form of the tree changes, for comparing them
+const describeChanges = (changes: WorkspaceChanges) => JSON.stringify([
+  [...changes.created].sort(),
+  [...changes.folders].sort(),
+  Object.entries(changes.moved).sort(([a], [b]) => a.localeCompare(b)),
+  [...changes.deleted].sort()
+]);
+
+// Keeps what either side added and drops what either side removed since the base
+const mergeLists = (base: string[], local: string[], remote: string[]) =>
+  [...new Set([...local, ...remote])].filter(item =>
+    (local.includes(item) && remote.includes(item)) || !base.includes(item)
+  );
+
+// Per-key three-way merge; `onConflict` decides keys both sides changed differently
+const mergeRecords = (
+  base: Record<string, string>,
+  local: Record<string, string>,
+  remote: Record<string, string>,
+  onConflict: (key: string) => string | undefined
+) => {
+  const result: Record<string, string> = {};
+  new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]).forEach(key => {
+    const value = local[key] === remote[key] || remote[key] === base[key]
+      ? local[key]
+      : local[key] === base[key] ? remote[key] : onConflict(key);
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  });
+  return result;
+};
+
+class LabSyncService {
+  getSnapshot(workspace: WorkspaceData): WorkspaceSnapshot {
+    return {
+      files: workspace.saved,
+      changes: workspace.changes || EMPTY_WORKSPACE_CHANGES,
+      checkpoints: workspace.checkpoints
+    };
+  }
+
+  isSame(a: WorkspaceSnapshot, b: WorkspaceSnapshot): boolean {
+    const filesA = Object.keys(a.files);
+    return filesA.length === Object.keys(b.files).length &&
+      filesA.every(path => a.files[path] === b.files[path]) &&
+      describeChanges(a.changes) === describeChanges(b.changes) &&
+      a.checkpoints.map(checkpoint => checkpoint.id).sort().join() === b.checkpoints.map(checkpoint => checkpoint.id).sort().join();
+  }
+
+  // Three-way merge of two devices' workspaces against the last one they agreed on.
+  // Tree changes and checkpoints always merge; only file content can conflict.
+  merge(base: WorkspaceSnapshot | null, local: WorkspaceSnapshot, remote: WorkspaceSnapshot): WorkspaceMerge {
+    const common = base || EMPTY_SNAPSHOT;
+    const conflicts: WorkspaceConflict[] = [];
+
+    const files = mergeRecords(common.files, local.files, remote.files, path => {
+      conflicts.push({ path, local: local.files[path] ?? null, remote: remote.files[path] ?? null });
+      return local.files[path];
+    });
+
+    let changes: WorkspaceChanges;
+    if (describeChanges(local.changes) === describeChanges(common.changes)) {
+      changes = remote.changes;
+    } else if (describeChanges(remote.changes) === describeChanges(common.changes)) {
+      changes = local.changes;
+    } else {
+      // Both devices reorganised files; where they moved the same item, this device wins
+      changes = {
+        created: mergeLists(common.changes.created, local.changes.created, remote.changes.created),
+        folders: mergeLists(common.changes.folders, local.changes.folders, remote.changes.folders),
+        moved: mergeRecords(common.changes.moved, local.changes.moved, remote.changes.moved, path => local.changes.moved[path]),
+        deleted: mergeLists(common.changes.deleted, local.changes.deleted, remote.changes.deleted)
+      };
+    }
+
+    // Checkpoints never change once made, so they merge by id
+    const checkpointIds = mergeLists(
+      common.checkpoints.map(checkpoint => checkpoint.id),
+      local.checkpoints.map(checkpoint => checkpoint.id),
+      remote.checkpoints.map(checkpoint => checkpoint.id)
+    );
+    const checkpoints = [...local.checkpoints, ...remote.checkpoints]
+      .filter((checkpoint, index, all) =>
+        checkpointIds.includes(checkpoint.id) && all.findIndex(item => item.id === checkpoint.id) === index
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return { merged: { files, changes, checkpoints }, conflicts };
+  }
+
+  // Applies the learner's choices, by path, to a merge with conflicts
+  resolve(merge: WorkspaceMerge, choices: Record<string, string | null>): WorkspaceSnapshot {
+    const files = { ...merge.merged.files };
+    merge.conflicts.forEach(conflict => {
+      const content = conflict.path in choices ? choices[conflict.path] : conflict.local;
+      if (content === null) {
+        delete files[conflict.path];
+      } else {
+        files[conflict.path] = content;
+      }
+    });
+    return { ...merge.merged, files };
+  }
+}
+
+export const labSyncService = new LabSyncService();
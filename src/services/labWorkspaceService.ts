@@ -0,0 +1,289 @@
+import { LabFile, WorkspaceChanges, WorkspaceCheckpoint } from '../types/lab';
+
+export type WorkspaceFileStatus = 'added' | 'modified' | 'renamed' | 'deleted';
+
+export interface WorkspaceFileChange {
+  path: string;
+  status: WorkspaceFileStatus;
+  from?: string; // lab path of a renamed file
+}
+
+export const EMPTY_WORKSPACE_CHANGES: WorkspaceChanges = { created: [], folders: [], moved: {}, deleted: [] };
+
+const INVALID_NAME_PATTERN = /[\\:*?"<>|]/;
+
+const isInside = (path: string, folder: string) => path === folder || path.startsWith(`${folder}/`);
+
+const replacePrefix = (path: string, from: string, to: string) => to + path.slice(from.length);
+
+const getName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const getParent = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+const flattenTree = (files: LabFile[]): LabFile[] =>
+  files.flatMap(file => (file.type === 'directory' ? [file, ...flattenTree(file.children || [])] : [file]));
+
+class LabWorkspaceService {
+  // Premium and preview files stay exactly where the lab put them, and so do the folders holding them
+  isProtected(file: LabFile): boolean {
+    if (file.type === 'directory') {
+      return (file.children || []).some(child => this.isProtected(child));
+    }
+    return file.is_premium || file.access_granted === false;
+  }
+
+  // Builds the learner's current tree from the lab tree
+  applyChanges(files: LabFile[], changes: WorkspaceChanges): LabFile[] {
+    const root: LabFile[] = [];
+    const folders = new Map<string, LabFile>();
+    const deleted = new Set(changes.deleted);
+
+    const childrenOf = (parent: string) => (parent ? addFolder(parent).children! : root);
+
+    const addFolder = (path: string, source?: LabFile): LabFile => {
+      const existing = folders.get(path);
+      if (existing) return existing;
+
+      const folder: LabFile = source
+        ? { ...source, path, name: getName(path), children: [] }
+        : { name: getName(path), path, type: 'directory', size: 0, content: null, is_premium: false, access_granted: true, children: [] };
+      childrenOf(getParent(path)).push(folder);
+      folders.set(path, folder);
+      return folder;
+    };
+
+    const addFile = (file: LabFile) => {
+      childrenOf(getParent(file.path)).push(file);
+    };
+
+    // Lab items keep their order; moved ones land at the end of their new folder
+    flattenTree(files).forEach(file => {
+      if (deleted.has(file.path)) return;
+      const path = changes.moved[file.path] ?? file.path;
+      if (file.type === 'directory') {
+        addFolder(path, file);
+      } else {
+        addFile(path === file.path ? file : { ...file, path, name: getName(path) });
+      }
+    });
+
+    changes.folders.forEach(path => addFolder(path));
+    changes.created.forEach(path => addFile({
+      name: getName(path),
+      path,
+      type: 'file',
+      size: 0,
+      content: '',
+      is_premium: false,
+      access_granted: true
+    }));
+
+    return root;
+  }
+
+  // Files the learner can change, leaving out premium files they don't have access to
+  private getEditableFiles(files: LabFile[]): LabFile[] {
+    return flattenTree(files).filter(file => file.type === 'file' && file.content !== null && file.access_granted !== false);
+  }
+
+  findFile(files: LabFile[], path: string): LabFile | null {
+    return flattenTree(files).find(file => file.path === path) || null;
+  }
+
+  // Cleans up a path typed by the learner: forward slashes only, no leading, trailing or doubled ones
+  normalizePath(path: string): string {
+    return path.trim().replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+  }
+
+  // Throws when a path typed by the learner can't be used for a new file or folder
+  validateNewPath(files: LabFile[], path: string): string {
+    const normalized = this.normalizePath(path);
+    const segments = normalized.split('/');
+
+    if (!normalized) {
+      throw new Error('Enter a name');
+    }
+    if (segments.some(segment => segment === '.' || segment === '..' || !segment.trim())) {
+      throw new Error('Paths cannot contain empty, "." or ".." parts');
+    }
+    if (segments.some(segment => INVALID_NAME_PATTERN.test(segment))) {
+      throw new Error('Names cannot contain \\ : * ? " < > |');
+    }
+
+    const existing = flattenTree(files);
+    if (existing.some(file => file.path === normalized)) {
+      throw new Error(`${normalized} already exists`);
+    }
+    const blocking = existing.find(file => file.type === 'file' && isInside(normalized, file.path));
+    if (blocking) {
+      throw new Error(`${blocking.path} is a file, not a folder`);
+    }
+    return normalized;
+  }
+
+  createFile(files: LabFile[], changes: WorkspaceChanges, path: string): WorkspaceChanges {
+    const current = this.applyChanges(files, changes);
+    return { ...changes, created: [...changes.created, this.validateNewPath(current, path)] };
+  }
+
+  createFolder(files: LabFile[], changes: WorkspaceChanges, path: string): WorkspaceChanges {
+    const current = this.applyChanges(files, changes);
+    return { ...changes, folders: [...changes.folders, this.validateNewPath(current, path)] };
+  }
+
+  // Renames or moves a file or folder, along with everything inside it
+  move(files: LabFile[], changes: WorkspaceChanges, from: string, to: string): WorkspaceChanges {
+    const current = this.applyChanges(files, changes);
+    const item = this.findFile(current, from);
+    if (!item) {
+      throw new Error(`${from} no longer exists`);
+    }
+    if (this.isProtected(item)) {
+      throw new Error('Premium files cannot be renamed or moved');
+    }
+
+    const target = this.validateNewPath(current, to);
+    if (isInside(target, from)) {
+      throw new Error('A folder cannot be moved into itself');
+    }
+
+    const moved = { ...changes.moved };
+    flattenTree(files).forEach(file => {
+      const path = moved[file.path] ?? file.path;
+      if (changes.deleted.includes(file.path) || !isInside(path, from)) return;
+
+      const newPath = replacePrefix(path, from, target);
+      if (newPath === file.path) {
+        delete moved[file.path];
+      } else {
+        moved[file.path] = newPath;
+      }
+    });
+
+    const rename = (path: string) => (isInside(path, from) ? replacePrefix(path, from, target) : path);
+    return {
+      ...changes,
+      created: changes.created.map(rename),
+      folders: changes.folders.map(rename),
+      moved
+    };
+  }
+
+  // Deletes a file or folder, along with everything inside it
+  remove(files: LabFile[], changes: WorkspaceChanges, path: string): WorkspaceChanges {
+    const item = this.findFile(this.applyChanges(files, changes), path);
+    if (!item) {
+      throw new Error(`${path} no longer exists`);
+    }
+    if (this.isProtected(item)) {
+      throw new Error('Premium files cannot be deleted');
+    }
+
+    const moved = { ...changes.moved };
+    const deleted = [...changes.deleted];
+    flattenTree(files).forEach(file => {
+      if (changes.deleted.includes(file.path) || !isInside(moved[file.path] ?? file.path, path)) return;
+      delete moved[file.path];
+      deleted.push(file.path);
+    });
+
+    return {
+      created: changes.created.filter(created => !isInside(created, path)),
+      folders: changes.folders.filter(folder => !isInside(folder, path)),
+      moved,
+      deleted
+    };
+  }
+
+  // The lab path of the file now at `path`, or null for files the learner created
+  getLabPath(changes: WorkspaceChanges, path: string): string | null {
+    const moved = Object.entries(changes.moved).find(([, current]) => current === path);
+    if (moved) {
+      return moved[0];
+    }
+    if (changes.created.includes(path) || changes.deleted.includes(path) || path in changes.moved) {
+      return null;
+    }
+    return path;
+  }
+
+  // What the lab shipped for the file now at `path`; undefined for files the learner created
+  getLabContent(changes: WorkspaceChanges, originalFiles: Map<string, string>, path: string): string | undefined {
+    const labPath = this.getLabPath(changes, path);
+    return labPath !== null ? originalFiles.get(labPath) : undefined;
+  }
+
+  // `files` is the current tree with the learner's content applied
+  createCheckpoint(
+    name: string,
+    files: LabFile[],
+    changes: WorkspaceChanges,
+    originalFiles: Map<string, string>
+  ): WorkspaceCheckpoint {
+    const contents: Record<string, string> = {};
+    this.getEditableFiles(files).forEach(file => {
+      if (file.content !== this.getLabContent(changes, originalFiles, file.path)) {
+        contents[file.path] = file.content || '';
+      }
+    });
+
+    return {
+      id: `checkpoint-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      name,
+      createdAt: new Date().toISOString(),
+      changes,
+      files: contents
+    };
+  }
+
+  // Content a file had when the checkpoint was made; empty if it didn't exist yet
+  getCheckpointContent(checkpoint: WorkspaceCheckpoint, originalFiles: Map<string, string>, path: string): string {
+    return checkpoint.files[path] ?? this.getLabContent(checkpoint.changes, originalFiles, path) ?? '';
+  }
+
+  // Every file that differs from the lab, including deleted ones
+  getChangedFiles(files: LabFile[], changes: WorkspaceChanges, originalFiles: Map<string, string>): WorkspaceFileChange[] {
+    const result: WorkspaceFileChange[] = [];
+
+    this.getEditableFiles(files).forEach(file => {
+      const labPath = this.getLabPath(changes, file.path);
+      if (labPath === null) {
+        result.push({ path: file.path, status: 'added' });
+      } else if (labPath !== file.path) {
+        result.push({ path: file.path, status: 'renamed', from: labPath });
+      } else if (file.content !== originalFiles.get(labPath)) {
+        result.push({ path: file.path, status: 'modified' });
+      }
+    });
+
+    // Deleted folders are listed through the files they held
+    changes.deleted
+      .filter(path => originalFiles.has(path))
+      .forEach(path => result.push({ path, status: 'deleted' }));
+
+    return result.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  // Moves entries keyed by path along with a rename, or drops them when `to` is null
+  movePathEntries<T>(entries: Map<string, T>, from: string, to: string | null): Map<string, T> {
+    const result = new Map<string, T>();
+    entries.forEach((value, path) => {
+      if (!isInside(path, from)) {
+        result.set(path, value);
+      } else if (to !== null) {
+        result.set(replacePrefix(path, from, to), value);
+      }
+    });
+    return result;
+  }
+
+  getName(path: string): string {
+    return getName(path);
+  }
+
+  getParent(path: string): string {
+    return getParent(path);
+  }
+}
+
+export const labWorkspaceService = new LabWorkspaceService();
@@ -0,0 +1,98 @@
+import { LabLintConfig, LintRule, LintSeverity } from '../types/lab';
+import { CodeDiagnostic } from '../types/runner';
+import { formatService } from './formatService';
+import { pythonToolsService } from './runners/pythonToolsService';
+
+export type LintRules = Record<LintRule, LintSeverity>;
+
+const PRESETS: Record<NonNullable<LabLintConfig['preset']>, LintRules> = {
+  // Only what stops the code from running; warnings about style would drown out the lesson
+  beginner: { syntax: 'error', 'undefined-name': 'warning', unused: 'off', suspicious: 'off' },
+  standard: { syntax: 'error', 'undefined-name': 'error', unused: 'warning', suspicious: 'warning' },
+  strict: { syntax: 'error', 'undefined-name': 'error', unused: 'error', suspicious: 'error' }
+};
+
+// pyflakes message classes by rule; anything else pyflakes reports counts as suspicious
+const PYFLAKES_RULES: Record<string, LintRule> = {
+  SyntaxError: 'syntax',
+  UndefinedName: 'undefined-name',
+  UndefinedLocal: 'undefined-name',
+  UndefinedExport: 'undefined-name',
+  UnusedImport: 'unused',
+  UnusedVariable: 'unused',
+  UnusedAnnotation: 'unused'
+};
+
+// TypeScript diagnostics Monaco already shows for JS and TS, by rule. They can be hidden but
+// keep the severity TypeScript gives them.
+const TYPESCRIPT_CODES: Partial<Record<LintRule, number[]>> = {
+  'undefined-name': [2304, 2552, 2580, 2582, 2583, 2584],
+  unused: [6133, 6138, 6192, 6196, 6198, 6199, 6205]
+};
+
+const getExtension = (path: string) => path.split('.').pop()?.toLowerCase() || '';
+
+class LintService {
+  resolveRules(config?: LabLintConfig | null): LintRules {
+    return { ...PRESETS[config?.preset || 'standard'], ...config?.rules };
+  }
+
+  // TypeScript diagnostic codes to hide in JS and TS files for these rules
+  getIgnoredTypeScriptCodes(rules: LintRules): number[] {
+    return (Object.keys(TYPESCRIPT_CODES) as LintRule[])
+      .filter(rule => rules[rule] === 'off')
+      .flatMap(rule => TYPESCRIPT_CODES[rule] || []);
+  }
+
+  // Problems in one file that the editor doesn't find on its own
+  async lint(path: string, content: string, rules: LintRules): Promise<CodeDiagnostic[]> {
+    switch (getExtension(path)) {
+      case 'py':
+        return this.lintPython(path, content, rules);
+      case 'yml':
+      case 'yaml':
+        return this.lintYaml(path, content, rules);
+      default:
+        return [];
+    }
+  }
+
+  private async lintPython(path: string, content: string, rules: LintRules): Promise<CodeDiagnostic[]> {
+    const problems = await pythonToolsService.lint(content, path);
+    return problems.flatMap(problem => {
+      const severity = rules[PYFLAKES_RULES[problem.kind] || 'suspicious'];
+      if (severity === 'off') return [];
+      return [{
+        file: path,
+        line: problem.line,
+        column: problem.column,
+        message: problem.message,
+        severity,
+        source: problem.kind === 'SyntaxError' ? 'python' : 'pyflakes',
+        code: problem.kind
+      }];
+    });
+  }
+
+  // YAML has no checker in the editor, so the formatter's parser reports syntax errors
+  private async lintYaml(path: string, content: string, rules: LintRules): Promise<CodeDiagnostic[]> {
+    if (rules.syntax === 'off' || !content.trim()) return [];
+    try {
+      await formatService.format(path, content);
+      return [];
+    } catch (error) {
+      const loc = (error as { loc?: { start?: { line?: number; column?: number } } }).loc?.start;
+      const message = error instanceof Error ? error.message.split('\n')[0].replace(/\s*\(\d+:\d+\)$/, '') : 'Invalid YAML';
+      return [{
+        file: path,
+        line: Math.max(loc?.line || 1, 1),
+        column: Math.max(loc?.column || 1, 1),
+        message,
+        severity: rules.syntax,
+        source: 'yaml'
+      }];
+    }
+  }
+}
+
+export const lintService = new LintService();
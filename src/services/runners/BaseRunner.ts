@@ -1,4 +1,5 @@
-import { CodeRunner, ExecutionResult, FileMap, RunnerConfig } from '../../types/runner';
+import { CodeRunner, ExecutionOptions, ExecutionResult, FileMap, RunnerConfig } from '../../types/runner';
+import { findErrorLocations } from './errorLocations';
 
 export abstract class BaseRunner implements CodeRunner {
   public readonly language: string;
@@ -22,7 +23,7 @@ export abstract class BaseRunner implements CodeRunner {
     };
   }
 
-  abstract execute(code: string, files?: FileMap): Promise<ExecutionResult>;
+  abstract execute(code: string, files?: FileMap, options?: ExecutionOptions): Promise<ExecutionResult>;
 
   stop(): void {
     this.isRunning = false;
@@ -33,15 +34,23 @@ export abstract class BaseRunner implements CodeRunner {
     return typeof Worker !== 'undefined' && typeof Blob !== 'undefined';
   }
 
+  // Worker code that removes the blocked APIs. Browser APIs such as fetch live on the global
+  // scope's prototypes rather than on the scope itself, so each one is deleted along the chain.
+  protected createBlockedAPIsCode(): string {
+    return `
+      ${JSON.stringify(this.config.blockedAPIs)}.forEach(api => {
+        for (let scope = self; scope; scope = Object.getPrototypeOf(scope)) {
+          delete scope[api];
+        }
+      });
+    `;
+  }
+
   protected createSecureContext(code: string): string {
     // Create a secure execution context by wrapping code
-    const blockedAPIsCode = this.config.blockedAPIs
-      .map(api => `delete ${api};`)
-      .join('\n');
-
     return `
       // Block dangerous APIs
-      ${blockedAPIsCode}
+      ${this.createBlockedAPIsCode()}
       
       // Capture console output
       const logs = [];
@@ -82,14 +91,16 @@ export abstract class BaseRunner implements CodeRunner {
     `;
   }
 
-  protected formatError(error: Error): string {
+  protected formatError(error: Error, knownFiles: string[] = []): string {
     if (error.stack) {
-      // Clean up stack trace to remove internal runner code
+      // Clean up stack trace to remove internal runner code, keeping frames with lab file positions
       const lines = error.stack.split('\n');
       const userCodeLines = lines.filter(line => 
-        !line.includes('BaseRunner') && 
-        !line.includes('eval') && 
-        !line.includes('Worker')
+        findErrorLocations(line, knownFiles).length > 0 || (
+          !line.includes('BaseRunner') && 
+          !line.includes('eval') && 
+          !line.includes('Worker')
+        )
       );
       return userCodeLines.join('\n');
     }
@@ -1,29 +1,68 @@
 import { BaseRunner } from './BaseRunner';
-import { ExecutionResult, FileMap, ConsoleLog } from '../../types/runner';
+import { CodeDiagnostic, ExecutionOptions, ExecutionResult, FileMap, ConsoleLog, InputRequest } from '../../types/runner';
+import { buildModuleGraph, ModuleGraph } from './moduleGraph';
+import { createRuntimeDiagnostic } from './errorLocations';
+import { createRunnerWorker, RunnerWorker } from './runnerWorker';
+
+export interface SourceLocation {
+  fileName: string;
+  line: number;
+  column: number;
+}
 
 export class JavaScriptRunner extends BaseRunner {
-  private worker: Worker | null = null;
+  private worker: RunnerWorker | null = null;
 
-  constructor() {
-    super('javascript');
+  constructor(language = 'javascript') {
+    super(language);
   }
 
-  async execute(code: string, files?: FileMap): Promise<ExecutionResult> {
+  async execute(code: string, files?: FileMap, options?: ExecutionOptions): Promise<ExecutionResult> {
     const startTime = Date.now();
+    const entryFile = options?.entryFile || 'main.js';
+    const fileMap: FileMap = { ...(files || {}), [entryFile]: code };
+    const knownFiles = Object.keys(fileMap);
+
+    // Resolve imports up front so missing files are reported before anything runs
+    let graph: ModuleGraph;
+    try {
+      graph = buildModuleGraph(fileMap, entryFile);
+    } catch (error) {
+      return {
+        success: false,
+        output: '',
+        error: error instanceof Error ? error.message : 'Failed to load lab modules',
+        executionTime: Date.now() - startTime,
+        logs: []
+      };
+    }
+
+    const diagnostics = graph.diagnostics.map(diagnostic => this.mapDiagnostic(diagnostic));
+    const blockingProblems = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    if (blockingProblems.length > 0) {
+      return {
+        success: false,
+        output: '',
+        error: blockingProblems
+          .map(problem => `${problem.file}:${problem.line}:${problem.column} - ${problem.message}`)
+          .join('\n'),
+        executionTime: Date.now() - startTime,
+        logs: [],
+        diagnostics
+      };
+    }
+    const reportedDiagnostics = diagnostics.length > 0 ? diagnostics : undefined;
     
     return new Promise((resolve) => {
       try {
         this.isRunning = true;
         
         // Create a Web Worker for secure code execution
-        const workerCode = this.createWorkerCode(code, files);
-        const blob = new Blob([workerCode], { type: 'application/javascript' });
-        const workerUrl = URL.createObjectURL(blob);
-        
-        this.worker = new Worker(workerUrl);
+        const workerCode = this.createWorkerCode(graph, entryFile, options?.stdin || '', !!options?.onInput);
+        this.worker = createRunnerWorker(workerCode, options?.sandboxed);
         
         // Set up timeout
-        const timeout = setTimeout(() => {
+        const startTimeout = () => setTimeout(() => {
           this.stop();
           resolve({
             success: false,
@@ -33,24 +72,47 @@ export class JavaScriptRunner extends BaseRunner {
             logs: []
           });
         }, this.config.timeout);
+        let timeout = startTimeout();
 
         // Handle worker messages
         this.worker.onmessage = (event) => {
           clearTimeout(timeout);
-          const { logs, error } = event.data;
+
+          // The program is waiting for a line of input; the timeout restarts once it is answered
+          if (event.data.type === 'input') {
+            const worker = this.worker;
+            const request: InputRequest = { prompt: event.data.prompt, logs: event.data.logs || [] };
+            (options?.onInput ? options.onInput(request) : Promise.resolve(null))
+              .catch(() => null)
+              .then(value => {
+                if (!worker || worker !== this.worker) return;
+                worker.postMessage({ type: 'input', value });
+                timeout = startTimeout();
+              });
+            return;
+          }
+
+          const { error, stack } = event.data;
+          const logs: ConsoleLog[] = (event.data.logs || []).map((log: ConsoleLog) => (
+            log.type === 'error' ? { ...log, content: this.cleanStackTrace(log.content, knownFiles) } : log
+          ));
           
           // Clean up
           this.worker?.terminate();
-          URL.revokeObjectURL(workerUrl);
           this.isRunning = false;
 
           if (error) {
+            // V8 stacks start with the message, Firefox stacks only list frames
+            const errorText = stack ? (stack.includes(error) ? stack : `${error}\n${stack}`) : error;
+            const cleanedError = this.cleanStackTrace(errorText, knownFiles);
+            const runtimeDiagnostic = createRuntimeDiagnostic(cleanedError, fileMap, 'javascript');
             resolve({
               success: false,
               output: '',
-              error: this.formatError(new Error(error)),
+              error: cleanedError,
               executionTime: Date.now() - startTime,
-              logs: this.limitLogs(logs || [])
+              logs: this.limitLogs(logs),
+              diagnostics: runtimeDiagnostic ? [...diagnostics, runtimeDiagnostic] : reportedDiagnostics
             });
           } else {
             const output = logs
@@ -65,7 +127,8 @@ export class JavaScriptRunner extends BaseRunner {
               success: true,
               output: limitedOutput,
               executionTime: Date.now() - startTime,
-              logs: limitedLogs
+              logs: limitedLogs,
+              diagnostics: reportedDiagnostics
             });
           }
         };
@@ -74,7 +137,6 @@ export class JavaScriptRunner extends BaseRunner {
         this.worker.onerror = (error) => {
           clearTimeout(timeout);
           this.worker?.terminate();
-          URL.revokeObjectURL(workerUrl);
           this.isRunning = false;
 
           resolve({
@@ -144,22 +206,48 @@ export class JavaScriptRunner extends BaseRunner {
     return logs;
   }
 
-  private createWorkerCode(code: string, files?: FileMap): string {
-    // Handle multiple files if provided
-    let fileSetup = '';
-    if (files) {
-      Object.entries(files).forEach(([fileName, content]) => {
-        if (fileName.endsWith('.js') && fileName !== 'main.js') {
-          fileSetup += `// File: ${fileName}\n${content}\n\n`;
-        }
-      });
-    }
+  // Hook for runners whose executed code differs from the source (e.g. transpiled TypeScript)
+  protected mapLocation(location: SourceLocation): SourceLocation {
+    return location;
+  }
+
+  private mapDiagnostic(diagnostic: CodeDiagnostic): CodeDiagnostic {
+    const mapped = this.mapLocation({ fileName: diagnostic.file, line: diagnostic.line, column: diagnostic.column });
+    return { ...diagnostic, line: mapped.line, column: mapped.column };
+  }
+
+  // Drop worker-internal frames and point the remaining ones at lab file positions
+  protected cleanStackTrace(text: string, knownFiles: string[]): string {
+    const escapedFiles = knownFiles
+      .map(fileName => fileName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .sort((a, b) => b.length - a.length);
+    const locationPattern = new RegExp(`(${escapedFiles.join('|')}):(\\d+):(\\d+)`, 'g');
+
+    const isStackFrame = (line: string) => /^\s*at\s/.test(line) || /@\S*:\d+:\d+$/.test(line);
+
+    return text
+      .split('\n')
+      .filter(line => !isStackFrame(line) || new RegExp(locationPattern.source).test(line))
+      .map(line => line.replace(locationPattern, (match, fileName: string, lineNumber: string, column: string) => {
+        const mapped = this.mapLocation({ fileName, line: Number(lineNumber), column: Number(column) });
+        return `${mapped.fileName}:${mapped.line}:${mapped.column}`;
+      }))
+      .join('\n');
+  }
+
+  private createWorkerCode(graph: ModuleGraph, entryFile: string, stdin: string, interactive: boolean): string {
+    const stdinLines = stdin ? stdin.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n') : [];
 
     return `
       // Sandboxed JavaScript execution environment
+
+      // Keep a reference to the evaluator before eval is blocked for user code.
+      // Each module is compiled through indirect eval and tagged with a sourceURL
+      // so stack traces name the lab file and line.
+      const __evaluateScript = eval;
       
       // Block dangerous APIs
-      ${this.config.blockedAPIs.map(api => `delete ${api};`).join('\n')}
+      ${this.createBlockedAPIsCode()}
       
       // Capture console output
       const logs = [];
@@ -169,6 +257,9 @@ export class JavaScriptRunner extends BaseRunner {
       ['log', 'error', 'warn', 'info'].forEach(method => {
         console[method] = (...args) => {
           const content = args.map(arg => {
+            if (__inputPromises.has(arg)) {
+              __warnUnawaitedInput();
+            }
             if (typeof arg === 'object') {
               try {
                 return JSON.stringify(arg, null, 2);
@@ -187,19 +278,148 @@ export class JavaScriptRunner extends BaseRunner {
         };
       });
 
-      try {
-        // Set up additional files
-        ${fileSetup}
-        
-        // Execute main code
-        const result = (function() {
-          ${code}
-        })();
-        
+      // Console input: input() and prompt() return the next pre-supplied line right away, so
+      // ordinary synchronous code works. Once those run out they ask the learner through the
+      // main thread and return a promise instead, which has to be awaited.
+      const __stdinLines = ${JSON.stringify(stdinLines)};
+      const __inputPromises = new WeakSet();
+      let __pendingInput = null;
+      let __warnedUnawaitedInput = false;
+
+      self.onmessage = event => {
+        if (event.data && event.data.type === 'input' && __pendingInput) {
+          const resolveInput = __pendingInput;
+          __pendingInput = null;
+          resolveInput(event.data.value);
+        }
+      };
+
+      function __warnUnawaitedInput() {
+        if (__warnedUnawaitedInput) return;
+        __warnedUnawaitedInput = true;
+        logs.push({
+          type: 'warn',
+          content: 'input() and prompt() return a promise while they wait for console input. Use await, e.g. const name = await prompt("Name? ")',
+          timestamp: Date.now()
+        });
+      }
+
+      function input(promptText) {
+        const text = promptText === undefined ? '' : String(promptText);
+        if (__stdinLines.length > 0) {
+          if (text) {
+            logs.push({ type: 'log', content: text, timestamp: Date.now() });
+          }
+          return __stdinLines.shift();
+        }
+        if (!${interactive}) {
+          return null;
+        }
+
+        const pending = new Promise(resolve => {
+          __pendingInput = value => {
+            logs.push({ type: 'log', content: text + (value ?? ''), timestamp: Date.now() });
+            resolve(value);
+          };
+          self.postMessage({ type: 'input', prompt: text, logs });
+        });
+        // Using the promise as if it were the answer, e.g. in a template string, gets a hint
+        __inputPromises.add(pending);
+        pending[Symbol.toPrimitive] = () => {
+          __warnUnawaitedInput();
+          return '[object Promise]';
+        };
+        return pending;
+      }
+
+      function prompt(promptText) {
+        return input(promptText);
+      }
+
+      // Module loader: lab files resolved ahead of time, ES modules rewritten to CommonJS
+      const __modules = ${JSON.stringify(graph.modules)};
+      const __moduleCache = {};
+
+      function __importDefault(mod) {
+        return mod && mod.__esModule ? mod.default : mod;
+      }
+
+      function __export(target, name, getter) {
+        Object.defineProperty(target, name, { enumerable: true, configurable: true, get: getter });
+      }
+
+      function __exportStar(source, target) {
+        Object.keys(source).forEach(key => {
+          if (key !== 'default' && !Object.prototype.hasOwnProperty.call(target, key)) {
+            __export(target, key, () => source[key]);
+          }
+        });
+      }
+
+      // Location of the require() call inside the given module, taken from the stack
+      function __callerLocation(fileName) {
+        const frame = (new Error().stack || '').split('\\n').find(line => line.includes(fileName + ':'));
+        const match = frame && frame.match(/:(\\d+:\\d+)\\)?$/);
+        return match ? fileName + ':' + match[1] : fileName;
+      }
+
+      function __compileModule(fileName, isAsync) {
+        const header = '(' + (isAsync ? 'async ' : '') +
+          'function (exports, require, module, __filename, __dirname, __import, __importMeta) {';
+        return __evaluateScript(header + __modules[fileName].code + '\\n})\\n//# sourceURL=' + fileName);
+      }
+
+      function __createModuleScope(fileName) {
+        const dependencies = __modules[fileName].dependencies;
+        const require = function require(specifier) {
+          const target = dependencies[specifier];
+          if (!target) {
+            throw new Error("Cannot find module '" + specifier + "' imported from " + __callerLocation(fileName));
+          }
+          return __loadModule(target).exports;
+        };
+        const dynamicImport = specifier => new Promise(resolve => resolve(require(specifier)));
+        const dirname = fileName.includes('/') ? fileName.slice(0, fileName.lastIndexOf('/')) : '';
+        const module = { exports: {}, id: fileName, filename: fileName, loaded: false };
+        const args = [module.exports, require, module, fileName, dirname, dynamicImport, { url: fileName }];
+        return { module, args };
+      }
+
+      function __loadModule(fileName) {
+        if (__moduleCache[fileName]) {
+          return __moduleCache[fileName];
+        }
+
+        const definition = __modules[fileName];
+        const { module, args } = __createModuleScope(fileName);
+        __moduleCache[fileName] = module;
+
+        if (definition.json) {
+          module.exports = JSON.parse(definition.code);
+        } else {
+          __compileModule(fileName, false).apply(module.exports, args);
+        }
+        module.loaded = true;
+        return module;
+      }
+
+      // The entry module may use top-level await
+      async function __runEntry(fileName) {
+        const { module, args } = __createModuleScope(fileName);
+        __moduleCache[fileName] = module;
+        await __compileModule(fileName, true).apply(module.exports, args);
+        module.loaded = true;
+      }
+
+      __runEntry(${JSON.stringify(entryFile)}).then(() => {
+        // Finishing while input is still being asked for means the answer was never awaited
+        if (__pendingInput) {
+          __warnUnawaitedInput();
+        }
         // Send results back
-        self.postMessage({ logs, result });
-        
-      } catch (error) {
+        self.postMessage({ logs });
+      }).catch(error => {
+        error = error instanceof Error ? error : new Error(String(error));
         logs.push({ 
           type: 'error', 
           content: error.message + (error.stack ? '\\n' + error.stack : ''), 
@@ -208,9 +428,10 @@ export class JavaScriptRunner extends BaseRunner {
         
         self.postMessage({ 
           logs, 
-          error: error.message 
+          error: error.message,
+          stack: error.stack
         });
-      }
+      });
     `;
   }
-}
\ No newline at end of file
+}
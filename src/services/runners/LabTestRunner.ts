@@ -0,0 +1,509 @@
+import { CodeRunner, ExecutionOptions, ExecutionResult, FileMap, SupportedLanguage, TestCaseResult, TestFileResult, TestRunSummary } from '../../types/runner';
+import { RunnerFactory } from './RunnerFactory';
+import { runnerPool } from './runnerPool';
+
+// Runs a lab's test files against the learner's files. Each language gets a single harness run
+// that loads every test file and prints one report line per test, which is parsed back here.
+// Report lines carry a random token made for each run, so the learner's code can't print its own.
+
+const REPORT_MARKER = '##labdojo-test';
+const PYTHON_HARNESS_FILE = '__labdojo_tests__.py';
+const JAVASCRIPT_HARNESS_FILE = '__labdojo_tests__.js';
+
+const TEST_FILE_PATTERNS = [
+  /(^|\/)test_[^/]*\.py$/,
+  /(^|\/)[^/]*_test\.py$/,
+  /\.(test|spec)\.(js|mjs|jsx|ts|tsx)$/
+];
+
+interface TestReport {
+  file: string;
+  kind: 'test' | 'file-error';
+  name?: string;
+  status?: TestCaseResult['status'];
+  duration?: number;
+  message?: string;
+  expected?: string;
+  actual?: string;
+}
+
+const PYTHON_HARNESS = `
+import ast as _ast
+import inspect as _inspect
+import json as _json
+import sys as _sys
+import time as _time
+import traceback as _traceback
+import types as _types
+import unittest as _unittest
+
+_TEST_FILES = __TEST_FILES__
+_HARNESS_FILE = __HARNESS_FILE__
+
+def _create_reporter(prefix, stream):
+    # Bound now, so code under test that replaces print() or sys.stdout can't rewrite reports
+    def report(entry):
+        stream.write(prefix + _json.dumps(entry) + '\\n')
+    return report
+
+_emit_report = _create_reporter(__REPORT_PREFIX__, _sys.stdout)
+
+class _AssertionDiff(AssertionError):
+    def __init__(self, message, actual, expected):
+        super().__init__(message)
+        self.actual = actual
+        self.expected = expected
+
+def _assert_equal(actual, expected, message=None):
+    if not actual == expected:
+        raise _AssertionDiff(message or f'assert {actual!r} == {expected!r}', repr(actual), repr(expected))
+
+class _RewriteAsserts(_ast.NodeTransformer):
+    # 'assert actual == expected' reports both values, other asserts report their source
+    def __init__(self, source):
+        self.source = source
+
+    def visit_Assert(self, node):
+        test = node.test
+        if isinstance(test, _ast.Compare) and len(test.ops) == 1 and isinstance(test.ops[0], _ast.Eq):
+            call = _ast.Call(
+                func=_ast.Name(id='_assert_equal', ctx=_ast.Load()),
+                args=[test.left, test.comparators[0], node.msg or _ast.Constant(value=None)],
+                keywords=[]
+            )
+            return _ast.copy_location(_ast.Expr(value=call), node)
+        if node.msg is None:
+            node.msg = _ast.Constant(value='assert ' + (_ast.get_source_segment(self.source, test) or ''))
+        return node
+
+def _describe_error(error):
+    message = ''.join(_traceback.format_exception_only(type(error), error)).strip()
+    frames = [frame for frame in _traceback.extract_tb(error.__traceback__)
+              if not frame.filename.startswith(('<', '/lib/')) and frame.filename != _HARNESS_FILE]
+    if frames:
+        message += f' ({frames[-1].filename}:{frames[-1].lineno})'
+    return message
+
+def _report(file, name, status, started, error=None, message=None):
+    entry = {'file': file, 'kind': 'test', 'name': name, 'status': status,
+             'duration': round((_time.time() - started) * 1000)}
+    if isinstance(error, AssertionError):
+        entry['message'] = str(error) or 'Assertion failed'
+    elif error is not None:
+        entry['message'] = _describe_error(error)
+    elif message:
+        entry['message'] = message
+    if isinstance(error, _AssertionDiff):
+        entry['actual'] = error.actual
+        entry['expected'] = error.expected
+    _emit_report(entry)
+
+class _TestResult(_unittest.TestResult):
+    def __init__(self, file):
+        super().__init__()
+        self.file = file
+        self.started = _time.time()
+
+    def _name(self, test):
+        method = getattr(test, '_testMethodName', None)
+        return f'{type(test).__name__}.{method}' if method else str(test)
+
+    def startTest(self, test):
+        super().startTest(test)
+        self.started = _time.time()
+
+    def addSuccess(self, test):
+        _report(self.file, self._name(test), 'passed', self.started)
+
+    def addFailure(self, test, err):
+        _report(self.file, self._name(test), 'failed', self.started, err[1])
+
+    def addError(self, test, err):
+        _report(self.file, self._name(test), 'error', self.started, err[1])
+
+    def addSkip(self, test, reason):
+        _report(self.file, self._name(test), 'skipped', self.started, message=reason)
+
+async def _run_test_file(file, source):
+    module_name = file.rsplit('/', 1)[-1][:-3]
+    module = _types.ModuleType(module_name)
+    module.__file__ = file
+    module._assert_equal = _assert_equal
+
+    # Tests import the learner's modules from the lab root and from their own folder
+    directory = file.rsplit('/', 1)[0] if '/' in file else ''
+    if directory and directory not in _sys.path:
+        _sys.path.insert(0, directory)
+
+    try:
+        tree = _RewriteAsserts(source).visit(_ast.parse(source, file))
+        exec(compile(_ast.fix_missing_locations(tree), file, 'exec'), module.__dict__)
+    except Exception as error:
+        _emit_report({'file': file, 'kind': 'file-error', 'message': _describe_error(error)})
+        return
+
+    for name, value in list(module.__dict__.items()):
+        if isinstance(value, type) and issubclass(value, _unittest.TestCase) and value.__module__ == module_name:
+            _unittest.defaultTestLoader.loadTestsFromTestCase(value).run(_TestResult(file))
+        elif name.startswith('test') and _inspect.isfunction(value) and value.__module__ == module_name:
+            started = _time.time()
+            try:
+                result = value()
+                if _inspect.iscoroutine(result):
+                    await result
+                _report(file, name, 'passed', started)
+            except Exception as error:
+                _report(file, name, 'failed' if isinstance(error, AssertionError) else 'error', started, error)
+
+for _file, _source in _TEST_FILES:
+    await _run_test_file(_file, _source)
+`;
+
+const JAVASCRIPT_HARNESS = `
+const __reportPrefix = __REPORT_PREFIX__;
+// Bound now, so code under test that replaces console.log can't rewrite reports
+const __log = console.log;
+
+class __TestAssertionError extends Error {
+  constructor(message, actual, expected) {
+    super(message);
+    this.name = 'AssertionError';
+    this.actual = actual;
+    this.expected = expected;
+  }
+}
+
+function __format(value) {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'function') return '[Function ' + (value.name || 'anonymous') + ']';
+  if (typeof value === 'number' || typeof value === 'bigint' || typeof value === 'symbol') return String(value);
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function __deepEqual(a, b) {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+  if (a instanceof Date) return a.getTime() === b.getTime();
+  if (a instanceof Map || a instanceof Set) return __deepEqual([...a], [...b]);
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && __deepEqual(a[key], b[key]));
+}
+
+function expect(actual) {
+  const createMatchers = negate => {
+    const check = (pass, matcher, expected) => {
+      if (pass !== negate) return;
+      const message = 'expect(received).' + (negate ? 'not.' : '') + matcher;
+      throw new __TestAssertionError(message, __format(actual), expected);
+    };
+
+    return {
+      toBe: expected => check(Object.is(actual, expected), 'toBe(expected)', __format(expected)),
+      toEqual: expected => check(__deepEqual(actual, expected), 'toEqual(expected)', __format(expected)),
+      toStrictEqual: expected => check(__deepEqual(actual, expected), 'toStrictEqual(expected)', __format(expected)),
+      toBeTruthy: () => check(!!actual, 'toBeTruthy()', 'a truthy value'),
+      toBeFalsy: () => check(!actual, 'toBeFalsy()', 'a falsy value'),
+      toBeNull: () => check(actual === null, 'toBeNull()', 'null'),
+      toBeUndefined: () => check(actual === undefined, 'toBeUndefined()', 'undefined'),
+      toBeDefined: () => check(actual !== undefined, 'toBeDefined()', 'a defined value'),
+      toBeNaN: () => check(Number.isNaN(actual), 'toBeNaN()', 'NaN'),
+      toBeGreaterThan: expected => check(actual > expected, 'toBeGreaterThan(expected)', '> ' + __format(expected)),
+      toBeGreaterThanOrEqual: expected => check(actual >= expected, 'toBeGreaterThanOrEqual(expected)', '>= ' + __format(expected)),
+      toBeLessThan: expected => check(actual < expected, 'toBeLessThan(expected)', '< ' + __format(expected)),
+      toBeLessThanOrEqual: expected => check(actual <= expected, 'toBeLessThanOrEqual(expected)', '<= ' + __format(expected)),
+      toBeCloseTo: (expected, digits = 2) => check(
+        Math.abs(actual - expected) < Math.pow(10, -digits) / 2, 'toBeCloseTo(expected)', __format(expected)
+      ),
+      toContain: item => check(
+        actual != null && typeof actual.includes === 'function' && actual.includes(item), 'toContain(expected)', __format(item)
+      ),
+      toHaveLength: length => check(actual != null && actual.length === length, 'toHaveLength(expected)', 'length ' + length),
+      toMatch: pattern => check(
+        typeof actual === 'string' && (pattern instanceof RegExp ? pattern.test(actual) : actual.includes(pattern)),
+        'toMatch(expected)', String(pattern)
+      ),
+      toBeInstanceOf: type => check(actual instanceof type, 'toBeInstanceOf(expected)', type && type.name),
+      toThrow: expected => {
+        let thrown;
+        let didThrow = false;
+        try {
+          actual();
+        } catch (error) {
+          thrown = error;
+          didThrow = true;
+        }
+        const message = thrown && thrown.message !== undefined ? String(thrown.message) : String(thrown);
+        const matches = didThrow && (
+          expected === undefined ||
+          (typeof expected === 'string' && message.includes(expected)) ||
+          (expected instanceof RegExp && expected.test(message)) ||
+          (typeof expected === 'function' && thrown instanceof expected)
+        );
+        if (matches === negate) {
+          throw new __TestAssertionError(
+            'expect(received).' + (negate ? 'not.' : '') + 'toThrow(' + (expected === undefined ? '' : 'expected') + ')',
+            didThrow ? 'threw ' + message : 'did not throw',
+            expected === undefined ? 'an error' : String(expected && expected.name ? expected.name : expected)
+          );
+        }
+      }
+    };
+  };
+
+  return Object.assign(createMatchers(false), { not: createMatchers(true) });
+}
+
+// Tests register into the current file and describe() block, then run after the file loads
+let __registered = [];
+const __suiteStack = [{ name: '', beforeEach: [], afterEach: [] }];
+
+function describe(name, fn) {
+  __suiteStack.push({ name, beforeEach: [], afterEach: [] });
+  try {
+    fn();
+  } finally {
+    __suiteStack.pop();
+  }
+}
+
+function test(name, fn) {
+  __registered.push({ name, fn, suites: [...__suiteStack] });
+}
+
+function beforeEach(fn) {
+  __suiteStack[__suiteStack.length - 1].beforeEach.push(fn);
+}
+
+function afterEach(fn) {
+  __suiteStack[__suiteStack.length - 1].afterEach.push(fn);
+}
+
+Object.assign(globalThis, { describe, test, it: test, expect, beforeEach, afterEach });
+
+function __describeError(error) {
+  if (!(error instanceof Error)) return String(error);
+  const frame = (error.stack || '').split('\\n').find(line => __labFiles.some(file => line.includes(file + ':')));
+  const location = frame && frame.match(/([^\\s(]+:\\d+:\\d+)\\)?$/);
+  const suffix = location && !error.message.includes(location[1]) ? ' (' + location[1] + ')' : '';
+  return error.name + ': ' + error.message + suffix;
+}
+
+function __report(entry) {
+  __log(__reportPrefix + JSON.stringify(entry));
+}
+
+async function __runRegisteredTests(file) {
+  for (const { name, fn, suites } of __registered) {
+    const started = Date.now();
+    const fullName = [...suites.map(suite => suite.name).filter(Boolean), name].join(' › ');
+    try {
+      for (const suite of suites) {
+        for (const hook of suite.beforeEach) await hook();
+      }
+      await fn();
+      for (const suite of [...suites].reverse()) {
+        for (const hook of suite.afterEach) await hook();
+      }
+      __report({ file, kind: 'test', name: fullName, status: 'passed', duration: Date.now() - started });
+    } catch (error) {
+      const isAssertion = error instanceof __TestAssertionError;
+      __report({
+        file,
+        kind: 'test',
+        name: fullName,
+        status: isAssertion ? 'failed' : 'error',
+        duration: Date.now() - started,
+        message: isAssertion ? error.message : __describeError(error),
+        actual: isAssertion ? error.actual : undefined,
+        expected: isAssertion ? error.expected : undefined
+      });
+    }
+  }
+  __registered = [];
+}
+
+const __labFiles = __LAB_FILES__;
+`;
+
+export class LabTestRunner {
+  private activeRunner: CodeRunner | null = null;
+  private stopped = false;
+
+  static isTestFile(path: string): boolean {
+    return TEST_FILE_PATTERNS.some(pattern => pattern.test(path));
+  }
+
+  static findTestFiles(files: FileMap): string[] {
+    return Object.keys(files).filter(path => LabTestRunner.isTestFile(path)).sort();
+  }
+
+  // `files` are the learner's workspace files, `hiddenTests` are test files kept out of the tree
+  async run(files: FileMap, hiddenTests: FileMap = {}, options: Pick<ExecutionOptions, 'sandboxed'> = {}): Promise<TestRunSummary> {
+    const startTime = Date.now();
+    this.stopped = false;
+
+    const allFiles: FileMap = { ...files, ...hiddenTests };
+    const testFiles = [...LabTestRunner.findTestFiles(files), ...Object.keys(hiddenTests)];
+    const hiddenFiles = new Set(Object.keys(hiddenTests));
+
+    // Group test files by the runner that executes them
+    const groups = new Map<SupportedLanguage, string[]>();
+    testFiles.forEach(file => {
+      const language = RunnerFactory.detectLanguageFromFile(file);
+      if (language && RunnerFactory.getCapabilities(language).tests) {
+        groups.set(language, [...(groups.get(language) || []), file]);
+      }
+    });
+
+    const results: TestFileResult[] = [];
+    for (const [language, groupFiles] of groups) {
+      if (this.stopped) break;
+      const groupResults = await this.runGroup(language, groupFiles, allFiles, options);
+      results.push(...groupResults.map(result => this.applyVisibility(result, hiddenFiles.has(result.file))));
+    }
+
+    const tests = results.flatMap(result => result.tests);
+    return {
+      files: results,
+      passed: tests.filter(test => test.status === 'passed').length,
+      failed: tests.filter(test => test.status === 'failed' || test.status === 'error').length +
+        results.filter(result => result.error).length,
+      total: tests.length,
+      executionTime: Date.now() - startTime
+    };
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.activeRunner?.stop();
+  }
+
+  private async runGroup(
+    language: SupportedLanguage, testFiles: string[], files: FileMap, options: Pick<ExecutionOptions, 'sandboxed'>
+  ): Promise<TestFileResult[]> {
+    const reportPrefix = this.createReportPrefix();
+    let result: ExecutionResult;
+    let runner: CodeRunner | null = null;
+    try {
+      runner = await runnerPool.acquire(language);
+      if (this.stopped) return [];
+      this.activeRunner = runner;
+
+      if (language === 'python') {
+        const harness = this.createPythonHarness(testFiles, files, reportPrefix);
+        result = await runner.execute(harness, files, { ...options, entryFile: PYTHON_HARNESS_FILE });
+      } else {
+        const harness = this.createJavaScriptHarness(testFiles, files, reportPrefix);
+        result = await runner.execute(harness, files, { ...options, entryFile: JAVASCRIPT_HARNESS_FILE });
+      }
+    } catch (error) {
+      result = {
+        success: false,
+        output: '',
+        error: error instanceof Error ? error.message : 'Failed to run tests',
+        executionTime: 0
+      };
+    } finally {
+      if (runner) {
+        runnerPool.release(runner);
+      }
+      this.activeRunner = null;
+    }
+
+    return this.parseResults(testFiles, result, reportPrefix);
+  }
+
+  private createReportPrefix(): string {
+    const token = new Uint8Array(16);
+    crypto.getRandomValues(token);
+    return `${REPORT_MARKER}-${Array.from(token, byte => byte.toString(16).padStart(2, '0')).join('')} `;
+  }
+
+  private parseResults(testFiles: string[], result: ExecutionResult, reportPrefix: string): TestFileResult[] {
+    const reports: TestReport[] = [];
+    const outputLines: string[] = [];
+
+    result.output.split('\n').forEach(line => {
+      if (!line.startsWith(reportPrefix)) {
+        outputLines.push(line);
+        return;
+      }
+      try {
+        reports.push(JSON.parse(line.slice(reportPrefix.length)));
+      } catch (error) {
+        outputLines.push(line);
+      }
+    });
+
+    const output = outputLines.join('\n').trim();
+
+    return testFiles.map(file => {
+      const fileReports = reports.filter(report => report.file === file);
+      const fileError = fileReports.find(report => report.kind === 'file-error');
+      const tests: TestCaseResult[] = fileReports
+        .filter(report => report.kind === 'test')
+        .map(report => ({
+          name: report.name || 'test',
+          status: report.status || 'error',
+          duration: report.duration || 0,
+          message: report.message,
+          expected: report.expected,
+          actual: report.actual
+        }));
+
+      // A run that failed before reporting anything (syntax error, timeout, ...) fails the file
+      const runError = tests.length === 0 && !result.success ? result.error || 'Tests did not run' : undefined;
+
+      return {
+        file,
+        hidden: false,
+        tests,
+        error: fileError?.message || runError,
+        output: output || undefined
+      };
+    });
+  }
+
+  // Hidden tests report pass/fail only, so their expectations can't be copied into a solution
+  private applyVisibility(result: TestFileResult, hidden: boolean): TestFileResult {
+    if (!hidden) {
+      return result;
+    }
+
+    return {
+      file: result.file,
+      hidden: true,
+      tests: result.tests.map(test => ({ name: test.name, status: test.status, duration: test.duration })),
+      error: result.error ? 'Hidden tests could not be run' : undefined
+    };
+  }
+
+  private createPythonHarness(testFiles: string[], files: FileMap, reportPrefix: string): string {
+    // JSON string and list literals are valid Python literals; replacer functions keep '$' in sources literal
+    return PYTHON_HARNESS
+      .replace('__TEST_FILES__', () => JSON.stringify(testFiles.map(file => [file, files[file] || ''])))
+      .replace('__HARNESS_FILE__', () => JSON.stringify(PYTHON_HARNESS_FILE))
+      .replace('__REPORT_PREFIX__', () => JSON.stringify(reportPrefix));
+  }
+
+  private createJavaScriptHarness(testFiles: string[], files: FileMap, reportPrefix: string): string {
+    const runFiles = testFiles.map(file => `
+try {
+  await import(${JSON.stringify(`./${file}`)});
+  await __runRegisteredTests(${JSON.stringify(file)});
+} catch (error) {
+  __registered = [];
+  __report({ file: ${JSON.stringify(file)}, kind: 'file-error', message: __describeError(error) });
+}`).join('\n');
+
+    return JAVASCRIPT_HARNESS
+      .replace('__REPORT_PREFIX__', () => JSON.stringify(reportPrefix))
+      .replace('__LAB_FILES__', () => JSON.stringify(Object.keys(files))) + runFiles;
+  }
+}
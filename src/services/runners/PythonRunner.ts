@@ -1,74 +1,29 @@
 import { BaseRunner } from './BaseRunner';
-import { ExecutionResult, FileMap, ConsoleLog } from '../../types/runner';
-
-// Pyodide types
-declare global {
-  interface Window {
-    loadPyodide: (options?: { 
-      indexURL?: string; 
-      stdout?: (text: string) => void;
-      stderr?: (text: string) => void;
-    }) => Promise<PyodideInterface>;
-  }
-}
-
-interface PyodideInterface {
-  runPython: (code: string) => any;
-  runPythonAsync: (code: string) => Promise<any>;
-  loadPackage: (packages: string | string[]) => Promise<void>;
-  globals: {
-    get: (name: string) => any;
-    set: (name: string, value: any) => void;
-  };
-  FS: {
-    writeFile: (path: string, data: string | ArrayBuffer) => void;
-    readFile: (path: string, options?: { encoding: string }) => string | ArrayBuffer;
-  };
-}
-
-export class PythonRunner extends BaseRunner {
-  private pyodide: PyodideInterface | null = null;
-  private isInitializing: boolean = false;
-
-  constructor() {
-    super('python');
-  }
-
-  async execute(code: string, files?: FileMap): Promise<ExecutionResult> {
-    const startTime = Date.now();
-    
-    try {
-      this.isRunning = true;
-      
-      // Initialize Pyodide if not already done
-      if (!this.pyodide && !this.isInitializing) {
-        await this.initializePyodide();
-      }
-      
-      // Wait for initialization to complete if in progress
-      while (this.isInitializing) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-      
-      if (!this.pyodide) {
-        throw new Error('Failed to initialize Python environment');
-      }
+import { ExecutionOptions, ExecutionResult, FileMap, ConsoleLog, DebugTrace, FormattedOutput } from '../../types/runner';
+import { dirname } from './pathUtils';
+import { createRuntimeDiagnostic } from './errorLocations';
+import { DEBUG_STEP_LIMIT, PYODIDE_INDEX_URL, PYODIDE_WHEEL_INDEX_URL } from './runnerConstants';
+import { createRunnerWorker, RunnerWorker } from './runnerWorker';
 
-      // Set up files in Pyodide filesystem
-      if (files) {
-        this.setupFiles(files);
-      }
+const REQUIREMENTS_FILE = 'requirements.txt';
 
-      // Capture output
-      const logs: ConsoleLog[] = [];
-      let output = '';
-      
-      // Enhanced Python security setup with module blocking and error handling
-      const pythonSetup = `
+// Enhanced Python security setup with module blocking and error handling. It runs once per
+// worker; every run then gets a fresh __main__ and the modules as they were imported (see _reset_run).
+const PYTHON_SETUP = `
 import sys
 import io
+import ast
+import importlib
+import inspect
+import json
+import reprlib
+import builtins
+import types
 from contextlib import redirect_stdout, redirect_stderr
 
+# Lab files are rewritten between runs, so stale bytecode must never be picked up
+sys.dont_write_bytecode = True
+
 # Fix Pyodide's excepthook to prevent virtual filesystem errors
 def _safe_excepthook(exc_type, exc_value, exc_traceback):
     try:
@@ -86,60 +41,532 @@ def _safe_excepthook(exc_type, exc_value, exc_traceback):
 # Replace sys.excepthook with our safe version
 sys.excepthook = _safe_excepthook
 
+# Render matplotlib figures with Agg; the backend's show() hands them to the output panel
+_MATPLOTLIB_BACKEND = '''
+from matplotlib.backend_bases import _Backend
+from matplotlib.backends.backend_agg import _BackendAgg
+
+@_Backend.export
+class _BackendLabDojo(_BackendAgg):
+    @staticmethod
+    def show(*args, **kwargs):
+        from _labdojo import _show_figures
+        _show_figures()
+'''
+
+def _install_matplotlib_backend():
+    import os
+    os.makedirs('/lib/labdojo', exist_ok=True)
+    with open('/lib/labdojo/labdojo_backend.py', 'w') as backend_file:
+        backend_file.write(_MATPLOTLIB_BACKEND)
+    sys.path.append('/lib/labdojo')
+    os.environ['MPLBACKEND'] = 'module://labdojo_backend'
+
+_install_matplotlib_backend()
+
 # Block dangerous modules for security
 _blocked_modules = [
     'os', 'subprocess', 'requests', 'urllib', 'urllib2', 'urllib3',
     'http', 'httplib', 'socket', 'socketserver', 'ftplib', 'poplib',
     'imaplib', 'nntplib', 'smtplib', 'telnetlib', 'webbrowser',
     'ctypes', '_ctypes', 'threading', '_thread', 'multiprocessing',
-    'pickle', 'cPickle', '_pickle', 'shelve', 'marshal'
+    'pickle', 'cPickle', '_pickle', 'shelve', 'marshal',
+    # The bridge to the browser: js and pyodide.http reach fetch and the worker's globals
+    'js', 'pyodide', 'pyodide_js'
 ]
-
-# Remove and block dangerous modules
-for module_name in _blocked_modules:
-    if module_name in sys.modules:
-        del sys.modules[module_name]
-    # Prevent future imports
-    sys.modules[module_name] = None
-
-# Override built-in dangerous functions (but preserve ones needed by Pyodide)
-import builtins
-_original_open = builtins.open
-_original_input = builtins.input if hasattr(builtins, 'input') else None
-_original_eval = builtins.eval
-_original_exec = builtins.exec
-
-def _blocked_function(name):
-    def _wrapper(*args, **kwargs):
-        raise SecurityError(f"Function '{name}' is blocked for security reasons")
-    return _wrapper
-
-def _restricted_eval(source, globals=None, locals=None):
-    # Block eval with user-provided code but allow internal usage
-    if isinstance(source, str) and any(danger in source.lower() for danger in ['import', 'open', 'exec', '__']):
-        raise SecurityError("eval() with potentially dangerous code is blocked")
-    return _original_eval(source, globals, locals)
-
-def _restricted_exec(source, globals=None, locals=None):
-    # Block exec with dangerous imports but allow basic usage
-    if isinstance(source, str) and any(danger in source.lower() for danger in ['import os', 'import subprocess', '__import__']):
-        raise SecurityError("exec() with dangerous imports is blocked")
-    return _original_exec(source, globals, locals)
+# This setup's own namespace, where the matplotlib backend finds _show_figures
+_blocked_modules.append('_labdojo')
+sys.modules['_labdojo'] = sys.modules['__main__']
 
 class SecurityError(Exception):
     pass
 
+# Lab code can change any module it imports (math.pi = 3, builtins.print = ...), and the modules
+# outlive the run. Each module's namespace is recorded right after it was imported, before lab code
+# could touch it, and _reset_run puts them all back. Modules loaded some other way are dropped.
+def _create_module_snapshots():
+    saved = {}  # Module and a copy of its namespace, by name
+    depth = 0  # Nested imports; modules are recorded once the outermost one has finished
+    missing = object()
+
+    def record():
+        for name, module in list(sys.modules.items()):
+            if name in saved or not isinstance(module, types.ModuleType):
+                continue
+            # Lab modules are imported again every run, and a module still loading isn't finished
+            if (getattr(module, '__file__', None) or '').startswith(_lab_directory + '/'):
+                continue
+            if getattr(getattr(module, '__spec__', None), '_initializing', False):
+                continue
+            saved[name] = (module, dict(module.__dict__))
+            # From now on the module is an attribute of its package
+            parent, _, child = name.rpartition('.')
+            if parent in saved and getattr(saved[parent][0], child, None) is module:
+                saved[parent][1][child] = module
+
+    def track(load):
+        def tracked_load(*args, **kwargs):
+            nonlocal depth
+            # Not len(), which lab code may have replaced
+            loaded = sys.modules.__len__()
+            depth += 1
+            try:
+                return load(*args, **kwargs)
+            finally:
+                depth -= 1
+                if depth == 0 and sys.modules.__len__() != loaded:
+                    record()
+        return tracked_load
+
+    def restore_namespace(module, namespace):
+        current = module.__dict__
+        for key in [key for key in current if key not in namespace]:
+            del current[key]
+        for key, value in namespace.items():
+            if current.get(key, missing) is not value:
+                current[key] = value
+
+    def restore():
+        # Builtins first, as the rest of this uses them
+        restore_namespace(*saved['builtins'])
+        for name, (module, namespace) in saved.items():
+            restore_namespace(module, namespace)
+            if sys.modules.get(name) is not module:
+                sys.modules[name] = module
+        for name, module in list(sys.modules.items()):
+            if name not in saved and isinstance(module, types.ModuleType):
+                del sys.modules[name]
+
+    return track, record, restore
+
+_track_imports, _record_modules, _restore_modules = _create_module_snapshots()
+importlib.import_module = _track_imports(importlib.import_module)
+
+# Blocked modules are kept out of sys.modules for lab code: a None entry makes importing them fail.
+# numpy, pandas and matplotlib need os, threading and pickle internally, so the real modules are
+# put back only while the standard library or an installed package imports them. The guard's
+# state lives in this closure, out of reach of the namespace lab code runs in.
+def _create_sandbox():
+    blocked = frozenset(_blocked_modules)
+    hidden = {}  # Blocked modules that have been imported, by name
+    original_import = _track_imports(builtins.__import__)
+    original_open = builtins.open
+    original_eval = builtins.eval
+    original_exec = builtins.exec
+    original_compile = builtins.compile
+    revealed = 0  # Nesting depth of library imports that run with the real modules
+    # The standard library and installed packages are loaded from files under /lib, by the frozen
+    # import system; lab code is compiled from lab paths, and compile() refuses these names for it
+    library_files = ('/lib/', '<frozen ')
+
+    def is_blocked(name):
+        return name.split('.')[0] in blocked
+
+    def is_library_code(frame):
+        return frame.f_code.co_filename.startswith(library_files)
+
+    def hide():
+        for name in list(sys.modules):
+            if is_blocked(name):
+                if sys.modules[name] is not None:
+                    hidden[name] = sys.modules[name]
+                sys.modules[name] = None
+        for name in blocked:
+            sys.modules.setdefault(name, None)
+
+    def reveal():
+        for name in list(sys.modules):
+            if is_blocked(name) and sys.modules[name] is None:
+                if name in hidden:
+                    sys.modules[name] = hidden[name]
+                else:
+                    del sys.modules[name]
+
+    def guarded_import(name, globals=None, locals=None, fromlist=(), level=0):
+        nonlocal revealed
+        if not is_library_code(sys._getframe(1)):
+            if level == 0 and is_blocked(name):
+                raise ImportError(f"Module '{name}' is blocked for security reasons")
+            return original_import(name, globals, locals, fromlist, level)
+
+        if revealed == 0:
+            reveal()
+        revealed += 1
+        try:
+            return original_import(name, globals, locals, fromlist, level)
+        finally:
+            revealed -= 1
+            if revealed == 0:
+                hide()
+
+    def guarded_open(*args, **kwargs):
+        if not is_library_code(sys._getframe(1)):
+            raise SecurityError("Function 'open' is blocked for security reasons")
+        return original_open(*args, **kwargs)
+
+    def restricted_eval(source, globals=None, locals=None):
+        # Evaluate in the caller's scope, as eval() itself would
+        caller = sys._getframe(1)
+        if globals is None:
+            globals, locals = caller.f_globals, caller.f_locals if locals is None else locals
+        # Block eval with user-provided code but allow internal usage
+        if isinstance(source, str) and not is_library_code(caller) and any(danger in source.lower() for danger in ['import', 'open', 'exec', '__']):
+            raise SecurityError("eval() with potentially dangerous code is blocked")
+        return original_eval(source, globals, locals)
+
+    def restricted_exec(source, globals=None, locals=None):
+        caller = sys._getframe(1)
+        if globals is None:
+            globals, locals = caller.f_globals, caller.f_locals if locals is None else locals
+        # Block exec with dangerous imports but allow basic usage
+        if isinstance(source, str) and not is_library_code(caller) and any(danger in source.lower() for danger in ['import os', 'import subprocess', '__import__']):
+            raise SecurityError("exec() with dangerous imports is blocked")
+        return original_exec(source, globals, locals)
+
+    def restricted_compile(source, filename, *args, **kwargs):
+        # Code compiled under a library file name would pass for library code
+        if not is_library_code(sys._getframe(1)) and str(filename).startswith(library_files):
+            raise SecurityError("compile() with a library file name is blocked")
+        return original_compile(source, filename, *args, **kwargs)
+
+    def apply():
+        hide()
+        builtins.open = guarded_open
+        builtins.eval = restricted_eval
+        builtins.exec = restricted_exec
+        builtins.compile = restricted_compile
+        builtins.__import__ = guarded_import
+
+    return apply
+
+_apply_sandbox = _create_sandbox()
+
+# Console input: lines from the pre-supplied stdin box are read first, after that
+# input() pauses the program and asks the learner in the output console
+def _next_stdin_line():
+    line = _stdin_buffer.readline()
+    if not line:
+        return None
+    return line[:-1] if line.endswith('\\n') else line
+
+def _input(prompt=''):
+    # Called where the program cannot pause (imported modules, lambdas, generators)
+    line = _next_stdin_line()
+    if line is None:
+        if _request_input is not None:
+            raise EOFError('EOF when reading a line (only input() calls in the file being run can wait for the console; add more lines in the Stdin tab)')
+        raise EOFError('EOF when reading a line')
+    sys.stdout.write(str(prompt))
+    return line
+
+async def _input_async(prompt=''):
+    prompt = str(prompt)
+    line = _next_stdin_line()
+    if line is not None:
+        sys.stdout.write(prompt)
+        return line
+    if _request_input is None:
+        raise EOFError('EOF when reading a line')
+    stdout_content, stderr_content = _get_output()
+    answer = await _request_input(prompt, stdout_content, stderr_content)
+    if not isinstance(answer, str):
+        raise EOFError('EOF when reading a line')
+    sys.stdout.write(prompt + answer + '\\n')
+    return answer
+
+async def _resolve(value):
+    return await value if inspect.isawaitable(value) else value
+
+def _call_name(node):
+    if isinstance(node.func, ast.Name):
+        return node.func.id
+    if isinstance(node.func, ast.Attribute):
+        return node.func.attr
+    return None
+
+# Lambdas, generators and class bodies cannot await, so they keep the synchronous input()
+_SYNC_SCOPES = (ast.FunctionDef, ast.AsyncFunctionDef, ast.Lambda, ast.GeneratorExp, ast.ClassDef)
+
+def _own_nodes(function):
+    stack = list(function.body)
+    while stack:
+        node = stack.pop()
+        yield node
+        stack.extend(child for child in ast.iter_child_nodes(node) if not isinstance(child, _SYNC_SCOPES))
+
+def _find_input_functions(tree):
+    # Names of functions that call input() directly or through other such functions
+    calls = {}
+    generators = set()
+    for function in ast.walk(tree):
+        if not isinstance(function, ast.FunctionDef):
+            continue
+        nodes = list(_own_nodes(function))
+        if any(isinstance(node, (ast.Yield, ast.YieldFrom)) for node in nodes):
+            generators.add(function.name)
+        calls.setdefault(function.name, set()).update(_call_name(node) for node in nodes if isinstance(node, ast.Call))
+
+    input_functions = set()
+    changed = True
+    while changed:
+        changed = False
+        for name, called in calls.items():
+            if name not in input_functions and ('input' in called or called & input_functions):
+                input_functions.add(name)
+                changed = True
+    return input_functions - generators
+
+class _AwaitInput(ast.NodeTransformer):
+    # Turns input() into an awaited console read; functions that ask for input become
+    # coroutines and their calls are awaited, so the program can pause without threads
+    def __init__(self, input_functions):
+        self.input_functions = input_functions
+        self.can_await = True
+
+    def _visit_scope(self, node, can_await):
+        previous = self.can_await
+        self.can_await = can_await
+        self.generic_visit(node)
+        self.can_await = previous
+        return node
+
+    def visit_FunctionDef(self, node):
+        if node.name not in self.input_functions:
+            return self._visit_scope(node, False)
+        async_node = ast.AsyncFunctionDef(**{field: getattr(node, field, None) for field in node._fields})
+        return self._visit_scope(ast.copy_location(async_node, node), True)
+
+    def visit_AsyncFunctionDef(self, node):
+        return self._visit_scope(node, True)
+
+    def visit_Lambda(self, node):
+        return self._visit_scope(node, False)
+
+    def visit_GeneratorExp(self, node):
+        return self._visit_scope(node, False)
+
+    def visit_ClassDef(self, node):
+        return self._visit_scope(node, False)
+
+    def visit_Call(self, node):
+        self.generic_visit(node)
+        if not self.can_await:
+            return node
+        if isinstance(node.func, ast.Name) and node.func.id == 'input':
+            node.func = ast.copy_location(ast.Name(id='_input_async', ctx=ast.Load()), node.func)
+            return ast.copy_location(ast.Await(value=node), node)
+        if _call_name(node) in self.input_functions:
+            # Awaited through _resolve in case the name also matches an unrelated callable
+            resolved = ast.Call(func=ast.Name(id='_resolve', ctx=ast.Load()), args=[node], keywords=[])
+            return ast.copy_location(ast.Await(value=ast.copy_location(resolved, node)), node)
+        return node
+
+# Rich output: figures and HTML reprs are collected in execution order. Each item records
+# how much text had been printed at that point, so the output panel can interleave them.
+_MAX_RICH_OUTPUTS = 50
+
+def _emit_rich_output(kind, content):
+    if len(_rich_outputs) >= _MAX_RICH_OUTPUTS:
+        return
+    # Offsets are counted in UTF-16 code units to match JavaScript string indexes
+    offset = len(_stdout_capture.getvalue().encode('utf-16-le')) // 2
+    _rich_outputs.append({'type': kind, 'content': content, 'offset': offset})
+
+def _encode_png(data):
+    import base64
+    return 'data:image/png;base64,' + base64.b64encode(data).decode('ascii')
+
+def _figure_to_png(figure):
+    buffer = io.BytesIO()
+    figure.savefig(buffer, format='png', bbox_inches='tight')
+    return _encode_png(buffer.getvalue())
+
+def _show_figures():
+    # plt.show(): every open figure becomes an image in the output
+    pyplot = sys.modules.get('matplotlib.pyplot')
+    if pyplot is None:
+        return
+    for number in pyplot.get_fignums():
+        _emit_rich_output('plot', _figure_to_png(pyplot.figure(number)))
+    pyplot.close('all')
+
+def _display_rich(value):
+    if isinstance(value, type):
+        return False
+    if hasattr(value, 'savefig') and hasattr(value, 'canvas'):
+        _emit_rich_output('plot', _figure_to_png(value))
+        # Already shown, so plt.show() must not render it again
+        if 'matplotlib.pyplot' in sys.modules:
+            sys.modules['matplotlib.pyplot'].close(value)
+        return True
+    for method, kind in (('_repr_html_', 'html'), ('_repr_png_', 'plot')):
+        render = getattr(value, method, None)
+        data = render() if callable(render) else None
+        if data:
+            _emit_rich_output(kind, data if kind == 'html' else _encode_png(data))
+            return True
+    return False
+
+def display(*values):
+    # Notebook-style display(): tables and figures render as rich output, anything else as text
+    for value in values:
+        if not _display_rich(value):
+            print(repr(value))
+
+def _display_expression(value):
+    # Bare expressions in the script (e.g. df.head()) show their rich repr like a notebook cell
+    if value is not None:
+        _display_rich(value)
+
+def _get_rich_outputs():
+    import json
+    return json.dumps(_rich_outputs)
+
+# Debugger: without shared memory the worker cannot pause mid-run, so every line the lab's
+# code runs is recorded with its call stack and variables, and the Debug tab steps through that
+_debug_repr = reprlib.Repr()
+_debug_repr.maxstring = 80
+_debug_repr.maxother = 80
+_debug_repr.maxlist = _debug_repr.maxtuple = _debug_repr.maxset = _debug_repr.maxdict = 10
+
+def _debug_variables(namespace):
+    variables = []
+    for name, value in list(namespace.items()):
+        if name.startswith('__') or (name in _debug_baseline and _debug_baseline[name] is value):
+            continue
+        if inspect.ismodule(value) or inspect.isfunction(value) or inspect.isclass(value) or inspect.isbuiltin(value):
+            continue
+        try:
+            text = _debug_repr.repr(value)
+        except Exception:
+            text = '<unavailable>'
+        variables.append({'name': name, 'type': type(value).__name__, 'value': text})
+    return variables
+
+def _debug_record(frame, exception=None):
+    # Only lines count towards the limit; an exception is recorded on the line that raised it
+    global _debug_truncated, _debug_line_steps
+    if _debug_truncated:
+        return
+    if exception is None:
+        if _debug_line_steps >= _debug_step_limit:
+            _debug_truncated = True
+            sys.settrace(None)
+            return
+        _debug_line_steps += 1
+
+    stack = []
+    current = frame
+    while current is not None:
+        if current.f_code.co_filename in _debug_files:
+            stack.append({
+                'name': current.f_code.co_name,
+                'file': _debug_files[current.f_code.co_filename],
+                'line': current.f_lineno,
+                # Module-level code has no locals of its own
+                'locals': [] if current.f_locals is current.f_globals else _debug_variables(current.f_locals)
+            })
+        current = current.f_back
+    stack.reverse()
+
+    _debug_steps.append({
+        'file': _debug_files[frame.f_code.co_filename],
+        'line': frame.f_lineno,
+        'stack': stack,
+        'globals': _debug_variables(frame.f_globals),
+        'exception': exception,
+        'outputLength': len(_stdout_capture.getvalue().encode('utf-16-le')) // 2
+    })
+
+def _debug_trace(frame, event, arg):
+    if frame.f_code.co_filename not in _debug_files:
+        return None
+    if event == 'line':
+        _debug_record(frame)
+    elif event == 'exception' and not issubclass(arg[0], (StopIteration, StopAsyncIteration, GeneratorExit)):
+        _debug_record(frame, f'{arg[0].__name__}: {arg[1]}')
+    return _debug_trace
+
+def _get_debug_trace():
+    return json.dumps({'steps': _debug_steps, 'truncated': _debug_truncated, 'stepLimit': _debug_step_limit})
+
+async def _run_user_code(source, filename):
+    tree = ast.parse(source, filename)
+    tree = _AwaitInput(_find_input_functions(tree)).visit(tree)
+    for statement in tree.body:
+        if isinstance(statement, ast.Expr) and not isinstance(statement.value, ast.Constant):
+            display_call = ast.Call(func=ast.Name(id='_display_expression', ctx=ast.Load()), args=[statement.value], keywords=[])
+            statement.value = ast.copy_location(display_call, statement.value)
+    tree = ast.fix_missing_locations(tree)
+    code = compile(tree, filename, 'exec', flags=ast.PyCF_ALLOW_TOP_LEVEL_AWAIT)
+    if _debug_mode:
+        # The helpers put in the namespace are not the learner's variables
+        _debug_baseline.update(_user_namespace)
+        sys.settrace(_debug_trace)
+    try:
+        result = eval(code, _user_namespace)
+        if inspect.iscoroutine(result):
+            await result
+    finally:
+        sys.settrace(None)
+
 # Apply restricted functions (but don't completely block compile, eval, exec as Pyodide needs them)
-builtins.open = _blocked_function('open')
-builtins.input = _blocked_function('input')
-builtins.eval = _restricted_eval
-builtins.exec = _restricted_exec
-# Note: We don't block compile as Pyodide needs it internally
-# Note: We don't block __import__ as it breaks Pyodide's module system
+def _apply_restrictions():
+    _apply_sandbox()
+    builtins.input = _input
+    builtins.display = display
+    # Note: __import__ is wrapped rather than blocked, since blocking it breaks Pyodide's module system
 
-# Set up output capture
-_stdout_capture = io.StringIO()
-_stderr_capture = io.StringIO()
+_apply_restrictions()
+
+def _start_run():
+    # Per-run state, from the values the runner sets before each run
+    global _stdin_buffer, _rich_outputs, _debug_steps, _debug_truncated, _debug_line_steps, _debug_baseline, _debug_files
+    global _stdout_capture, _stderr_capture, _user_namespace
+    # Packages the runner loaded for this run, still as they were imported
+    _record_modules()
+    # As with python path/to/main.py, modules next to the entry file are importable
+    entry_directory = _user_filename.rpartition('/')[0]
+    sys.path.insert(0, _lab_directory + '/' + entry_directory if entry_directory else _lab_directory)
+    # Lab code runs in a __main__ of its own, with the helpers its rewritten code calls
+    main = types.ModuleType('__main__')
+    main.__dict__.update({
+        '__builtins__': builtins,
+        '_input_async': _input_async,
+        '_resolve': _resolve,
+        '_display_expression': _display_expression
+    })
+    sys.modules['__main__'] = main
+    _user_namespace = main.__dict__
+    _stdin_buffer = io.StringIO(_stdin_text)
+    sys.stdin = _stdin_buffer
+    _rich_outputs = []
+    _debug_steps = []
+    _debug_truncated = False
+    _debug_line_steps = 0
+    _debug_baseline = {}
+    # Lab files by the names their code objects carry: entry code uses the lab path,
+    # imported modules the absolute path in the working directory
+    _debug_files = {}
+    for path in json.loads(_debug_files_json):
+        _debug_files[path] = path
+        _debug_files[_debug_cwd + '/' + path] = path
+    # Set up output capture
+    _stdout_capture = io.StringIO()
+    _stderr_capture = io.StringIO()
+
+def _reset_run():
+    # Forgets the previous run: its namespace, the lab modules it imported, what it changed in other
+    # modules and builtins, and its figures and plot settings. Packages stay imported, which is what
+    # makes a reused worker fast.
+    _restore_modules()
+    sys.path[:] = _setup_path
+    importlib.invalidate_caches()
+    if 'matplotlib.pyplot' in sys.modules:
+        sys.modules['matplotlib.pyplot'].close('all')
+        sys.modules['matplotlib'].rcdefaults()
+    sys.settrace(None)
+    _apply_restrictions()
 
 def _get_output():
     stdout_content = _stdout_capture.getvalue()
@@ -150,84 +577,209 @@ def _clear_output():
     global _stdout_capture, _stderr_capture
     _stdout_capture = io.StringIO()
     _stderr_capture = io.StringIO()
+
+_setup_path = list(sys.path)
+# Everything loaded so far, this setup's namespace and builtins included, is what every run starts from
+_record_modules()
 `;
 
-      // Run setup code
-      this.pyodide.runPython(pythonSetup);
-      
-      // Execute user code with output capture
-      const executionCode = `
+// Execute user code with output capture
+const EXECUTION_CODE = `
 with redirect_stdout(_stdout_capture), redirect_stderr(_stderr_capture):
     try:
-${code.split('\n').map(line => `        ${line}`).join('\n')}
+        await _run_user_code(_user_code, _user_filename)
+        # Figures that were never shown still end up in the output, like in a notebook
+        _show_figures()
     except Exception as e:
         print(f"Error: {e}")
         import traceback
         traceback.print_exc()
 `;
 
-      await this.pyodide.runPythonAsync(executionCode);
-      
-      // Get captured output
-      const getOutputCode = `
-stdout_content, stderr_content = _get_output()
-(stdout_content, stderr_content)
-`;
-      
-      const [stdout, stderr] = this.pyodide.runPython(getOutputCode);
-      
-      // Process output
-      if (stdout) {
-        output = stdout;
-        logs.push({
-          type: 'log',
-          content: stdout,
-          timestamp: Date.now()
-        });
-      }
-      
-      if (stderr) {
-        logs.push({
-          type: 'error',
-          content: stderr,
-          timestamp: Date.now()
-        });
-      }
+// Figure or HTML repr produced by the program, positioned by the length of stdout at the time
+interface RichOutput {
+  type: 'plot' | 'html';
+  content: string;
+  offset: number;
+}
 
-      const executionTime = Date.now() - startTime;
-      
-      // If there's error output, consider it a failure
-      const success = !stderr || !stderr.includes('Error:');
-      
-      // Apply output and log limits for security
-      const limitedOutput = this.limitOutput(output);
-      const limitedLogs = this.limitLogs(logs);
-      
-      return {
-        success,
-        output: limitedOutput,
-        error: stderr && stderr.includes('Error:') ? this.limitOutput(stderr) : undefined,
-        executionTime,
-        logs: limitedLogs
+// What the worker reports when a run ends
+interface WorkerOutput {
+  stdout: string;
+  stderr: string;
+  richOutputs: RichOutput[];
+  debugTrace?: DebugTrace;
+}
+
+interface PythonFile {
+  path: string;
+  directory: string;
+  content: string;
+}
+
+// The worker and its Pyodide runtime are kept between runs; each run resets the Python modules
+// instead. The worker is only replaced after it failed or had to be killed to stop a run, or
+// when a sandboxed run follows an ordinary one or the other way round.
+export class PythonRunner extends BaseRunner {
+  private worker: RunnerWorker | null = null;
+  private workerSandboxed = false;
+  private stopRun: ((reason: string) => void) | null = null;
+  private runtimeReady = false; // Pyodide and the setup are loaded in the current worker
+  private warmUpRequest: { promise: Promise<void>; reject: (error: Error) => void } | null = null;
+
+  constructor() {
+    super('python');
+  }
+
+  async execute(code: string, files?: FileMap, options?: ExecutionOptions): Promise<ExecutionResult> {
+    const startTime = Date.now();
+    const entryFile = options?.entryFile || 'main.py';
+    const runFiles: FileMap = { ...(files || {}), [entryFile]: code };
+
+    return new Promise((resolve) => {
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      let stopReason: string | null = null;
+
+      // Runs that end normally leave the worker ready for the next one
+      const finish = (result: ExecutionResult, keepWorker = false) => {
+        clearTimeout(timeout);
+        if (keepWorker && this.worker) {
+          this.worker.onmessage = null;
+          this.worker.onerror = null;
+        } else {
+          this.terminateWorker();
+        }
+        this.stopRun = null;
+        this.isRunning = false;
+        resolve(result);
       };
-      
-    } catch (error) {
-      return {
+
+      const fail = (error: string): ExecutionResult => ({
         success: false,
         output: '',
-        error: this.formatError(error instanceof Error ? error : new Error(String(error))),
+        error,
         executionTime: Date.now() - startTime,
         logs: []
+      });
+
+      let worker: RunnerWorker;
+      try {
+        this.isRunning = true;
+        worker = this.startWorker(!!options?.sandboxed);
+      } catch (error) {
+        finish(fail(error instanceof Error ? error.message : 'Failed to start the Python environment'));
+        return;
+      }
+
+      // Terminating the worker is the only way to end code that never yields, so a stopped run
+      // loses its output and the next run starts a new runtime
+      this.stopRun = (reason: string) => {
+        if (stopReason) return;
+        stopReason = reason;
+        finish(fail(reason));
       };
-    } finally {
-      this.isRunning = false;
-    }
+
+      const startTimeout = () => setTimeout(() => {
+        this.stopRun?.(`Execution timeout - code took longer than ${this.config.timeout / 1000} seconds`);
+      }, this.config.timeout);
+
+      worker.onmessage = (event) => {
+        const message = event.data;
+
+        switch (message.type) {
+          case 'started':
+            // The timeout covers the learner's code, not loading Python and its packages
+            this.runtimeReady = true;
+            timeout = startTimeout();
+            break;
+
+          case 'input': {
+            // The program is waiting for a line of input; the timeout restarts once it is answered
+            clearTimeout(timeout);
+            const logs = this.createLogs(message.stdout, message.stderr);
+            (options?.onInput ? options.onInput({ prompt: message.prompt, logs }) : Promise.resolve(null))
+              .catch(() => null)
+              .then(value => {
+                if (worker !== this.worker || stopReason) return;
+                worker.postMessage({ type: 'input', value });
+                timeout = startTimeout();
+              });
+            break;
+          }
+
+          case 'result':
+            finish(this.createResult(message, startTime, runFiles), true);
+            break;
+
+          case 'error':
+            finish(fail(stopReason || this.limitOutput(message.error)));
+            break;
+        }
+      };
+
+      worker.onerror = (error) => {
+        finish(fail(stopReason || `Worker error: ${error.message}`));
+      };
+
+      worker.postMessage({
+        type: 'run',
+        code,
+        files: this.getPythonFiles(files),
+        requirements: this.getRequirements(entryFile, files),
+        // The worker runs from a blob: URL, so relative asset URLs are resolved against the page
+        indexURL: this.resolveUrl(PYODIDE_INDEX_URL),
+        wheelIndexURL: PYODIDE_WHEEL_INDEX_URL ? this.resolveUrl(PYODIDE_WHEEL_INDEX_URL) : null,
+        stdin: options?.stdin || '',
+        interactive: !!options?.onInput,
+        debug: !!options?.debug,
+        debugStepLimit: options?.debugStepLimit ?? DEBUG_STEP_LIMIT,
+        entryFile
+      });
+    });
   }
 
   stop(): void {
     super.stop();
-    // Note: Pyodide doesn't have a direct way to interrupt running code
-    // We rely on the timeout mechanism in the base class
+    this.stopRun?.('Execution stopped');
+  }
+
+  // Loads Pyodide ahead of the first run, so the learner doesn't wait for it when they click Run.
+  // Only the learner's own code is run warm, so this is always an ordinary runtime.
+  warmUp(): Promise<void> {
+    if (this.runtimeReady && !this.workerSandboxed) return Promise.resolve();
+    if (this.warmUpRequest) return this.warmUpRequest.promise;
+
+    const worker = this.startWorker(false);
+    let reject: (error: Error) => void = () => undefined;
+    const promise = new Promise<void>((resolve, rejectWarmUp) => {
+      reject = rejectWarmUp;
+      const handleMessage = (event: MessageEvent) => {
+        if (event.data.type !== 'warm' && event.data.type !== 'warm-error') return;
+        worker.removeEventListener('message', handleMessage);
+        if (event.data.type === 'warm') {
+          this.warmUpRequest = null;
+          this.runtimeReady = true;
+          resolve();
+        } else {
+          // A worker whose runtime failed to load is no use to later runs
+          this.terminateWorker(new Error(event.data.error));
+        }
+      };
+      worker.addEventListener('message', handleMessage);
+    });
+
+    this.warmUpRequest = { promise, reject };
+    worker.postMessage({ type: 'warm', indexURL: this.resolveUrl(PYODIDE_INDEX_URL) });
+    return promise;
+  }
+
+  isWarm(): boolean {
+    return this.runtimeReady;
+  }
+
+  dispose(): void {
+    this.stopRun?.('Execution stopped');
+    this.terminateWorker();
   }
 
   isSupported(): boolean {
@@ -235,96 +787,306 @@ stdout_content, stderr_content = _get_output()
     if (typeof window === 'undefined') {
       return false;
     }
-    
-    // Pyodide can be loaded dynamically, so we don't need to check for loadPyodide
-    // Just check for basic browser capabilities needed for Pyodide
+
+    // Pyodide is loaded inside a worker, so check for the browser capabilities it needs
     try {
       // Check for WebAssembly support (required by Pyodide)
       if (typeof WebAssembly === 'undefined') {
         return false;
       }
-      
+
       // Check for basic APIs that Pyodide needs
-      return typeof fetch !== 'undefined' && 
-             typeof Promise !== 'undefined' && 
+      return typeof Worker !== 'undefined' &&
+             typeof Blob !== 'undefined' &&
+             typeof fetch !== 'undefined' &&
+             typeof Promise !== 'undefined' &&
              typeof ArrayBuffer !== 'undefined';
-             
+
     } catch (error) {
       return false;
     }
   }
 
-  private async initializePyodide(): Promise<void> {
-    if (this.pyodide || this.isInitializing) {
-      return;
+  // Runs Pyodide in a Web Worker so long-running code doesn't block the page
+  private startWorker(sandboxed: boolean): RunnerWorker {
+    if (this.worker && this.workerSandboxed !== sandboxed) {
+      this.terminateWorker();
+    }
+    if (!this.worker) {
+      this.worker = createRunnerWorker(this.createWorkerCode(), sandboxed);
+      this.workerSandboxed = sandboxed;
+    }
+    return this.worker;
+  }
+
+  private terminateWorker(reason = new Error('The Python environment was shut down')): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.runtimeReady = false;
+    if (this.warmUpRequest) {
+      const { reject } = this.warmUpRequest;
+      this.warmUpRequest = null;
+      reject(reason);
     }
+  }
 
-    this.isInitializing = true;
-    
-    try {
-      // Load Pyodide script if not already loaded
-      if (!window.loadPyodide) {
-        await this.loadPyodideScript();
+  private createLogs(stdout: string, stderr: string): ConsoleLog[] {
+    const logs: ConsoleLog[] = [];
+
+    if (stdout) {
+      logs.push({
+        type: 'log',
+        content: stdout,
+        timestamp: Date.now()
+      });
+    }
+
+    if (stderr) {
+      logs.push({
+        type: 'error',
+        content: stderr,
+        timestamp: Date.now()
+      });
+    }
+
+    return logs;
+  }
+
+  private createResult(
+    { stdout, stderr, richOutputs, debugTrace }: WorkerOutput,
+    startTime: number,
+    files: FileMap
+  ): ExecutionResult {
+    const logs = this.createLogs(stdout, stderr);
+    const executionTime = Date.now() - startTime;
+
+    // If there's error output, consider it a failure
+    const success = !stderr || !stderr.includes('Error:');
+
+    // Apply output and log limits for security
+    const limitedOutput = this.limitOutput(stdout || '');
+    const limitedLogs = this.limitLogs(logs);
+
+    // Point the editor at the line the traceback ends in
+    const runtimeDiagnostic = success ? null : createRuntimeDiagnostic(stderr, files, 'python');
+
+    return {
+      success,
+      output: limitedOutput,
+      error: stderr && stderr.includes('Error:') ? this.limitOutput(stderr) : undefined,
+      executionTime,
+      logs: limitedLogs,
+      diagnostics: runtimeDiagnostic ? [runtimeDiagnostic] : undefined,
+      formattedOutput: richOutputs.length > 0 ? this.interleaveOutput(limitedOutput, richOutputs) : undefined,
+      debugTrace
+    };
+  }
+
+  // Splits printed text at the points where figures and HTML were produced
+  private interleaveOutput(output: string, richOutputs: RichOutput[]): FormattedOutput[] {
+    const formatted: FormattedOutput[] = [];
+    let position = 0;
+
+    const pushText = (end: number) => {
+      if (end > position) {
+        formatted.push({ type: 'log', content: output.slice(position, end), timestamp: Date.now() });
+        position = end;
       }
+    };
 
-      // Temporarily suppress all console output during Pyodide initialization
-      const originalConsole = {
-        log: console.log,
-        info: console.info,
-        warn: console.warn,
-        error: console.error
-      };
-      
-      // Replace console methods with silent versions
-      console.log = () => {};
-      console.info = () => {};
-      console.warn = () => {};
-      console.error = () => {};
+    richOutputs.forEach(richOutput => {
+      pushText(Math.min(richOutput.offset, output.length));
+      formatted.push({ type: richOutput.type, content: richOutput.content, timestamp: Date.now() });
+    });
+    pushText(output.length);
 
-      try {
-        // Initialize Pyodide silently
-        this.pyodide = await window.loadPyodide({
-          indexURL: 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/',
-          stdout: () => {
-            // Filter out common Pyodide internal warnings - no console logging
-          },
-          stderr: () => {
-            // Filter out common Pyodide internal warnings - no console logging
+    return formatted;
+  }
+
+  private createWorkerCode(): string {
+    return `
+      const pythonSetup = ${JSON.stringify(PYTHON_SETUP)};
+      const executionCode = ${JSON.stringify(EXECUTION_CODE)};
+      let pyodide = null;
+      let runtime = null;
+      let pendingInput = null;
+      let workingDirectory = '';
+      let installedRequirements = '';
+      let labFiles = [];
+
+      // Called from Python with the output captured so far; resolves to undefined (None) on EOF
+      function requestInput(prompt, stdout, stderr) {
+        return new Promise(resolve => {
+          pendingInput = resolve;
+          self.postMessage({ type: 'input', prompt, stdout, stderr });
+        });
+      }
+
+      // Loads Pyodide and runs the security setup, once for the life of the worker
+      function loadRuntime(indexURL) {
+        if (!runtime) {
+          runtime = (async () => {
+            // Pyodide execution environment, from the CDN or self-hosted assets
+            importScripts(indexURL + 'pyodide.js');
+
+            pyodide = await loadPyodide({
+              indexURL,
+              stdout: () => {
+                // Filter out common Pyodide internal warnings - no console logging
+              },
+              stderr: () => {
+                // Filter out common Pyodide internal warnings - no console logging
+              }
+            });
+
+            workingDirectory = pyodide.FS.cwd();
+            pyodide.globals.set('_lab_directory', workingDirectory);
+            pyodide.runPython(pythonSetup);
+          })();
+        }
+        return runtime;
+      }
+
+      async function run(message) {
+        await loadRuntime(message.indexURL);
+        // Start from the state the setup left, before packages for this run are loaded on top of it
+        pyodide.runPython('_reset_run()');
+
+        // Load only the packages the lab's code imports, silently
+        const quiet = { messageCallback: () => {}, errorCallback: () => {} };
+        for (const source of [message.code, ...message.files.map(file => file.content)]) {
+          await pyodide.loadPackagesFromImports(source, quiet);
+        }
+
+        // Requirements installed for an earlier run are still there
+        const requirements = message.requirements.join('\\n');
+        if (message.requirements.length > 0 && requirements !== installedRequirements) {
+          await pyodide.loadPackage('micropip', quiet);
+          const micropip = pyodide.pyimport('micropip');
+          try {
+            await micropip.install.callKwargs(message.requirements, message.wheelIndexURL
+              ? { index_urls: [message.wheelIndexURL] }
+              : {});
+          } catch (error) {
+            throw new Error('Failed to install requirements.txt: ' + (error && error.message ? error.message : String(error)));
+          } finally {
+            micropip.destroy();
+          }
+          installedRequirements = requirements;
+        }
+
+        // The previous run's lab files go too
+        labFiles.forEach(path => {
+          try {
+            pyodide.FS.unlink(path);
+          } catch (error) {
+            // Already gone
           }
         });
+        labFiles = message.files.map(file => file.path);
 
-        // Load common packages silently
-        await this.pyodide.loadPackage(['numpy', 'pandas', 'matplotlib']);
-        
-      } finally {
-        // Restore original console methods
-        console.log = originalConsole.log;
-        console.info = originalConsole.info;
-        console.warn = originalConsole.warn;
-        console.error = originalConsole.error;
+        // Set up files in Pyodide filesystem; mkdirTree only handles absolute paths
+        message.files.forEach(file => {
+          try {
+            if (file.directory) {
+              pyodide.FS.mkdirTree(workingDirectory + '/' + file.directory);
+            }
+            pyodide.FS.writeFile(file.path, file.content);
+          } catch (error) {
+            // Silently ignore file write failures
+          }
+        });
+
+        // Values read by the setup and execution code
+        pyodide.globals.set('_stdin_text', message.stdin);
+        pyodide.globals.set('_request_input', message.interactive ? requestInput : undefined);
+        pyodide.globals.set('_user_code', message.code);
+        pyodide.globals.set('_user_filename', message.entryFile);
+        pyodide.globals.set('_debug_mode', message.debug);
+        pyodide.globals.set('_debug_step_limit', message.debugStepLimit);
+        pyodide.globals.set('_debug_files_json', JSON.stringify(message.files.map(file => file.path).concat(message.entryFile)));
+        pyodide.globals.set('_debug_cwd', workingDirectory);
+        pyodide.runPython('_start_run()');
+
+        self.postMessage({ type: 'started' });
+        await pyodide.runPythonAsync(executionCode);
       }
-      
-    } catch (error) {
-      this.pyodide = null;
-      throw error;
-    } finally {
-      this.isInitializing = false;
+
+      function getOutput() {
+        try {
+          const [stdout, stderr] = pyodide.runPython('_get_output()');
+          const richOutputs = JSON.parse(pyodide.runPython('_get_rich_outputs()'));
+          // Lab modules are imported from the working directory; show their lab paths in tracebacks
+          const labStderr = workingDirectory ? stderr.split('File "' + workingDirectory + '/').join('File "') : stderr;
+          const debugTrace = pyodide.globals.get('_debug_mode') ? JSON.parse(pyodide.runPython('_get_debug_trace()')) : undefined;
+          return { stdout, stderr: labStderr, richOutputs, debugTrace };
+        } catch (error) {
+          return { stdout: '', stderr: '', richOutputs: [] };
+        }
+      }
+
+      self.onmessage = event => {
+        const message = event.data;
+
+        if (message.type === 'input' && pendingInput) {
+          const resolveInput = pendingInput;
+          pendingInput = null;
+          resolveInput(message.value ?? undefined);
+          return;
+        }
+
+        if (message.type === 'warm') {
+          loadRuntime(message.indexURL).then(() => {
+            self.postMessage({ type: 'warm' });
+          }).catch(error => {
+            self.postMessage({ type: 'warm-error', error: error && error.message ? error.message : String(error) });
+          });
+          return;
+        }
+
+        if (message.type === 'run') {
+          run(message).then(() => {
+            self.postMessage({ type: 'result', ...getOutput() });
+          }).catch(error => {
+            self.postMessage({
+              type: 'error',
+              error: error && error.message ? error.message : String(error),
+              ...(pyodide ? getOutput() : { stdout: '', stderr: '' })
+            });
+          });
+        }
+      };
+    `;
+  }
+
+  private getPythonFiles(files?: FileMap): PythonFile[] {
+    return Object.entries(files || {})
+      .filter(([fileName]) => fileName.endsWith('.py'))
+      // File map keys are lab paths, so nested modules need their folders
+      .map(([fileName, content]) => ({ path: fileName, directory: dirname(fileName), content }));
+  }
+
+  // Package specifiers from the requirements.txt nearest the entry file, looking up through its
+  // folders to the lab root, without comments and pip options
+  private getRequirements(entryFile: string, files?: FileMap): string[] {
+    let directory = dirname(entryFile);
+    while (directory && files?.[`${directory}/${REQUIREMENTS_FILE}`] === undefined) {
+      directory = dirname(directory);
     }
+    return (files?.[directory ? `${directory}/${REQUIREMENTS_FILE}` : REQUIREMENTS_FILE] || '')
+      .split('\n')
+      .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+      .filter(line => line && !line.startsWith('-'));
   }
 
-  private async loadPyodideScript(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const script = document.createElement('script');
-      script.src = 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/pyodide.js';
-      script.onload = () => resolve();
-      script.onerror = () => reject(new Error('Failed to load Pyodide script'));
-      document.head.appendChild(script);
-    });
+  private resolveUrl(url: string): string {
+    const resolved = new URL(url, window.location.href).href;
+    return resolved.endsWith('/') ? resolved : `${resolved}/`;
   }
 
   private limitOutput(output: string): string {
     if (output.length > this.config.maxOutputSize) {
-      return output.substring(0, this.config.maxOutputSize) + 
+      return output.substring(0, this.config.maxOutputSize) +
              `\n\n... (Output truncated - exceeded ${this.config.maxOutputSize} characters limit)`;
     }
     return output;
@@ -342,18 +1104,4 @@ stdout_content, stderr_content = _get_output()
     }
     return logs;
   }
-
-  private setupFiles(files: FileMap): void {
-    if (!this.pyodide) return;
-
-    Object.entries(files).forEach(([fileName, content]) => {
-      if (fileName.endsWith('.py')) {
-        try {
-          this.pyodide!.FS.writeFile(fileName, content);
-        } catch (error) {
-          // Silently ignore file write failures
-        }
-      }
-    });
-  }
-}
\ No newline at end of file
+}
@@ -1,48 +1,31 @@
-import { CodeRunner, SupportedLanguage } from '../../types/runner';
-import { JavaScriptRunner } from './JavaScriptRunner';
-import { PythonRunner } from './PythonRunner';
+import { CodeRunner, RunnerCapabilities, SupportedLanguage } from '../../types/runner';
+import { runnerRegistry } from './runnerRegistry';
 
+// Entry point for creating runners; the languages themselves are declared in the runner registry
 export class RunnerFactory {
-  static createRunner(language: SupportedLanguage): CodeRunner {
-    switch (language) {
-      case 'javascript':
-      case 'typescript':
-        return new JavaScriptRunner();
-      
-      case 'python':
-        return new PythonRunner();
-      
-      // Future runners will be added here
-      // case 'html':
-      //   return new WebRunner();
-      
-      default:
-        throw new Error(`Unsupported language: ${language}`);
-    }
+  // Loads the runner's module on first use, so this resolves only once it has downloaded
+  static createRunner(language: SupportedLanguage): Promise<CodeRunner> {
+    return runnerRegistry.createRunner(language);
   }
 
   static getSupportedLanguages(): SupportedLanguage[] {
-    return ['javascript', 'typescript', 'python'];
+    return runnerRegistry.getLanguages();
   }
 
   static isLanguageSupported(language: string): language is SupportedLanguage {
-    return this.getSupportedLanguages().includes(language as SupportedLanguage);
+    return !!runnerRegistry.getDefinition(language);
+  }
+
+  // Whether this browser can run the language, checked without loading the runner
+  static isRunnableInBrowser(language: SupportedLanguage): boolean {
+    return runnerRegistry.isSupported(language);
+  }
+
+  static getCapabilities(language: SupportedLanguage | null): RunnerCapabilities {
+    return runnerRegistry.getCapabilities(language);
   }
 
   static detectLanguageFromFile(fileName: string): SupportedLanguage | null {
-    const extension = fileName.split('.').pop()?.toLowerCase();
-    
-    const languageMap: Record<string, SupportedLanguage> = {
-      'js': 'javascript',
-      'jsx': 'javascript',
-      'ts': 'typescript',
-      'tsx': 'typescript',
-      'py': 'python',
-      // Future mappings
-      // 'html': 'html',
-      // 'css': 'css',
-    };
-    
-    return languageMap[extension || ''] || null;
+    return runnerRegistry.detectLanguage(fileName);
   }
-}
\ No newline at end of file
+}
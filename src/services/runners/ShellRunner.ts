@@ -0,0 +1,79 @@
+import { BaseRunner } from './BaseRunner';
+import { CodeDiagnostic, ExecutionOptions, ExecutionResult, FileMap } from '../../types/runner';
+import { dirname } from './pathUtils';
+import { ShellStoppedError, ShellWorkerSession } from './shellWorkerSession';
+
+// Colour codes only mean something in the terminal tab; the Output tab shows plain text
+const ANSI_SEQUENCE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;?]*[A-Za-z]`, 'g');
+
+// Runs shell scripts in the simulated Bash shell in a worker, with a fresh copy of the lab's files in the
+// home directory and the script's folder as the working directory
+export class ShellRunner extends BaseRunner {
+  private session: ShellWorkerSession | null = null;
+
+  constructor() {
+    super('shell');
+  }
+
+  async execute(code: string, files?: FileMap, options?: ExecutionOptions): Promise<ExecutionResult> {
+    const startTime = Date.now();
+    const entryFile = options?.entryFile || 'script.sh';
+
+    let session: ShellWorkerSession | null = null;
+    try {
+      this.isRunning = true;
+      session = new ShellWorkerSession({ ...files, [entryFile]: code }, { timeout: this.config.timeout }, dirname(entryFile) || '.');
+      this.session = session;
+
+      const result = await session.run(code, { stdin: options?.stdin, scriptName: entryFile.split('/').pop() });
+      const stderr = result.stderr.replace(ANSI_SEQUENCE, '').trimEnd();
+      const diagnostics: CodeDiagnostic[] = result.problems.map(problem => ({
+        file: entryFile,
+        line: problem.line,
+        column: 1,
+        message: problem.message,
+        severity: 'error',
+        source: 'bash'
+      }));
+
+      return {
+        success: result.status === 0,
+        output: this.limitOutput(result.stdout.replace(ANSI_SEQUENCE, '')),
+        error: result.status === 0 ? undefined : `Script exited with status ${result.status}`,
+        executionTime: Date.now() - startTime,
+        logs: stderr ? [{ type: 'error', content: this.limitOutput(stderr), timestamp: Date.now() }] : [],
+        diagnostics: diagnostics.length > 0 ? diagnostics : undefined
+      };
+    } catch (error) {
+      return {
+        success: false,
+        output: '',
+        error: error instanceof ShellStoppedError
+          ? 'Execution stopped'
+          : error instanceof Error ? error.message : 'Shell execution failed',
+        executionTime: Date.now() - startTime,
+        logs: []
+      };
+    } finally {
+      session?.stop();
+      if (this.session === session) {
+        this.session = null;
+        this.isRunning = false;
+      }
+    }
+  }
+
+  stop(): void {
+    this.session?.stop();
+    this.session = null;
+    super.stop();
+  }
+
+  private limitOutput(output: string): string {
+    if (output.length > this.config.maxOutputSize) {
+      return output.substring(0, this.config.maxOutputSize) +
+             `\n\n... (Output truncated - exceeded ${this.config.maxOutputSize} characters limit)`;
+    }
+    return output;
+  }
+}
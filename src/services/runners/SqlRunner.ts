@@ -0,0 +1,315 @@
+import { BaseRunner } from './BaseRunner';
+import { CodeDiagnostic, ExecutionOptions, ExecutionResult, FileMap, FormattedOutput, SqlDatabase, TableOutput } from '../../types/runner';
+
+// sql.js (SQLite compiled to WebAssembly); point VITE_SQLJS_URL at self-hosted assets to run offline
+export const SQLJS_URL = import.meta.env.VITE_SQLJS_URL || 'https://cdn.jsdelivr.net/npm/sql.js@1.14.2/dist/';
+
+// Lab files that build the database before each run: schemas first, then seed data
+const SCHEMA_FILE_PATTERN = /(^|\/)([^/]+\.)?schema\.sql$/i;
+const SEED_FILE_PATTERN = /(^|\/)([^/]+\.)?seed\.sql$/i;
+
+// Rows kept per result set; the rest are counted but not shown
+const MAX_TABLE_ROWS = 1000;
+
+// What the worker reports for each statement it ran
+interface StatementOutput {
+  statement: string;
+  start: number; // offset of the statement in its file
+  columns: string[];
+  rows: TableOutput['rows'];
+  rowCount: number;
+  changes: number; // rows inserted, updated or deleted
+}
+
+interface StatementError {
+  message: string;
+  start: number;
+  file: string;
+}
+
+// Position of the first thing after the whitespace and comments at `position`
+const skipComments = (content: string, position: number): number => {
+  const skipped = content.slice(position).match(/^(\s+|--[^\n]*|\/\*[\s\S]*?\*\/)+/);
+  return position + (skipped ? skipped[0].length : 0);
+};
+
+interface SqlFile {
+  path: string;
+  content: string;
+}
+
+export class SqlRunner extends BaseRunner {
+  private worker: Worker | null = null;
+  private workerUrl: string | null = null;
+  private stopRun: ((reason: string) => void) | null = null;
+
+  constructor() {
+    super('sql');
+  }
+
+  async execute(code: string, files?: FileMap, options?: ExecutionOptions): Promise<ExecutionResult> {
+    const startTime = Date.now();
+    const entryFile = options?.entryFile || 'main.sql';
+    const setupFiles = this.getSetupFiles(files, entryFile);
+
+    return new Promise((resolve) => {
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (result: ExecutionResult) => {
+        clearTimeout(timeout);
+        this.terminateWorker();
+        this.stopRun = null;
+        this.isRunning = false;
+        resolve(result);
+      };
+
+      const fail = (error: string): ExecutionResult => ({
+        success: false,
+        output: '',
+        error,
+        executionTime: Date.now() - startTime,
+        logs: []
+      });
+
+      try {
+        this.isRunning = true;
+
+        const blob = new Blob([this.createWorkerCode()], { type: 'application/javascript' });
+        this.workerUrl = URL.createObjectURL(blob);
+        this.worker = new Worker(this.workerUrl);
+      } catch (error) {
+        finish(fail(error instanceof Error ? error.message : 'Failed to start SQLite'));
+        return;
+      }
+
+      const worker = this.worker;
+
+      // SQLite runs synchronously inside the worker, so stopping it means terminating the worker
+      this.stopRun = (reason: string) => finish(fail(reason));
+
+      worker.onmessage = (event) => {
+        const message = event.data;
+
+        switch (message.type) {
+          case 'started':
+            // The timeout covers the statements, not downloading SQLite
+            timeout = setTimeout(() => {
+              this.stopRun?.(`Execution timeout - queries took longer than ${this.config.timeout / 1000} seconds`);
+            }, this.config.timeout);
+            break;
+
+          case 'result':
+            finish(this.createResult(message, startTime, { ...(files || {}), [entryFile]: code }));
+            break;
+
+          case 'error':
+            finish(fail(this.limitOutput(message.error)));
+            break;
+        }
+      };
+
+      worker.onerror = (error) => {
+        finish(fail(`Worker error: ${error.message}`));
+      };
+
+      const database = options?.database ? options.database.slice() : null;
+      worker.postMessage({
+        type: 'run',
+        code,
+        entryFile,
+        setupFiles,
+        database,
+        maxRows: MAX_TABLE_ROWS,
+        // The worker runs from a blob: URL, so relative asset URLs are resolved against the page
+        baseURL: this.resolveUrl(SQLJS_URL)
+      }, database ? [database.buffer] : []);
+    });
+  }
+
+  stop(): void {
+    super.stop();
+    this.stopRun?.('Execution stopped');
+  }
+
+  isSupported(): boolean {
+    return super.isSupported() && typeof WebAssembly !== 'undefined';
+  }
+
+  private terminateWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.workerUrl) {
+      URL.revokeObjectURL(this.workerUrl);
+      this.workerUrl = null;
+    }
+  }
+
+  private createResult(
+    { statements, error, database }: { statements: StatementOutput[]; error: StatementError | null; database: SqlDatabase },
+    startTime: number,
+    files: FileMap
+  ): ExecutionResult {
+    // Statements that return rows show them as a table, the others as a line saying what they changed
+    const formattedOutput = statements.map((output): FormattedOutput => (output.columns.length > 0
+      ? { type: 'table', content: this.createTable(output), timestamp: Date.now() }
+      : { type: 'log', content: this.describeStatement(output), timestamp: Date.now() }));
+
+    // Rows as the sqlite3 shell prints them in list mode, so labs can check output as text
+    const output = this.limitOutput(statements
+      .flatMap(item => item.rows.map(row => row.map(value => (value === null ? '' : String(value))).join('|')))
+      .join('\n'));
+
+    return {
+      success: !error,
+      output,
+      error: error ? this.describeError(error, files) : undefined,
+      executionTime: Date.now() - startTime,
+      logs: [],
+      diagnostics: error ? [this.createDiagnostic(error, files)] : undefined,
+      formattedOutput: formattedOutput.length > 0 ? formattedOutput : undefined,
+      database
+    };
+  }
+
+  private createTable({ statement, columns, rows, rowCount }: StatementOutput): TableOutput {
+    return { statement: statement.slice(skipComments(statement, 0)), columns, rows, rowCount };
+  }
+
+  private describeStatement({ statement, changes }: StatementOutput): string {
+    const summary = statement.slice(skipComments(statement, 0)).replace(/\s+/g, ' ').trim();
+    const shortened = summary.length > 80 ? `${summary.slice(0, 77)}...` : summary;
+    return changes > 0 ? `${shortened} -- ${changes} row${changes === 1 ? '' : 's'} affected` : shortened;
+  }
+
+  private describeError(error: StatementError, files: FileMap): string {
+    const { line } = this.locate(files[error.file] || '', error.start);
+    return `Error in ${error.file} at line ${line}: ${error.message}`;
+  }
+
+  private createDiagnostic(error: StatementError, files: FileMap): CodeDiagnostic {
+    const { line, column } = this.locate(files[error.file] || '', error.start);
+    return { file: error.file, line, column, message: error.message, severity: 'error', source: 'sqlite' };
+  }
+
+  // Line and column where a statement starts, past the whitespace and comments before it
+  private locate(content: string, start: number): { line: number; column: number } {
+    const before = content.slice(0, skipComments(content, start)).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+  }
+
+  private createWorkerCode(): string {
+    return `
+      const quote = name => '"' + String(name).replace(/"/g, '""') + '"';
+      const toCell = value => value instanceof Uint8Array ? '<blob ' + value.length + ' bytes>' : value;
+      const totalChanges = db => db.exec('SELECT total_changes()')[0].values[0][0];
+
+      // Runs a file statement by statement, keeping what ran before a failing statement
+      function runStatements(db, code, file, maxRows) {
+        const outputs = [];
+        const iterator = db.iterateStatements(code);
+        let start = 0;
+        try {
+          for (;;) {
+            start = code.length - iterator.getRemainingSQL().length;
+            const next = iterator.next();
+            if (next.done) break;
+
+            const statement = next.value;
+            const changesBefore = totalChanges(db);
+            const columns = statement.getColumnNames();
+            const rows = [];
+            let rowCount = 0;
+            while (statement.step()) {
+              rowCount++;
+              if (rows.length < maxRows) rows.push(statement.get().map(toCell));
+            }
+            outputs.push({
+              statement: statement.getSQL(),
+              start,
+              columns,
+              rows,
+              rowCount,
+              changes: columns.length > 0 ? 0 : totalChanges(db) - changesBefore
+            });
+          }
+          return { outputs, error: null };
+        } catch (error) {
+          return { outputs, error: { message: error && error.message ? error.message : String(error), start, file } };
+        }
+      }
+
+      function readTables(db) {
+        const [result] = db.exec(
+          "SELECT name, type FROM sqlite_schema WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name"
+        );
+        return (result ? result.values : []).map(([name, type]) => {
+          const [info] = db.exec('PRAGMA table_info(' + quote(name) + ')');
+          const columns = (info ? info.values : []).map(([, columnName, columnType, notNull, , primaryKey]) => ({
+            name: columnName,
+            type: columnType || '',
+            notNull: !!notNull,
+            primaryKey: primaryKey > 0
+          }));
+          const rowCount = type === 'table' ? db.exec('SELECT COUNT(*) FROM ' + quote(name))[0].values[0][0] : null;
+          return { name, type, columns, rowCount };
+        });
+      }
+
+      self.onmessage = async event => {
+        const message = event.data;
+        let db = null;
+        try {
+          importScripts(message.baseURL + 'sql-wasm.js');
+          const SQL = await initSqlJs({ locateFile: file => message.baseURL + file });
+          self.postMessage({ type: 'started' });
+
+          // A pinned database carries on where the last run left off; otherwise the lab's setup files build a fresh one
+          db = message.database ? new SQL.Database(message.database) : new SQL.Database();
+          let result = { outputs: [], error: null };
+          if (!message.database) {
+            for (const file of message.setupFiles) {
+              result = runStatements(db, file.content, file.path, 0);
+              if (result.error) break;
+            }
+          }
+          result = result.error ? { outputs: [], error: result.error } : runStatements(db, message.code, message.entryFile, message.maxRows);
+
+          const tables = readTables(db);
+          const file = db.export();
+          self.postMessage({
+            type: 'result',
+            statements: result.outputs,
+            error: result.error,
+            database: { file, tables }
+          }, [file.buffer]);
+        } catch (error) {
+          self.postMessage({ type: 'error', error: error && error.message ? error.message : String(error) });
+        } finally {
+          if (db) db.close();
+        }
+      };
+    `;
+  }
+
+  // Schema and seed files in path order, without the file being run
+  private getSetupFiles(files: FileMap | undefined, entryFile: string): SqlFile[] {
+    const paths = Object.keys(files || {}).filter(path => path !== entryFile).sort();
+    return [
+      ...paths.filter(path => SCHEMA_FILE_PATTERN.test(path)),
+      ...paths.filter(path => SEED_FILE_PATTERN.test(path))
+    ].map(path => ({ path, content: files![path] }));
+  }
+
+  private resolveUrl(url: string): string {
+    const resolved = new URL(url, window.location.href).href;
+    return resolved.endsWith('/') ? resolved : `${resolved}/`;
+  }
+
+  private limitOutput(output: string): string {
+    if (output.length > this.config.maxOutputSize) {
+      return output.substring(0, this.config.maxOutputSize) +
+             `\n\n... (Output truncated - exceeded ${this.config.maxOutputSize} characters limit)`;
+    }
+    return output;
+  }
+}
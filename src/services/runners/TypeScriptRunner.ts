@@ -0,0 +1,67 @@
+import { JavaScriptRunner, SourceLocation } from './JavaScriptRunner';
+import { CodeDiagnostic, ExecutionOptions, ExecutionResult, FileMap } from '../../types/runner';
+import { InlineSourceMap } from './sourceMap';
+import { getTypeScriptDiagnostics, isTypeScriptFile, transpileTypeScript } from './typescriptService';
+
+export class TypeScriptRunner extends JavaScriptRunner {
+  private sourceMaps = new Map<string, InlineSourceMap>();
+
+  constructor() {
+    super('typescript');
+  }
+
+  async execute(code: string, files?: FileMap, options?: ExecutionOptions): Promise<ExecutionResult> {
+    const startTime = Date.now();
+    const entryFile = options?.entryFile || 'main.ts';
+    const fileMap: FileMap = { ...(files || {}), [entryFile]: code };
+
+    let diagnostics: CodeDiagnostic[] = [];
+    let compiledFiles: FileMap;
+
+    try {
+      // Type-check first so problems are listed even when the run fails
+      diagnostics = await getTypeScriptDiagnostics(fileMap);
+      compiledFiles = await transpileTypeScript(fileMap);
+    } catch (error) {
+      return {
+        success: false,
+        output: '',
+        error: `TypeScript compilation failed: ${error instanceof Error ? error.message : String(error)}`,
+        executionTime: Date.now() - startTime,
+        logs: [],
+        diagnostics
+      };
+    }
+
+    this.sourceMaps.clear();
+    Object.entries(compiledFiles).forEach(([fileName, compiled]) => {
+      if (!isTypeScriptFile(fileName)) return;
+      const sourceMap = InlineSourceMap.fromCode(compiled);
+      if (sourceMap) {
+        this.sourceMaps.set(fileName, sourceMap);
+      }
+    });
+
+    const result = await super.execute(compiledFiles[entryFile], compiledFiles, { ...options, entryFile });
+
+    // Type errors first, then problems found while linking modules
+    const allDiagnostics = [...diagnostics, ...(result.diagnostics || [])];
+
+    return {
+      ...result,
+      executionTime: Date.now() - startTime,
+      diagnostics: allDiagnostics
+    };
+  }
+
+  protected mapLocation(location: SourceLocation): SourceLocation {
+    const sourceMap = this.sourceMaps.get(location.fileName);
+    const original = sourceMap?.originalPositionFor(location.line, location.column);
+    if (!original) {
+      return location;
+    }
+
+    // Compiled files keep their .ts path, so the original position belongs to the same file
+    return { fileName: location.fileName, line: original.line, column: original.column };
+  }
+}
@@ -0,0 +1,217 @@
+import type { Document, LineCounter, YAMLError } from 'yaml';
+import { BaseRunner } from './BaseRunner';
+import { CodeDiagnostic, ExecutionOptions, ExecutionResult, FileMap } from '../../types/runner';
+import { dockerfileLinter } from './dockerfileLint';
+import { describeManifest, isKubernetesManifest, kubernetesValidator } from './kubernetesValidation';
+import { ValidationProblem, ValuePath } from './schemaValidation';
+import { isWorkflow, workflowValidator } from './workflowValidation';
+
+type YamlModule = typeof import('yaml');
+
+export type ConfigLanguage = 'yaml' | 'json' | 'dockerfile';
+
+// What was checked in one document of the file and what was found
+interface DocumentReport {
+  label: string;
+  diagnostics: CodeDiagnostic[];
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// "Runs" config files for DevOps labs by validating them offline: YAML and JSON syntax, Kubernetes
+// manifests against bundled schemas, GitHub Actions workflow structure and Dockerfile best practices
+export class ValidationRunner extends BaseRunner {
+  constructor(language: ConfigLanguage) {
+    super(language);
+  }
+
+  async execute(code: string, _files?: FileMap, options?: ExecutionOptions): Promise<ExecutionResult> {
+    const startTime = Date.now();
+    const file = options?.entryFile || (this.language === 'dockerfile' ? 'Dockerfile' : `config.${this.language}`);
+
+    try {
+      this.isRunning = true;
+      const reports = this.language === 'dockerfile'
+        ? [this.lintDockerfile(code, file)]
+        : await this.validateDocuments(code, file);
+      return this.createResult(reports, startTime);
+    } catch (error) {
+      return {
+        success: false,
+        output: '',
+        error: error instanceof Error ? error.message : 'Validation failed',
+        executionTime: Date.now() - startTime,
+        logs: []
+      };
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private lintDockerfile(code: string, file: string): DocumentReport {
+    const diagnostics = dockerfileLinter.lint(code).map(problem => ({ file, ...problem, source: 'dockerfile' }));
+    return { label: 'Dockerfile', diagnostics };
+  }
+
+  private async validateDocuments(code: string, file: string): Promise<DocumentReport[]> {
+    // The parser is only downloaded the first time a config file is validated
+    const yaml = await import('yaml');
+    const lineCounter = new yaml.LineCounter();
+
+    if (this.language === 'json') {
+      let value: unknown;
+      try {
+        value = JSON.parse(code);
+      } catch (error) {
+        return [{ label: 'JSON', diagnostics: [this.createJsonDiagnostic(error, code, file)] }];
+      }
+      // JSON is valid YAML, so the YAML parser supplies the positions of values
+      const document = yaml.parseDocument(code, { lineCounter });
+      return [this.checkValue(value, 'JSON', yaml, document, lineCounter, file)];
+    }
+
+    const parsed = yaml.parseAllDocuments(code, { lineCounter });
+    const documents = Array.isArray(parsed) ? parsed : [];
+    if (documents.length === 0) {
+      return [{ label: 'YAML', diagnostics: [] }];
+    }
+
+    return documents.map((document, index) => {
+      const label = documents.length > 1 ? `Document ${index + 1}` : 'YAML';
+      const syntaxProblems = [
+        ...document.errors.map(error => this.createYamlDiagnostic(error, 'error', file)),
+        ...document.warnings.map(warning => this.createYamlDiagnostic(warning, 'warning', file))
+      ];
+      if (document.errors.length > 0) {
+        return { label, diagnostics: syntaxProblems };
+      }
+
+      const report = this.checkValue(document.toJS(), label, yaml, document, lineCounter, file);
+      return { ...report, diagnostics: [...syntaxProblems, ...report.diagnostics] };
+    });
+  }
+
+  // Checks a parsed document against whatever it turns out to be
+  private checkValue(
+    value: unknown,
+    label: string,
+    yaml: YamlModule,
+    document: Document,
+    lineCounter: LineCounter,
+    file: string
+  ): DocumentReport {
+    const prefix = label === 'YAML' || label === 'JSON' ? '' : `${label}: `;
+    let title = label;
+    let problems: ValidationProblem[] = [];
+    let source = 'yaml';
+
+    if (isWorkflow(file, value)) {
+      title = `${prefix}GitHub Actions workflow${typeof value.name === 'string' ? ` "${value.name}"` : ''}`;
+      problems = workflowValidator.validate(value);
+      source = 'github-actions';
+    } else if (isKubernetesManifest(value)) {
+      title = `${prefix}Kubernetes ${describeManifest(value)}`;
+      problems = kubernetesValidator.validate(value);
+      source = 'kubernetes';
+    }
+
+    return {
+      label: title,
+      diagnostics: problems.map(problem => ({
+        file,
+        ...this.locate(yaml, document, problem.path, lineCounter),
+        message: problem.message,
+        severity: problem.severity,
+        source,
+        code: problem.code
+      }))
+    };
+  }
+
+  // Position of the key or list item a problem is about, or of the closest parent that exists
+  private locate(yaml: YamlModule, document: Document, path: ValuePath, lineCounter: LineCounter) {
+    let node: unknown = document.contents;
+    let offset = yaml.isNode(node) && node.range ? node.range[0] : 0;
+
+    for (const segment of path) {
+      if (yaml.isMap(node)) {
+        const pair = node.items.find(item => yaml.isScalar(item.key) && item.key.value === segment);
+        if (!pair) break;
+        if (yaml.isNode(pair.key) && pair.key.range) offset = pair.key.range[0];
+        node = pair.value;
+      } else if (yaml.isSeq(node) && typeof segment === 'number' && node.items[segment] !== undefined) {
+        node = node.items[segment];
+        if (yaml.isNode(node) && node.range) offset = node.range[0];
+      } else {
+        break;
+      }
+    }
+
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  }
+
+  private createYamlDiagnostic(error: YAMLError, severity: 'error' | 'warning', file: string): CodeDiagnostic {
+    const position = error.linePos?.[0];
+    return {
+      file,
+      line: position?.line || 1,
+      column: position?.col || 1,
+      // Drop the position and source excerpt the parser appends
+      message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+      severity,
+      source: 'yaml',
+      code: error.code
+    };
+  }
+
+  private createJsonDiagnostic(error: unknown, code: string, file: string): CodeDiagnostic {
+    const message = error instanceof Error ? error.message : 'Invalid JSON';
+    // Browsers report either a line and column or an offset into the text
+    const lineColumn = message.match(/line (\d+) column (\d+)/);
+    const offset = message.match(/position (\d+)/);
+    const before = offset ? code.slice(0, Number(offset[1])).split('\n') : null;
+
+    return {
+      file,
+      line: lineColumn ? Number(lineColumn[1]) : before ? before.length : 1,
+      column: lineColumn ? Number(lineColumn[2]) : before ? before[before.length - 1].length + 1 : 1,
+      message: message
+        .replace(/^JSON\.parse: /, '')
+        .replace(/ (in JSON )?at (position|line) \d+.*$/, '')
+        .replace(/ of the JSON data$/, ''),
+      severity: 'error',
+      source: 'json'
+    };
+  }
+
+  private createResult(reports: DocumentReport[], startTime: number): ExecutionResult {
+    const diagnostics = reports.flatMap(report => report.diagnostics).sort((a, b) => a.line - b.line || a.column - b.column);
+    const errors = diagnostics.filter(item => item.severity === 'error').length;
+
+    const summarize = (items: CodeDiagnostic[]) => {
+      const parts = [
+        [items.filter(item => item.severity === 'error').length, 'error'],
+        [items.filter(item => item.severity === 'warning').length, 'warning'],
+        [items.filter(item => item.severity === 'info').length, 'note']
+      ] as const;
+      const found = parts.filter(([total]) => total > 0).map(([total, word]) => plural(total, word));
+      return found.length > 0 ? found.join(', ') : 'no problems found';
+    };
+
+    const output = [
+      ...reports.map(report => `${report.label}: ${summarize(report.diagnostics)}`),
+      '',
+      errors > 0 ? `Validation failed with ${summarize(diagnostics)}` : `Valid${diagnostics.length > 0 ? `, with ${summarize(diagnostics)}` : ''}`
+    ].join('\n');
+
+    return {
+      success: errors === 0,
+      output,
+      error: errors > 0 ? `Validation found ${plural(errors, 'error')}` : undefined,
+      executionTime: Date.now() - startTime,
+      logs: [],
+      diagnostics
+    };
+  }
+}
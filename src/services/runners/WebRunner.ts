@@ -0,0 +1,191 @@
+import { BaseRunner } from './BaseRunner';
+import { ExecutionOptions, ExecutionResult, FileMap } from '../../types/runner';
+import { findFile, isRelativeReference, resolvePath } from './pathUtils';
+import { PREVIEW_MESSAGE_SOURCE } from './runnerConstants';
+
+export class WebRunner extends BaseRunner {
+  constructor() {
+    super('html');
+  }
+
+  async execute(code: string, files?: FileMap, options?: ExecutionOptions): Promise<ExecutionResult> {
+    const startTime = Date.now();
+
+    try {
+      this.isRunning = true;
+
+      const fileMap: FileMap = { ...(files || {}) };
+      const entryFile = options?.entryFile || 'index.html';
+
+      // Make sure the file being run reflects the editor content
+      fileMap[entryFile] = code;
+
+      const documentPath = this.findEntryDocument(entryFile, fileMap);
+      const { html, warnings } = documentPath
+        ? this.buildDocument(documentPath, fileMap)
+        : this.buildStylesheetDocument(entryFile, code);
+
+      return {
+        success: true,
+        output: `Preview rendered from ${documentPath || entryFile}`,
+        executionTime: Date.now() - startTime,
+        logs: warnings.map(content => ({ type: 'warn', content, timestamp: Date.now() })),
+        preview: html
+      };
+    } catch (error) {
+      return {
+        success: false,
+        output: '',
+        error: this.formatError(error instanceof Error ? error : new Error(String(error)), Object.keys(files || {})),
+        executionTime: Date.now() - startTime,
+        logs: []
+      };
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  isSupported(): boolean {
+    // The preview is rendered in a sandboxed iframe using srcdoc
+    if (typeof document === 'undefined') {
+      return false;
+    }
+    return 'srcdoc' in document.createElement('iframe');
+  }
+
+  private findEntryDocument(entryFile: string, files: FileMap): string | null {
+    if (entryFile.endsWith('.html') || entryFile.endsWith('.htm')) {
+      return entryFile;
+    }
+
+    // Stylesheets and scripts are previewed through the page that uses them
+    const siblingIndex = findFile(files, resolvePath(entryFile, 'index.html'));
+    if (siblingIndex) {
+      return siblingIndex;
+    }
+
+    const htmlFiles = Object.keys(files).filter(fileName => /\.html?$/i.test(fileName));
+    return htmlFiles.find(fileName => /(^|\/)index\.html?$/i.test(fileName)) || htmlFiles[0] || null;
+  }
+
+  private buildStylesheetDocument(entryFile: string, css: string): { html: string; warnings: string[] } {
+    const html = `<!DOCTYPE html>
+<html>
+  <head>
+    ${this.createConsoleBridge()}
+    <style data-source="${this.escapeAttribute(entryFile)}">${this.escapeStyle(css)}</style>
+  </head>
+  <body></body>
+</html>`;
+
+    return {
+      html,
+      warnings: ['No HTML page found in this lab - previewing the stylesheet on an empty page']
+    };
+  }
+
+  private buildDocument(documentPath: string, files: FileMap): { html: string; warnings: string[] } {
+    const warnings: string[] = [];
+    let html = files[documentPath] || '';
+
+    // Inline local stylesheets referenced through <link rel="stylesheet">
+    html = html.replace(/<link\b[^>]*>/gi, (tag) => {
+      if (!/\brel\s*=\s*["']?stylesheet/i.test(tag)) {
+        return tag;
+      }
+      const href = this.getAttribute(tag, 'href');
+      if (!href || !isRelativeReference(href)) {
+        return tag;
+      }
+
+      const resolved = findFile(files, resolvePath(documentPath, href));
+      if (!resolved) {
+        warnings.push(`${documentPath}: stylesheet "${href}" was not found in the lab files`);
+        return tag;
+      }
+      return `<style data-source="${this.escapeAttribute(resolved)}">${this.escapeStyle(files[resolved])}</style>`;
+    });
+
+    // Inline local scripts referenced through <script src>
+    html = html.replace(/<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi, (tag, attributes: string) => {
+      const src = this.getAttribute(attributes, 'src');
+      if (!src || !isRelativeReference(src)) {
+        return tag;
+      }
+
+      const resolved = findFile(files, resolvePath(documentPath, src));
+      if (!resolved) {
+        warnings.push(`${documentPath}: script "${src}" was not found in the lab files`);
+        return tag;
+      }
+      const remainingAttributes = attributes.replace(/\s*\bsrc\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i, '');
+      return `<script${remainingAttributes} data-source="${this.escapeAttribute(resolved)}">${this.escapeScript(files[resolved])}</script>`;
+    });
+
+    return { html: this.injectConsoleBridge(html), warnings };
+  }
+
+  private injectConsoleBridge(html: string): string {
+    const bridge = this.createConsoleBridge();
+
+    // The bridge must run before any page script
+    if (/<head\b[^>]*>/i.test(html)) {
+      return html.replace(/<head\b[^>]*>/i, (tag) => `${tag}\n${bridge}`);
+    }
+    if (/<html\b[^>]*>/i.test(html)) {
+      return html.replace(/<html\b[^>]*>/i, (tag) => `${tag}\n<head>${bridge}</head>`);
+    }
+    return `<!DOCTYPE html>\n<html><head>${bridge}</head><body>\n${html}\n</body></html>`;
+  }
+
+  private createConsoleBridge(): string {
+    const maxEntries = this.config.maxConsoleEntries;
+
+    return `<script>
+(function() {
+  var source = '${PREVIEW_MESSAGE_SOURCE}';
+  var sent = 0;
+  var format = function(arg) {
+    if (arg instanceof Error) return arg.stack || arg.message;
+    if (typeof arg === 'object' && arg !== null) {
+      try { return JSON.stringify(arg, null, 2); } catch (e) { return String(arg); }
+    }
+    return String(arg);
+  };
+  var send = function(type, content) {
+    if (sent++ >= ${maxEntries}) return;
+    parent.postMessage({ source: source, type: type, content: content, timestamp: Date.now() }, '*');
+  };
+  ['log', 'error', 'warn', 'info'].forEach(function(method) {
+    console[method] = function() {
+      send(method, Array.prototype.map.call(arguments, format).join(' '));
+    };
+  });
+  window.addEventListener('error', function(event) {
+    send('error', event.message + (event.lineno ? ' (line ' + event.lineno + ')' : ''));
+  });
+  window.addEventListener('unhandledrejection', function(event) {
+    send('error', 'Unhandled promise rejection: ' + format(event.reason));
+  });
+})();
+</script>`;
+  }
+
+  private getAttribute(tag: string, name: string): string | null {
+    const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+    if (!match) return null;
+    return match[2] ?? match[3] ?? match[4] ?? null;
+  }
+
+  private escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  }
+
+  private escapeStyle(css: string): string {
+    return css.replace(/<\/style/gi, '<\\/style');
+  }
+
+  private escapeScript(js: string): string {
+    return js.replace(/<\/script/gi, '<\\/script');
+  }
+}
@@ -0,0 +1,44 @@
+import { DebugStep } from '../../types/runner';
+
+export type DebugCommand = 'continue' | 'stepOver' | 'stepInto' | 'stepOut' | 'stepBack';
+
+// Breakpoint lines by lab file path
+export type Breakpoints = Record<string, number[]>;
+
+const isBreakpoint = (step: DebugStep, breakpoints: Breakpoints) =>
+  breakpoints[step.file]?.includes(step.line) ?? false;
+
+// Index of the step a command moves to in a recorded run; steps.length means the program finished.
+// `current` is -1 before the first step.
+export const findNextStep = (
+  steps: DebugStep[],
+  current: number,
+  command: DebugCommand,
+  breakpoints: Breakpoints
+): number => {
+  if (command === 'stepBack') {
+    return Math.max(0, current - 1);
+  }
+
+  const depth = current >= 0 && current < steps.length ? steps[current].stack.length : 0;
+  const matches = (step: DebugStep) => {
+    switch (command) {
+      case 'stepInto':
+        return true;
+      case 'stepOver':
+        return step.stack.length <= depth;
+      case 'stepOut':
+        return step.stack.length < depth;
+      default:
+        return false;
+    }
+  };
+
+  for (let index = current + 1; index < steps.length; index++) {
+    // A breakpoint on the way stops any command
+    if (matches(steps[index]) || isBreakpoint(steps[index], breakpoints)) {
+      return index;
+    }
+  }
+  return steps.length;
+};
@@ -0,0 +1,249 @@
+// Best-practice checks for Dockerfiles. Rule codes follow hadolint's, so learners can look them up.
+
+export interface DockerfileProblem {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+  severity: 'error' | 'warning' | 'info';
+  code: string;
+}
+
+interface Instruction {
+  keyword: string; // upper case
+  args: string; // continuation lines joined with spaces
+  line: number;
+  column: number;
+}
+
+type Report = (instruction: Instruction, code: string, severity: DockerfileProblem['severity'], message: string) => void;
+
+interface Stage {
+  cmdCount: number;
+  entrypointCount: number;
+  user: Instruction | null;
+}
+
+const INSTRUCTIONS = [
+  'ADD', 'ARG', 'CMD', 'COPY', 'ENTRYPOINT', 'ENV', 'EXPOSE', 'FROM', 'HEALTHCHECK', 'LABEL', 'MAINTAINER',
+  'ONBUILD', 'RUN', 'SHELL', 'STOPSIGNAL', 'USER', 'VOLUME', 'WORKDIR'
+];
+
+// Splits the file into instructions, joining lines that end in a backslash
+const parseInstructions = (content: string): Instruction[] => {
+  const instructions: Instruction[] = [];
+  const lines = content.split('\n');
+  let current: Instruction | null = null;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.replace(/\r$/, '');
+    const trimmed = line.trim();
+    // Comments and blank lines inside a continued instruction don't end it
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const continues = /\\\s*$/.test(line);
+    const text = continues ? line.replace(/\\\s*$/, '') : line;
+
+    if (current) {
+      current.args = `${current.args} ${text.trim()}`.trim();
+    } else {
+      const match = text.match(/^(\s*)(\S+)\s*(.*)$/);
+      if (!match) return;
+      current = { keyword: match[2].toUpperCase(), args: match[3].trim(), line: index + 1, column: match[1].length + 1 };
+    }
+
+    if (!continues) {
+      instructions.push(current);
+      current = null;
+    }
+  });
+
+  if (current) instructions.push(current);
+  return instructions;
+};
+
+// Shell commands of a RUN instruction, split at &&, ||, ; and |
+const splitCommands = (script: string): string[] =>
+  script.split(/&&|\|\||;|\|/).map(command => command.trim()).filter(Boolean);
+
+const isJsonForm = (args: string) => {
+  if (!args.startsWith('[')) return false;
+  try {
+    return Array.isArray(JSON.parse(args));
+  } catch (error) {
+    return false;
+  }
+};
+
+// Flags such as --from=build or --chown=app come before the arguments
+const getFlag = (args: string, name: string): string | null => {
+  const match = args.match(new RegExp(`(?:^|\\s)--${name}=(\\S+)`));
+  return match ? match[1] : null;
+};
+
+const stripFlags = (args: string) => args.replace(/(^|\s)--\S+/g, ' ').trim();
+
+class DockerfileLinter {
+  lint(content: string): DockerfileProblem[] {
+    const instructions = parseInstructions(content);
+    const problems: DockerfileProblem[] = [];
+    const report: Report = (instruction, code, severity, message) => {
+      problems.push({ line: instruction.line, column: instruction.column, code, severity, message });
+    };
+
+    const stages: Stage[] = [];
+    const aliases = new Set<string>();
+    let previous: Instruction | null = null;
+
+    instructions.forEach(instruction => {
+      const { keyword, args } = instruction;
+      const stage = stages[stages.length - 1];
+
+      if (!INSTRUCTIONS.includes(keyword)) {
+        report(instruction, 'DL1000', 'error', `Unknown instruction "${keyword}"`);
+        return;
+      }
+      if (!args && keyword !== 'HEALTHCHECK') {
+        report(instruction, 'DL1000', 'error', `${keyword} needs arguments`);
+        return;
+      }
+      if (!stage && keyword !== 'FROM' && keyword !== 'ARG') {
+        report(instruction, 'DL1000', 'error', `${keyword} comes before the first FROM; a Dockerfile must start with FROM`);
+      }
+
+      switch (keyword) {
+        case 'FROM':
+          this.checkFrom(instruction, aliases, report);
+          stages.push({ cmdCount: 0, entrypointCount: 0, user: null });
+          break;
+
+        case 'RUN':
+          this.checkRun(instruction, report);
+          if (previous?.keyword === 'RUN') {
+            report(instruction, 'DL3059', 'info', 'Consecutive RUN instructions each add a layer; consider joining them with &&');
+          }
+          break;
+
+        case 'WORKDIR':
+          if (!/^(["']?)(\/|\$|[A-Za-z]:[\\/])/.test(args)) {
+            report(instruction, 'DL3000', 'error', 'Use an absolute WORKDIR');
+          }
+          break;
+
+        case 'USER':
+          if (stage) stage.user = instruction;
+          break;
+
+        case 'ADD': {
+          const sources = stripFlags(args).split(/\s+/).slice(0, -1);
+          if (sources.length > 0 && sources.every(source => !/^https?:\/\//.test(source) && !/\.(tar(\.\w+)?|tgz|tbz2?|txz)$/.test(source))) {
+            report(instruction, 'DL3020', 'error', 'Use COPY instead of ADD for files and folders');
+          }
+          break;
+        }
+
+        case 'COPY': {
+          const from = getFlag(args, 'from');
+          // Numbers refer to earlier stages and names with : or / are images
+          if (from && !/^\d+$/.test(from) && !/[:/]/.test(from) && !aliases.has(from.toLowerCase())) {
+            report(instruction, 'DL3022', 'warning', `COPY --from=${from} doesn't refer to an earlier FROM ... AS ${from}`);
+          }
+          break;
+        }
+
+        case 'CMD':
+        case 'ENTRYPOINT':
+          if (!isJsonForm(args)) {
+            report(instruction, 'DL3025', 'warning', `Use the JSON form for ${keyword}, e.g. ${keyword} ["node", "server.js"], so signals reach the process`);
+          }
+          if (stage && keyword === 'CMD' && ++stage.cmdCount === 2) {
+            report(instruction, 'DL4003', 'warning', 'Only the last CMD in a stage takes effect');
+          }
+          if (stage && keyword === 'ENTRYPOINT' && ++stage.entrypointCount === 2) {
+            report(instruction, 'DL4004', 'error', 'Only the last ENTRYPOINT in a stage takes effect');
+          }
+          break;
+
+        case 'EXPOSE':
+          args.split(/\s+/).forEach(port => {
+            const number = Number(port.split('/')[0].split('-')[0]);
+            if (!port.startsWith('$') && (!Number.isInteger(number) || number < 0 || number > 65535)) {
+              report(instruction, 'DL3011', 'error', `"${port}" isn't a valid port; ports range from 0 to 65535`);
+            }
+          });
+          break;
+
+        case 'MAINTAINER':
+          report(instruction, 'DL4000', 'error', 'MAINTAINER is deprecated; use LABEL maintainer="..." instead');
+          break;
+      }
+
+      previous = instruction;
+    });
+
+    if (stages.length === 0) {
+      problems.push({ line: 1, column: 1, code: 'DL1000', severity: 'error', message: 'A Dockerfile needs a FROM instruction' });
+    }
+
+    const finalUser = stages[stages.length - 1]?.user;
+    if (finalUser && /^(root|0)(:|$)/.test(finalUser.args)) {
+      report(finalUser, 'DL3002', 'warning', 'The last USER should not be root; switch to an unprivileged user');
+    }
+
+    return problems.sort((a, b) => a.line - b.line);
+  }
+
+  private checkFrom(instruction: Instruction, aliases: Set<string>, report: Report) {
+    const [image, as, alias] = stripFlags(instruction.args).split(/\s+/);
+    const name = image.split('/').pop() || '';
+    // Earlier stages, scratch and images set by build arguments aren't pulled by tag
+    const isEarlierStage = aliases.has(image.toLowerCase());
+
+    if (as?.toUpperCase() === 'AS' && alias) {
+      if (aliases.has(alias.toLowerCase())) {
+        report(instruction, 'DL3024', 'error', `Stage name "${alias}" is already used by an earlier FROM`);
+      }
+      aliases.add(alias.toLowerCase());
+    }
+
+    if (image === 'scratch' || image.includes('$') || isEarlierStage || name.includes('@')) return;
+    if (!name.includes(':')) {
+      report(instruction, 'DL3006', 'warning', `Tag the image version explicitly, e.g. ${image}:<version>`);
+    } else if (name.endsWith(':latest')) {
+      report(instruction, 'DL3007', 'warning', 'Using :latest makes builds unpredictable; pin a specific version');
+    }
+  }
+
+  private checkRun(instruction: Instruction, report: Report) {
+    // The JSON form runs a program directly, without a shell
+    const script = isJsonForm(instruction.args) ? (JSON.parse(instruction.args) as string[]).join(' ') : instruction.args;
+    const commands = splitCommands(script);
+    const words = (command: string) => command.split(/\s+/);
+
+    if (commands.some(command => words(command)[0] === 'sudo')) {
+      report(instruction, 'DL3004', 'error', 'Do not use sudo; builds already run as root, and USER switches users');
+    }
+    if (commands.some(command => words(command)[0] === 'cd')) {
+      report(instruction, 'DL3003', 'warning', 'Use WORKDIR to switch to a directory instead of cd');
+    }
+    if (commands.some(command => words(command)[0] === 'apt' && words(command).includes('install'))) {
+      report(instruction, 'DL3027', 'warning', 'Use apt-get instead of apt, whose interface isn\'t stable for scripts');
+    }
+
+    const aptInstalls = commands.filter(command => /^apt-get\s(.*\s)?install(\s|$)/.test(command));
+    if (aptInstalls.some(command => !/(\s-\w*y\w*|\s--yes|\s--assume-yes|\s-qq)(\s|$)/.test(` ${command}`))) {
+      report(instruction, 'DL3014', 'warning', 'Use apt-get install -y so the build doesn\'t wait for a confirmation');
+    }
+    if (aptInstalls.some(command => !command.includes('--no-install-recommends'))) {
+      report(instruction, 'DL3015', 'info', 'Add --no-install-recommends to avoid installing packages you didn\'t ask for');
+    }
+    if (aptInstalls.length > 0 && !/rm\s+(-\w+\s+)*\/var\/lib\/apt\/lists/.test(script)) {
+      report(instruction, 'DL3009', 'info', 'Delete /var/lib/apt/lists after installing to keep the image small');
+    }
+
+    if (commands.some(command => /^pip3?\s(.*\s)?install(\s|$)/.test(command) && !command.includes('--no-cache-dir'))) {
+      report(instruction, 'DL3042', 'warning', 'Use pip install --no-cache-dir to keep the image small');
+    }
+  }
+}
+
+export const dockerfileLinter = new DockerfileLinter();
@@ -0,0 +1,88 @@
+import { CodeDiagnostic, FileMap } from '../../types/runner';
+
+// A reference to a lab file position inside error text, e.g. "main.js:3:7" or 'File "main.py", line 3'
+export interface ErrorLocation {
+  file: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  index: number; // where the reference starts in the text
+  length: number;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const findErrorLocations = (text: string, knownFiles: string[]): ErrorLocation[] => {
+  if (!text || knownFiles.length === 0) {
+    return [];
+  }
+
+  // Longest paths first so "lib/main.js" wins over "main.js"
+  const files = knownFiles.map(escapeRegExp).sort((a, b) => b.length - a.length).join('|');
+  const pattern = new RegExp(`File "(${files})", line (\\d+)|(?<![\\w./-])(${files}):(\\d+)(?::(\\d+))?`, 'g');
+
+  const locations: ErrorLocation[] = [];
+  for (const match of text.matchAll(pattern)) {
+    locations.push({
+      file: match[1] ?? match[3],
+      line: Number(match[2] ?? match[4]),
+      column: Number(match[5] ?? 1),
+      index: match.index ?? 0,
+      length: match[0].length
+    });
+  }
+  return locations;
+};
+
+// Python prints the failing line under the traceback entry, then a ^ or ~ marker under the failing part
+const findPythonColumn = (text: string, location: ErrorLocation, files: FileMap): number => {
+  const following = text.slice(location.index).split('\n').slice(1, 3);
+  const [codeLine, markerLine] = following;
+  const markerColumn = markerLine?.search(/[~^]/) ?? -1;
+  if (!codeLine || markerColumn < 0 || /^\s*File "/.test(markerLine)) {
+    return 1;
+  }
+
+  // Tracebacks re-indent the code line, so offset the marker by the indentation in the file
+  const sourceLine = (files[location.file] || '').split('\n')[location.line - 1] || '';
+  const printedIndent = codeLine.length - codeLine.trimStart().length;
+  const sourceIndent = sourceLine.length - sourceLine.trimStart().length;
+  return Math.max(1, markerColumn - printedIndent + sourceIndent + 1);
+};
+
+// Turns the error of a failed run into a problem at the lab file position where it happened
+export const createRuntimeDiagnostic = (
+  errorText: string,
+  files: FileMap,
+  language: 'python' | 'javascript'
+): CodeDiagnostic | null => {
+  const locations = findErrorLocations(errorText, Object.keys(files));
+  if (locations.length === 0) {
+    return null;
+  }
+
+  const lines = errorText.split('\n').map(line => line.trim()).filter(Boolean);
+
+  if (language === 'python') {
+    // The innermost frame is listed last, and the exception is the last line
+    const location = locations[locations.length - 1];
+    return {
+      file: location.file,
+      line: location.line,
+      column: findPythonColumn(errorText, location, files),
+      message: lines[lines.length - 1] || 'Error',
+      severity: 'error',
+      source: 'runtime'
+    };
+  }
+
+  // JavaScript stacks start with the message and list the innermost frame first
+  const location = locations[0];
+  return {
+    file: location.file,
+    line: location.line,
+    column: location.column,
+    message: lines[0] || 'Error',
+    severity: 'error',
+    source: 'runtime'
+  };
+};
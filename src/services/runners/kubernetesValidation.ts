@@ -0,0 +1,638 @@
+import { Schema, ValidationProblem, formatPath, suggestName, validateSchema } from './schemaValidation';
+
+// Offline schemas for the built-in kinds labs use, trimmed from the Kubernetes API reference.
+// Fields that are rarely written by hand are accepted without checking what is inside them.
+
+const string: Schema = { type: 'string' };
+const integer: Schema = { type: 'integer' };
+const boolean: Schema = { type: 'boolean' };
+const anyMap: Schema = { type: 'object' };
+const anyList: Schema = { type: 'array' };
+const stringList: Schema = { type: 'array', items: string };
+const stringMap: Schema = { type: 'object', additionalProperties: string };
+const intOrString: Schema = { type: ['integer', 'string'] };
+const quantity: Schema = { type: ['number', 'string'] }; // e.g. 500m, 1Gi or 2
+const quantityMap: Schema = { type: 'object', additionalProperties: quantity };
+
+const DNS_LABEL = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+const DNS_SUBDOMAIN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/;
+const LOWERCASE_NAME = 'use lowercase letters, digits and "-", starting and ending with a letter or digit';
+
+const labelName: Schema = { type: 'string', pattern: DNS_LABEL, patternMessage: LOWERCASE_NAME };
+const resourceName: Schema = { type: 'string', pattern: DNS_SUBDOMAIN, patternMessage: `${LOWERCASE_NAME} (dots are allowed)` };
+const protocol: Schema = { type: 'string', enum: ['TCP', 'UDP', 'SCTP'] };
+
+const objectMeta: Schema = {
+  type: 'object',
+  properties: {
+    name: resourceName,
+    generateName: string,
+    namespace: labelName,
+    labels: stringMap,
+    annotations: stringMap,
+    finalizers: stringList,
+    ownerReferences: anyList,
+    uid: string,
+    resourceVersion: string,
+    generation: integer,
+    creationTimestamp: { type: ['string', 'object'] },
+    managedFields: anyList
+  }
+};
+
+const labelSelector: Schema = {
+  type: 'object',
+  properties: {
+    matchLabels: stringMap,
+    matchExpressions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['key', 'operator'],
+        properties: {
+          key: string,
+          operator: { type: 'string', enum: ['In', 'NotIn', 'Exists', 'DoesNotExist'] },
+          values: stringList
+        }
+      }
+    }
+  }
+};
+
+const keyToPath: Schema = {
+  type: 'array',
+  items: { type: 'object', required: ['key', 'path'], properties: { key: string, path: string, mode: integer } }
+};
+
+const volume: Schema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: labelName,
+    configMap: { type: 'object', properties: { name: string, items: keyToPath, defaultMode: integer, optional: boolean } },
+    secret: { type: 'object', properties: { secretName: string, items: keyToPath, defaultMode: integer, optional: boolean } },
+    emptyDir: { type: 'object', properties: { medium: string, sizeLimit: quantity } },
+    persistentVolumeClaim: { type: 'object', required: ['claimName'], properties: { claimName: string, readOnly: boolean } },
+    hostPath: { type: 'object', required: ['path'], properties: { path: string, type: string } },
+    nfs: { type: 'object', required: ['server', 'path'], properties: { server: string, path: string, readOnly: boolean } },
+    projected: anyMap,
+    downwardAPI: anyMap,
+    csi: anyMap,
+    ephemeral: anyMap
+  }
+};
+
+const keySelector: Schema = {
+  type: 'object',
+  required: ['key'],
+  properties: { name: string, key: string, optional: boolean }
+};
+
+const envVar: Schema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: string,
+    value: string,
+    valueFrom: {
+      type: 'object',
+      properties: {
+        configMapKeyRef: keySelector,
+        secretKeyRef: keySelector,
+        fieldRef: { type: 'object', required: ['fieldPath'], properties: { fieldPath: string, apiVersion: string } },
+        resourceFieldRef: {
+          type: 'object',
+          required: ['resource'],
+          properties: { resource: string, containerName: string, divisor: quantity }
+        }
+      }
+    }
+  }
+};
+
+const envFromSource: Schema = {
+  type: 'object',
+  properties: {
+    prefix: string,
+    configMapRef: { type: 'object', properties: { name: string, optional: boolean } },
+    secretRef: { type: 'object', properties: { name: string, optional: boolean } }
+  }
+};
+
+const probe: Schema = {
+  type: 'object',
+  properties: {
+    exec: { type: 'object', properties: { command: stringList } },
+    httpGet: {
+      type: 'object',
+      required: ['port'],
+      properties: {
+        path: string,
+        port: intOrString,
+        host: string,
+        scheme: { type: 'string', enum: ['HTTP', 'HTTPS'] },
+        httpHeaders: {
+          type: 'array',
+          items: { type: 'object', required: ['name', 'value'], properties: { name: string, value: string } }
+        }
+      }
+    },
+    tcpSocket: { type: 'object', required: ['port'], properties: { port: intOrString, host: string } },
+    grpc: { type: 'object', required: ['port'], properties: { port: integer, service: string } },
+    initialDelaySeconds: integer,
+    periodSeconds: integer,
+    timeoutSeconds: integer,
+    successThreshold: integer,
+    failureThreshold: integer,
+    terminationGracePeriodSeconds: integer
+  }
+};
+
+const container: Schema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: labelName,
+    image: string,
+    imagePullPolicy: { type: 'string', enum: ['Always', 'IfNotPresent', 'Never'] },
+    command: stringList,
+    args: stringList,
+    workingDir: string,
+    ports: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['containerPort'],
+        properties: { containerPort: integer, name: string, protocol, hostPort: integer, hostIP: string }
+      }
+    },
+    env: { type: 'array', items: envVar },
+    envFrom: { type: 'array', items: envFromSource },
+    resources: { type: 'object', properties: { limits: quantityMap, requests: quantityMap, claims: anyList } },
+    volumeMounts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'mountPath'],
+        properties: {
+          name: string,
+          mountPath: string,
+          readOnly: boolean,
+          subPath: string,
+          subPathExpr: string,
+          mountPropagation: string
+        }
+      }
+    },
+    volumeDevices: anyList,
+    livenessProbe: probe,
+    readinessProbe: probe,
+    startupProbe: probe,
+    lifecycle: anyMap,
+    securityContext: anyMap,
+    resizePolicy: anyList,
+    restartPolicy: string,
+    stdin: boolean,
+    stdinOnce: boolean,
+    tty: boolean,
+    terminationMessagePath: string,
+    terminationMessagePolicy: { type: 'string', enum: ['File', 'FallbackToLogsOnError'] }
+  }
+};
+
+const podSpec: Schema = {
+  type: 'object',
+  required: ['containers'],
+  properties: {
+    containers: { type: 'array', items: container },
+    initContainers: { type: 'array', items: container },
+    ephemeralContainers: anyList,
+    volumes: { type: 'array', items: volume },
+    restartPolicy: { type: 'string', enum: ['Always', 'OnFailure', 'Never'] },
+    terminationGracePeriodSeconds: integer,
+    activeDeadlineSeconds: integer,
+    dnsPolicy: { type: 'string', enum: ['ClusterFirst', 'ClusterFirstWithHostNet', 'Default', 'None'] },
+    dnsConfig: anyMap,
+    nodeSelector: stringMap,
+    nodeName: string,
+    serviceAccountName: string,
+    automountServiceAccountToken: boolean,
+    securityContext: anyMap,
+    imagePullSecrets: { type: 'array', items: { type: 'object', properties: { name: string } } },
+    affinity: anyMap,
+    tolerations: { type: 'array', items: anyMap },
+    topologySpreadConstraints: { type: 'array', items: anyMap },
+    hostname: string,
+    subdomain: string,
+    hostNetwork: boolean,
+    hostPID: boolean,
+    hostIPC: boolean,
+    hostAliases: anyList,
+    shareProcessNamespace: boolean,
+    enableServiceLinks: boolean,
+    setHostnameAsFQDN: boolean,
+    priorityClassName: string,
+    priority: integer,
+    preemptionPolicy: string,
+    schedulerName: string,
+    runtimeClassName: string,
+    readinessGates: anyList,
+    overhead: quantityMap,
+    os: anyMap
+  }
+};
+
+const podTemplate: Schema = {
+  type: 'object',
+  required: ['spec'],
+  properties: { metadata: objectMeta, spec: podSpec }
+};
+
+const jobSpec: Schema = {
+  type: 'object',
+  required: ['template'],
+  properties: {
+    template: podTemplate,
+    parallelism: integer,
+    completions: integer,
+    completionMode: { type: 'string', enum: ['NonIndexed', 'Indexed'] },
+    backoffLimit: integer,
+    backoffLimitPerIndex: integer,
+    maxFailedIndexes: integer,
+    activeDeadlineSeconds: integer,
+    ttlSecondsAfterFinished: integer,
+    suspend: boolean,
+    selector: labelSelector,
+    manualSelector: boolean,
+    podFailurePolicy: anyMap,
+    podReplacementPolicy: string
+  }
+};
+
+const persistentVolumeClaimSpec: Schema = {
+  type: 'object',
+  properties: {
+    accessModes: {
+      type: 'array',
+      items: { type: 'string', enum: ['ReadWriteOnce', 'ReadOnlyMany', 'ReadWriteMany', 'ReadWriteOncePod'] }
+    },
+    resources: { type: 'object', properties: { requests: quantityMap, limits: quantityMap } },
+    storageClassName: string,
+    volumeMode: { type: 'string', enum: ['Filesystem', 'Block'] },
+    volumeName: string,
+    selector: labelSelector,
+    dataSource: anyMap,
+    dataSourceRef: anyMap,
+    volumeAttributesClassName: string
+  }
+};
+
+const ingressBackend: Schema = {
+  type: 'object',
+  properties: {
+    service: {
+      type: 'object',
+      required: ['name', 'port'],
+      properties: { name: string, port: { type: 'object', properties: { number: integer, name: string } } }
+    },
+    resource: anyMap
+  }
+};
+
+const workloadSpec = (properties: Record<string, Schema>, required = ['selector', 'template']): Schema => ({
+  type: 'object',
+  required,
+  properties: {
+    selector: labelSelector,
+    template: podTemplate,
+    minReadySeconds: integer,
+    revisionHistoryLimit: integer,
+    ...properties
+  }
+});
+
+// Fields of each kind besides apiVersion, kind and metadata, by the apiVersion that serves it
+const KINDS: Record<string, { apiVersion: string; properties: Record<string, Schema>; required?: string[] }> = {
+  Pod: { apiVersion: 'v1', properties: { spec: podSpec }, required: ['spec'] },
+  Service: {
+    apiVersion: 'v1',
+    properties: {
+      spec: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['ClusterIP', 'NodePort', 'LoadBalancer', 'ExternalName'] },
+          selector: stringMap,
+          ports: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['port'],
+              properties: {
+                port: integer,
+                targetPort: intOrString,
+                nodePort: integer,
+                protocol,
+                name: string,
+                appProtocol: string
+              }
+            }
+          },
+          clusterIP: string,
+          clusterIPs: stringList,
+          externalName: string,
+          externalIPs: stringList,
+          externalTrafficPolicy: { type: 'string', enum: ['Cluster', 'Local'] },
+          internalTrafficPolicy: { type: 'string', enum: ['Cluster', 'Local'] },
+          sessionAffinity: { type: 'string', enum: ['ClientIP', 'None'] },
+          sessionAffinityConfig: anyMap,
+          loadBalancerIP: string,
+          loadBalancerClass: string,
+          loadBalancerSourceRanges: stringList,
+          allocateLoadBalancerNodePorts: boolean,
+          healthCheckNodePort: integer,
+          ipFamilies: stringList,
+          ipFamilyPolicy: string,
+          publishNotReadyAddresses: boolean
+        }
+      }
+    }
+  },
+  ConfigMap: { apiVersion: 'v1', properties: { data: stringMap, binaryData: stringMap, immutable: boolean } },
+  Secret: { apiVersion: 'v1', properties: { type: string, data: stringMap, stringData: stringMap, immutable: boolean } },
+  Namespace: { apiVersion: 'v1', properties: { spec: anyMap } },
+  ServiceAccount: {
+    apiVersion: 'v1',
+    properties: { secrets: anyList, imagePullSecrets: anyList, automountServiceAccountToken: boolean }
+  },
+  PersistentVolumeClaim: { apiVersion: 'v1', properties: { spec: persistentVolumeClaimSpec }, required: ['spec'] },
+  Deployment: {
+    apiVersion: 'apps/v1',
+    properties: {
+      spec: workloadSpec({
+        replicas: integer,
+        strategy: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['RollingUpdate', 'Recreate'] },
+            rollingUpdate: { type: 'object', properties: { maxSurge: intOrString, maxUnavailable: intOrString } }
+          }
+        },
+        progressDeadlineSeconds: integer,
+        paused: boolean
+      })
+    },
+    required: ['spec']
+  },
+  ReplicaSet: { apiVersion: 'apps/v1', properties: { spec: workloadSpec({ replicas: integer }) }, required: ['spec'] },
+  StatefulSet: {
+    apiVersion: 'apps/v1',
+    properties: {
+      spec: workloadSpec({
+        replicas: integer,
+        serviceName: string,
+        volumeClaimTemplates: {
+          type: 'array',
+          items: { type: 'object', properties: { metadata: objectMeta, spec: persistentVolumeClaimSpec } }
+        },
+        podManagementPolicy: { type: 'string', enum: ['OrderedReady', 'Parallel'] },
+        updateStrategy: anyMap,
+        persistentVolumeClaimRetentionPolicy: anyMap,
+        ordinals: anyMap
+      })
+    },
+    required: ['spec']
+  },
+  DaemonSet: { apiVersion: 'apps/v1', properties: { spec: workloadSpec({ updateStrategy: anyMap }) }, required: ['spec'] },
+  Job: { apiVersion: 'batch/v1', properties: { spec: jobSpec }, required: ['spec'] },
+  CronJob: {
+    apiVersion: 'batch/v1',
+    properties: {
+      spec: {
+        type: 'object',
+        required: ['schedule', 'jobTemplate'],
+        properties: {
+          schedule: string,
+          timeZone: string,
+          jobTemplate: { type: 'object', required: ['spec'], properties: { metadata: objectMeta, spec: jobSpec } },
+          concurrencyPolicy: { type: 'string', enum: ['Allow', 'Forbid', 'Replace'] },
+          suspend: boolean,
+          startingDeadlineSeconds: integer,
+          successfulJobsHistoryLimit: integer,
+          failedJobsHistoryLimit: integer
+        }
+      }
+    },
+    required: ['spec']
+  },
+  Ingress: {
+    apiVersion: 'networking.k8s.io/v1',
+    properties: {
+      spec: {
+        type: 'object',
+        properties: {
+          ingressClassName: string,
+          defaultBackend: ingressBackend,
+          tls: { type: 'array', items: { type: 'object', properties: { hosts: stringList, secretName: string } } },
+          rules: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                host: string,
+                http: {
+                  type: 'object',
+                  required: ['paths'],
+                  properties: {
+                    paths: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        required: ['pathType', 'backend'],
+                        properties: {
+                          path: string,
+                          pathType: { type: 'string', enum: ['Exact', 'Prefix', 'ImplementationSpecific'] },
+                          backend: ingressBackend
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  },
+  HorizontalPodAutoscaler: {
+    apiVersion: 'autoscaling/v2',
+    properties: {
+      spec: {
+        type: 'object',
+        required: ['scaleTargetRef', 'maxReplicas'],
+        properties: {
+          scaleTargetRef: {
+            type: 'object',
+            required: ['kind', 'name'],
+            properties: { apiVersion: string, kind: string, name: string }
+          },
+          minReplicas: integer,
+          maxReplicas: integer,
+          metrics: { type: 'array', items: anyMap },
+          behavior: anyMap
+        }
+      }
+    },
+    required: ['spec']
+  }
+};
+
+// Kinds whose pods come from spec.template, with the path to it
+const POD_TEMPLATE_PATHS: Record<string, string[]> = {
+  Deployment: ['spec', 'template'],
+  ReplicaSet: ['spec', 'template'],
+  StatefulSet: ['spec', 'template'],
+  DaemonSet: ['spec', 'template'],
+  Job: ['spec', 'template'],
+  CronJob: ['spec', 'jobTemplate', 'spec', 'template']
+};
+
+type Manifest = Record<string, unknown>;
+
+const getIn = (value: unknown, path: string[]): unknown =>
+  path.reduce<unknown>((item, key) => (item && typeof item === 'object' ? (item as Manifest)[key] : undefined), value);
+
+export const isKubernetesManifest = (value: unknown): value is Manifest =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && 'apiVersion' in value && 'kind' in value;
+
+// Short description of a manifest for the run output, e.g. Deployment "web"
+export const describeManifest = (manifest: Manifest): string => {
+  const name = getIn(manifest, ['metadata', 'name']);
+  return `${String(manifest.kind)}${typeof name === 'string' ? ` "${name}"` : ''}`;
+};
+
+class KubernetesValidator {
+  validate(manifest: Manifest): ValidationProblem[] {
+    const kind = String(manifest.kind);
+    const definition = KINDS[kind];
+    if (!definition) {
+      const suggestion = suggestName(kind, Object.keys(KINDS));
+      return [{
+        path: ['kind'],
+        message: suggestion
+          ? `Unknown kind "${kind}" - did you mean "${suggestion}"?`
+          : `No bundled schema for kind "${kind}" (custom resources can't be checked offline)`,
+        severity: suggestion ? 'error' : 'info'
+      }];
+    }
+
+    if (manifest.apiVersion !== definition.apiVersion) {
+      return [{
+        path: ['apiVersion'],
+        message: `${kind} is served by apiVersion "${definition.apiVersion}", not "${String(manifest.apiVersion)}"`,
+        severity: 'error'
+      }];
+    }
+
+    const schema: Schema = {
+      type: 'object',
+      required: ['metadata', ...(definition.required || [])],
+      properties: { apiVersion: string, kind: string, metadata: objectMeta, status: anyMap, ...definition.properties }
+    };
+
+    return [
+      ...validateSchema(manifest, schema),
+      ...this.checkName(manifest),
+      ...this.checkPodTemplate(manifest, kind)
+    ];
+  }
+
+  private checkName(manifest: Manifest): ValidationProblem[] {
+    const metadata = manifest.metadata as Manifest | undefined;
+    if (!metadata || typeof metadata !== 'object' || metadata.name || metadata.generateName) return [];
+    return [{ path: ['metadata'], message: 'metadata.name is required', severity: 'error' }];
+  }
+
+  // Mistakes the API server rejects or that break the pods, which the schema alone doesn't catch
+  private checkPodTemplate(manifest: Manifest, kind: string): ValidationProblem[] {
+    const templatePath = kind === 'Pod' ? [] : POD_TEMPLATE_PATHS[kind];
+    if (!templatePath) return [];
+
+    const problems: ValidationProblem[] = [];
+    const podSpecPath = [...templatePath, 'spec'];
+    const spec = getIn(manifest, podSpecPath) as Manifest | undefined;
+    if (!spec || typeof spec !== 'object') return [];
+
+    // A Deployment's selector must pick out the pods its template creates
+    const matchLabels = getIn(manifest, ['spec', 'selector', 'matchLabels']) as Record<string, unknown> | undefined;
+    const templateLabels = (getIn(manifest, [...templatePath, 'metadata', 'labels']) || {}) as Record<string, unknown>;
+    if (kind !== 'Pod' && kind !== 'Job' && kind !== 'CronJob' && matchLabels && typeof matchLabels === 'object') {
+      const missing = Object.entries(matchLabels).filter(([key, value]) => templateLabels[key] !== value);
+      if (missing.length > 0) {
+        problems.push({
+          path: ['spec', 'selector', 'matchLabels'],
+          message: `The selector doesn't match the pod template's labels: ${missing.map(([key, value]) => `${key}=${String(value)}`).join(', ')} ` +
+            `is missing from ${formatPath([...templatePath, 'metadata', 'labels'])}`,
+          severity: 'error'
+        });
+      }
+    }
+
+    if ((kind === 'Job' || kind === 'CronJob') && !['OnFailure', 'Never'].includes(String(spec.restartPolicy))) {
+      problems.push({
+        path: spec.restartPolicy ? [...podSpecPath, 'restartPolicy'] : podSpecPath,
+        message: `${kind} pods must set restartPolicy to OnFailure or Never`,
+        severity: 'error'
+      });
+    }
+
+    // A StatefulSet's volume claim templates can be mounted like volumes
+    const claimTemplates = getIn(manifest, ['spec', 'volumeClaimTemplates']);
+    const volumeNames = new Set([
+      ...(Array.isArray(spec.volumes) ? spec.volumes : []).map(item => (item as Manifest | null)?.name),
+      ...(kind === 'StatefulSet' && Array.isArray(claimTemplates) ? claimTemplates : []).map(item => getIn(item, ['metadata', 'name']))
+    ]);
+    const containerNames = new Set<unknown>();
+    (['initContainers', 'containers'] as const).forEach(field => {
+      const containers = Array.isArray(spec[field]) ? (spec[field] as unknown[]) : [];
+      containers.forEach((item, index) => {
+        if (!item || typeof item !== 'object') return;
+        const containerItem = item as Manifest;
+        const containerPath = [...podSpecPath, field, index];
+
+        if (containerNames.has(containerItem.name)) {
+          problems.push({ path: [...containerPath, 'name'], message: `Duplicate container name "${String(containerItem.name)}"`, severity: 'error' });
+        }
+        containerNames.add(containerItem.name);
+
+        if (!containerItem.image) {
+          problems.push({ path: containerPath, message: 'Containers need an image', severity: 'error' });
+        } else if (typeof containerItem.image === 'string' && !/[:@]/.test(containerItem.image.split('/').pop() || '')) {
+          problems.push({
+            path: [...containerPath, 'image'],
+            message: `Image "${containerItem.image}" has no tag, so it pulls :latest; pin a version`,
+            severity: 'warning'
+          });
+        } else if (typeof containerItem.image === 'string' && containerItem.image.endsWith(':latest')) {
+          problems.push({ path: [...containerPath, 'image'], message: 'Pin a specific image version instead of :latest', severity: 'warning' });
+        }
+
+        const mounts = Array.isArray(containerItem.volumeMounts) ? containerItem.volumeMounts : [];
+        mounts.forEach((mount, mountIndex) => {
+          const mountName = (mount as Manifest | null)?.name;
+          if (mountName && !volumeNames.has(mountName)) {
+            problems.push({
+              path: [...containerPath, 'volumeMounts', mountIndex, 'name'],
+              message: `Volume mount "${String(mountName)}" doesn't match any volume in ${formatPath([...podSpecPath, 'volumes'])}`,
+              severity: 'error'
+            });
+          }
+        });
+      });
+    });
+
+    return problems;
+  }
+}
+
+export const kubernetesValidator = new KubernetesValidator();
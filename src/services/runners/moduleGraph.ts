@@ -0,0 +1,103 @@
+import { CodeDiagnostic, FileMap } from '../../types/runner';
+import { ModuleSyntaxError, transformModule } from './moduleTransform';
+import { resolvePath } from './pathUtils';
+
+// Static module graph for the JavaScript worker: every module reachable from the entry file,
+// already rewritten to CommonJS, with its import specifiers resolved to lab file paths.
+
+export interface ModuleDefinition {
+  code: string;
+  dependencies: Record<string, string>; // specifier -> resolved lab path
+  json?: boolean;
+}
+
+export interface ModuleGraph {
+  modules: Record<string, ModuleDefinition>;
+  diagnostics: CodeDiagnostic[];
+}
+
+const MODULE_EXTENSIONS = ['.js', '.mjs', '.cjs', '.jsx', '.ts', '.tsx', '.json'];
+
+export const resolveModulePath = (files: FileMap, fromFile: string, specifier: string): string | null => {
+  // Only lab files can be imported; packages are not available in the browser runner
+  if (!/^\.{1,2}\/|^\//.test(specifier)) {
+    return null;
+  }
+
+  const basePath = resolvePath(fromFile, specifier);
+  const candidates = [
+    basePath,
+    ...MODULE_EXTENSIONS.map(extension => `${basePath}${extension}`),
+    ...MODULE_EXTENSIONS.map(extension => `${basePath}/index${extension}`)
+  ];
+
+  // TypeScript sources import each other with the .js extension of their output
+  if (/\.js$/.test(basePath)) {
+    candidates.push(basePath.replace(/\.js$/, '.ts'), basePath.replace(/\.js$/, '.tsx'));
+  }
+
+  return candidates.find(candidate => candidate in files) || null;
+};
+
+export const buildModuleGraph = (files: FileMap, entryFile: string): ModuleGraph => {
+  const modules: Record<string, ModuleDefinition> = {};
+  const diagnostics: CodeDiagnostic[] = [];
+  const queue = [entryFile];
+
+  while (queue.length > 0) {
+    const fileName = queue.shift()!;
+    if (modules[fileName]) continue;
+
+    const source = files[fileName] ?? '';
+    if (/\.json$/i.test(fileName)) {
+      modules[fileName] = { code: source, dependencies: {}, json: true };
+      continue;
+    }
+
+    let transformed;
+    try {
+      transformed = transformModule(source);
+    } catch (error) {
+      if (error instanceof ModuleSyntaxError) {
+        diagnostics.push({
+          file: fileName,
+          line: error.line,
+          column: error.column,
+          message: error.message,
+          severity: 'error',
+          source: 'modules'
+        });
+        modules[fileName] = { code: source, dependencies: {} };
+        continue;
+      }
+      throw error;
+    }
+
+    const dependencies: Record<string, string> = {};
+    transformed.references.forEach(reference => {
+      const resolved = resolveModulePath(files, fileName, reference.specifier);
+      if (resolved) {
+        dependencies[reference.specifier] = resolved;
+        queue.push(resolved);
+        return;
+      }
+
+      const isPackage = !/^\.{0,2}\//.test(reference.specifier);
+      diagnostics.push({
+        file: fileName,
+        line: reference.line,
+        column: reference.column,
+        message: isPackage
+          ? `Cannot import package '${reference.specifier}': only lab files can be imported in the browser runner`
+          : `Cannot resolve import '${reference.specifier}' from ${fileName}`,
+        // require() and import() calls may be guarded, so they only fail if they actually run
+        severity: reference.kind === 'static' ? 'error' : 'warning',
+        source: 'modules'
+      });
+    });
+
+    modules[fileName] = { code: transformed.code, dependencies };
+  }
+
+  return { modules, diagnostics };
+};
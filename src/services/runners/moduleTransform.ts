@@ -0,0 +1,751 @@
+// Rewrites ES module syntax in lab files into the CommonJS form run by the worker module loader.
+// Every replacement keeps the original line breaks so stack traces and diagnostics still
+// point at the line the learner wrote.
+
+export interface ModuleReference {
+  specifier: string;
+  kind: 'static' | 'dynamic'; // import/export statements vs require() and import() calls
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface TransformedModule {
+  code: string;
+  references: ModuleReference[];
+  isESModule: boolean;
+}
+
+export class ModuleSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+    this.name = 'ModuleSyntaxError';
+  }
+}
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface ExportBinding {
+  exported: string;
+  local: string;
+}
+
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[\w$]/;
+
+// After these keywords a slash starts a regular expression rather than a division
+const REGEX_PRECEDING_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw',
+  'case', 'do', 'else', 'yield', 'await'
+]);
+
+export const transformModule = (source: string): TransformedModule => {
+  return new ModuleTransformer(source).transform();
+};
+
+class ModuleTransformer {
+  private readonly source: string;
+  private readonly replacements: Replacement[] = [];
+  private readonly references: ModuleReference[] = [];
+  private readonly exportBindings: ExportBinding[] = [];
+  private isESModule = false;
+  private tempCounter = 0;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  transform(): TransformedModule {
+    const { source } = this;
+    let position = 0;
+    let depth = 0;
+    let lastToken = '';
+    let newlineSinceToken = true;
+    const templateDepths: number[] = [];
+
+    while (position < source.length) {
+      const char = source[position];
+
+      if (char === '\n') {
+        newlineSinceToken = true;
+        position++;
+        continue;
+      }
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+      if (char === '/' && (source[position + 1] === '/' || source[position + 1] === '*')) {
+        const end = this.skipComment(position);
+        if (source.slice(position, end).includes('\n')) newlineSinceToken = true;
+        position = end;
+        continue;
+      }
+      if (char === '"' || char === "'") {
+        position = this.skipString(position);
+        lastToken = 'string';
+        newlineSinceToken = false;
+        continue;
+      }
+      if (char === '`') {
+        const { end, openedExpression } = this.skipTemplate(position + 1);
+        position = end;
+        if (openedExpression) {
+          templateDepths.push(depth);
+          depth++;
+          lastToken = '{';
+        } else {
+          lastToken = 'string';
+        }
+        newlineSinceToken = false;
+        continue;
+      }
+      if (char === '/' && this.isRegexAllowed(lastToken)) {
+        position = this.skipRegex(position);
+        lastToken = 'regex';
+        newlineSinceToken = false;
+        continue;
+      }
+      if (IDENTIFIER_START.test(char)) {
+        const start = position;
+        while (position < source.length && IDENTIFIER_PART.test(source[position])) position++;
+        const word = source.slice(start, position);
+        const isStatementStart = depth === 0 && (lastToken === '' || newlineSinceToken || [';', '}', ')'].includes(lastToken));
+
+        if (lastToken !== '.') {
+          if (word === 'import') {
+            const handled = this.handleImport(start, position, isStatementStart);
+            if (handled !== null) {
+              position = handled;
+              lastToken = ';';
+              newlineSinceToken = false;
+              continue;
+            }
+          } else if (word === 'export' && isStatementStart) {
+            position = this.handleExport(start, position);
+            lastToken = ';';
+            newlineSinceToken = false;
+            continue;
+          } else if (word === 'require') {
+            this.recordCallReference(position);
+          }
+        }
+
+        lastToken = word;
+        newlineSinceToken = false;
+        continue;
+      }
+
+      if (char === '(' || char === '[' || char === '{') {
+        depth++;
+      } else if (char === ')' || char === ']') {
+        depth = Math.max(0, depth - 1);
+      } else if (char === '}') {
+        depth = Math.max(0, depth - 1);
+        if (templateDepths.length > 0 && templateDepths[templateDepths.length - 1] === depth) {
+          // End of a ${...} expression: continue scanning the template literal
+          templateDepths.pop();
+          const { end, openedExpression } = this.skipTemplate(position + 1);
+          position = end;
+          if (openedExpression) {
+            templateDepths.push(depth);
+            depth++;
+            lastToken = '{';
+          } else {
+            lastToken = 'string';
+          }
+          newlineSinceToken = false;
+          continue;
+        }
+      }
+
+      lastToken = char;
+      newlineSinceToken = false;
+      position++;
+    }
+
+    return {
+      code: this.buildOutput(),
+      references: this.references,
+      isESModule: this.isESModule
+    };
+  }
+
+  // --- Statement handlers -------------------------------------------------
+
+  private handleImport(start: number, afterKeyword: number, isStatementStart: boolean): number | null {
+    let position = this.skipTrivia(afterKeyword);
+    const next = this.source[position];
+
+    // import('./module') - dynamic import, allowed anywhere
+    if (next === '(') {
+      this.recordCallReference(afterKeyword);
+      this.replace(start, afterKeyword, '__import');
+      return afterKeyword;
+    }
+
+    // import.meta
+    if (next === '.') {
+      const metaEnd = this.skipTrivia(position + 1);
+      if (this.source.startsWith('meta', metaEnd)) {
+        this.replace(start, metaEnd + 4, '__importMeta');
+        return metaEnd + 4;
+      }
+      return null;
+    }
+
+    if (!isStatementStart) {
+      return null;
+    }
+
+    this.isESModule = true;
+
+    // import './side-effect'
+    if (next === '"' || next === "'") {
+      const { value, end } = this.readString(position);
+      this.recordReference(value, position);
+      const statementEnd = this.skipStatementEnd(this.skipImportAttributes(end));
+      this.replace(start, statementEnd, `require(${JSON.stringify(value)});`);
+      return statementEnd;
+    }
+
+    let defaultName: string | null = null;
+    let namespaceName: string | null = null;
+    const named: ExportBinding[] = [];
+
+    if (IDENTIFIER_START.test(next)) {
+      const { value, end } = this.readIdentifier(position);
+      defaultName = value;
+      position = this.skipTrivia(end);
+      if (this.source[position] === ',') {
+        position = this.skipTrivia(position + 1);
+      }
+    }
+
+    if (this.source[position] === '*') {
+      position = this.expectWord(this.skipTrivia(position + 1), 'as');
+      const { value, end } = this.readIdentifier(this.skipTrivia(position));
+      namespaceName = value;
+      position = this.skipTrivia(end);
+    } else if (this.source[position] === '{') {
+      const { bindings, end } = this.readBindingList(position);
+      named.push(...bindings);
+      position = this.skipTrivia(end);
+    }
+
+    position = this.expectWord(position, 'from');
+    position = this.skipTrivia(position);
+    if (this.source[position] !== '"' && this.source[position] !== "'") {
+      throw this.syntaxError('Expected a module specifier after "from"', position);
+    }
+    const { value: specifier, end } = this.readString(position);
+    this.recordReference(specifier, position);
+    const statementEnd = this.skipStatementEnd(this.skipImportAttributes(end));
+
+    const requireCall = `require(${JSON.stringify(specifier)})`;
+    const statements: string[] = [];
+    let moduleExpression = requireCall;
+
+    if (namespaceName || (defaultName && named.length > 0)) {
+      const moduleName = namespaceName || this.createTempName('import');
+      statements.push(`const ${moduleName} = ${requireCall};`);
+      moduleExpression = moduleName;
+    }
+    if (defaultName) {
+      statements.push(`const ${defaultName} = __importDefault(${moduleExpression});`);
+    }
+    if (named.length > 0) {
+      // In an import list `local` is the name exported by the module and `exported` the bound alias
+      const pattern = named
+        .map(binding => binding.local === binding.exported ? binding.local : `${this.formatKey(binding.local)}: ${binding.exported}`)
+        .join(', ');
+      statements.push(`const { ${pattern} } = ${moduleExpression};`);
+    }
+    if (statements.length === 0) {
+      statements.push(`${requireCall};`);
+    }
+
+    this.replace(start, statementEnd, statements.join(' '));
+    return statementEnd;
+  }
+
+  private handleExport(start: number, afterKeyword: number): number {
+    this.isESModule = true;
+    let position = this.skipTrivia(afterKeyword);
+    const next = this.source[position];
+
+    // export * from './module' / export * as name from './module'
+    if (next === '*') {
+      position = this.skipTrivia(position + 1);
+      let namespaceName: string | null = null;
+      if (this.source.startsWith('as', position) && !IDENTIFIER_PART.test(this.source[position + 2] || '')) {
+        const { value, end } = this.readIdentifier(this.skipTrivia(position + 2));
+        namespaceName = value;
+        position = this.skipTrivia(end);
+      }
+      position = this.skipTrivia(this.expectWord(position, 'from'));
+      const { value: specifier, end } = this.readString(position);
+      this.recordReference(specifier, position);
+      const statementEnd = this.skipStatementEnd(this.skipImportAttributes(end));
+      const requireCall = `require(${JSON.stringify(specifier)})`;
+
+      if (namespaceName) {
+        const moduleName = this.createTempName('reexport');
+        this.exportBindings.push({ exported: namespaceName, local: moduleName });
+        this.replace(start, statementEnd, `var ${moduleName} = ${requireCall};`);
+      } else {
+        this.replace(start, statementEnd, `__exportStar(${requireCall}, exports);`);
+      }
+      return statementEnd;
+    }
+
+    // export { a, b as c } / export { a } from './module'
+    if (next === '{') {
+      const { bindings, end } = this.readBindingList(position);
+      position = this.skipTrivia(end);
+
+      if (this.source.startsWith('from', position) && !IDENTIFIER_PART.test(this.source[position + 4] || '')) {
+        position = this.skipTrivia(position + 4);
+        const { value: specifier, end: specifierEnd } = this.readString(position);
+        this.recordReference(specifier, position);
+        const statementEnd = this.skipStatementEnd(this.skipImportAttributes(specifierEnd));
+        const moduleName = this.createTempName('reexport');
+        bindings.forEach(binding => {
+          this.exportBindings.push({ exported: binding.exported, local: `${moduleName}[${JSON.stringify(binding.local)}]` });
+        });
+        this.replace(start, statementEnd, `var ${moduleName} = require(${JSON.stringify(specifier)});`);
+        return statementEnd;
+      }
+
+      const statementEnd = this.skipStatementEnd(end);
+      this.exportBindings.push(...bindings);
+      this.replace(start, statementEnd, '');
+      return statementEnd;
+    }
+
+    const { value: keyword, end: keywordEnd } = this.readIdentifier(position);
+
+    // export default ...
+    if (keyword === 'default') {
+      const valueStart = this.skipTrivia(keywordEnd);
+      const declarationName = this.readDeclarationName(valueStart);
+      if (declarationName) {
+        // Named function/class declarations stay declarations (and stay hoisted)
+        this.exportBindings.push({ exported: 'default', local: declarationName });
+        this.replace(start, valueStart, '');
+      } else {
+        this.replace(start, keywordEnd, 'exports.default =');
+      }
+      return keywordEnd;
+    }
+
+    // export function / class / const / let / var
+    if (['function', 'async', 'class'].includes(keyword)) {
+      const name = this.readDeclarationName(position);
+      if (!name) {
+        throw this.syntaxError('Exported declarations must have a name', position);
+      }
+      this.exportBindings.push({ exported: name, local: name });
+      this.replace(start, position, '');
+      return position;
+    }
+
+    if (['const', 'let', 'var'].includes(keyword)) {
+      this.readVariableNames(keywordEnd).forEach(name => {
+        this.exportBindings.push({ exported: name, local: name });
+      });
+      this.replace(start, position, '');
+      return position;
+    }
+
+    throw this.syntaxError(`Unsupported export syntax near "${keyword || next}"`, position);
+  }
+
+  // --- Readers ------------------------------------------------------------
+
+  private readDeclarationName(position: number): string | null {
+    let { value: word, end } = this.readIdentifier(position);
+    if (word === 'async') {
+      ({ value: word, end } = this.readIdentifier(this.skipTrivia(end)));
+    }
+    if (word !== 'function' && word !== 'class') {
+      return null;
+    }
+
+    let namePosition = this.skipTrivia(end);
+    if (this.source[namePosition] === '*') {
+      namePosition = this.skipTrivia(namePosition + 1);
+    }
+    if (!IDENTIFIER_START.test(this.source[namePosition] || '')) {
+      return null;
+    }
+
+    const { value } = this.readIdentifier(namePosition);
+    // "class extends Base" is anonymous
+    return value === 'extends' ? null : value;
+  }
+
+  private readVariableNames(position: number): string[] {
+    const names: string[] = [];
+    let cursor = this.skipTrivia(position);
+
+    while (cursor < this.source.length) {
+      const char = this.source[cursor];
+      if (char === '{' || char === '[') {
+        const end = this.findClosingBracket(cursor);
+        names.push(...extractPatternNames(this.source.slice(cursor, end)));
+        cursor = end;
+      } else if (IDENTIFIER_START.test(char)) {
+        const { value, end } = this.readIdentifier(cursor);
+        names.push(value);
+        cursor = end;
+      } else {
+        break;
+      }
+
+      // Further declarators are only detected on the same line: `export const a = 1, b = 2;`
+      const lineEnd = this.source.indexOf('\n', cursor);
+      const rest = this.source.slice(cursor, lineEnd === -1 ? this.source.length : lineEnd);
+      const commaOffset = findTopLevel(rest, ',', ';');
+      if (commaOffset === -1) break;
+      cursor = this.skipTrivia(cursor + commaOffset + 1);
+    }
+
+    return names;
+  }
+
+  private readBindingList(position: number): { bindings: ExportBinding[]; end: number } {
+    const end = this.findClosingBracket(position);
+    const inner = this.source.slice(position + 1, end - 1).replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, '');
+    const bindings: ExportBinding[] = [];
+
+    inner.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+      const match = part.match(/^("[^"]*"|'[^']*'|[\w$]+)(?:\s+as\s+("[^"]*"|'[^']*'|[\w$]+))?$/);
+      if (!match) {
+        throw this.syntaxError(`Invalid binding "${part}"`, position);
+      }
+      const local = match[1].replace(/^["']|["']$/g, '');
+      const exported = (match[2] || match[1]).replace(/^["']|["']$/g, '');
+      bindings.push({ local, exported });
+    });
+
+    return { bindings, end };
+  }
+
+  private readIdentifier(position: number): { value: string; end: number } {
+    let end = position;
+    while (end < this.source.length && IDENTIFIER_PART.test(this.source[end])) end++;
+    return { value: this.source.slice(position, end), end };
+  }
+
+  private readString(position: number): { value: string; end: number } {
+    const end = this.skipString(position);
+    try {
+      return { value: JSON.parse(`"${this.source.slice(position + 1, end - 1).replace(/"/g, '\\"')}"`), end };
+    } catch (error) {
+      return { value: this.source.slice(position + 1, end - 1), end };
+    }
+  }
+
+  private expectWord(position: number, word: string): number {
+    if (!this.source.startsWith(word, position) || IDENTIFIER_PART.test(this.source[position + word.length] || '')) {
+      throw this.syntaxError(`Expected "${word}"`, position);
+    }
+    return position + word.length;
+  }
+
+  // --- Skipping helpers ---------------------------------------------------
+
+  private skipTrivia(position: number): number {
+    let cursor = position;
+    while (cursor < this.source.length) {
+      if (/\s/.test(this.source[cursor])) {
+        cursor++;
+      } else if (this.source[cursor] === '/' && (this.source[cursor + 1] === '/' || this.source[cursor + 1] === '*')) {
+        cursor = this.skipComment(cursor);
+      } else {
+        break;
+      }
+    }
+    return cursor;
+  }
+
+  private skipComment(position: number): number {
+    if (this.source[position + 1] === '/') {
+      const end = this.source.indexOf('\n', position);
+      return end === -1 ? this.source.length : end;
+    }
+    const end = this.source.indexOf('*/', position + 2);
+    return end === -1 ? this.source.length : end + 2;
+  }
+
+  private skipString(position: number): number {
+    const quote = this.source[position];
+    let cursor = position + 1;
+    while (cursor < this.source.length && this.source[cursor] !== quote) {
+      if (this.source[cursor] === '\\') cursor++;
+      if (this.source[cursor] === '\n') break;
+      cursor++;
+    }
+    return cursor + 1;
+  }
+
+  // Scans template literal text; stops after the closing backtick or after an opening ${
+  private skipTemplate(position: number): { end: number; openedExpression: boolean } {
+    let cursor = position;
+    while (cursor < this.source.length) {
+      const char = this.source[cursor];
+      if (char === '\\') {
+        cursor += 2;
+        continue;
+      }
+      if (char === '`') {
+        return { end: cursor + 1, openedExpression: false };
+      }
+      if (char === '$' && this.source[cursor + 1] === '{') {
+        return { end: cursor + 2, openedExpression: true };
+      }
+      cursor++;
+    }
+    return { end: cursor, openedExpression: false };
+  }
+
+  private skipRegex(position: number): number {
+    let cursor = position + 1;
+    let inClass = false;
+    while (cursor < this.source.length) {
+      const char = this.source[cursor];
+      if (char === '\\') {
+        cursor += 2;
+        continue;
+      }
+      if (char === '\n') break;
+      if (char === '[') inClass = true;
+      else if (char === ']') inClass = false;
+      else if (char === '/' && !inClass) break;
+      cursor++;
+    }
+    cursor++;
+    while (cursor < this.source.length && IDENTIFIER_PART.test(this.source[cursor])) cursor++;
+    return cursor;
+  }
+
+  private skipImportAttributes(position: number): number {
+    // import data from './data.json' with { type: 'json' }
+    const cursor = this.skipInlineWhitespace(position);
+    for (const keyword of ['with', 'assert']) {
+      if (this.source.startsWith(keyword, cursor) && !IDENTIFIER_PART.test(this.source[cursor + keyword.length] || '')) {
+        const braceStart = this.skipTrivia(cursor + keyword.length);
+        if (this.source[braceStart] === '{') {
+          return this.findClosingBracket(braceStart);
+        }
+      }
+    }
+    return position;
+  }
+
+  private skipStatementEnd(position: number): number {
+    const cursor = this.skipInlineWhitespace(position);
+    return this.source[cursor] === ';' ? cursor + 1 : position;
+  }
+
+  private skipInlineWhitespace(position: number): number {
+    let cursor = position;
+    while (cursor < this.source.length && (this.source[cursor] === ' ' || this.source[cursor] === '\t')) cursor++;
+    return cursor;
+  }
+
+  private findClosingBracket(position: number): number {
+    const pairs: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
+    const stack: string[] = [];
+    let cursor = position;
+
+    while (cursor < this.source.length) {
+      const char = this.source[cursor];
+      if (char === '"' || char === "'") {
+        cursor = this.skipString(cursor);
+        continue;
+      }
+      if (char === '`') {
+        // Nested templates inside patterns are rare; treat the literal as opaque
+        const end = this.source.indexOf('`', cursor + 1);
+        cursor = end === -1 ? this.source.length : end + 1;
+        continue;
+      }
+      if (char === '/' && (this.source[cursor + 1] === '/' || this.source[cursor + 1] === '*')) {
+        cursor = this.skipComment(cursor);
+        continue;
+      }
+      if (pairs[char]) {
+        stack.push(pairs[char]);
+      } else if (char === stack[stack.length - 1]) {
+        stack.pop();
+        if (stack.length === 0) {
+          return cursor + 1;
+        }
+      }
+      cursor++;
+    }
+
+    throw this.syntaxError('Unterminated bracket', position);
+  }
+
+  private isRegexAllowed(lastToken: string): boolean {
+    if (lastToken === '' || REGEX_PRECEDING_KEYWORDS.has(lastToken)) {
+      return true;
+    }
+    if (lastToken === 'string' || lastToken === 'regex' || IDENTIFIER_PART.test(lastToken[0])) {
+      return false;
+    }
+    return lastToken !== ')' && lastToken !== ']';
+  }
+
+  // --- Bookkeeping --------------------------------------------------------
+
+  private recordReference(specifier: string, position: number, kind: ModuleReference['kind'] = 'static'): void {
+    const { line, column } = this.getLocation(position);
+    this.references.push({ specifier, kind, line, column });
+  }
+
+  // require('x') / import('x') with a literal specifier
+  private recordCallReference(afterCallee: number): void {
+    const open = this.skipTrivia(afterCallee);
+    if (this.source[open] !== '(') return;
+    const argument = this.skipTrivia(open + 1);
+    const quote = this.source[argument];
+    if (quote !== '"' && quote !== "'") return;
+
+    const { value, end } = this.readString(argument);
+    if (this.source[this.skipTrivia(end)] === ')') {
+      this.recordReference(value, argument, 'dynamic');
+    }
+  }
+
+  private replace(start: number, end: number, text: string): void {
+    // Keep the replaced range's line breaks so later lines do not move
+    const newlines = (this.source.slice(start, end).match(/\n/g) || []).length;
+    this.replacements.push({ start, end, text: text + '\n'.repeat(newlines) });
+  }
+
+  private createTempName(prefix: string): string {
+    this.tempCounter++;
+    return `__${prefix}_${this.tempCounter}`;
+  }
+
+  private formatKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+  }
+
+  private getLocation(position: number): { line: number; column: number } {
+    const before = this.source.slice(0, position);
+    const line = (before.match(/\n/g) || []).length + 1;
+    const column = position - before.lastIndexOf('\n');
+    return { line, column };
+  }
+
+  private syntaxError(message: string, position: number): ModuleSyntaxError {
+    const { line, column } = this.getLocation(position);
+    return new ModuleSyntaxError(message, line, column);
+  }
+
+  private buildOutput(): string {
+    let output = '';
+    let cursor = 0;
+
+    this.replacements
+      .sort((a, b) => a.start - b.start)
+      .forEach(replacement => {
+        output += this.source.slice(cursor, replacement.start) + replacement.text;
+        cursor = replacement.end;
+      });
+    output += this.source.slice(cursor);
+
+    if (!this.isESModule) {
+      return output;
+    }
+
+    // Module prologue goes on the first line so line numbers are unchanged.
+    // Exports are getters, so later reassignments stay visible to importers.
+    const prologue = [
+      "'use strict';",
+      "Object.defineProperty(exports, '__esModule', { value: true });",
+      ...this.exportBindings.map(binding => (
+        `__export(exports, ${JSON.stringify(binding.exported)}, function () { return ${binding.local}; });`
+      ))
+    ].join(' ');
+
+    return `${prologue} ${output}`;
+  }
+}
+
+// --- Pattern helpers ------------------------------------------------------
+
+const findTopLevel = (text: string, target: string, stopAt?: string): number => {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && char === target) {
+      return index;
+    } else if (depth === 0 && stopAt && char === stopAt) {
+      return -1;
+    }
+  }
+  return -1;
+};
+
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let rest = text;
+  let index = findTopLevel(rest, ',');
+  while (index !== -1) {
+    parts.push(rest.slice(0, index));
+    rest = rest.slice(index + 1);
+    index = findTopLevel(rest, ',');
+  }
+  parts.push(rest);
+  return parts;
+};
+
+// Names bound by a destructuring pattern such as `{ a, b: c, ...rest }` or `[x, [y]]`
+const extractPatternNames = (pattern: string): string[] => {
+  const isObjectPattern = pattern.startsWith('{');
+  const names: string[] = [];
+
+  splitTopLevel(pattern.slice(1, -1)).forEach(rawPart => {
+    let part = rawPart.trim();
+    if (!part) return;
+    if (part.startsWith('...')) part = part.slice(3).trim();
+
+    const defaultIndex = findTopLevel(part, '=');
+    if (defaultIndex !== -1) part = part.slice(0, defaultIndex).trim();
+
+    if (isObjectPattern) {
+      const colonIndex = findTopLevel(part, ':');
+      if (colonIndex !== -1) part = part.slice(colonIndex + 1).trim();
+    }
+
+    if (part.startsWith('{') || part.startsWith('[')) {
+      names.push(...extractPatternNames(part));
+    } else if (/^[A-Za-z_$][\w$]*$/.test(part)) {
+      names.push(part);
+    }
+  });
+
+  return names;
+};
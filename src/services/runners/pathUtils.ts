@@ -0,0 +1,36 @@
+// Path helpers shared by runners that resolve references between lab files
+
+export const dirname = (filePath: string): string => {
+  const index = filePath.lastIndexOf('/');
+  return index === -1 ? '' : filePath.substring(0, index);
+};
+
+export const isRelativeReference = (reference: string): boolean => {
+  // Absolute URLs, protocol-relative URLs, data/blob URIs and anchors are left untouched
+  return !/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(reference);
+};
+
+export const resolvePath = (fromFile: string, reference: string): string => {
+  const cleanReference = reference.split(/[?#]/)[0];
+  const baseSegments = cleanReference.startsWith('/') ? [] : dirname(fromFile).split('/').filter(Boolean);
+
+  cleanReference.split('/').forEach(segment => {
+    if (segment === '..') {
+      baseSegments.pop();
+    } else if (segment && segment !== '.') {
+      baseSegments.push(segment);
+    }
+  });
+
+  return baseSegments.join('/');
+};
+
+export const findFile = (files: Record<string, string>, path: string): string | null => {
+  if (path in files) {
+    return path;
+  }
+
+  // Lab file paths may carry a leading folder the reference omits (e.g. "lab/index.html")
+  const match = Object.keys(files).find(fileName => fileName.endsWith(`/${path}`));
+  return match || null;
+};
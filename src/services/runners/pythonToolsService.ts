@@ -0,0 +1,158 @@
+import { PYODIDE_INDEX_URL, PYODIDE_WHEEL_INDEX_URL } from './runnerConstants';
+
+// Editor tooling for Python: syntax and pyflakes checks plus autopep8 formatting, in a Pyodide
+// worker that stays loaded between requests. Separate from the runner so linting never waits on a run.
+
+export interface PythonProblem {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+  kind: string; // 'SyntaxError' or the pyflakes message class, e.g. 'UndefinedName'
+}
+
+// Tools installed with micropip; without them only syntax errors are reported
+const TOOL_PACKAGES = ['pyflakes', 'autopep8'];
+
+const TOOLS_CODE = `
+import ast
+import json
+
+def labdojo_lint(source, filename):
+    try:
+        tree = ast.parse(source, filename)
+    except SyntaxError as error:
+        return json.dumps([{
+            'line': error.lineno or 1,
+            'column': error.offset or 1,
+            'message': error.msg,
+            'kind': 'SyntaxError'
+        }])
+
+    try:
+        from pyflakes import checker
+    except ImportError:
+        return json.dumps([])
+
+    problems = []
+    for message in checker.Checker(tree, filename=filename).messages:
+        problems.append({
+            'line': message.lineno,
+            'column': message.col + 1,
+            'message': message.message % message.message_args,
+            'kind': type(message).__name__
+        })
+    return json.dumps(problems)
+
+def labdojo_format(source, filename):
+    import autopep8
+    return json.dumps(autopep8.fix_code(source))
+`;
+
+const WORKER_CODE = `
+  const toolsCode = ${JSON.stringify(TOOLS_CODE)};
+  let ready = null;
+
+  async function setup(indexURL, wheelIndexURL, packages) {
+    importScripts(indexURL + 'pyodide.js');
+    const pyodide = await loadPyodide({ indexURL, stdout: () => {}, stderr: () => {} });
+    const quiet = { messageCallback: () => {}, errorCallback: () => {} };
+    await pyodide.loadPackage('micropip', quiet);
+    const micropip = pyodide.pyimport('micropip');
+    try {
+      await micropip.install.callKwargs(packages, wheelIndexURL ? { index_urls: [wheelIndexURL] } : {});
+    } catch (error) {
+      // Offline or blocked: syntax checks still work
+    } finally {
+      micropip.destroy();
+    }
+    pyodide.runPython(toolsCode);
+    return pyodide;
+  }
+
+  self.onmessage = async (event) => {
+    const message = event.data;
+    try {
+      // A failed load is retried by the next request
+      ready = ready || setup(message.indexURL, message.wheelIndexURL, message.packages).catch(error => {
+        ready = null;
+        throw error;
+      });
+      const pyodide = await ready;
+      const tool = pyodide.globals.get(message.type === 'lint' ? 'labdojo_lint' : 'labdojo_format');
+      try {
+        self.postMessage({ id: message.id, result: JSON.parse(tool(message.source, message.filename)) });
+      } finally {
+        tool.destroy();
+      }
+    } catch (error) {
+      self.postMessage({ id: message.id, error: error && error.message ? error.message : String(error) });
+    }
+  };
+`;
+
+const resolveUrl = (url: string): string => {
+  const resolved = new URL(url, window.location.href).href;
+  return resolved.endsWith('/') ? resolved : `${resolved}/`;
+};
+
+class PythonToolsService {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+  lint(source: string, filename: string): Promise<PythonProblem[]> {
+    return this.request('lint', source, filename) as Promise<PythonProblem[]>;
+  }
+
+  format(source: string, filename: string): Promise<string> {
+    return this.request('format', source, filename) as Promise<string>;
+  }
+
+  private request(type: 'lint' | 'format', source: string, filename: string): Promise<unknown> {
+    const worker = this.getWorker();
+    const id = ++this.nextId;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({
+        id,
+        type,
+        source,
+        filename,
+        packages: TOOL_PACKAGES,
+        // The worker runs from a blob: URL, so relative asset URLs are resolved against the page
+        indexURL: resolveUrl(PYODIDE_INDEX_URL),
+        wheelIndexURL: PYODIDE_WHEEL_INDEX_URL ? resolveUrl(PYODIDE_WHEEL_INDEX_URL) : null
+      });
+    });
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const url = URL.createObjectURL(new Blob([WORKER_CODE], { type: 'application/javascript' }));
+    const worker = new Worker(url);
+    worker.onmessage = (event) => {
+      const { id, result, error } = event.data;
+      const request = this.pending.get(id);
+      this.pending.delete(id);
+      if (error) {
+        request?.reject(new Error(error));
+      } else {
+        request?.resolve(result);
+      }
+    };
+    worker.onerror = (event) => {
+      // Pyodide failed to load; the next request starts a fresh worker
+      this.pending.forEach(request => request.reject(new Error(event.message || 'Python tools failed to load')));
+      this.pending.clear();
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      this.worker = null;
+    };
+
+    this.worker = worker;
+    return worker;
+  }
+}
+
+export const pythonToolsService = new PythonToolsService();
@@ -0,0 +1,19 @@
+// Values shared between runners and the rest of the IDE. They live here rather than in the
+// runner modules so that importing them doesn't pull a lazily loaded runner into the main bundle.
+
+// Pyodide runtime and package files. VITE_PYODIDE_SELF_HOST serves them from this build (see
+// vite.config.ts); VITE_PYODIDE_INDEX_URL points anywhere else, e.g. a mirror
+export const PYODIDE_INDEX_URL = import.meta.env.VITE_PYODIDE_INDEX_URL ||
+  (import.meta.env.VITE_PYODIDE_SELF_HOST === 'true'
+    ? `${import.meta.env.BASE_URL}pyodide/`
+    : 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/');
+
+// Package index micropip installs a lab's requirements.txt from; PyPI when unset
+export const PYODIDE_WHEEL_INDEX_URL = import.meta.env.VITE_PYODIDE_WHEEL_INDEX_URL || '';
+
+// Lines of the lab's own code a debug run records. The Debug tab replays the recording, so
+// breakpoints past this point can't be reached; each step holds the variables in view.
+export const DEBUG_STEP_LIMIT = 20000;
+
+// Message source used by the preview console bridge
+export const PREVIEW_MESSAGE_SOURCE = 'labdojo-preview';
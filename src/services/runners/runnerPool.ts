@@ -0,0 +1,136 @@
+import { CodeRunner, SupportedLanguage } from '../../types/runner';
+import { RunnerFactory } from './RunnerFactory';
+
+// Shared runners, one per language, kept across runs and lab navigation so a loaded runtime
+// such as Pyodide is reused instead of started again for every run. Runtimes nobody has used
+// for a while are released.
+
+export type RunnerStatus = 'cold' | 'warming' | 'warm';
+
+// How long an unused runtime is kept before its worker is released
+const IDLE_TIMEOUT = 5 * 60 * 1000;
+
+interface PoolEntry {
+  runner: CodeRunner;
+  busy: boolean;
+  warming: boolean;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+class RunnerPool {
+  private entries = new Map<SupportedLanguage, PoolEntry>();
+  private pending = new Map<SupportedLanguage, Promise<PoolEntry>>(); // Runners still loading
+  private listeners = new Set<() => void>();
+
+  // Loads the language's runner and starts its runtime without running anything
+  async warm(language: SupportedLanguage): Promise<void> {
+    let entry: PoolEntry;
+    try {
+      entry = await this.getEntry(language);
+    } catch (error) {
+      console.warn(`Failed to load the ${language} runner:`, error);
+      return;
+    }
+    if (entry.busy || entry.warming) return;
+
+    if (entry.runner.warmUp && !this.isWarm(entry)) {
+      entry.warming = true;
+      this.notify();
+      try {
+        await entry.runner.warmUp();
+      } catch (error) {
+        console.warn(`Failed to warm up the ${language} runner:`, error);
+      } finally {
+        entry.warming = false;
+      }
+    }
+    this.scheduleRelease(language, entry);
+    this.notify();
+  }
+
+  // A runner for one run, to be handed back with release() when the run ends. The shared runner
+  // is busy during another run, e.g. tests while the program runs, so that one gets its own.
+  // Each run starts from a clean state, so checks and tests can share the warm runtime too.
+  async acquire(language: SupportedLanguage): Promise<CodeRunner> {
+    const entry = await this.getEntry(language);
+    if (entry.busy) {
+      return RunnerFactory.createRunner(language);
+    }
+
+    entry.busy = true;
+    clearTimeout(entry.idleTimer);
+    this.notify();
+    return entry.runner;
+  }
+
+  release(runner: CodeRunner) {
+    const found = Array.from(this.entries).find(([, entry]) => entry.runner === runner);
+    if (!found) {
+      runner.dispose?.();
+      return;
+    }
+
+    const [language, entry] = found;
+    entry.busy = false;
+    this.scheduleRelease(language, entry);
+    this.notify();
+  }
+
+  getStatus(language: SupportedLanguage): RunnerStatus {
+    const entry = this.entries.get(language);
+    if (!entry) return this.pending.has(language) ? 'warming' : 'cold';
+    // A first run loads the runtime itself
+    if (entry.warming || (entry.busy && !this.isWarm(entry))) return 'warming';
+    return this.isWarm(entry) ? 'warm' : 'cold';
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Runners without a runtime of their own are ready as soon as their module has loaded
+  private isWarm(entry: PoolEntry): boolean {
+    return entry.runner.isWarm?.() ?? true;
+  }
+
+  private getEntry(language: SupportedLanguage): Promise<PoolEntry> {
+    const entry = this.entries.get(language);
+    if (entry) return Promise.resolve(entry);
+
+    let pending = this.pending.get(language);
+    if (!pending) {
+      pending = RunnerFactory.createRunner(language)
+        .then(runner => {
+          const created: PoolEntry = { runner, busy: false, warming: false };
+          this.entries.set(language, created);
+          return created;
+        })
+        .finally(() => {
+          this.pending.delete(language);
+          this.notify();
+        });
+      this.pending.set(language, pending);
+      this.notify();
+    }
+    return pending;
+  }
+
+  private scheduleRelease(language: SupportedLanguage, entry: PoolEntry) {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = setTimeout(() => {
+      if (entry.busy || this.entries.get(language) !== entry) return;
+      entry.runner.dispose?.();
+      this.entries.delete(language);
+      this.notify();
+    }, IDLE_TIMEOUT);
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const runnerPool = new RunnerPool();
@@ -0,0 +1,143 @@
+import type { ConfigLanguage } from './ValidationRunner';
+import { CodeRunner, RunnerCapabilities, RunnerDefinition, SupportedLanguage } from '../../types/runner';
+
+// Runners register here with the languages and files they handle and what they can do. The
+// runner modules themselves are only imported the first time one of their languages runs, so
+// heavy runtimes such as the TypeScript compiler or SQLite download on demand.
+
+const hasWorkers = () => typeof Worker !== 'undefined' && typeof Blob !== 'undefined';
+const hasWebAssembly = () => hasWorkers() && typeof WebAssembly !== 'undefined';
+
+const NO_CAPABILITIES: RunnerCapabilities = { stdin: false, tests: false, debug: false };
+
+export const RUNNER_DEFINITIONS: RunnerDefinition[] = [
+  {
+    id: 'javascript',
+    languages: ['javascript'],
+    extensions: { js: 'javascript', jsx: 'javascript' },
+    capabilities: { stdin: true, tests: true, debug: false },
+    isSupported: hasWorkers,
+    load: () => import('./JavaScriptRunner').then(module => () => new module.JavaScriptRunner())
+  },
+  {
+    id: 'typescript',
+    languages: ['typescript'],
+    extensions: { ts: 'typescript', tsx: 'typescript' },
+    capabilities: { stdin: true, tests: true, debug: false },
+    isSupported: hasWorkers,
+    load: () => import('./TypeScriptRunner').then(module => () => new module.TypeScriptRunner())
+  },
+  {
+    id: 'python',
+    languages: ['python'],
+    extensions: { py: 'python' },
+    capabilities: { stdin: true, tests: true, debug: true },
+    isSupported: () => typeof window !== 'undefined' && hasWebAssembly() && typeof fetch !== 'undefined',
+    load: () => import('./PythonRunner').then(module => () => new module.PythonRunner())
+  },
+  {
+    id: 'web',
+    languages: ['html', 'css'],
+    extensions: { html: 'html', htm: 'html', css: 'css' },
+    capabilities: { stdin: false, tests: false, debug: false, preview: true },
+    isSupported: () => typeof document !== 'undefined',
+    load: () => import('./WebRunner').then(module => () => new module.WebRunner())
+  },
+  {
+    id: 'sql',
+    languages: ['sql'],
+    extensions: { sql: 'sql' },
+    capabilities: { stdin: false, tests: false, debug: false, database: true },
+    isSupported: hasWebAssembly,
+    load: () => import('./SqlRunner').then(module => () => new module.SqlRunner())
+  },
+  {
+    id: 'validation',
+    languages: ['yaml', 'json', 'dockerfile'],
+    extensions: { yaml: 'yaml', yml: 'yaml', json: 'json' },
+    // Dockerfiles are recognised by name: Dockerfile, Dockerfile.dev or api.dockerfile
+    matchFileName: name => (name === 'dockerfile' || name.startsWith('dockerfile.') || name.endsWith('.dockerfile') ? 'dockerfile' : null),
+    capabilities: { stdin: false, tests: false, debug: false, validation: true },
+    isSupported: hasWorkers,
+    load: () => import('./ValidationRunner').then(module => (language: SupportedLanguage) => new module.ValidationRunner(language as ConfigLanguage))
+  },
+  {
+    id: 'shell',
+    languages: ['shell'],
+    extensions: { sh: 'shell', bash: 'shell' },
+    capabilities: { stdin: true, tests: false, debug: false },
+    isSupported: hasWorkers,
+    load: () => import('./ShellRunner').then(module => () => new module.ShellRunner())
+  }
+];
+
+class RunnerRegistry {
+  private definitions: RunnerDefinition[] = [];
+  // Loaded modules by definition id, shared by every runner created from them
+  private factories = new Map<string, Promise<(language: SupportedLanguage) => CodeRunner>>();
+
+  constructor(definitions: RunnerDefinition[]) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  // Adds a runner. A later registration takes over the languages and extensions it declares.
+  register(definition: RunnerDefinition) {
+    if (this.definitions.some(item => item.id === definition.id)) {
+      throw new Error(`A runner with the id "${definition.id}" is already registered`);
+    }
+    this.definitions = [definition, ...this.definitions];
+  }
+
+  getDefinition(language: string): RunnerDefinition | undefined {
+    return this.definitions.find(definition => definition.languages.includes(language as SupportedLanguage));
+  }
+
+  getLanguages(): SupportedLanguage[] {
+    return Array.from(new Set([...this.definitions].reverse().flatMap(definition => definition.languages)));
+  }
+
+  getCapabilities(language: string | null): RunnerCapabilities {
+    return (language && this.getDefinition(language)?.capabilities) || NO_CAPABILITIES;
+  }
+
+  // Whether the browser can run the language, answered without loading its runner
+  isSupported(language: string): boolean {
+    const definition = this.getDefinition(language);
+    return !!definition && (definition.isSupported?.() ?? true);
+  }
+
+  detectLanguage(fileName: string): SupportedLanguage | null {
+    const baseName = fileName.split('/').pop()?.toLowerCase() || '';
+    for (const definition of this.definitions) {
+      const language = definition.matchFileName?.(baseName);
+      if (language) return language;
+    }
+
+    const extension = baseName.includes('.') ? baseName.split('.').pop()! : '';
+    const definition = this.definitions.find(item => Object.prototype.hasOwnProperty.call(item.extensions, extension));
+    return definition ? definition.extensions[extension] : null;
+  }
+
+  async createRunner(language: SupportedLanguage): Promise<CodeRunner> {
+    const definition = this.getDefinition(language);
+    if (!definition) {
+      throw new Error(`Unsupported language: ${language}`);
+    }
+
+    let factory = this.factories.get(definition.id);
+    if (!factory) {
+      factory = definition.load();
+      this.factories.set(definition.id, factory);
+      // A failed download is tried again on the next run
+      factory.catch(() => this.factories.delete(definition.id));
+    }
+
+    try {
+      return (await factory)(language);
+    } catch (error) {
+      throw new Error(`Failed to load the ${language} runner: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+export const runnerRegistry = new RunnerRegistry(RUNNER_DEFINITIONS);
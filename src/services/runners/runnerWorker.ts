@@ -0,0 +1,91 @@
+// Workers that run lab code. Code the viewer didn't write, such as a shared snapshot, runs in a
+// worker started inside an iframe sandboxed without allow-same-origin. The frame and its worker
+// get an opaque origin, so whatever gets past the runner's own restrictions can't read the app's
+// storage or send requests with the viewer's session.
+
+// The parts of Worker the runners use, so a sandboxed worker can stand in for one
+export interface RunnerWorker {
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  terminate(): void;
+}
+
+// Runs in the sandboxed frame: starts the worker from the script it is sent and relays messages
+// both ways over the port that comes with it
+const FRAME_SCRIPT = `
+  onmessage = event => {
+    const port = event.ports[0];
+    if (event.source !== parent || !port) return;
+    onmessage = null;
+    let worker;
+    try {
+      worker = new Worker(URL.createObjectURL(new Blob([event.data], { type: 'application/javascript' })));
+    } catch (error) {
+      port.postMessage({ type: 'error', message: error.message });
+      return;
+    }
+    worker.onmessage = message => port.postMessage({ type: 'message', data: message.data });
+    worker.onerror = error => {
+      error.preventDefault();
+      port.postMessage({ type: 'error', message: error.message });
+    };
+    port.onmessage = message => worker.postMessage(message.data);
+  };
+`;
+
+class SandboxedWorker extends EventTarget implements RunnerWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  private frame: HTMLIFrameElement;
+  private port: MessagePort;
+
+  constructor(source: string) {
+    super();
+    // Messages posted before the frame has loaded wait on the port
+    const channel = new MessageChannel();
+    this.port = channel.port1;
+    this.port.onmessage = event => {
+      if (event.data.type === 'message') {
+        const message = new MessageEvent('message', { data: event.data.data });
+        this.onmessage?.(message);
+        this.dispatchEvent(message);
+      } else {
+        this.onerror?.(new ErrorEvent('error', { message: event.data.message }));
+      }
+    };
+
+    this.frame = document.createElement('iframe');
+    this.frame.setAttribute('sandbox', 'allow-scripts');
+    this.frame.style.display = 'none';
+    this.frame.srcdoc = `<script>${FRAME_SCRIPT}</script>`;
+    this.frame.addEventListener('load', () => {
+      this.frame.contentWindow?.postMessage(source, '*', [channel.port2]);
+    }, { once: true });
+    document.body.appendChild(this.frame);
+  }
+
+  postMessage(message: unknown) {
+    this.port.postMessage(message);
+  }
+
+  // Removing the frame ends the worker it started
+  terminate() {
+    this.port.close();
+    this.frame.remove();
+  }
+}
+
+// A worker running the given script, started in the sandboxed frame for code the viewer didn't write
+export const createRunnerWorker = (source: string, sandboxed = false): RunnerWorker => {
+  if (sandboxed) {
+    return new SandboxedWorker(source);
+  }
+  const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+  const worker = new Worker(url);
+  // The worker has resolved its script by now, so the URL is no longer needed
+  URL.revokeObjectURL(url);
+  return worker;
+};
@@ -0,0 +1,138 @@
+// A small subset of JSON Schema for the config files DevOps labs validate offline: Kubernetes
+// manifests and GitHub Actions workflows. Problems carry the path of the value they are about
+// so the runner can point at its line in the source.
+
+export type SchemaType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+
+export interface Schema {
+  type?: SchemaType | SchemaType[]; // any of these; anything when unset
+  properties?: Record<string, Schema>; // known fields; other fields are reported unless additionalProperties is set
+  additionalProperties?: Schema; // schema of every field of a free-form map, e.g. labels
+  required?: string[];
+  items?: Schema;
+  enum?: Array<string | number | boolean>;
+  pattern?: RegExp;
+  patternMessage?: string; // what a value must look like, for values not matching the pattern
+}
+
+export type ValuePath = Array<string | number>;
+
+export interface ValidationProblem {
+  path: ValuePath;
+  message: string;
+  severity: 'error' | 'warning' | 'info';
+  code?: string;
+}
+
+export const formatPath = (path: ValuePath): string =>
+  path.reduce<string>((text, segment) => (
+    typeof segment === 'number' ? `${text}[${segment}]` : text ? `${text}.${segment}` : segment
+  ), '');
+
+const typeOf = (value: unknown): string => {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const TYPE_NAMES: Record<string, string> = {
+  object: 'a map',
+  array: 'a list',
+  string: 'a string',
+  integer: 'an integer',
+  number: 'a number',
+  boolean: 'a boolean'
+};
+
+const matchesType = (actual: string, expected: SchemaType) =>
+  actual === expected || (expected === 'number' && actual === 'integer');
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// The known name a typo most likely meant, if any is close enough
+export const suggestName = (name: string, known: string[]): string | null => {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  known.forEach(candidate => {
+    const distance = candidate.toLowerCase() === name.toLowerCase() ? 0 : editDistance(name, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best !== null && bestDistance <= Math.max(1, Math.floor(name.length / 4)) ? best : null;
+};
+
+// Checks a parsed value against a schema. Null counts as unset, as it does for both Kubernetes and Actions.
+export const validateSchema = (value: unknown, schema: Schema, path: ValuePath = []): ValidationProblem[] => {
+  if (value === null || value === undefined) return [];
+
+  const problems: ValidationProblem[] = [];
+  const label = formatPath(path) || 'The document';
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!expected.some(type => matchesType(actual, type))) {
+      const names = expected.map(type => TYPE_NAMES[type]);
+      return [{
+        path,
+        message: `${label} should be ${names.join(' or ')}, not ${TYPE_NAMES[actual] || actual}`,
+        severity: 'error'
+      }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    problems.push({ path, message: `${label} must be one of: ${schema.enum.join(', ')}`, severity: 'error' });
+  }
+
+  if (schema.pattern && typeof value === 'string' && !schema.pattern.test(value)) {
+    problems.push({
+      path,
+      message: `${label} "${value}" is invalid: ${schema.patternMessage || `it must match ${schema.pattern}`}`,
+      severity: 'error'
+    });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => problems.push(...validateSchema(item, schema.items!, [...path, index])));
+  }
+
+  if (actual === 'object') {
+    const fields = value as Record<string, unknown>;
+    schema.required?.forEach(key => {
+      if (fields[key] === undefined || fields[key] === null) {
+        problems.push({ path, message: `${label} is missing the required field "${key}"`, severity: 'error' });
+      }
+    });
+
+    Object.entries(fields).forEach(([key, item]) => {
+      const known = schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key);
+      const fieldSchema = known ? schema.properties![key] : schema.additionalProperties;
+      if (fieldSchema) {
+        problems.push(...validateSchema(item, fieldSchema, [...path, key]));
+      } else if (schema.properties) {
+        const suggestion = suggestName(key, Object.keys(schema.properties));
+        problems.push({
+          path: [...path, key],
+          message: `Unknown field "${key}" in ${formatPath(path) || 'the document'}${suggestion ? ` - did you mean "${suggestion}"?` : ''}`,
+          severity: 'error'
+        });
+      }
+    });
+  }
+
+  return problems;
+};
@@ -0,0 +1,1174 @@
+import { FileSystemError, HOME, ShellFileSystem, baseName, joinPath, parentOf } from './shellFileSystem';
+
+// Coreutils of the simulated shell. Each command reads its arguments, stdin and the filesystem
+// from a context, writes through it and returns an exit status, printing errors the way GNU
+// coreutils words them so lab instructions and learners' expectations carry over.
+
+const ESC = '\u001b';
+
+export const ANSI = {
+  reset: `${ESC}[0m`,
+  directory: `${ESC}[1;34m`,
+  executable: `${ESC}[1;32m`,
+  match: `${ESC}[1;31m`,
+  fileName: `${ESC}[35m`,
+  lineNumber: `${ESC}[32m`,
+  separator: `${ESC}[36m`,
+  prompt: `${ESC}[1;32m`,
+  clearScreen: `${ESC}[2J${ESC}[H`
+};
+
+export const USER = 'learner';
+export const HOSTNAME = 'labdojo';
+
+// Standard input of a command: a file, the previous command of a pipeline or the run's stdin
+export class InputStream {
+  private offset = 0;
+
+  constructor(private data: string) {}
+
+  readLine(): string | null {
+    if (this.offset >= this.data.length) return null;
+    const end = this.data.indexOf('\n', this.offset);
+    const line = this.data.slice(this.offset, end === -1 ? this.data.length : end);
+    this.offset = end === -1 ? this.data.length : end + 1;
+    return line;
+  }
+
+  readAll(): string {
+    const rest = this.data.slice(this.offset);
+    this.offset = this.data.length;
+    return rest;
+  }
+}
+
+export interface CommandContext {
+  name: string;
+  args: string[];
+  stdin: InputStream;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  fs: ShellFileSystem;
+  cwd: string;
+  env: Record<string, string>;
+  tty: boolean; // Output goes to the terminal rather than a file, pipe or the Output tab, so it may be coloured
+}
+
+export type ShellCommand = (context: CommandContext) => number;
+
+interface Options {
+  flags: Set<string>;
+  values: Record<string, string>;
+  operands: string[];
+}
+
+interface OptionSpec {
+  flags?: string; // Single-letter flags
+  values?: string; // Single-letter options that take a value, e.g. -n 5 or -n5
+  long?: string[]; // --name or --name=value
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const fail = (context: CommandContext, message: string, status = 1) => {
+  context.stderr(`${context.name}: ${message}\n`);
+  return status;
+};
+
+const parseOptions = (context: CommandContext, spec: OptionSpec, args = context.args): Options | null => {
+  const options: Options = { flags: new Set(), values: {}, operands: [] };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === '--') {
+      options.operands.push(...args.slice(index + 1));
+      break;
+    }
+
+    if (arg.startsWith('--')) {
+      const equals = arg.indexOf('=');
+      const name = arg.substring(2, equals === -1 ? undefined : equals);
+      if (!spec.long?.includes(name)) {
+        fail(context, `unrecognized option '${arg}'`);
+        return null;
+      }
+      options.flags.add(name);
+      if (equals !== -1) options.values[name] = arg.substring(equals + 1);
+    } else if (arg.startsWith('-') && arg.length > 1) {
+      for (let position = 1; position < arg.length; position++) {
+        const letter = arg[position];
+        if (spec.values?.includes(letter)) {
+          const value = position + 1 < arg.length ? arg.substring(position + 1) : args[++index];
+          if (value === undefined) {
+            fail(context, `option requires an argument -- '${letter}'`);
+            return null;
+          }
+          options.values[letter] = value;
+          break;
+        }
+        if (!spec.flags?.includes(letter)) {
+          fail(context, `invalid option -- '${letter}'`);
+          return null;
+        }
+        options.flags.add(letter);
+      }
+    } else {
+      options.operands.push(arg);
+    }
+  }
+  return options;
+};
+
+// Contents of the named files, or of stdin for none or "-"
+const readInputs = (context: CommandContext, operands: string[]) => {
+  let status = 0;
+  const inputs: Array<{ name: string; content: string }> = [];
+
+  (operands.length > 0 ? operands : ['-']).forEach(name => {
+    if (name === '-') {
+      inputs.push({ name, content: context.stdin.readAll() });
+      return;
+    }
+    try {
+      inputs.push({ name, content: context.fs.readFile(context.fs.resolve(context.cwd, name)) });
+    } catch (error) {
+      status = fail(context, `${name}: ${errorMessage(error)}`);
+    }
+  });
+  return { inputs, status };
+};
+
+export const toLines = (content: string): string[] => {
+  if (!content) return [];
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+const writeLines = (context: CommandContext, lines: string[]) => {
+  if (lines.length > 0) context.stdout(`${lines.join('\n')}\n`);
+};
+
+// Regular expression for a shell wildcard pattern (*, ? and [...])
+export const globToRegExp = (pattern: string, ignoreCase = false): RegExp => {
+  let source = '';
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '\\' && index + 1 < pattern.length) {
+      source += pattern[++index].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', index + 2) !== -1) {
+      const close = pattern.indexOf(']', index + 2);
+      const set = pattern.slice(index + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${set}]`;
+      index = close;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, ignoreCase ? 'i' : '');
+};
+
+export const hasGlob = (pattern: string) => /(^|[^\\])([*?]|\[[^\]]+\])/.test(pattern);
+
+// Escape sequences of echo -e and printf
+const interpretEscapes = (text: string): { text: string; stop: boolean } => {
+  let result = '';
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char !== '\\' || index + 1 >= text.length) {
+      result += char;
+      continue;
+    }
+    const next = text[++index];
+    const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', a: '\u0007', b: '\b', f: '\f', v: '\v', e: ESC, '\\': '\\' };
+    if (next in simple) {
+      result += simple[next];
+    } else if (next === 'c') {
+      return { text: result, stop: true };
+    } else if (next === '0' || next === 'x') {
+      const digits = text.slice(index + 1).match(next === 'x' ? /^[0-9a-fA-F]{1,2}/ : /^[0-7]{0,3}/)?.[0] || '';
+      result += String.fromCharCode(parseInt(digits || '0', next === 'x' ? 16 : 8));
+      index += digits.length;
+    } else {
+      result += `\\${next}`;
+    }
+  }
+  return { text: result, stop: false };
+};
+
+const formatPrintf = (format: string, args: string[]): { text: string; used: number } => {
+  let used = 0;
+  const text = interpretEscapes(format).text.replace(/%([-+ 0#]*)(\d*)(?:\.(\d+))?([sbdiouxXfFeEgGc%])/g, (_, flags: string, width: string, precision: string | undefined, conversion: string) => {
+    if (conversion === '%') return '%';
+    const arg = args[used++] ?? '';
+    let value: string;
+
+    switch (conversion) {
+      case 's':
+        value = precision !== undefined ? arg.substring(0, Number(precision)) : arg;
+        break;
+      case 'b':
+        value = interpretEscapes(arg).text;
+        break;
+      case 'c':
+        value = arg.charAt(0);
+        break;
+      case 'f':
+      case 'F':
+      case 'e':
+      case 'E':
+      case 'g':
+      case 'G': {
+        const number = Number(arg) || 0;
+        value = conversion.toLowerCase() === 'e'
+          ? number.toExponential(Number(precision ?? 6))
+          : conversion.toLowerCase() === 'g' ? String(Number(number.toPrecision(Number(precision || 6)))) : number.toFixed(Number(precision ?? 6));
+        if (conversion === conversion.toUpperCase()) value = value.toUpperCase();
+        break;
+      }
+      default: {
+        const number = Math.trunc(Number(arg) || 0);
+        const radix = conversion === 'o' ? 8 : conversion.toLowerCase() === 'x' ? 16 : 10;
+        value = Math.abs(number).toString(radix);
+        if (conversion === 'X') value = value.toUpperCase();
+        if (precision !== undefined) value = value.padStart(Number(precision), '0');
+        value = (number < 0 ? '-' : flags.includes('+') ? '+' : flags.includes(' ') ? ' ' : '') + value;
+      }
+    }
+
+    const size = Number(width || 0);
+    if (flags.includes('-')) return value.padEnd(size);
+    if (flags.includes('0') && /[diouxXfFeEgG]/.test(conversion)) {
+      const sign = /^[-+ ]/.test(value) ? value[0] : '';
+      return sign + value.substring(sign.length).padStart(size - sign.length, '0');
+    }
+    return value.padStart(size);
+  });
+  return { text, used };
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+const formatDate = (date: Date, format: string) =>
+  format.replace(/%([a-zA-Z%])/g, (match, code: string) => {
+    switch (code) {
+      case 'Y': return String(date.getFullYear());
+      case 'y': return pad2(date.getFullYear() % 100);
+      case 'm': return pad2(date.getMonth() + 1);
+      case 'd': return pad2(date.getDate());
+      case 'e': return String(date.getDate()).padStart(2);
+      case 'H': return pad2(date.getHours());
+      case 'M': return pad2(date.getMinutes());
+      case 'S': return pad2(date.getSeconds());
+      case 'a': return DAYS[date.getDay()];
+      case 'A': return date.toLocaleDateString('en-US', { weekday: 'long' });
+      case 'b': return MONTHS[date.getMonth()];
+      case 'B': return date.toLocaleDateString('en-US', { month: 'long' });
+      case 'j': return String(Math.floor((date.getTime() - new Date(date.getFullYear(), 0, 0).getTime()) / 86400000)).padStart(3, '0');
+      case 's': return String(Math.floor(date.getTime() / 1000));
+      case 'F': return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+      case 'T': return `${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}`;
+      case 'Z': return Intl.DateTimeFormat('en-US', { timeZoneName: 'short' }).formatToParts(date).find(part => part.type === 'timeZoneName')?.value || 'UTC';
+      case 'n': return '\n';
+      case 't': return '\t';
+      case '%': return '%';
+      default: return match;
+    }
+  });
+
+const formatPermissions = (mode: number, directory: boolean) =>
+  (directory ? 'd' : '-') + 'rwxrwxrwx'.split('').map((letter, index) => (mode & (0o400 >> index) ? letter : '-')).join('');
+
+const formatSize = (size: number, human: boolean) => {
+  if (!human || size < 1024) return String(size);
+  const units = ['K', 'M', 'G'];
+  let value = size / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? (Math.ceil(value * 10) / 10).toFixed(1) : Math.ceil(value)}${units[unit]}`;
+};
+
+// Translates POSIX character classes and, for basic regular expressions, grep's escaping of
+// the operators ( ) { } | + ? into JavaScript syntax
+const toRegExpSource = (pattern: string, extended: boolean) => {
+  const classes: Record<string, string> = {
+    alpha: 'a-zA-Z', digit: '0-9', alnum: 'a-zA-Z0-9', upper: 'A-Z', lower: 'a-z', space: '\\s', blank: ' \\t',
+    punct: '!-\\/:-@\\[-`{-~', xdigit: '0-9a-fA-F'
+  };
+  const source = pattern.replace(/\[:(\w+):\]/g, (match, name: string) => classes[name] ?? match);
+  if (extended) return source;
+
+  let result = '';
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (char === '\\' && index + 1 < source.length && '(){}|+?'.includes(source[index + 1])) {
+      result += source[++index];
+    } else if ('(){}|+?'.includes(char)) {
+      result += `\\${char}`;
+    } else {
+      if (char === '\\') result += source[index++];
+      result += source[index] ?? '';
+    }
+  }
+  return result;
+};
+
+// Numbers of a cut list such as 1,3 or 2-4 or 3-
+const parseRanges = (list: string): ((position: number) => boolean) | null => {
+  const ranges = list.split(',').map(part => {
+    const match = part.match(/^(\d*)(-?)(\d*)$/);
+    if (!match || (!match[1] && !match[3])) return null;
+    const start = match[1] ? Number(match[1]) : 1;
+    const end = match[2] ? (match[3] ? Number(match[3]) : Infinity) : start;
+    return start >= 1 ? [start, end] : null;
+  });
+  if (ranges.some(range => range === null)) return null;
+  return position => ranges.some(range => position >= range![0] && position <= range![1]);
+};
+
+// Characters of a tr set, with ranges, escapes and character classes expanded
+const expandSet = (set: string): string[] => {
+  const classes: Record<string, string> = {
+    upper: 'A-Z', lower: 'a-z', digit: '0-9', alpha: 'a-zA-Z', alnum: 'a-zA-Z0-9', space: ' \\t\\n\\r\\v\\f', blank: ' \\t'
+  };
+  const source = interpretEscapes(set.replace(/\[:(\w+):\]/g, (match, name: string) => classes[name] ?? match)).text;
+  const characters: string[] = [];
+  for (let index = 0; index < source.length; index++) {
+    if (source[index + 1] === '-' && index + 2 < source.length) {
+      for (let code = source.charCodeAt(index); code <= source.charCodeAt(index + 2); code++) {
+        characters.push(String.fromCharCode(code));
+      }
+      index += 2;
+    } else {
+      characters.push(source[index]);
+    }
+  }
+  return characters;
+};
+
+class TestError extends Error {}
+
+// The expression language of test and [
+const evaluateTest = (context: CommandContext, args: string[]): boolean => {
+  const { fs } = context;
+  const resolve = (path: string) => fs.resolve(context.cwd, path);
+  const integer = (value: string) => {
+    if (!/^\s*[-+]?\d+\s*$/.test(value)) throw new TestError(`${value}: integer expression expected`);
+    return parseInt(value, 10);
+  };
+
+  const unary: Record<string, (value: string) => boolean> = {
+    '-e': path => fs.exists(resolve(path)),
+    '-f': path => fs.isFile(resolve(path)),
+    '-d': path => fs.isDirectory(resolve(path)),
+    '-s': path => fs.exists(resolve(path)) && fs.size(resolve(path)) > 0 && fs.isFile(resolve(path)),
+    '-r': path => fs.exists(resolve(path)),
+    '-w': path => fs.exists(resolve(path)),
+    '-x': path => fs.isExecutable(resolve(path)) || fs.isDirectory(resolve(path)),
+    '-z': value => value.length === 0,
+    '-n': value => value.length > 0
+  };
+  const binary: Record<string, (left: string, right: string) => boolean> = {
+    '=': (left, right) => left === right,
+    '==': (left, right) => left === right,
+    '!=': (left, right) => left !== right,
+    '<': (left, right) => left < right,
+    '>': (left, right) => left > right,
+    '-eq': (left, right) => integer(left) === integer(right),
+    '-ne': (left, right) => integer(left) !== integer(right),
+    '-lt': (left, right) => integer(left) < integer(right),
+    '-le': (left, right) => integer(left) <= integer(right),
+    '-gt': (left, right) => integer(left) > integer(right),
+    '-ge': (left, right) => integer(left) >= integer(right),
+    '-nt': (left, right) => fs.exists(resolve(left)) && (!fs.exists(resolve(right)) || fs.modified(resolve(left)) > fs.modified(resolve(right))),
+    '-ot': (left, right) => fs.exists(resolve(right)) && (!fs.exists(resolve(left)) || fs.modified(resolve(left)) < fs.modified(resolve(right)))
+  };
+
+  let position = 0;
+  const parsePrimary = (): boolean => {
+    const [first, second, third] = args.slice(position, position + 3);
+    if (first === undefined) throw new TestError('argument expected');
+    if (first === '(' && args.length - position > 1) {
+      position++;
+      const value = parseOr();
+      if (args[position++] !== ')') throw new TestError('\')\' expected');
+      return value;
+    }
+    if (second !== undefined && third !== undefined && binary[second]) {
+      position += 3;
+      return binary[second](first, third);
+    }
+    if (second !== undefined && unary[first]) {
+      position += 2;
+      return unary[first](second);
+    }
+    position++;
+    return first !== '';
+  };
+  const parseNot = (): boolean => {
+    if (args[position] === '!' && position + 1 < args.length) {
+      position++;
+      return !parseNot();
+    }
+    return parsePrimary();
+  };
+  const parseAnd = (): boolean => {
+    let value = parseNot();
+    while (args[position] === '-a') {
+      position++;
+      value = parseNot() && value;
+    }
+    return value;
+  };
+  const parseOr = (): boolean => {
+    let value = parseAnd();
+    while (args[position] === '-o') {
+      position++;
+      value = parseAnd() || value;
+    }
+    return value;
+  };
+
+  if (args.length === 0) return false;
+  const result = parseOr();
+  if (position < args.length) throw new TestError(args.length > 3 ? 'too many arguments' : `${args[position]}: unexpected operator`);
+  return result;
+};
+
+const test: ShellCommand = context => {
+  const args = [...context.args];
+  if (context.name === '[' && args.pop() !== ']') return fail(context, 'missing `]\'', 2);
+  try {
+    return evaluateTest(context, args) ? 0 : 1;
+  } catch (error) {
+    return fail(context, errorMessage(error), 2);
+  }
+};
+
+const paintName = (context: CommandContext, name: string, path: string) => {
+  if (!context.tty) return name;
+  const colour = context.fs.isDirectory(path) ? ANSI.directory : context.fs.isExecutable(path) ? ANSI.executable : null;
+  return colour ? `${colour}${name}${ANSI.reset}` : name;
+};
+
+const ls: ShellCommand = context => {
+  const options = parseOptions(context, { flags: 'aAlh1rtd' });
+  if (!options) return 2;
+  const { fs } = context;
+  const { flags } = options;
+  const operands = options.operands.length > 0 ? options.operands : ['.'];
+  let status = 0;
+
+  const files: string[] = [];
+  const directories: string[] = [];
+  operands.forEach(operand => {
+    const path = fs.resolve(context.cwd, operand);
+    if (!fs.exists(path)) {
+      status = fail(context, `cannot access '${operand}': No such file or directory`, 2);
+    } else if (fs.isDirectory(path) && !flags.has('d')) {
+      directories.push(operand);
+    } else {
+      files.push(operand);
+    }
+  });
+
+  const render = (entries: Array<{ name: string; path: string }>) => {
+    const sorted = flags.has('t')
+      ? [...entries].sort((a, b) => fs.modified(b.path).getTime() - fs.modified(a.path).getTime())
+      : entries;
+    if (flags.has('r')) sorted.reverse();
+    if (sorted.length === 0) return '';
+
+    if (!flags.has('l')) {
+      const names = sorted.map(entry => paintName(context, entry.name, entry.path));
+      return `${names.join(context.tty && !flags.has('1') ? '  ' : '\n')}\n`;
+    }
+
+    const sizes = sorted.map(entry => formatSize(fs.size(entry.path), flags.has('h')));
+    const width = Math.max(...sizes.map(size => size.length));
+    return sorted.map((entry, index) => {
+      const modified = fs.modified(entry.path);
+      const date = `${MONTHS[modified.getMonth()]} ${String(modified.getDate()).padStart(2)} ${pad2(modified.getHours())}:${pad2(modified.getMinutes())}`;
+      const permissions = formatPermissions(fs.mode(entry.path), fs.isDirectory(entry.path));
+      return `${permissions} 1 ${USER} ${USER} ${sizes[index].padStart(width)} ${date} ${paintName(context, entry.name, entry.path)}\n`;
+    }).join('');
+  };
+
+  const blocks: string[] = [];
+  if (files.length > 0) {
+    blocks.push(render(files.map(name => ({ name, path: fs.resolve(context.cwd, name) }))));
+  }
+  directories.forEach(operand => {
+    const path = fs.resolve(context.cwd, operand);
+    const names = fs.list(path).filter(name => !name.startsWith('.') || flags.has('a') || flags.has('A'));
+    const entries = [
+      ...(flags.has('a') ? [{ name: '.', path }, { name: '..', path: parentOf(path) }] : []),
+      ...names.map(name => ({ name, path: joinPath(path, name) }))
+    ];
+    const header = operands.length > 1 ? `${operand}:\n` : '';
+    const blocksUsed = entries.reduce((total, entry) => total + Math.ceil(fs.size(entry.path) / 4096) * 4, 0);
+    blocks.push(header + (flags.has('l') ? `total ${blocksUsed}\n` : '') + render(entries));
+  });
+
+  context.stdout(blocks.join('\n'));
+  return status;
+};
+
+const grep: ShellCommand = context => {
+  const options = parseOptions(context, { flags: 'ivnclLrRwoEFqsHhx', values: 'e', long: ['color', 'colour'] });
+  if (!options) return 2;
+  const { flags, values } = options;
+  const operands = [...options.operands];
+  const pattern = values.e ?? operands.shift();
+  if (pattern === undefined) return fail(context, 'usage: grep [OPTION]... PATTERNS [FILE]...', 2);
+
+  let expression: RegExp;
+  try {
+    let source = flags.has('F') ? pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : toRegExpSource(pattern, flags.has('E'));
+    if (flags.has('w')) source = `(?<![\\w])(?:${source})(?![\\w])`;
+    if (flags.has('x')) source = `^(?:${source})$`;
+    expression = new RegExp(source, flags.has('i') ? 'gi' : 'g');
+  } catch (error) {
+    return fail(context, 'Invalid regular expression', 2);
+  }
+
+  // Matches are coloured in the terminal by default, as with the grep alias most distributions ship
+  const colourSetting = values.color ?? values.colour ?? 'auto';
+  const colour = colourSetting === 'always' || (colourSetting === 'auto' && context.tty);
+  const paint = (text: string, code: string) => (colour ? `${code}${text}${ANSI.reset}` : text);
+
+  // Recursive searches look through every file under the given directories
+  const recursive = flags.has('r') || flags.has('R');
+  const { fs } = context;
+  let status = 0;
+  const files: string[] = [];
+  (operands.length > 0 ? operands : [recursive ? '.' : '-']).forEach(operand => {
+    const path = fs.resolve(context.cwd, operand);
+    if (operand !== '-' && fs.isDirectory(path)) {
+      if (!recursive) {
+        if (!flags.has('s')) fail(context, `${operand}: Is a directory`, 2);
+        status = 2;
+        return;
+      }
+      fs.descendants(path).filter(item => fs.isFile(item)).forEach(item => {
+        files.push(operand === '.' && operands.length === 0 ? item.substring(path.length + 1) : `${operand.replace(/\/$/, '')}${item.substring(path.length)}`);
+      });
+    } else {
+      files.push(operand);
+    }
+  });
+
+  const showNames = !flags.has('h') && (flags.has('H') || files.length > 1 || recursive);
+  let matched = false;
+
+  for (const file of files) {
+    let content: string;
+    if (file === '-') {
+      content = context.stdin.readAll();
+    } else {
+      try {
+        content = fs.readFile(fs.resolve(context.cwd, file));
+      } catch (error) {
+        if (!flags.has('s')) fail(context, `${file}: ${errorMessage(error)}`, 2);
+        status = 2;
+        continue;
+      }
+    }
+
+    const name = file === '-' ? '(standard input)' : file;
+    const prefix = (lineNumber: number) =>
+      (showNames ? paint(name, ANSI.fileName) + paint(':', ANSI.separator) : '') +
+      (flags.has('n') ? paint(String(lineNumber), ANSI.lineNumber) + paint(':', ANSI.separator) : '');
+    let count = 0;
+
+    for (const [index, line] of toLines(content).entries()) {
+      expression.lastIndex = 0;
+      const found = expression.test(line);
+      if (found === flags.has('v')) continue;
+      count++;
+      matched = true;
+      if (flags.has('q')) return 0;
+      if (flags.has('l') || flags.has('L') || flags.has('c')) continue;
+
+      if (flags.has('o') && !flags.has('v')) {
+        expression.lastIndex = 0;
+        Array.from(line.matchAll(expression))
+          .filter(match => match[0])
+          .forEach(match => context.stdout(`${prefix(index + 1)}${paint(match[0], ANSI.match)}\n`));
+      } else {
+        const text = colour && !flags.has('v') ? line.replace(expression, match => paint(match, ANSI.match)) : line;
+        context.stdout(`${prefix(index + 1)}${text}\n`);
+      }
+    }
+
+    if (flags.has('c')) context.stdout(`${showNames ? paint(name, ANSI.fileName) + paint(':', ANSI.separator) : ''}${count}\n`);
+    if (flags.has('l') && count > 0) context.stdout(`${paint(name, ANSI.fileName)}\n`);
+    if (flags.has('L') && count === 0) context.stdout(`${paint(name, ANSI.fileName)}\n`);
+  }
+
+  if (status === 2 && !matched) return 2;
+  return matched ? 0 : 1;
+};
+
+// head and tail
+const headOrTail = (fromEnd: boolean): ShellCommand => context => {
+  // -5 is short for -n 5
+  const args = context.args.flatMap(arg => (/^-\d+$/.test(arg) ? ['-n', arg.substring(1)] : [arg]));
+  const options = parseOptions(context, { flags: 'qv', values: 'nc' }, args);
+  if (!options) return 1;
+
+  const countText = options.values.n ?? '10';
+  const fromStart = fromEnd && countText.startsWith('+');
+  const count = Number(countText.replace(/^[+-]/, ''));
+  if (!Number.isInteger(count)) return fail(context, `invalid number of lines: '${countText}'`);
+
+  const { inputs, status } = readInputs(context, options.operands);
+  inputs.forEach((input, index) => {
+    if (inputs.length > 1 && !options.flags.has('q')) {
+      context.stdout(`${index > 0 ? '\n' : ''}==> ${input.name === '-' ? 'standard input' : input.name} <==\n`);
+    }
+    const lines = toLines(input.content);
+    const selected = !fromEnd
+      ? lines.slice(0, count)
+      : fromStart ? lines.slice(Math.max(count - 1, 0)) : lines.slice(Math.max(lines.length - count, 0));
+    writeLines(context, selected);
+  });
+  return status;
+};
+
+const wc: ShellCommand = context => {
+  const options = parseOptions(context, { flags: 'lwcm' });
+  if (!options) return 1;
+  const selected = ['l', 'w', 'c'].filter(flag => options.flags.has(flag) || (flag === 'c' && options.flags.has('m')));
+  const columns = selected.length > 0 ? selected : ['l', 'w', 'c'];
+
+  const { inputs, status } = readInputs(context, options.operands);
+  const rows = inputs.map(input => ({
+    name: input.name === '-' ? '' : input.name,
+    counts: {
+      l: (input.content.match(/\n/g) || []).length,
+      w: input.content.split(/\s+/).filter(Boolean).length,
+      c: new TextEncoder().encode(input.content).length
+    } as Record<string, number>
+  }));
+  if (rows.length > 1) {
+    rows.push({
+      name: 'total',
+      counts: Object.fromEntries(columns.map(column => [column, rows.reduce((sum, row) => sum + row.counts[column], 0)]))
+    });
+  }
+
+  // A single count read from stdin is printed bare, as in wc -l < file
+  const bare = rows.length === 1 && columns.length === 1 && !rows[0].name;
+  const width = bare ? 0 : Math.max(...rows.flatMap(row => columns.map(column => String(row.counts[column]).length)));
+  rows.forEach(row => {
+    const counts = columns.map(column => String(row.counts[column]).padStart(width)).join(' ');
+    context.stdout(`${counts}${row.name ? ` ${row.name}` : ''}\n`);
+  });
+  return status;
+};
+
+const sort: ShellCommand = context => {
+  const options = parseOptions(context, { flags: 'rnufb', values: 'kt' });
+  if (!options) return 1;
+  const { flags, values } = options;
+  const field = values.k ? Number(values.k.split(/[,.]/)[0]) : 0;
+  if (values.k && !(field >= 1)) return fail(context, `invalid number at field start: invalid count at start of '${values.k}'`, 2);
+
+  const key = (line: string) => {
+    if (!field) return line;
+    const parts = values.t ? line.split(values.t) : line.trim().split(/\s+/);
+    const rest = parts.slice(field - 1).join(values.t ?? ' ');
+    return flags.has('b') ? rest.trim() : rest;
+  };
+  const compare = (a: string, b: string) => {
+    const [left, right] = [key(a), key(b)];
+    if (flags.has('n')) return (parseFloat(left) || 0) - (parseFloat(right) || 0);
+    const [x, y] = flags.has('f') ? [left.toLowerCase(), right.toLowerCase()] : [left, right];
+    return x < y ? -1 : x > y ? 1 : 0;
+  };
+
+  const { inputs, status } = readInputs(context, options.operands);
+  const lines = inputs.flatMap(input => toLines(input.content));
+  // Lines with equal keys fall back to comparing whole lines, as GNU sort does without -s
+  const sorted = lines.sort((a, b) => compare(a, b) || (flags.has('u') ? 0 : a < b ? -1 : a > b ? 1 : 0));
+  if (flags.has('r')) sorted.reverse();
+  writeLines(context, flags.has('u') ? sorted.filter((line, index) => index === 0 || compare(sorted[index - 1], line) !== 0) : sorted);
+  return status;
+};
+
+const uniq: ShellCommand = context => {
+  const options = parseOptions(context, { flags: 'cdui' });
+  if (!options) return 1;
+  const { flags } = options;
+  const { inputs, status } = readInputs(context, options.operands.slice(0, 1));
+  const same = (a: string, b: string) => (flags.has('i') ? a.toLowerCase() === b.toLowerCase() : a === b);
+
+  const groups: Array<{ line: string; count: number }> = [];
+  inputs.flatMap(input => toLines(input.content)).forEach(line => {
+    const last = groups[groups.length - 1];
+    if (last && same(last.line, line)) {
+      last.count++;
+    } else {
+      groups.push({ line, count: 1 });
+    }
+  });
+
+  const output = groups
+    .filter(group => (!flags.has('d') || group.count > 1) && (!flags.has('u') || group.count === 1))
+    .map(group => (flags.has('c') ? `${String(group.count).padStart(7)} ${group.line}` : group.line));
+  const target = options.operands[1];
+  if (target) {
+    context.fs.writeFile(context.fs.resolve(context.cwd, target), output.length > 0 ? `${output.join('\n')}\n` : '');
+  } else {
+    writeLines(context, output);
+  }
+  return status;
+};
+
+const cut: ShellCommand = context => {
+  const options = parseOptions(context, { flags: 's', values: 'dfc' });
+  if (!options) return 1;
+  const { values } = options;
+  const list = values.f ?? values.c;
+  if (!list) return fail(context, 'you must specify a list of bytes, characters, or fields');
+  const selected = parseRanges(list);
+  if (!selected) return fail(context, `invalid field range '${list}'`);
+  const delimiter = values.d ?? '\t';
+  if (delimiter.length !== 1) return fail(context, 'the delimiter must be a single character');
+
+  const { inputs, status } = readInputs(context, options.operands);
+  const lines = inputs.flatMap(input => toLines(input.content)).flatMap(line => {
+    if (values.c !== undefined) {
+      return [line.split('').filter((_, index) => selected(index + 1)).join('')];
+    }
+    if (!line.includes(delimiter)) return options.flags.has('s') ? [] : [line];
+    return [line.split(delimiter).filter((_, index) => selected(index + 1)).join(delimiter)];
+  });
+  writeLines(context, lines);
+  return status;
+};
+
+const tr: ShellCommand = context => {
+  const options = parseOptions(context, { flags: 'dsc' });
+  if (!options) return 1;
+  const { flags, operands } = options;
+  // -d takes the set to delete, -s the set to squeeze, and either can be combined with a second set
+  const [minimum, maximum] = flags.has('d') ? (flags.has('s') ? [2, 2] : [1, 1]) : flags.has('s') ? [1, 2] : [2, 2];
+  if (operands.length < minimum) return fail(context, 'missing operand');
+  if (operands.length > maximum) return fail(context, `extra operand '${operands[maximum]}'`);
+
+  const first = expandSet(operands[0]);
+  const second = operands[1] !== undefined ? expandSet(operands[1]) : [];
+  const inFirst = (char: string) => first.includes(char) !== flags.has('c');
+  const squeeze = flags.has('s') ? (second.length > 0 ? second : first) : [];
+
+  let output = '';
+  for (const char of context.stdin.readAll()) {
+    let mapped: string | null = char;
+    if (flags.has('d')) {
+      if (inFirst(char)) mapped = null;
+    } else if (second.length > 0 && inFirst(char)) {
+      mapped = flags.has('c') ? second[second.length - 1] : second[Math.min(first.indexOf(char), second.length - 1)];
+    }
+    if (mapped === null) continue;
+    if (squeeze.includes(mapped) && output.endsWith(mapped)) continue;
+    output += mapped;
+  }
+  context.stdout(output);
+  return 0;
+};
+
+const find: ShellCommand = context => {
+  const { fs } = context;
+  const args = [...context.args];
+  const starts: string[] = [];
+  while (args.length > 0 && !args[0].startsWith('-') && args[0] !== '!' && args[0] !== '(') starts.push(args.shift()!);
+
+  // Each test gets the absolute path and the path as printed
+  const tests: Array<(path: string, shown: string) => boolean> = [];
+  let maxDepth = Infinity;
+  let minDepth = 0;
+  let negate = false;
+  while (args.length > 0) {
+    const option = args.shift()!;
+    if (option === '!' || option === '-not') {
+      negate = !negate;
+      continue;
+    }
+    const value = args.shift();
+    if (value === undefined) return fail(context, `missing argument to \`${option}'`);
+
+    let check: ((path: string, shown: string) => boolean) | null = null;
+    switch (option) {
+      case '-name':
+      case '-iname': {
+        const pattern = globToRegExp(value, option === '-iname');
+        check = (_, shown) => pattern.test(baseName(shown));
+        break;
+      }
+      case '-path': {
+        const pattern = new RegExp(globToRegExp(value).source.replace(/\[\^\/\]\*/g, '.*'));
+        check = (_, shown) => pattern.test(shown);
+        break;
+      }
+      case '-type':
+        if (value !== 'f' && value !== 'd') return fail(context, `Unknown argument to -type: ${value}`);
+        check = path => (value === 'f' ? fs.isFile(path) : fs.isDirectory(path));
+        break;
+      case '-maxdepth':
+      case '-mindepth':
+        if (!/^\d+$/.test(value)) return fail(context, `Expected a positive decimal integer argument to ${option}, but got '${value}'`);
+        if (option === '-maxdepth') maxDepth = Number(value);
+        else minDepth = Number(value);
+        break;
+      default:
+        return fail(context, `unknown predicate \`${option}'`);
+    }
+
+    if (check) {
+      const test = check;
+      const negated = negate;
+      tests.push((path, shown) => test(path, shown) !== negated);
+    }
+    negate = false;
+  }
+
+  let status = 0;
+  (starts.length > 0 ? starts : ['.']).forEach(start => {
+    const root = fs.resolve(context.cwd, start);
+    if (!fs.exists(root)) {
+      status = fail(context, `'${start}': No such file or directory`);
+      return;
+    }
+    const visit = (path: string, shown: string, depth: number) => {
+      if (depth >= minDepth && tests.every(check => check(path, shown))) {
+        context.stdout(`${shown}\n`);
+      }
+      if (fs.isDirectory(path) && depth < maxDepth) {
+        fs.list(path).forEach(name => visit(joinPath(path, name), shown === '/' ? `/${name}` : `${shown.replace(/\/$/, '')}/${name}`, depth + 1));
+      }
+    };
+    visit(root, start, 0);
+  });
+  return status;
+};
+
+const chmod: ShellCommand = context => {
+  const options = parseOptions(context, { flags: 'Rv' });
+  if (!options) return 1;
+  const [mode, ...targets] = options.operands;
+  if (!mode || targets.length === 0) return fail(context, mode ? `missing operand after '${mode}'` : 'missing operand');
+
+  const apply = (current: number): number | null => {
+    if (/^[0-7]{1,4}$/.test(mode)) return parseInt(mode, 8) & 0o777;
+    let result = current;
+    for (const clause of mode.split(',')) {
+      const match = clause.match(/^([ugoa]*)([-+=])([rwxX]*)$/);
+      if (!match) return null;
+      const who = match[1] && !match[1].includes('a')
+        ? match[1].split('').reduce((mask, letter) => mask | ({ u: 0o700, g: 0o070, o: 0o007 } as Record<string, number>)[letter], 0)
+        : 0o777;
+      const permission = match[3].split('').reduce((bits, letter) => bits | ({ r: 0o444, w: 0o222, x: 0o111, X: 0o111 } as Record<string, number>)[letter], 0);
+      const bits = permission & who;
+      result = match[2] === '+' ? result | bits : match[2] === '-' ? result & ~bits : (result & ~who) | bits;
+    }
+    return result;
+  };
+
+  let status = 0;
+  for (const target of targets) {
+    const path = context.fs.resolve(context.cwd, target);
+    if (!context.fs.exists(path)) {
+      status = fail(context, `cannot access '${target}': No such file or directory`);
+      continue;
+    }
+    const paths = options.flags.has('R') && context.fs.isDirectory(path) ? [path, ...context.fs.descendants(path)] : [path];
+    for (const item of paths) {
+      const updated = apply(context.fs.mode(item));
+      if (updated === null) return fail(context, `invalid mode: '${mode}'`);
+      context.fs.setMode(item, updated);
+    }
+  }
+  return status;
+};
+
+// Runs a filesystem operation on each operand, reporting failures as "<verb> '<name>': <reason>"
+const eachOperand = (context: CommandContext, operands: string[], verb: string, operation: (path: string, operand: string) => void) => {
+  if (operands.length === 0) return fail(context, 'missing operand');
+  let status = 0;
+  operands.forEach(operand => {
+    try {
+      operation(context.fs.resolve(context.cwd, operand), operand);
+    } catch (error) {
+      status = fail(context, `${verb} '${operand}': ${errorMessage(error)}`);
+    }
+  });
+  return status;
+};
+
+// cp and mv, which copy into a directory when the last operand is one
+const copyOrMove = (move: boolean): ShellCommand => context => {
+  const options = parseOptions(context, { flags: move ? 'fiv' : 'rRfiv' });
+  if (!options) return 1;
+  const { fs } = context;
+  const operands = options.operands;
+  if (operands.length < 2) {
+    return fail(context, operands.length === 0 ? 'missing file operand' : `missing destination file operand after '${operands[0]}'`);
+  }
+
+  const target = operands[operands.length - 1];
+  const targetPath = fs.resolve(context.cwd, target);
+  const sources = operands.slice(0, -1);
+  if (sources.length > 1 && !fs.isDirectory(targetPath)) return fail(context, `target '${target}' is not a directory`);
+
+  const recursive = options.flags.has('r') || options.flags.has('R');
+  let status = 0;
+  sources.forEach(source => {
+    const sourcePath = fs.resolve(context.cwd, source);
+    const destination = fs.isDirectory(targetPath) ? joinPath(targetPath, baseName(sourcePath)) : targetPath;
+    try {
+      if (!fs.exists(sourcePath)) throw new FileSystemError('No such file or directory');
+      if (!move && !recursive && fs.isDirectory(sourcePath)) {
+        status = fail(context, `-r not specified; omitting directory '${source}'`);
+        return;
+      }
+      if (move) {
+        fs.move(sourcePath, destination);
+      } else {
+        fs.copy(sourcePath, destination, recursive);
+      }
+    } catch (error) {
+      status = fail(context, `cannot ${move ? 'move' : 'stat'} '${source}'${move ? ` to '${target}'` : ''}: ${errorMessage(error)}`);
+    }
+  });
+  return status;
+};
+
+const echo: ShellCommand = context => {
+  const args = [...context.args];
+  let newline = true;
+  let escapes = false;
+  while (args.length > 0 && /^-[neE]+$/.test(args[0])) {
+    const flags = args.shift()!;
+    if (flags.includes('n')) newline = false;
+    if (flags.includes('e')) escapes = true;
+    if (flags.includes('E')) escapes = false;
+  }
+
+  const text = args.join(' ');
+  if (!escapes) {
+    context.stdout(newline ? `${text}\n` : text);
+    return 0;
+  }
+  const interpreted = interpretEscapes(text);
+  context.stdout(interpreted.text + (newline && !interpreted.stop ? '\n' : ''));
+  return 0;
+};
+
+const printf: ShellCommand = context => {
+  const [format, ...args] = context.args;
+  if (format === undefined) return fail(context, 'usage: printf format [arguments]', 2);
+
+  // The format is reused until every argument has been consumed
+  let remaining = args;
+  do {
+    const { text, used } = formatPrintf(format, remaining);
+    context.stdout(text);
+    if (used === 0) break;
+    remaining = remaining.slice(used);
+  } while (remaining.length > 0);
+  return 0;
+};
+
+const cat: ShellCommand = context => {
+  const options = parseOptions(context, { flags: 'nbEs' });
+  if (!options) return 1;
+  const { flags } = options;
+  const { inputs, status } = readInputs(context, options.operands);
+  const content = inputs.map(input => input.content).join('');
+  if (!flags.has('n') && !flags.has('b') && !flags.has('E') && !flags.has('s')) {
+    context.stdout(content);
+    return status;
+  }
+
+  let number = 0;
+  const lines = toLines(content)
+    .filter((line, index, all) => !flags.has('s') || line !== '' || all[index - 1] !== '')
+    .map(line => {
+      const text = flags.has('E') ? `${line}$` : line;
+      if (flags.has('b') ? line === '' : !flags.has('n')) return text;
+      return `${String(++number).padStart(6)}\t${text}`;
+    });
+  writeLines(context, lines);
+  return status;
+};
+
+const seq: ShellCommand = context => {
+  const args = [...context.args];
+  let separator = '\n';
+  let equalWidth = false;
+  while (args.length > 0 && /^-[sw]/.test(args[0])) {
+    const flag = args.shift()!;
+    if (flag === '-w') {
+      equalWidth = true;
+    } else {
+      separator = flag.length > 2 ? flag.substring(2) : args.shift() ?? '\n';
+    }
+  }
+  if (args.length === 0 || args.length > 3) return fail(context, args.length === 0 ? 'missing operand' : `extra operand '${args[3]}'`);
+
+  const numbers = args.map(Number);
+  const invalid = args.find((arg, index) => Number.isNaN(numbers[index]) || arg.trim() === '');
+  if (invalid !== undefined) return fail(context, `invalid floating point argument: '${invalid}'`);
+
+  const [first, step, last] = numbers.length === 1 ? [1, 1, numbers[0]] : numbers.length === 2 ? [numbers[0], 1, numbers[1]] : numbers;
+  if (step === 0) return fail(context, `invalid Zero increment value: '${args[1]}'`);
+  const decimals = Math.max(...args.map(arg => (arg.includes('.') ? arg.split('.')[1].length : 0)));
+
+  const values: string[] = [];
+  for (let value = first; step > 0 ? value <= last + 1e-9 : value >= last - 1e-9; value += step) {
+    values.push(value.toFixed(decimals));
+    if (values.length > 100000) return fail(context, 'too many numbers for the simulated shell');
+  }
+  const width = Math.max(...values.map(value => value.length));
+  if (values.length > 0) {
+    context.stdout(`${values.map(value => (equalWidth ? value.padStart(width, '0') : value)).join(separator)}\n`);
+  }
+  return 0;
+};
+
+const date: ShellCommand = context => {
+  const format = context.args.find(arg => arg.startsWith('+'));
+  context.stdout(`${formatDate(new Date(), format ? format.substring(1) : '%a %b %e %H:%M:%S %Z %Y')}\n`);
+  return 0;
+};
+
+const tee: ShellCommand = context => {
+  const options = parseOptions(context, { flags: 'a' });
+  if (!options) return 1;
+  const content = context.stdin.readAll();
+  const status = options.operands.length === 0
+    ? 0
+    : eachOperand(context, options.operands, 'cannot write to', path => context.fs.writeFile(path, content, options.flags.has('a')));
+  context.stdout(content);
+  return status;
+};
+
+export const COMMANDS: Record<string, ShellCommand> = {
+  '[': test,
+  test,
+  ls,
+  grep,
+  head: headOrTail(false),
+  tail: headOrTail(true),
+  wc,
+  sort,
+  uniq,
+  cut,
+  tr,
+  find,
+  chmod,
+  echo,
+  printf,
+  cat,
+  seq,
+  date,
+  tee,
+  cp: copyOrMove(false),
+  mv: copyOrMove(true),
+  pwd: context => {
+    context.stdout(`${context.cwd}\n`);
+    return 0;
+  },
+  mkdir: context => {
+    const options = parseOptions(context, { flags: 'pv' });
+    if (!options) return 1;
+    return eachOperand(context, options.operands, 'cannot create directory', path => context.fs.makeDirectory(path, options.flags.has('p')));
+  },
+  rmdir: context => {
+    const options = parseOptions(context, { flags: 'v' });
+    if (!options) return 1;
+    return eachOperand(context, options.operands, 'failed to remove', path => context.fs.removeDirectory(path));
+  },
+  touch: context => {
+    const options = parseOptions(context, { flags: 'c' });
+    if (!options) return 1;
+    return eachOperand(context, options.operands, 'cannot touch', path => {
+      if (!options.flags.has('c') || context.fs.exists(path)) context.fs.touch(path);
+    });
+  },
+  rm: context => {
+    const options = parseOptions(context, { flags: 'rRfiv' });
+    if (!options) return 1;
+    const { flags } = options;
+    if (options.operands.length === 0 && flags.has('f')) return 0;
+    return eachOperand(context, options.operands, 'cannot remove', path => {
+      if (flags.has('f') && !context.fs.exists(path)) return;
+      if (path === '/' || path === HOME) throw new FileSystemError('Operation not permitted in the lab terminal');
+      context.fs.remove(path, flags.has('r') || flags.has('R'));
+    });
+  },
+  basename: context => {
+    const [path, suffix] = context.args;
+    if (path === undefined) return fail(context, 'missing operand');
+    const name = baseName(path.replace(/\/+$/, '') || '/');
+    context.stdout(`${suffix && name !== suffix && name.endsWith(suffix) ? name.slice(0, -suffix.length) : name}\n`);
+    return 0;
+  },
+  dirname: context => {
+    const [path] = context.args;
+    if (path === undefined) return fail(context, 'missing operand');
+    const trimmed = path.replace(/\/+$/, '') || '/';
+    context.stdout(`${trimmed.includes('/') ? parentOf(trimmed) : '.'}\n`);
+    return 0;
+  },
+  rev: context => {
+    const { inputs, status } = readInputs(context, context.args);
+    writeLines(context, inputs.flatMap(input => toLines(input.content)).map(line => line.split('').reverse().join('')));
+    return status;
+  },
+  env: context => {
+    writeLines(context, Object.keys(context.env).sort().map(name => `${name}=${context.env[name]}`));
+    return 0;
+  },
+  printenv: context => {
+    if (context.args.length === 0) return COMMANDS.env(context);
+    const values = context.args.filter(name => name in context.env).map(name => context.env[name]);
+    writeLines(context, values);
+    return values.length === context.args.length ? 0 : 1;
+  },
+  true: () => 0,
+  false: () => 1,
+  whoami: context => {
+    context.stdout(`${USER}\n`);
+    return 0;
+  },
+  hostname: context => {
+    context.stdout(`${HOSTNAME}\n`);
+    return 0;
+  },
+  uname: context => {
+    context.stdout(context.args.includes('-a') ? `Linux ${HOSTNAME} 6.1.0-lab x86_64 GNU/Linux\n` : 'Linux\n');
+    return 0;
+  },
+  // Nothing runs in the background, so there is nothing to wait for
+  sleep: context => {
+    const invalid = context.args.find(arg => !/^\d+(\.\d+)?[smhd]?$/.test(arg));
+    if (context.args.length === 0) return fail(context, 'missing operand');
+    return invalid ? fail(context, `invalid time interval '${invalid}'`) : 0;
+  },
+  clear: context => {
+    context.stdout(ANSI.clearScreen);
+    return 0;
+  }
+};
@@ -0,0 +1,219 @@
+import { FileMap } from '../../types/runner';
+
+// In-memory filesystem for the simulated shell. Lab files are copied into the learner's home
+// directory; nothing the shell changes is written back to the lab.
+
+export const HOME = '/home/learner';
+
+type Entry =
+  | { type: 'file'; content: string; modified: number; mode: number }
+  | { type: 'directory'; modified: number; mode: number };
+
+const FILE_MODE = 0o644;
+const DIRECTORY_MODE = 0o755;
+
+// Errors use the wording of the matching errno so commands can print them as coreutils do
+export class FileSystemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileSystemError';
+  }
+}
+
+export const joinPath = (directory: string, name: string) => (directory === '/' ? `/${name}` : `${directory}/${name}`);
+
+export const parentOf = (path: string) => {
+  const index = path.lastIndexOf('/');
+  return index <= 0 ? '/' : path.substring(0, index);
+};
+
+export const baseName = (path: string) => path.substring(path.lastIndexOf('/') + 1) || '/';
+
+export class ShellFileSystem {
+  private entries = new Map<string, Entry>();
+
+  constructor(files: FileMap = {}) {
+    ['/', '/home', HOME, '/tmp'].forEach(path => this.entries.set(path, { type: 'directory', modified: Date.now(), mode: DIRECTORY_MODE }));
+    Object.entries(files).forEach(([name, content]) => {
+      const path = this.resolve(HOME, name);
+      this.makeDirectory(parentOf(path), true);
+      this.writeFile(path, content);
+    });
+  }
+
+  // Absolute, normalised form of a path typed relative to the working directory
+  resolve(cwd: string, path: string): string {
+    const expanded = path === '~' || path.startsWith('~/') ? HOME + path.substring(1) : path;
+    const segments = expanded.startsWith('/') ? [] : cwd.split('/').filter(Boolean);
+
+    expanded.split('/').forEach(segment => {
+      if (segment === '..') {
+        segments.pop();
+      } else if (segment && segment !== '.') {
+        segments.push(segment);
+      }
+    });
+
+    return `/${segments.join('/')}`;
+  }
+
+  // The path as a prompt shows it, with the home directory as ~
+  displayPath(path: string): string {
+    if (path === HOME) return '~';
+    return path.startsWith(`${HOME}/`) ? `~${path.substring(HOME.length)}` : path;
+  }
+
+  exists(path: string) {
+    return this.entries.has(path);
+  }
+
+  isDirectory(path: string) {
+    return this.entries.get(path)?.type === 'directory';
+  }
+
+  isFile(path: string) {
+    return this.entries.get(path)?.type === 'file';
+  }
+
+  isExecutable(path: string) {
+    const entry = this.entries.get(path);
+    return entry?.type === 'file' && (entry.mode & 0o111) !== 0;
+  }
+
+  mode(path: string): number {
+    const entry = this.entries.get(path);
+    if (!entry) throw new FileSystemError('No such file or directory');
+    return entry.mode;
+  }
+
+  setMode(path: string, mode: number) {
+    const entry = this.entries.get(path);
+    if (!entry) throw new FileSystemError('No such file or directory');
+    entry.mode = mode & 0o777;
+  }
+
+  // Size in bytes of a file; directories report the traditional 4096
+  size(path: string): number {
+    const entry = this.entries.get(path);
+    if (!entry) throw new FileSystemError('No such file or directory');
+    return entry.type === 'file' ? new TextEncoder().encode(entry.content).length : 4096;
+  }
+
+  modified(path: string): Date {
+    const entry = this.entries.get(path);
+    if (!entry) throw new FileSystemError('No such file or directory');
+    return new Date(entry.modified);
+  }
+
+  readFile(path: string): string {
+    const entry = this.entries.get(path);
+    if (!entry) throw new FileSystemError('No such file or directory');
+    if (entry.type === 'directory') throw new FileSystemError('Is a directory');
+    return entry.content;
+  }
+
+  writeFile(path: string, content: string, append = false) {
+    const entry = this.entries.get(path);
+    if (entry?.type === 'directory') throw new FileSystemError('Is a directory');
+    if (!this.isDirectory(parentOf(path))) throw new FileSystemError('No such file or directory');
+
+    const previous = append && entry?.type === 'file' ? entry.content : '';
+    this.entries.set(path, { type: 'file', content: previous + content, modified: Date.now(), mode: entry?.mode ?? FILE_MODE });
+  }
+
+  // Updates the modification time, creating an empty file when there is none
+  touch(path: string) {
+    const entry = this.entries.get(path);
+    if (entry) {
+      entry.modified = Date.now();
+    } else {
+      this.writeFile(path, '');
+    }
+  }
+
+  makeDirectory(path: string, parents = false) {
+    if (this.entries.has(path)) {
+      if (parents && this.isDirectory(path)) return;
+      throw new FileSystemError('File exists');
+    }
+    const parent = parentOf(path);
+    if (!this.isDirectory(parent)) {
+      if (!parents || this.isFile(parent)) throw new FileSystemError('No such file or directory');
+      this.makeDirectory(parent, true);
+    }
+    this.entries.set(path, { type: 'directory', modified: Date.now(), mode: DIRECTORY_MODE });
+  }
+
+  // Names of the entries in a directory, sorted
+  list(path: string): string[] {
+    if (!this.entries.has(path)) throw new FileSystemError('No such file or directory');
+    if (!this.isDirectory(path)) throw new FileSystemError('Not a directory');
+
+    const prefix = path === '/' ? '/' : `${path}/`;
+    return Array.from(this.entries.keys())
+      .filter(key => key !== '/' && key.startsWith(prefix) && !key.substring(prefix.length).includes('/'))
+      .map(key => key.substring(prefix.length))
+      .sort();
+  }
+
+  remove(path: string, recursive = false) {
+    if (!this.entries.has(path)) throw new FileSystemError('No such file or directory');
+    if (this.isDirectory(path)) {
+      if (!recursive) throw new FileSystemError('Is a directory');
+      if (path === '/') throw new FileSystemError('Operation not permitted');
+      this.descendants(path).forEach(key => this.entries.delete(key));
+    }
+    this.entries.delete(path);
+  }
+
+  removeDirectory(path: string) {
+    if (!this.entries.has(path)) throw new FileSystemError('No such file or directory');
+    if (!this.isDirectory(path)) throw new FileSystemError('Not a directory');
+    if (this.descendants(path).length > 0) throw new FileSystemError('Directory not empty');
+    this.entries.delete(path);
+  }
+
+  copy(from: string, to: string, recursive = false) {
+    const entry = this.entries.get(from);
+    if (!entry) throw new FileSystemError('No such file or directory');
+    if (entry.type === 'file') {
+      this.writeFile(to, entry.content);
+      this.setMode(to, entry.mode);
+      return;
+    }
+    if (!recursive) throw new FileSystemError('Is a directory');
+    if (to === from || to.startsWith(`${from}/`)) throw new FileSystemError('Cannot copy a directory into itself');
+
+    this.makeDirectory(to, true);
+    this.descendants(from).forEach(key => {
+      const item = this.entries.get(key)!;
+      this.entries.set(to + key.substring(from.length), { ...item, modified: Date.now() });
+    });
+  }
+
+  move(from: string, to: string) {
+    const entry = this.entries.get(from);
+    if (!entry) throw new FileSystemError('No such file or directory');
+    if (to === from) return;
+    if (to.startsWith(`${from}/`)) throw new FileSystemError('Cannot move a directory into itself');
+    if (this.isDirectory(to)) throw new FileSystemError('Is a directory');
+    if (!this.isDirectory(parentOf(to))) throw new FileSystemError('No such file or directory');
+
+    const moved = entry.type === 'directory' ? this.descendants(from) : [];
+    this.entries.delete(from);
+    this.entries.set(to, entry);
+    moved.forEach(key => {
+      const item = this.entries.get(key)!;
+      this.entries.delete(key);
+      this.entries.set(to + key.substring(from.length), item);
+    });
+  }
+
+  // Every path below a directory, parents before their children
+  descendants(path: string): string[] {
+    const prefix = path === '/' ? '/' : `${path}/`;
+    return Array.from(this.entries.keys())
+      .filter(key => key !== path && key.startsWith(prefix))
+      .sort();
+  }
+}
@@ -0,0 +1,789 @@
+// Parser for the subset of Bash the simulated shell runs: pipelines, redirections, && and ||,
+// variables, quoting, command and arithmetic substitution, for/while/until/if, { } groups,
+// ( ) subshells and functions.
+
+export type WordPart =
+  | { type: 'text'; value: string; quoted: boolean }
+  | { type: 'variable'; name: string; quoted: boolean; operator?: string; argument?: Word; replacement?: Word } // ${name:-argument}, ${#name}...
+  | { type: 'command'; source: string; quoted: boolean }
+  | { type: 'arithmetic'; expression: string; quoted: boolean };
+
+// One shell word as written; it becomes zero or more arguments once expanded
+export type Word = WordPart[];
+
+export interface Redirect {
+  fd: number; // 0 stdin, 1 stdout, 2 stderr
+  type: 'read' | 'write' | 'append' | 'duplicate' | 'heredoc' | 'herestring';
+  target: Word; // File name, the descriptor a duplicate copies (2>&1) or the text given as input
+}
+
+export interface Assignment {
+  name: string;
+  value: Word;
+}
+
+export type ShellNode =
+  | { type: 'command'; assignments: Assignment[]; words: Word[]; redirects: Redirect[]; line: number }
+  | { type: 'arithmetic'; expression: string; line: number }
+  | { type: 'pipeline'; commands: ShellNode[]; negated: boolean }
+  | { type: 'and' | 'or'; left: ShellNode; right: ShellNode }
+  | { type: 'list'; items: ShellNode[] }
+  | { type: 'group'; body: ShellNode; subshell: boolean; redirects: Redirect[] }
+  | { type: 'for'; variable: string; items: Word[] | null; body: ShellNode; redirects: Redirect[] } // null loops over "$@"
+  | { type: 'if'; branches: Array<{ condition: ShellNode; body: ShellNode }>; otherwise: ShellNode | null; redirects: Redirect[] }
+  | { type: 'while'; condition: ShellNode; body: ShellNode; until: boolean; redirects: Redirect[] }
+  | { type: 'function'; name: string; body: ShellNode };
+
+export class ShellSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(message);
+    this.name = 'ShellSyntaxError';
+  }
+}
+
+type Token =
+  | { type: 'word'; word: Word; raw: string; line: number }
+  | { type: 'operator'; value: string; line: number }
+  | { type: 'redirect'; fd: number | null; operator: string; line: number }
+  | { type: 'arithmetic'; expression: string; line: number }
+  | { type: 'end'; line: number };
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const METACHARACTERS = ' \t\r\n|&;<>()';
+const REDIRECT = /^(\d*)(&>>|&>|>>|>&|<<<|<<-|<<|<&|>\||>|<)/;
+const SPECIAL_VARIABLES = '?#@*$!0123456789';
+
+// Whether the next token begins a command, where (( starts an arithmetic command
+const isCommandStart = (tokens: Token[]) => {
+  const last = tokens[tokens.length - 1];
+  if (!last) return true;
+  if (last.type === 'operator') return last.value !== ')';
+  return last.type === 'word' && ['do', 'then', 'else', '{', '!'].includes(last.raw);
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+  let line = 1;
+  // Here-documents whose text starts after the current line
+  const pendingHeredocs: Array<{ token: Extract<Token, { type: 'word' }>; stripTabs: boolean }> = [];
+
+  const fail = (message: string): never => {
+    throw new ShellSyntaxError(message, line);
+  };
+
+  // Index just past the ) matching the ( at `start`, skipping quoted text
+  const findClosingParen = (start: number): number => {
+    let depth = 0;
+    for (let index = start; index < source.length; index++) {
+      const char = source[index];
+      if (char === '\\') {
+        index++;
+      } else if (char === '\'' || char === '"') {
+        const close = source.indexOf(char, index + 1);
+        if (close === -1) break;
+        index = close;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')' && --depth === 0) {
+        return index + 1;
+      }
+    }
+    return fail('unexpected EOF while looking for matching `)\'');
+  };
+
+  // Index of the } closing the ${ whose contents start at `start`
+  const findClosingBrace = (start: number): number => {
+    let depth = 1;
+    for (let index = start; index < source.length; index++) {
+      const char = source[index];
+      if (char === '\\') {
+        index++;
+      } else if (char === '\'' || char === '"') {
+        const close = source.indexOf(char, index + 1);
+        if (close === -1) break;
+        index = close;
+      } else if (char === '$' && source[index + 1] === '{') {
+        depth++;
+        index++;
+      } else if (char === '}' && --depth === 0) {
+        return index;
+      }
+    }
+    return fail('unexpected EOF while looking for matching `}\'');
+  };
+
+  const countLines = (text: string) => {
+    line += text.split('\n').length - 1;
+  };
+
+  // The word after an operator such as :- in ${name:-word}
+  const parseArgument = (text: string): Word =>
+    tokenize(text)
+      .filter((token): token is Extract<Token, { type: 'word' }> => token.type === 'word')
+      .flatMap((token, index) => (index > 0 ? [{ type: 'text' as const, value: ' ', quoted: true }, ...token.word] : token.word));
+
+  const readDollar = (parts: Word, quoted: boolean) => {
+    const next = source[position + 1];
+
+    if (next === '(') {
+      const start = position + 2;
+      const end = findClosingParen(position + 1);
+      const inner = source.slice(start, end - 1);
+      // $(( )) is arithmetic unless the inner parentheses close early, as in $( (cd x); ls )
+      if (inner.startsWith('(') && findClosingParen(start) === end - 1) {
+        parts.push({ type: 'arithmetic', expression: inner.slice(1, -1), quoted });
+      } else {
+        parts.push({ type: 'command', source: inner, quoted });
+      }
+      countLines(inner);
+      position = end;
+      return;
+    }
+
+    if (next === '{') {
+      const close = findClosingBrace(position + 2);
+      const content = source.slice(position + 2, close);
+      const length = content.match(/^#([A-Za-z_][A-Za-z0-9_]*|[0-9@*#?])$/);
+      const match = content.match(/^([A-Za-z_][A-Za-z0-9_]*|[0-9?#@*$!])(?:(:-|:=|:\+|:\?|-|=|\+|\?|%%|%|##|#|\/\/|\/)([\s\S]*))?$/);
+
+      if (length) {
+        parts.push({ type: 'variable', name: length[1], quoted, operator: 'length' });
+      } else if (!match) {
+        fail(`\${${content}}: bad substitution`);
+      } else if (match[2] === '/' || match[2] === '//') {
+        // ${name/pattern/replacement}
+        const separator = match[3].search(/(^|[^\\])\//);
+        const split = separator === -1 ? match[3].length : separator + (match[3][separator] === '/' ? 0 : 1);
+        parts.push({
+          type: 'variable',
+          name: match[1],
+          quoted,
+          operator: match[2],
+          argument: parseArgument(match[3].substring(0, split)),
+          replacement: parseArgument(match[3].substring(split + 1))
+        });
+      } else {
+        parts.push({ type: 'variable', name: match[1], quoted, operator: match[2], argument: match[2] ? parseArgument(match[3]) : undefined });
+      }
+      countLines(content);
+      position = close + 1;
+      return;
+    }
+
+    const name = source.slice(position + 1).match(/^[A-Za-z_][A-Za-z0-9_]*/)?.[0];
+    if (name) {
+      parts.push({ type: 'variable', name, quoted });
+      position += name.length + 1;
+    } else if (next && SPECIAL_VARIABLES.includes(next)) {
+      parts.push({ type: 'variable', name: next, quoted });
+      position += 2;
+    } else {
+      parts.push({ type: 'text', value: '$', quoted });
+      position++;
+    }
+  };
+
+  const readBackticks = (parts: Word, quoted: boolean) => {
+    const close = source.indexOf('`', position + 1);
+    if (close === -1) fail('unexpected EOF while looking for matching ``\'');
+    const inner = source.slice(position + 1, close);
+    countLines(inner);
+    parts.push({ type: 'command', source: inner, quoted });
+    position = close + 1;
+  };
+
+  const readWord = (): Token => {
+    const start = position;
+    const startLine = line;
+    const parts: Word = [];
+    const addText = (value: string, quoted: boolean) => {
+      const last = parts[parts.length - 1];
+      if (last?.type === 'text' && last.quoted === quoted && value) {
+        last.value += value;
+      } else {
+        parts.push({ type: 'text', value, quoted });
+      }
+    };
+
+    while (position < source.length && !METACHARACTERS.includes(source[position])) {
+      const char = source[position];
+
+      if (char === '\\') {
+        if (source[position + 1] === '\n') {
+          line++;
+        } else if (position + 1 < source.length) {
+          addText(source[position + 1], true);
+        }
+        position += 2;
+      } else if (char === '\'') {
+        const close = source.indexOf('\'', position + 1);
+        if (close === -1) fail('unexpected EOF while looking for matching `\'\'');
+        const text = source.slice(position + 1, close);
+        countLines(text);
+        addText(text, true);
+        position = close + 1;
+      } else if (char === '"') {
+        // An empty part keeps "" as an (empty) argument
+        addText('', true);
+        position++;
+        while (source[position] !== '"') {
+          if (position >= source.length) fail('unexpected EOF while looking for matching `"\'');
+          const inner = source[position];
+          if (inner === '\\' && '$`"\\\n'.includes(source[position + 1])) {
+            if (source[position + 1] === '\n') {
+              line++;
+            } else {
+              addText(source[position + 1], true);
+            }
+            position += 2;
+          } else if (inner === '$') {
+            readDollar(parts, true);
+          } else if (inner === '`') {
+            readBackticks(parts, true);
+          } else {
+            if (inner === '\n') line++;
+            addText(inner, true);
+            position++;
+          }
+        }
+        position++;
+      } else if (char === '$') {
+        readDollar(parts, false);
+      } else if (char === '`') {
+        readBackticks(parts, false);
+      } else {
+        addText(char, false);
+        position++;
+      }
+    }
+
+    return { type: 'word', word: parts, raw: source.slice(start, position), line: startLine };
+  };
+
+  // Reads the lines of a here-document up to its delimiter. Unless the delimiter is quoted,
+  // parameters and substitutions in the text are expanded.
+  const readHeredoc = ({ token, stripTabs }: { token: Extract<Token, { type: 'word' }>; stripTabs: boolean }) => {
+    const delimiter = token.word.map(part => (part.type === 'text' ? part.value : '')).join('');
+    const literal = token.word.some(part => part.quoted);
+    const parts: Word = [];
+    const addText = (value: string) => {
+      const last = parts[parts.length - 1];
+      if (last?.type === 'text') {
+        last.value += value;
+      } else {
+        parts.push({ type: 'text', value, quoted: true });
+      }
+    };
+
+    while (position < source.length) {
+      const end = source.indexOf('\n', position) === -1 ? source.length : source.indexOf('\n', position);
+      let start = position;
+      while (stripTabs && source[start] === '\t') start++;
+      const text = source.slice(start, end);
+      line++;
+      if (text === delimiter) {
+        position = end + 1;
+        break;
+      }
+
+      if (literal) {
+        addText(`${text}\n`);
+        position = end + 1;
+        continue;
+      }
+      position = start;
+      while (position < end) {
+        const char = source[position];
+        if (char === '\\' && '$`\\'.includes(source[position + 1])) {
+          addText(source[position + 1]);
+          position += 2;
+        } else if (char === '$') {
+          readDollar(parts, true);
+        } else if (char === '`') {
+          readBackticks(parts, true);
+        } else {
+          addText(char);
+          position++;
+        }
+      }
+      addText('\n');
+      position = Math.max(position, end) + 1;
+    }
+
+    token.word = parts.length > 0 ? parts : [{ type: 'text', value: '', quoted: true }];
+  };
+
+  while (position < source.length) {
+    const char = source[position];
+    const rest = source.slice(position, position + 3);
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      position++;
+    } else if (rest.startsWith('\\\n')) {
+      position += 2;
+      line++;
+    } else if (char === '#') {
+      while (position < source.length && source[position] !== '\n') position++;
+    } else if (char === '\n') {
+      tokens.push({ type: 'operator', value: '\n', line });
+      position++;
+      line++;
+      pendingHeredocs.splice(0).forEach(readHeredoc);
+    } else if (rest.startsWith('((') && isCommandStart(tokens)) {
+      const end = findClosingParen(position);
+      const inner = source.slice(position + 1, end - 1);
+      if (!inner.endsWith(')')) fail('syntax error near unexpected token `(\'');
+      tokens.push({ type: 'arithmetic', expression: inner.slice(1, -1), line });
+      countLines(inner);
+      position = end;
+    } else if (REDIRECT.test(source.slice(position, position + 12))) {
+      const [match, fd, operator] = source.slice(position).match(REDIRECT)!;
+      tokens.push({ type: 'redirect', fd: fd ? Number(fd) : null, operator, line });
+      position += match.length;
+      if (operator === '<<' || operator === '<<-') {
+        while (source[position] === ' ' || source[position] === '\t') position++;
+        if (position >= source.length || METACHARACTERS.includes(source[position])) fail('syntax error near unexpected token `newline\'');
+        const delimiter = readWord() as Extract<Token, { type: 'word' }>;
+        tokens.push(delimiter);
+        pendingHeredocs.push({ token: delimiter, stripTabs: operator === '<<-' });
+      }
+    } else if (rest.startsWith('&&') || rest.startsWith('||')) {
+      tokens.push({ type: 'operator', value: rest.substring(0, 2), line });
+      position += 2;
+    } else if ('|;()&'.includes(char)) {
+      tokens.push({ type: 'operator', value: char, line });
+      position++;
+    } else {
+      tokens.push(readWord());
+    }
+  }
+
+  tokens.push({ type: 'end', line });
+  return tokens;
+};
+
+const describeToken = (token: Token) => {
+  switch (token.type) {
+    case 'word': return token.raw;
+    case 'operator': return token.value === '\n' ? 'newline' : token.value;
+    case 'redirect': return token.operator;
+    case 'arithmetic': return '((';
+    default: return '';
+  }
+};
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseProgram(): ShellNode {
+    const program = this.parseList([]);
+    if (this.peek().type !== 'end') this.unexpected();
+    return program;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private unexpected(): never {
+    const token = this.peek();
+    if (token.type === 'end') {
+      throw new ShellSyntaxError('syntax error: unexpected end of file', token.line);
+    }
+    throw new ShellSyntaxError(`syntax error near unexpected token \`${describeToken(token)}'`, token.line);
+  }
+
+  private isOperator(value: string) {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  // Reserved words only count as such when written plainly
+  private isKeyword(...keywords: string[]) {
+    const token = this.peek();
+    return token.type === 'word' && keywords.includes(token.raw);
+  }
+
+  private expectKeyword(keyword: string) {
+    if (!this.isKeyword(keyword)) this.unexpected();
+    this.position++;
+  }
+
+  private expectOperator(value: string) {
+    if (!this.isOperator(value)) this.unexpected();
+    this.position++;
+  }
+
+  private skipNewlines() {
+    while (this.isOperator('\n')) this.position++;
+  }
+
+  // Commands separated by ; or newlines, up to one of the given reserved words
+  private parseList(terminators: string[]): ShellNode {
+    const items: ShellNode[] = [];
+    this.skipNewlines();
+
+    while (this.peek().type !== 'end' && !this.isKeyword(...terminators) && !this.isOperator(')')) {
+      items.push(this.parseAndOr());
+      if (this.isOperator('&')) {
+        throw new ShellSyntaxError('background jobs (&) are not supported', this.peek().line);
+      }
+      if (!this.isOperator(';') && !this.isOperator('\n')) break;
+      this.position++;
+      this.skipNewlines();
+    }
+
+    return { type: 'list', items };
+  }
+
+  private parseAndOr(): ShellNode {
+    let node = this.parsePipeline();
+    while (this.isOperator('&&') || this.isOperator('||')) {
+      const type = (this.peek() as { value: string }).value === '&&' ? 'and' : 'or';
+      this.position++;
+      this.skipNewlines();
+      node = { type, left: node, right: this.parsePipeline() };
+    }
+    return node;
+  }
+
+  private parsePipeline(): ShellNode {
+    const negated = this.isKeyword('!');
+    if (negated) this.position++;
+
+    const commands = [this.parseCommand()];
+    while (this.isOperator('|')) {
+      this.position++;
+      this.skipNewlines();
+      commands.push(this.parseCommand());
+    }
+    return commands.length === 1 && !negated ? commands[0] : { type: 'pipeline', commands, negated };
+  }
+
+  private parseCommand(): ShellNode {
+    const token = this.peek();
+
+    if (token.type === 'arithmetic') {
+      this.position++;
+      return { type: 'arithmetic', expression: token.expression, line: token.line };
+    }
+    if (this.isOperator('(')) {
+      this.position++;
+      const body = this.parseList([]);
+      this.expectOperator(')');
+      return { type: 'group', body, subshell: true, redirects: this.parseRedirects() };
+    }
+    if (this.isKeyword('{')) {
+      this.position++;
+      const body = this.parseList(['}']);
+      this.expectKeyword('}');
+      return { type: 'group', body, subshell: false, redirects: this.parseRedirects() };
+    }
+    if (this.isKeyword('for')) return this.parseFor();
+    if (this.isKeyword('if')) return this.parseIf();
+    if (this.isKeyword('while', 'until')) return this.parseWhile();
+    if (this.isKeyword('function')) {
+      this.position++;
+      return this.parseFunction(true);
+    }
+
+    const next = this.tokens[this.position + 1];
+    if (token.type === 'word' && NAME.test(token.raw) && next.type === 'operator' && next.value === '(') {
+      return this.parseFunction(false);
+    }
+    if (this.isKeyword('then', 'do', 'done', 'fi', 'elif', 'else', '}', 'in')) this.unexpected();
+    return this.parseSimpleCommand();
+  }
+
+  private parseSimpleCommand(): ShellNode {
+    const line = this.peek().line;
+    const assignments: Assignment[] = [];
+    const words: Word[] = [];
+    const redirects: Redirect[] = [];
+
+    for (let token = this.peek(); ; token = this.peek()) {
+      if (token.type === 'redirect') {
+        redirects.push(...this.parseRedirect());
+      } else if (token.type === 'word') {
+        const assignment = words.length === 0 ? this.toAssignment(token) : null;
+        if (assignment) {
+          assignments.push(assignment);
+        } else {
+          words.push(token.word);
+        }
+        this.position++;
+      } else {
+        break;
+      }
+    }
+
+    if (assignments.length === 0 && words.length === 0 && redirects.length === 0) this.unexpected();
+    return { type: 'command', assignments, words, redirects, line };
+  }
+
+  // NAME=value before the command name
+  private toAssignment(token: Extract<Token, { type: 'word' }>): Assignment | null {
+    const match = token.raw.match(/^([A-Za-z_][A-Za-z0-9_]*)=/);
+    const first = token.word[0];
+    if (!match || first?.type !== 'text' || first.quoted) return null;
+
+    const rest = first.value.substring(match[0].length);
+    const value: Word = rest ? [{ type: 'text', value: rest, quoted: false }, ...token.word.slice(1)] : token.word.slice(1);
+    return { name: match[1], value };
+  }
+
+  private parseRedirects(): Redirect[] {
+    const redirects: Redirect[] = [];
+    while (this.peek().type === 'redirect') redirects.push(...this.parseRedirect());
+    return redirects;
+  }
+
+  private parseRedirect(): Redirect[] {
+    const token = this.peek() as Extract<Token, { type: 'redirect' }>;
+    this.position++;
+    const target = this.peek();
+    if (target.type !== 'word') this.unexpected();
+    this.position++;
+
+    const { operator } = token;
+    const fd = token.fd ?? (operator.startsWith('<') ? 0 : 1);
+    const stderrToStdout: Redirect = { fd: 2, type: 'duplicate', target: [{ type: 'text', value: '1', quoted: false }] };
+
+    switch (operator) {
+      case '<':
+        return [{ fd, type: 'read', target: target.word }];
+      case '<<':
+      case '<<-':
+        return [{ fd, type: 'heredoc', target: target.word }];
+      case '<<<':
+        return [{ fd, type: 'herestring', target: target.word }];
+      case '>>':
+        return [{ fd, type: 'append', target: target.word }];
+      case '&>':
+        return [{ fd: 1, type: 'write', target: target.word }, stderrToStdout];
+      case '&>>':
+        return [{ fd: 1, type: 'append', target: target.word }, stderrToStdout];
+      case '>&':
+      case '<&':
+        // >& followed by a file name sends both stdout and stderr there
+        return /^\d$/.test(target.raw) || target.raw === '-'
+          ? [{ fd, type: 'duplicate', target: target.word }]
+          : [{ fd: 1, type: 'write', target: target.word }, stderrToStdout];
+      default:
+        return [{ fd, type: 'write', target: target.word }];
+    }
+  }
+
+  private parseFor(): ShellNode {
+    this.position++;
+    const name = this.peek();
+    if (name.type !== 'word' || !NAME.test(name.raw)) this.unexpected();
+    this.position++;
+
+    let items: Word[] | null = null;
+    this.skipNewlines();
+    if (this.isKeyword('in')) {
+      this.position++;
+      items = [];
+      for (let token = this.peek(); token.type === 'word'; token = this.peek()) {
+        items.push(token.word);
+        this.position++;
+      }
+    }
+    if (this.isOperator(';')) this.position++;
+    this.skipNewlines();
+
+    this.expectKeyword('do');
+    const body = this.parseList(['done']);
+    this.expectKeyword('done');
+    return { type: 'for', variable: name.raw, items, body, redirects: this.parseRedirects() };
+  }
+
+  private parseIf(): ShellNode {
+    const branches: Array<{ condition: ShellNode; body: ShellNode }> = [];
+    let otherwise: ShellNode | null = null;
+
+    do {
+      this.position++; // if or elif
+      const condition = this.parseList(['then']);
+      this.expectKeyword('then');
+      branches.push({ condition, body: this.parseList(['elif', 'else', 'fi']) });
+    } while (this.isKeyword('elif'));
+
+    if (this.isKeyword('else')) {
+      this.position++;
+      otherwise = this.parseList(['fi']);
+    }
+    this.expectKeyword('fi');
+    return { type: 'if', branches, otherwise, redirects: this.parseRedirects() };
+  }
+
+  private parseWhile(): ShellNode {
+    const until = this.isKeyword('until');
+    this.position++;
+    const condition = this.parseList(['do']);
+    this.expectKeyword('do');
+    const body = this.parseList(['done']);
+    this.expectKeyword('done');
+    return { type: 'while', condition, body, until, redirects: this.parseRedirects() };
+  }
+
+  // name() { ...; } or function name { ...; }
+  private parseFunction(keyword: boolean): ShellNode {
+    const name = this.peek();
+    if (name.type !== 'word' || !NAME.test(name.raw)) this.unexpected();
+    this.position++;
+
+    if (!keyword || this.isOperator('(')) {
+      this.expectOperator('(');
+      this.expectOperator(')');
+    }
+    this.skipNewlines();
+    if (!this.isKeyword('{') && !this.isOperator('(')) this.unexpected();
+    return { type: 'function', name: name.raw, body: this.parseCommand() };
+  }
+}
+
+export const parseScript = (source: string): ShellNode => new Parser(tokenize(source)).parseProgram();
+
+export interface ArithmeticScope {
+  get(name: string): string;
+  set(name: string, value: string): void;
+}
+
+export class ArithmeticError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArithmeticError';
+  }
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1, '&&': 2, '|': 3, '^': 4, '&': 5, '==': 6, '!=': 6, '<': 7, '<=': 7, '>': 7, '>=': 7,
+  '<<': 8, '>>': 8, '+': 9, '-': 9, '*': 10, '/': 10, '%': 10, '**': 11
+};
+const ASSIGNMENTS = ['=', '+=', '-=', '*=', '/=', '%='];
+
+// Integer arithmetic of $(( )) and (( )), including assignments and ++/-- on variables
+export const evaluateArithmetic = (expression: string, scope: ArithmeticScope): number => {
+  const tokens = expression.match(/0x[0-9a-f]+|\d+|[A-Za-z_][A-Za-z0-9_]*|\*\*|\+\+|--|&&|\|\||<<|>>|[<>=!]=|[-+*/%]=|\S/gi) || [];
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new ArithmeticError(`${expression.trim()}: ${message}`);
+  };
+  const isName = (token?: string) => !!token && /^[A-Za-z_]/.test(token);
+  const read = (name: string) => {
+    const value = Number(scope.get(name).trim() || 0);
+    return Number.isNaN(value) ? fail(`${scope.get(name)}: syntax error: operand expected`) : Math.trunc(value);
+  };
+  const write = (name: string, value: number) => {
+    scope.set(name, String(value));
+    return value;
+  };
+
+  const apply = (operator: string, left: number, right: number): number => {
+    switch (operator) {
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/': return right === 0 ? fail('division by 0') : Math.trunc(left / right);
+      case '%': return right === 0 ? fail('division by 0') : left % right;
+      case '**': return right < 0 ? fail('exponent less than 0') : left ** right;
+      case '<<': return left << right;
+      case '>>': return left >> right;
+      case '&': return left & right;
+      case '|': return left | right;
+      case '^': return left ^ right;
+      case '<': return Number(left < right);
+      case '<=': return Number(left <= right);
+      case '>': return Number(left > right);
+      case '>=': return Number(left >= right);
+      case '==': return Number(left === right);
+      case '!=': return Number(left !== right);
+      case '&&': return Number(left !== 0 && right !== 0);
+      case '||': return Number(left !== 0 || right !== 0);
+      default: return fail(`syntax error: invalid arithmetic operator "${operator}"`);
+    }
+  };
+
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (token === undefined) return fail('syntax error: operand expected');
+    if (token === '(') {
+      const value = parseComma();
+      if (tokens[position++] !== ')') fail('syntax error: missing )');
+      return value;
+    }
+    if (/^\d/.test(token)) return Number(token);
+    if (!isName(token)) return fail(`syntax error: operand expected (error token is "${token}")`);
+
+    if (tokens[position] === '++' || tokens[position] === '--') {
+      const value = read(token);
+      write(token, tokens[position++] === '++' ? value + 1 : value - 1);
+      return value;
+    }
+    return read(token);
+  };
+
+  const parseUnary = (): number => {
+    const token = tokens[position];
+    if ((token === '++' || token === '--') && isName(tokens[position + 1])) {
+      position += 2;
+      const name = tokens[position - 1];
+      return write(name, read(name) + (token === '++' ? 1 : -1));
+    }
+    if (token === '-' || token === '+' || token === '!' || token === '~') {
+      position++;
+      const value = parseUnary();
+      return token === '-' ? -value : token === '+' ? value : token === '!' ? Number(value === 0) : ~value;
+    }
+    return parsePrimary();
+  };
+
+  const parseBinary = (minimum: number): number => {
+    let left = parseUnary();
+    for (let operator = tokens[position]; BINARY_PRECEDENCE[operator] >= minimum; operator = tokens[position]) {
+      position++;
+      const precedence = BINARY_PRECEDENCE[operator];
+      // ** is right-associative
+      const right = parseBinary(operator === '**' ? precedence : precedence + 1);
+      left = apply(operator, left, right);
+    }
+    return left;
+  };
+
+  const parseAssignment = (): number => {
+    const [name, operator] = [tokens[position], tokens[position + 1]];
+    if (isName(name) && ASSIGNMENTS.includes(operator)) {
+      position += 2;
+      const value = parseAssignment();
+      return write(name, operator === '=' ? value : apply(operator.slice(0, -1), read(name), value));
+    }
+
+    const condition = parseBinary(1);
+    if (tokens[position] !== '?') return condition;
+    position++;
+    const whenTrue = parseAssignment();
+    if (tokens[position++] !== ':') fail('syntax error: expected ":"');
+    const whenFalse = parseAssignment();
+    return condition !== 0 ? whenTrue : whenFalse;
+  };
+
+  const parseComma = (): number => {
+    let value = parseAssignment();
+    while (tokens[position] === ',') {
+      position++;
+      value = parseAssignment();
+    }
+    return value;
+  };
+
+  if (tokens.length === 0) return 0;
+  const result = parseComma();
+  if (position < tokens.length) fail(`syntax error in expression (error token is "${tokens[position]}")`);
+  return result;
+};
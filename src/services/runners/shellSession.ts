@@ -0,0 +1,994 @@
+import { FileMap } from '../../types/runner';
+import { ANSI, COMMANDS, HOSTNAME, InputStream, USER, globToRegExp, hasGlob } from './shellCommands';
+import { FileSystemError, HOME, ShellFileSystem, joinPath } from './shellFileSystem';
+import { ArithmeticError, Redirect, ShellNode, ShellSyntaxError, Word, WordPart, evaluateArithmetic, parseScript } from './shellParser';
+
+// Problem in the script being run, shown as an editor marker
+export interface ShellProblem {
+  line: number;
+  message: string;
+}
+
+export interface ShellResult {
+  stdout: string;
+  stderr: string;
+  status: number;
+  exited: boolean; // The script or command line called exit
+  problems: ShellProblem[];
+}
+
+export interface ShellRunOptions {
+  stdin?: string;
+  scriptName?: string; // Path of the script being run; unset for a terminal command line
+  args?: string[];
+}
+
+export interface ShellSessionOptions {
+  tty?: boolean; // Output is shown in the terminal, so commands may colour it
+  timeout?: number; // Milliseconds a single run may take
+  maxOutput?: number; // Characters a run may write, counting pipes and redirections
+}
+
+interface IO {
+  stdin: InputStream;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  tty: boolean;
+}
+
+// What $0, $1... and editor markers refer to while a script or function runs
+interface Frame {
+  name: string;
+  args: string[];
+  trackProblems: boolean;
+}
+
+type Builtin = (args: string[], io: IO) => number;
+
+interface ShellSettings {
+  errexit: boolean; // set -e
+  xtrace: boolean; // set -x
+  pipefail: boolean; // set -o pipefail
+}
+
+class ExitSignal {
+  constructor(public status: number) {}
+}
+
+class ReturnSignal {
+  constructor(public status: number) {}
+}
+
+class LoopSignal {
+  constructor(public type: 'break' | 'continue', public levels: number) {}
+}
+
+class ShellLimitError extends Error {}
+
+// ${name:?message} on an unset parameter
+class ExpansionError extends Error {}
+
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_MAX_OUTPUT = 5_000_000;
+const MAX_NESTING = 100;
+const PROCESS_ID = '4242'; // $$ has to be something
+
+// The coloured user@host:directory$ prompt
+export const formatPrompt = (directory: string) =>
+  `${ANSI.prompt}${USER}@${HOSTNAME}${ANSI.reset}:${ANSI.directory}${directory}${ANSI.reset}$ `;
+
+const quoteForTrace = (word: string) => (/^[\w@%+=:,./-]+$/.test(word) ? word : `'${word.replace(/'/g, '\'\\\'\'')}'`);
+
+// A simulated Bash session: the interpreter for parsed scripts plus the state that outlives a
+// single command line, i.e. the filesystem, working directory, variables and functions
+export class ShellSession {
+  readonly fs: ShellFileSystem;
+  cwd = HOME;
+  history: string[] = [];
+
+  private variables: Record<string, string> = {
+    HOME,
+    USER,
+    LOGNAME: USER,
+    HOSTNAME,
+    SHELL: '/bin/bash',
+    PATH: '/usr/local/bin:/usr/bin:/bin',
+    TERM: 'xterm-256color',
+    LANG: 'C.UTF-8'
+  };
+  private exported = new Set(Object.keys(this.variables));
+  private functions = new Map<string, ShellNode>();
+  private localScopes: Array<Map<string, string | undefined>> = [];
+  private frame: Frame = { name: 'bash', args: [], trackProblems: false };
+  private lastStatus = 0;
+  private line = 0;
+  private nesting = 0;
+  private loopDepth = 0;
+  private returnDepth = 0; // Functions and sourced scripts being run, which `return` can leave
+  private conditionDepth = 0; // Inside an if/while condition or before && and ||, where set -e doesn't apply
+  private settings: ShellSettings = { errexit: false, xtrace: false, pipefail: false };
+  private deadline = Infinity;
+  private written = 0;
+  private problems: ShellProblem[] = [];
+  private builtins: Record<string, Builtin>;
+
+  constructor(files: FileMap = {}, private options: ShellSessionOptions = {}) {
+    this.fs = new ShellFileSystem(files);
+    this.builtins = this.createBuiltins();
+  }
+
+  get prompt(): string {
+    return formatPrompt(this.fs.displayPath(this.cwd));
+  }
+
+  run(source: string, options: ShellRunOptions = {}): ShellResult {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const timeout = this.options.timeout ?? DEFAULT_TIMEOUT;
+    this.deadline = Date.now() + timeout;
+    this.written = 0;
+    this.problems = [];
+    if (options.scriptName) {
+      this.frame = { name: options.scriptName, args: options.args || [], trackProblems: true };
+    }
+
+    const io: IO = {
+      stdin: new InputStream(options.stdin ?? ''),
+      stdout: this.collect(stdout),
+      stderr: this.collect(stderr),
+      tty: !!this.options.tty
+    };
+    let exited = false;
+
+    try {
+      this.lastStatus = this.executeSource(source, io);
+    } catch (error) {
+      if (error instanceof ExitSignal) {
+        this.lastStatus = error.status;
+        exited = true;
+      } else if (error instanceof ShellLimitError) {
+        stderr.push(`${error.message}\n`);
+        this.lastStatus = 124;
+      } else {
+        throw error;
+      }
+    } finally {
+      this.loopDepth = 0;
+      this.returnDepth = 0;
+      this.conditionDepth = 0;
+      this.nesting = 0;
+      this.localScopes = [];
+    }
+
+    return { stdout: stdout.join(''), stderr: stderr.join(''), status: this.lastStatus, exited, problems: this.problems };
+  }
+
+  // Tab completion of the last word of a command line: command names first, then paths
+  complete(input: string): { input: string; candidates: string[] } {
+    const word = input.match(/[^\s|;&<>()]*$/)![0];
+    const before = input.slice(0, input.length - word.length);
+    const isCommand = /(^|[|;&(]|&&|\|\|)\s*$/.test(before);
+    let candidates: string[];
+
+    if (isCommand && !word.includes('/')) {
+      const names = [...Object.keys(this.builtins), ...Object.keys(COMMANDS), ...this.functions.keys()];
+      candidates = Array.from(new Set(names)).filter(name => name.startsWith(word)).sort();
+    } else {
+      const directoryPart = word.substring(0, word.lastIndexOf('/') + 1);
+      const prefix = word.substring(directoryPart.length);
+      const directory = this.fs.resolve(this.cwd, directoryPart || '.');
+      candidates = this.fs.isDirectory(directory)
+        ? this.fs.list(directory)
+          .filter(name => name.startsWith(prefix) && (!name.startsWith('.') || prefix.startsWith('.')))
+          .map(name => directoryPart + name + (this.fs.isDirectory(joinPath(directory, name)) ? '/' : ''))
+        : [];
+    }
+
+    if (candidates.length === 0) return { input, candidates };
+    let common = candidates[0];
+    candidates.forEach(candidate => {
+      while (!candidate.startsWith(common)) common = common.slice(0, -1);
+    });
+    const completed = before + common + (candidates.length === 1 && !common.endsWith('/') ? ' ' : '');
+    return { input: completed, candidates: candidates.length > 1 ? candidates : [] };
+  }
+
+  // A writer that enforces the output limit, so runaway loops can't exhaust memory
+  private collect(buffer: string[]) {
+    return (text: string) => {
+      this.written += text.length;
+      if (this.written > (this.options.maxOutput ?? DEFAULT_MAX_OUTPUT)) {
+        throw new ShellLimitError('Output limit exceeded - the script wrote too much output and was stopped');
+      }
+      buffer.push(text);
+    };
+  }
+
+  private checkDeadline() {
+    if (Date.now() > this.deadline) {
+      const seconds = (this.options.timeout ?? DEFAULT_TIMEOUT) / 1000;
+      throw new ShellLimitError(`Execution timeout - the shell took longer than ${seconds} seconds`);
+    }
+  }
+
+  private errorPrefix() {
+    return this.frame.name === 'bash' ? 'bash: ' : `${this.frame.name}: line ${this.line}: `;
+  }
+
+  private report(io: IO, message: string, status = 1, problem = false) {
+    io.stderr(`${this.errorPrefix()}${message}\n`);
+    if (problem && this.frame.trackProblems) {
+      this.problems.push({ line: this.line, message });
+    }
+    return status;
+  }
+
+  private executeSource(source: string, io: IO): number {
+    let program: ShellNode;
+    try {
+      program = parseScript(source);
+    } catch (error) {
+      if (!(error instanceof ShellSyntaxError)) throw error;
+      this.line = error.line;
+      return this.report(io, error.message, 2, true);
+    }
+    return this.execute(program, io);
+  }
+
+  private execute(node: ShellNode, io: IO): number {
+    this.checkDeadline();
+    let status: number;
+    try {
+      status = this.executeNode(node, io);
+    } catch (error) {
+      if (!(error instanceof ArithmeticError) && !(error instanceof FileSystemError) && !(error instanceof ExpansionError)) throw error;
+      status = this.report(io, error.message);
+    }
+    this.lastStatus = status;
+
+    if (this.settings.errexit && status !== 0 && this.conditionDepth === 0 && ['command', 'pipeline', 'arithmetic'].includes(node.type)) {
+      throw new ExitSignal(status);
+    }
+    return status;
+  }
+
+  private executeNode(node: ShellNode, io: IO): number {
+    switch (node.type) {
+      case 'list':
+        return node.items.reduce((_, item) => this.execute(item, io), 0);
+
+      case 'and':
+      case 'or': {
+        const left = this.asCondition(() => this.execute(node.left, io));
+        return (left === 0) === (node.type === 'and') ? this.execute(node.right, io) : left;
+      }
+
+      case 'pipeline':
+        return this.executePipeline(node, io);
+
+      case 'command':
+        return this.executeCommand(node, io);
+
+      case 'arithmetic':
+        this.line = node.line;
+        return evaluateArithmetic(node.expression, this.arithmeticScope()) !== 0 ? 0 : 1;
+
+      case 'group':
+        return this.withRedirects(node.redirects, io, groupIO => (
+          node.subshell ? this.subshell(() => this.execute(node.body, groupIO)) : this.execute(node.body, groupIO)
+        ));
+
+      case 'if':
+        return this.withRedirects(node.redirects, io, ifIO => {
+          for (const branch of node.branches) {
+            if (this.asCondition(() => this.execute(branch.condition, ifIO)) === 0) {
+              return this.execute(branch.body, ifIO);
+            }
+          }
+          return node.otherwise ? this.execute(node.otherwise, ifIO) : 0;
+        });
+
+      case 'for':
+        return this.withRedirects(node.redirects, io, loopIO => {
+          const items = node.items ? node.items.flatMap(word => this.expandWord(word, loopIO)) : [...this.frame.args];
+          return this.loop(loopIO, index => {
+            if (index >= items.length) return false;
+            this.setVariable(node.variable, items[index]);
+            return true;
+          }, node.body);
+        });
+
+      case 'while':
+        return this.withRedirects(node.redirects, io, loopIO => this.loop(loopIO, () => {
+          const status = this.asCondition(() => this.execute(node.condition, loopIO));
+          return node.until ? status !== 0 : status === 0;
+        }, node.body));
+
+      case 'function':
+        this.functions.set(node.name, node.body);
+        return 0;
+    }
+  }
+
+  // Runs something whose failure is tested rather than fatal under set -e
+  private asCondition(run: () => number) {
+    this.conditionDepth++;
+    try {
+      return run();
+    } finally {
+      this.conditionDepth--;
+    }
+  }
+
+  // Runs a loop body while `next` says so, handling break and continue
+  private loop(io: IO, next: (index: number) => boolean, body: ShellNode): number {
+    let status = 0;
+    this.loopDepth++;
+    try {
+      for (let index = 0; next(index); index++) {
+        try {
+          status = this.execute(body, io);
+        } catch (signal) {
+          if (!(signal instanceof LoopSignal)) throw signal;
+          if (signal.levels > 1) throw new LoopSignal(signal.type, signal.levels - 1);
+          if (signal.type === 'break') break;
+        }
+      }
+    } finally {
+      this.loopDepth--;
+    }
+    return status;
+  }
+
+  private executePipeline(node: Extract<ShellNode, { type: 'pipeline' }>, io: IO): number {
+    let input = io.stdin;
+    const statuses = node.commands.map((command, index) => {
+      const last = index === node.commands.length - 1;
+      const output: string[] = [];
+      const status = this.execute(command, { ...io, stdin: input, stdout: last ? io.stdout : this.collect(output), tty: last && io.tty });
+      input = new InputStream(output.join(''));
+      return status;
+    });
+
+    const failed = this.settings.pipefail ? statuses.filter(status => status !== 0).pop() : undefined;
+    const status = failed ?? statuses[statuses.length - 1];
+    return node.negated ? Number(status === 0) : status;
+  }
+
+  private executeCommand(node: Extract<ShellNode, { type: 'command' }>, io: IO): number {
+    this.line = node.line;
+    const words = node.words.flatMap(word => this.expandWord(word, io));
+    const assignments = node.assignments.map(({ name, value }) => ({ name, value: this.expandWord(value, io, false)[0] ?? '' }));
+
+    if (this.settings.xtrace) {
+      const traced = [...assignments.map(({ name, value }) => `${name}=${quoteForTrace(value)}`), ...words.map(quoteForTrace)];
+      if (traced.length > 0) io.stderr(`+ ${traced.join(' ')}\n`);
+    }
+
+    if (words.length === 0) {
+      // Plain assignments; a command substitution in them sets $?
+      const status = assignments.some((_, index) => node.assignments[index].value.some(part => part.type === 'command')) ? this.lastStatus : 0;
+      assignments.forEach(({ name, value }) => this.setVariable(name, value));
+      return this.withRedirects(node.redirects, io, () => status);
+    }
+
+    // Assignments before a command only apply to that command
+    const saved = assignments.map(({ name }) => ({ name, value: this.variables[name], exported: this.exported.has(name) }));
+    assignments.forEach(({ name, value }) => {
+      this.variables[name] = value;
+      this.exported.add(name);
+    });
+
+    try {
+      return this.withRedirects(node.redirects, io, commandIO => this.invoke(words[0], words.slice(1), commandIO));
+    } finally {
+      saved.forEach(({ name, value, exported }) => {
+        if (value === undefined) delete this.variables[name];
+        else this.variables[name] = value;
+        if (!exported) this.exported.delete(name);
+      });
+    }
+  }
+
+  private invoke(name: string, args: string[], io: IO): number {
+    const body = this.functions.get(name);
+    if (body) return this.callFunction(body, args, io);
+
+    const builtin = this.builtins[name];
+    if (builtin) return builtin(args, io);
+
+    const command = COMMANDS[name];
+    if (command) {
+      return command({
+        name,
+        args,
+        stdin: io.stdin,
+        stdout: io.stdout,
+        stderr: io.stderr,
+        fs: this.fs,
+        cwd: this.cwd,
+        env: this.environment(),
+        tty: io.tty
+      });
+    }
+
+    if (name.includes('/')) return this.runScript(name, args, io, 'execute');
+    return this.report(io, `${name}: command not found`, 127, true);
+  }
+
+  private callFunction(body: ShellNode, args: string[], io: IO): number {
+    if (this.nesting >= MAX_NESTING) return this.report(io, 'maximum function nesting level exceeded');
+    const frame = this.frame;
+    this.frame = { ...frame, args };
+    this.localScopes.push(new Map());
+    this.nesting++;
+    this.returnDepth++;
+
+    try {
+      return this.execute(body, io);
+    } catch (signal) {
+      if (signal instanceof ReturnSignal) return signal.status;
+      throw signal;
+    } finally {
+      this.nesting--;
+      this.returnDepth--;
+      this.localScopes.pop()!.forEach((value, name) => {
+        if (value === undefined) delete this.variables[name];
+        else this.variables[name] = value;
+      });
+      this.frame = frame;
+    }
+  }
+
+  // Runs a script file: `./script.sh` and `bash script.sh` in a subshell, `source script.sh` in this one
+  private runScript(path: string, args: string[], io: IO, mode: 'execute' | 'interpret' | 'source'): number {
+    const resolved = this.fs.resolve(this.cwd, path);
+    const label = mode === 'source' ? `source: ${path}` : path;
+    if (!this.fs.exists(resolved)) return this.report(io, `${label}: No such file or directory`, mode === 'source' ? 1 : 127);
+    if (this.fs.isDirectory(resolved)) return this.report(io, `${label}: Is a directory`, 126);
+    if (mode === 'execute' && !this.fs.isExecutable(resolved)) return this.report(io, `${path}: Permission denied`, 126);
+    if (this.nesting >= MAX_NESTING) return this.report(io, 'maximum script nesting level exceeded');
+
+    const source = this.fs.readFile(resolved);
+    const interpreter = source.match(/^#!\s*(\S+)(?:\s+(\S+))?/);
+    const program = interpreter ? (interpreter[1].endsWith('/env') ? interpreter[2] : interpreter[1]).split('/').pop() : null;
+    if (mode === 'execute' && program && !['sh', 'bash', 'dash', 'zsh'].includes(program)) {
+      return this.report(io, `${path}: ${program} scripts can't run in this shell; open the file and use Run Code instead`, 126);
+    }
+
+    const frame = this.frame;
+    const line = this.line;
+    this.nesting++;
+    const run = () => {
+      this.frame = { name: path, args: mode === 'source' && args.length === 0 ? frame.args : args, trackProblems: false };
+      return this.executeSource(source, io);
+    };
+
+    try {
+      if (mode !== 'source') return this.subshell(run);
+      this.returnDepth++;
+      try {
+        return run();
+      } catch (signal) {
+        if (signal instanceof ReturnSignal) return signal.status;
+        throw signal;
+      } finally {
+        this.returnDepth--;
+      }
+    } finally {
+      this.nesting--;
+      this.frame = frame;
+      this.line = line;
+    }
+  }
+
+  // Runs something whose changes to variables, functions, options and the working directory
+  // are undone afterwards; its exit ends only the subshell
+  private subshell(run: () => number): number {
+    const saved = {
+      variables: { ...this.variables },
+      exported: new Set(this.exported),
+      functions: new Map(this.functions),
+      settings: { ...this.settings },
+      cwd: this.cwd,
+      frame: this.frame,
+      loopDepth: this.loopDepth,
+      returnDepth: this.returnDepth
+    };
+    this.loopDepth = 0;
+    this.returnDepth = 0;
+
+    try {
+      return run();
+    } catch (signal) {
+      if (signal instanceof ExitSignal) return signal.status;
+      if (signal instanceof LoopSignal || signal instanceof ReturnSignal) return 0;
+      throw signal;
+    } finally {
+      this.variables = saved.variables;
+      this.exported = saved.exported;
+      this.functions = saved.functions;
+      this.settings = saved.settings;
+      this.cwd = saved.cwd;
+      this.frame = saved.frame;
+      this.loopDepth = saved.loopDepth;
+      this.returnDepth = saved.returnDepth;
+    }
+  }
+
+  // Applies redirections around `run`; output to files is written once the command finishes
+  private withRedirects(redirects: Redirect[], io: IO, run: (io: IO) => number): number {
+    if (redirects.length === 0) return run(io);
+
+    const current = { ...io };
+    const writes: Array<{ path: string; output: string[] }> = [];
+    for (const redirect of redirects) {
+      if (redirect.type === 'heredoc' || redirect.type === 'herestring') {
+        const text = this.expandWord(redirect.target, io, false)[0];
+        current.stdin = new InputStream(redirect.type === 'heredoc' ? text : `${text}\n`);
+        continue;
+      }
+
+      const targets = this.expandWord(redirect.target, io);
+      if (targets.length !== 1) return this.report(io, 'ambiguous redirect');
+      const [target] = targets;
+
+      if (redirect.type === 'duplicate') {
+        const source = target === '1' ? current.stdout : target === '2' ? current.stderr : target === '-' ? () => undefined : null;
+        if (!source) return this.report(io, `${target}: Bad file descriptor`);
+        if (redirect.fd === 1) current.stdout = source;
+        if (redirect.fd === 2) current.stderr = source;
+        continue;
+      }
+
+      if (target === '/dev/null') {
+        if (redirect.fd === 0) current.stdin = new InputStream('');
+        if (redirect.fd === 1) current.stdout = () => undefined;
+        if (redirect.fd === 2) current.stderr = () => undefined;
+        continue;
+      }
+
+      const path = this.fs.resolve(this.cwd, target);
+      try {
+        if (redirect.type === 'read') {
+          current.stdin = new InputStream(this.fs.readFile(path));
+          continue;
+        }
+        // The file is created (or emptied) before the command runs, as in a real shell
+        this.fs.writeFile(path, '', redirect.type === 'append');
+      } catch (error) {
+        return this.report(io, `${target}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      const output: string[] = [];
+      writes.push({ path, output });
+      if (redirect.fd === 1) {
+        current.stdout = this.collect(output);
+        current.tty = false;
+      } else if (redirect.fd === 2) {
+        current.stderr = this.collect(output);
+      }
+    }
+
+    try {
+      return run(current);
+    } finally {
+      writes.forEach(({ path, output }) => {
+        if (this.fs.isFile(path)) this.fs.writeFile(path, output.join(''), true);
+      });
+    }
+  }
+
+  // Expands a word into arguments: parameters and substitutions are replaced, unquoted results
+  // are split at whitespace and wildcards are matched against the filesystem. Without
+  // splitting (assignments) the word always gives exactly one string.
+  private expandWord(word: Word, io: IO, split = true): string[] {
+    const fields: Array<{ text: string; pattern: string }> = [];
+    let field: { text: string; pattern: string } | null = null;
+    const append = (text: string, quoted: boolean) => {
+      field ??= { text: '', pattern: '' };
+      field.text += text;
+      // Quoted wildcards are escaped so they only match themselves
+      field.pattern += quoted || !split ? text.replace(/[\\*?[\]]/g, '\\$&') : text;
+    };
+    const endField = () => {
+      if (field) fields.push(field);
+      field = null;
+    };
+
+    // An empty "" next to "$@" must not turn zero arguments into one empty argument
+    const spreadsArguments = split && word.some(part => part.type === 'variable' && part.name === '@' && part.quoted && !part.operator);
+
+    word.forEach((part, index) => {
+      if (part.type === 'text') {
+        if (spreadsArguments && part.quoted && !part.value) return;
+        const home = index === 0 && !part.quoted && (part.value === '~' || part.value.startsWith('~/'));
+        append(home ? HOME + part.value.substring(1) : part.value, part.quoted);
+        return;
+      }
+      // "$@" gives one argument per positional parameter
+      if (part.type === 'variable' && part.name === '@' && part.quoted && !part.operator && split) {
+        this.frame.args.forEach((arg, position) => {
+          if (position > 0) endField();
+          append(arg, true);
+        });
+        return;
+      }
+
+      const value = part.type === 'variable'
+        ? this.expandVariable(part, io)
+        : part.type === 'command'
+          ? this.substitute(part.source, io)
+          : String(evaluateArithmetic(this.expandParameters(part.expression), this.arithmeticScope()));
+
+      if (part.quoted || !split) {
+        append(value, true);
+        return;
+      }
+      value.split(/[ \t\n]+/).forEach((piece, position) => {
+        if (position > 0) endField();
+        if (piece) append(piece, false);
+      });
+    });
+    endField();
+
+    if (!split) return [fields.map(item => item.text).join('')];
+    return fields.flatMap(item => (hasGlob(item.pattern) ? this.glob(item.pattern) ?? [item.text] : [item.text]));
+  }
+
+  // The value of $name or ${name...}, applying operators such as ${name:-default} or ${name%.txt}
+  private expandVariable(part: Extract<WordPart, { type: 'variable' }>, io: IO): string {
+    const value = this.getVariable(part.name);
+    const isSet = this.isSet(part.name);
+    const argument = () => (part.argument ? this.expandWord(part.argument, io, false)[0] : '');
+    // Patterns are wildcards that may also match slashes, e.g. ${path%/*}
+    const pattern = () => globToRegExp(argument()).source.slice(1, -1).replace(/\[\^\/\]/g, '.');
+    const matches = (text: string) => new RegExp(`^(?:${pattern()})$`).test(text);
+
+    switch (part.operator) {
+      case undefined:
+        return value;
+      case 'length':
+        return String(part.name === '@' || part.name === '*' ? this.frame.args.length : value.length);
+      case ':-':
+      case '-':
+        return (part.operator === ':-' ? value : isSet) ? value : argument();
+      case ':=':
+      case '=': {
+        if (part.operator === ':=' ? value : isSet) return value;
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(part.name)) throw new ExpansionError(`$${part.name}: cannot assign in this way`);
+        const assigned = argument();
+        this.setVariable(part.name, assigned);
+        return assigned;
+      }
+      case ':+':
+      case '+':
+        return (part.operator === ':+' ? value : isSet) ? argument() : '';
+      case ':?':
+      case '?':
+        if (part.operator === ':?' ? value : isSet) return value;
+        throw new ExpansionError(`${part.name}: ${argument() || 'parameter null or not set'}`);
+      case '#':
+      case '##': {
+        const lengths = Array.from({ length: value.length + 1 }, (_, length) => length);
+        const length = (part.operator === '#' ? lengths : lengths.reverse()).find(size => matches(value.substring(0, size)));
+        return length === undefined ? value : value.substring(length);
+      }
+      case '%':
+      case '%%': {
+        const starts = Array.from({ length: value.length + 1 }, (_, start) => start);
+        const start = (part.operator === '%%' ? starts : starts.reverse()).find(index => matches(value.substring(index)));
+        return start === undefined ? value : value.substring(0, start);
+      }
+      case '/':
+      case '//': {
+        const source = pattern();
+        if (!source) return value;
+        const replacement = part.replacement ? this.expandWord(part.replacement, io, false)[0] : '';
+        return value.replace(new RegExp(source, part.operator === '//' ? 'g' : ''), () => replacement);
+      }
+    }
+    return value;
+  }
+
+  private isSet(name: string): boolean {
+    if (/^\d+$/.test(name)) return Number(name) <= this.frame.args.length;
+    return !/^[A-Za-z_]/.test(name) || ['PWD', 'RANDOM', 'LINENO'].includes(name) || name in this.variables;
+  }
+
+  // $name inside $(( )); bare names are looked up by the arithmetic parser itself
+  private expandParameters(expression: string): string {
+    return expression.replace(/\$\{?([A-Za-z_][A-Za-z0-9_]*|[0-9?#$!@*])\}?/g, (_, name: string) => this.getVariable(name));
+  }
+
+  private glob(pattern: string): string[] | null {
+    const absolute = pattern.startsWith('/');
+    let matches = [{ shown: absolute ? '/' : '', path: absolute ? '/' : this.cwd }];
+    const join = (shown: string, name: string) => (shown === '' ? name : shown.endsWith('/') ? shown + name : `${shown}/${name}`);
+
+    pattern.split('/').filter(Boolean).forEach(segment => {
+      matches = matches.flatMap(match => {
+        if (!hasGlob(segment)) {
+          const name = segment.replace(/\\(.)/g, '$1');
+          const path = this.fs.resolve(match.path, name);
+          return this.fs.exists(path) ? [{ shown: join(match.shown, name), path }] : [];
+        }
+        if (!this.fs.isDirectory(match.path)) return [];
+        // Hidden files only match patterns that start with a dot
+        const expression = globToRegExp(segment);
+        return this.fs.list(match.path)
+          .filter(name => expression.test(name) && (!name.startsWith('.') || segment.startsWith('.')))
+          .map(name => ({ shown: join(match.shown, name), path: joinPath(match.path, name) }));
+      });
+    });
+
+    return matches.length > 0 ? matches.map(match => match.shown) : null;
+  }
+
+  private substitute(source: string, io: IO): string {
+    const output: string[] = [];
+    this.lastStatus = this.subshell(() => {
+      this.frame = { ...this.frame, trackProblems: false };
+      return this.executeSource(source, { ...io, stdout: this.collect(output), tty: false });
+    });
+    return output.join('').replace(/\n+$/, '');
+  }
+
+  private arithmeticScope() {
+    return {
+      get: (name: string) => this.getVariable(name),
+      set: (name: string, value: string) => this.setVariable(name, value)
+    };
+  }
+
+  private getVariable(name: string): string {
+    switch (name) {
+      case '?': return String(this.lastStatus);
+      case '#': return String(this.frame.args.length);
+      case '@':
+      case '*': return this.frame.args.join(' ');
+      case '$': return PROCESS_ID;
+      case '!': return '';
+      case '0': return this.frame.name;
+      case 'PWD': return this.cwd;
+      case 'RANDOM': return String(Math.floor(Math.random() * 32768));
+      case 'LINENO': return String(this.line);
+    }
+    if (/^\d+$/.test(name)) return this.frame.args[Number(name) - 1] ?? '';
+    return this.variables[name] ?? '';
+  }
+
+  private setVariable(name: string, value: string) {
+    this.variables[name] = value;
+  }
+
+  private environment(): Record<string, string> {
+    const environment: Record<string, string> = { PWD: this.cwd };
+    this.exported.forEach(name => {
+      if (name in this.variables) environment[name] = this.variables[name];
+    });
+    return environment;
+  }
+
+  private createBuiltins(): Record<string, Builtin> {
+    const fail = (io: IO, name: string, message: string, status = 1) => this.report(io, `${name}: ${message}`, status);
+
+    const builtins: Record<string, Builtin> = {
+      ':': () => 0,
+
+      cd: (args, io) => {
+        if (args.length > 1) return fail(io, 'cd', 'too many arguments');
+        const target = args[0] === '-' ? this.variables.OLDPWD : args[0] ?? HOME;
+        if (target === undefined) return fail(io, 'cd', 'OLDPWD not set');
+
+        const path = this.fs.resolve(this.cwd, target);
+        if (!this.fs.exists(path)) return fail(io, 'cd', `${target}: No such file or directory`);
+        if (!this.fs.isDirectory(path)) return fail(io, 'cd', `${target}: Not a directory`);
+        if (args[0] === '-') io.stdout(`${path}\n`);
+        this.variables.OLDPWD = this.cwd;
+        this.cwd = path;
+        return 0;
+      },
+
+      export: (args, io) => {
+        if (args.length === 0 || args[0] === '-p') {
+          Array.from(this.exported).sort().forEach(name => {
+            if (name in this.variables) io.stdout(`declare -x ${name}="${this.variables[name]}"\n`);
+          });
+          return 0;
+        }
+        let status = 0;
+        args.forEach(arg => {
+          const [, name, value] = arg.match(/^([^=]*)(?:=(.*))?$/s)!;
+          if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+            status = fail(io, 'export', `\`${arg}': not a valid identifier`);
+            return;
+          }
+          if (value !== undefined) this.setVariable(name, value);
+          this.exported.add(name);
+        });
+        return status;
+      },
+
+      local: (args, io) => {
+        const scope = this.localScopes[this.localScopes.length - 1];
+        if (!scope) return fail(io, 'local', 'can only be used in a function');
+        args.forEach(arg => {
+          const [, name, value] = arg.match(/^([^=]*)(?:=(.*))?$/s)!;
+          if (!scope.has(name)) scope.set(name, this.variables[name]);
+          this.setVariable(name, value ?? '');
+        });
+        return 0;
+      },
+
+      unset: args => {
+        const functions = args[0] === '-f';
+        args.filter(arg => !/^-[fv]$/.test(arg)).forEach(name => {
+          if (functions) {
+            this.functions.delete(name);
+          } else {
+            delete this.variables[name];
+            this.exported.delete(name);
+          }
+        });
+        return 0;
+      },
+
+      set: (args, io) => {
+        if (args.length === 0) {
+          Object.keys(this.variables).sort().forEach(name => io.stdout(`${name}=${quoteForTrace(this.variables[name])}\n`));
+          return 0;
+        }
+        const names: Record<string, keyof ShellSettings> = { e: 'errexit', x: 'xtrace', errexit: 'errexit', xtrace: 'xtrace', pipefail: 'pipefail' };
+        for (let index = 0; index < args.length; index++) {
+          const arg = args[index];
+          const enable = arg.startsWith('-');
+          if (arg === '--') {
+            this.frame.args = args.slice(index + 1);
+            break;
+          }
+          if (!/^[-+]/.test(arg)) {
+            this.frame.args = args.slice(index);
+            break;
+          }
+          const options = arg.substring(1) === 'o' ? [args[++index]] : arg.substring(1).split('');
+          for (const option of options) {
+            // -u is accepted for scripts that start with `set -euo pipefail`; unset variables stay empty
+            if (option === 'u') continue;
+            if (!names[option]) return fail(io, 'set', `${arg[0]}${option}: invalid option`, 2);
+            this.settings[names[option]] = enable;
+          }
+        }
+        return 0;
+      },
+
+      shift: (args, io) => {
+        const count = Number(args[0] ?? 1);
+        if (!Number.isInteger(count) || count < 0) return fail(io, 'shift', `${args[0]}: numeric argument required`);
+        if (count > this.frame.args.length) return 1;
+        this.frame.args = this.frame.args.slice(count);
+        return 0;
+      },
+
+      exit: (args, io) => {
+        const status = args[0] === undefined ? this.lastStatus : Number(args[0]);
+        if (!Number.isInteger(status)) {
+          fail(io, 'exit', `${args[0]}: numeric argument required`);
+          throw new ExitSignal(2);
+        }
+        throw new ExitSignal(status & 255);
+      },
+
+      return: (args, io) => {
+        if (this.returnDepth === 0) {
+          return fail(io, 'return', 'can only `return\' from a function or sourced script');
+        }
+        throw new ReturnSignal(args[0] === undefined ? this.lastStatus : Number(args[0]) & 255);
+      },
+
+      break: (args, io) => this.loopSignal('break', args, io),
+      continue: (args, io) => this.loopSignal('continue', args, io),
+
+      read: (args, io) => {
+        const options = { raw: false, prompt: '' };
+        const names: string[] = [];
+        for (let index = 0; index < args.length; index++) {
+          if (args[index] === '-r') options.raw = true;
+          else if (args[index] === '-p') options.prompt = args[++index] ?? '';
+          else names.push(args[index]);
+        }
+        if (options.prompt) io.stderr(options.prompt);
+
+        const line = io.stdin.readLine();
+        const text = line === null ? '' : options.raw ? line : line.replace(/\\(.)/g, '$1');
+        const targets = names.length > 0 ? names : ['REPLY'];
+        // Leftover words all go to the last variable
+        const words = names.length > 0 ? text.trim().split(/[ \t]+/) : [text];
+        targets.forEach((name, index) => {
+          const value = index === targets.length - 1 ? words.slice(index).join(' ') : words[index];
+          this.setVariable(name, value ?? '');
+        });
+        return line === null ? 1 : 0;
+      },
+
+      source: (args, io) => (args[0] ? this.runScript(args[0], args.slice(1), io, 'source') : fail(io, 'source', 'filename argument required', 2)),
+
+      bash: (args, io) => {
+        if (args[0] === '-c') {
+          if (args[1] === undefined) return fail(io, 'bash', '-c: option requires an argument', 2);
+          return this.subshell(() => {
+            this.frame = { name: args[2] ?? 'bash', args: args.slice(3), trackProblems: false };
+            return this.executeSource(args[1], io);
+          });
+        }
+        const script = args.find(arg => !arg.startsWith('-'));
+        if (script) return this.runScript(script, args.slice(args.indexOf(script) + 1), io, 'interpret');
+        // Without a script, commands are read from stdin, as in `echo ls | bash`
+        return this.subshell(() => this.executeSource(io.stdin.readAll(), io));
+      },
+
+      eval: (args, io) => this.executeSource(args.join(' '), io),
+
+      xargs: (args, io) => {
+        const [name = 'echo', ...initial] = args;
+        const items = io.stdin.readAll().split(/\s+/).filter(Boolean);
+        return this.invoke(name, [...initial, ...items], io);
+      },
+
+      history: (args, io) => {
+        if (args[0] === '-c') {
+          this.history = [];
+          return 0;
+        }
+        this.history.forEach((entry, index) => io.stdout(`${String(index + 1).padStart(5)}  ${entry}\n`));
+        return 0;
+      },
+
+      type: (args, io) => {
+        let status = 0;
+        args.forEach(name => {
+          if (this.functions.has(name)) io.stdout(`${name} is a function\n`);
+          else if (this.builtins[name]) io.stdout(`${name} is a shell builtin\n`);
+          else if (COMMANDS[name]) io.stdout(`${name} is /usr/bin/${name}\n`);
+          else status = fail(io, 'type', `${name}: not found`);
+        });
+        return status;
+      },
+
+      which: (args, io) => {
+        const found = args.filter(name => COMMANDS[name]);
+        found.forEach(name => io.stdout(`/usr/bin/${name}\n`));
+        return found.length === args.length ? 0 : 1;
+      },
+
+      help: (_, io) => {
+        const list = (names: string[]) => names.sort().join(' ');
+        io.stdout([
+          'This is a simulated Bash shell. Files from the lab are in your home directory (~);',
+          'changes you make here stay in this terminal and are not saved to the lab.',
+          '',
+          `Shell builtins: ${list(Object.keys(this.builtins))}`,
+          `Commands: ${list(Object.keys(COMMANDS))}`,
+          '',
+          'Supported syntax: pipes (|), redirection (> >> < 2> 2>&1 &>), && and ||, variables, quotes,',
+          '$(command), $((arithmetic)), wildcards, for/while/until loops, if/elif/else, functions.',
+          ''
+        ].join('\n'));
+        return 0;
+      }
+    };
+
+    builtins['.'] = builtins.source;
+    builtins.sh = builtins.bash;
+    return builtins;
+  }
+
+  private loopSignal(type: 'break' | 'continue', args: string[], io: IO): number {
+    if (this.loopDepth === 0) {
+      return this.report(io, `${type}: only meaningful in a \`for', \`while', or \`until' loop`, 0);
+    }
+    const levels = Number(args[0] ?? 1);
+    if (!Number.isInteger(levels) || levels < 1) return this.report(io, `${type}: ${args[0]}: loop count out of range`);
+    throw new LoopSignal(type, Math.min(levels, this.loopDepth));
+  }
+}
@@ -0,0 +1,42 @@
+import { FileMap } from '../../types/runner';
+import { HOME } from './shellFileSystem';
+import { ShellResult, ShellRunOptions, ShellSession, ShellSessionOptions } from './shellSession';
+
+// Messages from ShellWorkerSession; every request but start is answered with the same id
+export type ShellWorkerRequest =
+  | { type: 'start'; files: FileMap; options: ShellSessionOptions; directory: string }
+  | { type: 'run'; id: number; source: string; options: ShellRunOptions; history: string[] }
+  | { type: 'complete'; id: number; input: string };
+
+export type ShellWorkerResponse =
+  | { type: 'result'; id: number; result: ShellResult; prompt: string; history: string[] }
+  | { type: 'completion'; id: number; completion: { input: string; candidates: string[] } }
+  | { type: 'error'; id: number; message: string };
+
+// Runs a ShellSession off the page's thread, so a script that loops forever can be stopped
+const scope = self as unknown as Worker;
+let session: ShellSession | null = null;
+
+const respond = (response: ShellWorkerResponse) => scope.postMessage(response);
+
+scope.onmessage = (event: MessageEvent<ShellWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'start') {
+    session = new ShellSession(request.files, request.options);
+    session.cwd = session.fs.resolve(HOME, request.directory || '.');
+    return;
+  }
+
+  try {
+    if (!session) throw new Error('The shell has not been started');
+    if (request.type === 'run') {
+      session.history = request.history;
+      const result = session.run(request.source, request.options);
+      respond({ type: 'result', id: request.id, result, prompt: session.prompt, history: session.history });
+    } else {
+      respond({ type: 'completion', id: request.id, completion: session.complete(request.input) });
+    }
+  } catch (error) {
+    respond({ type: 'error', id: request.id, message: error instanceof Error ? error.message : 'Shell execution failed' });
+  }
+};
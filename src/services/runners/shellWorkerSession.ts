@@ -0,0 +1,79 @@
+import { FileMap } from '../../types/runner';
+import { ShellResult, ShellRunOptions, ShellSessionOptions, formatPrompt } from './shellSession';
+import type { ShellWorkerRequest, ShellWorkerResponse } from './shellWorker';
+
+export class ShellStoppedError extends Error {
+  constructor() {
+    super('The shell was stopped');
+    this.name = 'ShellStoppedError';
+  }
+}
+
+// A ShellSession running in a worker. The interpreter is synchronous, so on the page's thread a
+// script like `while true; do :; done` would freeze the tab until its timeout; here stop() ends it.
+export class ShellWorkerSession {
+  prompt = formatPrompt('~'); // Updated after each run, as cd may change it
+  history: string[] = [];
+  private worker: Worker | null;
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (response: ShellWorkerResponse) => void; reject: (error: Error) => void }>();
+
+  // directory is the working directory relative to the home directory, where the files are copied
+  constructor(files: FileMap = {}, options: ShellSessionOptions = {}, directory = '.') {
+    this.worker = new Worker(new URL('./shellWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<ShellWorkerResponse>) => {
+      const request = this.pending.get(event.data.id);
+      if (!request) return;
+      this.pending.delete(event.data.id);
+      if (event.data.type === 'error') {
+        request.reject(new Error(event.data.message));
+      } else {
+        request.resolve(event.data);
+      }
+    };
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.rejectPending(new Error(event.message || 'The shell stopped unexpectedly'));
+    };
+    this.post({ type: 'start', files, options, directory });
+  }
+
+  async run(source: string, options: ShellRunOptions = {}): Promise<ShellResult> {
+    const response = await this.request(id => ({ type: 'run', id, source, options, history: this.history }));
+    if (response.type !== 'result') throw new Error('Unexpected reply from the shell');
+    this.prompt = response.prompt;
+    this.history = response.history;
+    return response.result;
+  }
+
+  async complete(input: string): Promise<{ input: string; candidates: string[] }> {
+    const response = await this.request(id => ({ type: 'complete', id, input }));
+    if (response.type !== 'completion') throw new Error('Unexpected reply from the shell');
+    return response.completion;
+  }
+
+  // Ends whatever is running along with the session; pending calls reject with ShellStoppedError
+  stop() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectPending(new ShellStoppedError());
+  }
+
+  private request(create: (id: number) => ShellWorkerRequest): Promise<ShellWorkerResponse> {
+    if (!this.worker) return Promise.reject(new ShellStoppedError());
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.post(create(id));
+    });
+  }
+
+  private post(request: ShellWorkerRequest) {
+    this.worker?.postMessage(request);
+  }
+
+  private rejectPending(error: Error) {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,107 @@
+// Minimal reader for inline source maps, used to map runtime stack traces back to original sources
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const INLINE_MAP_PATTERN = /\/\/[#@] sourceMappingURL=data:application\/json;(?:charset=[^;]+;)?base64,([A-Za-z0-9+/=]+)\s*$/m;
+
+// [generatedColumn, sourceIndex, originalLine, originalColumn], all zero-based
+type MappingSegment = [number, number, number, number];
+
+export interface OriginalPosition {
+  source: string | null;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+const decodeVlq = (segment: string): number[] => {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_CHARS.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid source map character: ${char}`);
+    }
+
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      const negative = value & 1;
+      value >>= 1;
+      values.push(negative ? -value : value);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+};
+
+export class InlineSourceMap {
+  private readonly lines: MappingSegment[][];
+  private readonly sources: string[];
+
+  private constructor(mappings: string, sources: string[]) {
+    this.sources = sources;
+    this.lines = [];
+
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+
+    mappings.split(';').forEach(line => {
+      const segments: MappingSegment[] = [];
+      let generatedColumn = 0;
+
+      line.split(',').filter(Boolean).forEach(segment => {
+        const values = decodeVlq(segment);
+        generatedColumn += values[0];
+        if (values.length >= 4) {
+          sourceIndex += values[1];
+          originalLine += values[2];
+          originalColumn += values[3];
+          segments.push([generatedColumn, sourceIndex, originalLine, originalColumn]);
+        }
+      });
+
+      this.lines.push(segments);
+    });
+  }
+
+  static fromCode(code: string): InlineSourceMap | null {
+    const match = code.match(INLINE_MAP_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    try {
+      const map = JSON.parse(atob(match[1]));
+      return new InlineSourceMap(map.mappings || '', map.sources || []);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Takes a 1-based generated line/column (as reported in stack traces)
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.lines[line - 1];
+    if (!segments || segments.length === 0) {
+      return null;
+    }
+
+    // Use the last segment starting at or before the column
+    const generatedColumn = column - 1;
+    let match = segments[0];
+    for (const segment of segments) {
+      if (segment[0] > generatedColumn) break;
+      match = segment;
+    }
+
+    return {
+      source: this.sources[match[1]] ?? null,
+      line: match[2] + 1,
+      column: match[3] + 1
+    };
+  }
+}
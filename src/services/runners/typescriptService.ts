@@ -0,0 +1,147 @@
+import { loader } from '@monaco-editor/react';
+import type { editor, languages } from 'monaco-editor';
+import { CodeDiagnostic, FileMap } from '../../types/runner';
+
+// Compiles and type-checks lab TypeScript through Monaco's TypeScript worker,
+// so the runner reports exactly what the editor shows without shipping a second compiler.
+
+type MonacoInstance = typeof import('monaco-editor');
+type TsDiagnostic = languages.typescript.Diagnostic;
+type TsMessageChain = languages.typescript.DiagnosticMessageChain;
+
+export const isTypeScriptFile = (fileName: string): boolean => {
+  return /\.(ts|tsx|mts|cts)$/i.test(fileName) && !/\.d\.ts$/i.test(fileName);
+};
+
+const isDeclarationFile = (fileName: string): boolean => /\.d\.ts$/i.test(fileName);
+
+// Same URI scheme @monaco-editor/react uses for its `path` prop, so editor models are shared
+const getModelUri = (monaco: MonacoInstance, path: string) => monaco.Uri.parse(path);
+
+const loadMonaco = async (): Promise<MonacoInstance> => {
+  const monaco = await loader.init();
+
+  // Emitting needs noEmit off; inline maps let runtime errors point at the .ts source
+  const defaults = monaco.languages.typescript.typescriptDefaults;
+  const options = defaults.getCompilerOptions();
+  if (options.noEmit || !options.inlineSourceMap) {
+    defaults.setCompilerOptions({
+      ...options,
+      noEmit: false,
+      sourceMap: false,
+      inlineSourceMap: true,
+      inlineSources: true
+    });
+  }
+
+  return monaco;
+};
+
+// Make every TypeScript file available to the worker so cross-file types resolve
+const syncModels = (monaco: MonacoInstance, files: FileMap): Map<string, editor.ITextModel> => {
+  const models = new Map<string, editor.ITextModel>();
+  const openModels = new Set(monaco.editor.getEditors().map(instance => instance.getModel()));
+
+  const fileUris = new Set(Object.keys(files).map(fileName => getModelUri(monaco, fileName).toString()));
+
+  // Renamed and deleted files would otherwise still be seen by the worker
+  monaco.editor.getModels().forEach(model => {
+    const path = model.uri.path;
+    if (model.uri.scheme !== 'file' || (!isTypeScriptFile(path) && !isDeclarationFile(path))) return;
+    if (!fileUris.has(model.uri.toString()) && !openModels.has(model)) {
+      model.dispose();
+    }
+  });
+
+  Object.entries(files).forEach(([fileName, content]) => {
+    if (!isTypeScriptFile(fileName) && !isDeclarationFile(fileName)) {
+      return;
+    }
+
+    const uri = getModelUri(monaco, fileName);
+    let model = monaco.editor.getModel(uri);
+    if (!model) {
+      model = monaco.editor.createModel(content, 'typescript', uri);
+    } else if (!openModels.has(model) && model.getValue() !== content) {
+      // An open model already holds what the learner typed; setValue would reset its undo history
+      model.setValue(content);
+    }
+    models.set(fileName, model);
+  });
+
+  return models;
+};
+
+const getWorker = async (monaco: MonacoInstance, models: Map<string, editor.ITextModel>) => {
+  const getTypeScriptWorker = await monaco.languages.typescript.getTypeScriptWorker();
+  return getTypeScriptWorker(...Array.from(models.values()).map(model => model.uri));
+};
+
+const flattenMessage = (message: string | TsMessageChain, indent = 0): string => {
+  if (typeof message === 'string') {
+    return message;
+  }
+
+  const lines = [`${'  '.repeat(indent)}${message.messageText}`];
+  message.next?.forEach(next => lines.push(flattenMessage(next, indent + 1)));
+  return lines.join('\n');
+};
+
+const toCodeDiagnostic = (fileName: string, model: editor.ITextModel, diagnostic: TsDiagnostic): CodeDiagnostic => {
+  const position = model.getPositionAt(diagnostic.start ?? 0);
+
+  return {
+    file: fileName,
+    line: position.lineNumber,
+    column: position.column,
+    message: flattenMessage(diagnostic.messageText),
+    // TypeScript categories: 0 = warning, 1 = error, 2 = suggestion, 3 = message
+    severity: diagnostic.category === 1 ? 'error' : diagnostic.category === 0 ? 'warning' : 'info',
+    source: 'typescript',
+    code: diagnostic.code
+  };
+};
+
+export const getTypeScriptDiagnostics = async (files: FileMap): Promise<CodeDiagnostic[]> => {
+  const monaco = await loadMonaco();
+  const models = syncModels(monaco, files);
+  const worker = await getWorker(monaco, models);
+  const diagnostics: CodeDiagnostic[] = [];
+
+  for (const [fileName, model] of models) {
+    if (!isTypeScriptFile(fileName)) continue;
+
+    const uri = model.uri.toString();
+    const [syntactic, semantic] = await Promise.all([
+      worker.getSyntacticDiagnostics(uri),
+      worker.getSemanticDiagnostics(uri)
+    ]);
+
+    [...syntactic, ...semantic].forEach(diagnostic => {
+      diagnostics.push(toCodeDiagnostic(fileName, model, diagnostic));
+    });
+  }
+
+  return diagnostics;
+};
+
+// Returns the file map with every TypeScript file replaced by its compiled JavaScript
+export const transpileTypeScript = async (files: FileMap): Promise<FileMap> => {
+  const monaco = await loadMonaco();
+  const models = syncModels(monaco, files);
+  const worker = await getWorker(monaco, models);
+  const compiled: FileMap = { ...files };
+
+  for (const [fileName, model] of models) {
+    if (!isTypeScriptFile(fileName)) continue;
+
+    const output = await worker.getEmitOutput(model.uri.toString());
+    const jsFile = output.outputFiles.find(file => /\.js$/.test(file.name));
+    if (output.emitSkipped || !jsFile) {
+      throw new Error(`Could not compile ${fileName}`);
+    }
+    compiled[fileName] = jsFile.text;
+  }
+
+  return compiled;
+};
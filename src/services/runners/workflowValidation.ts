@@ -0,0 +1,224 @@
+import { Schema, ValidationProblem, suggestName, validateSchema } from './schemaValidation';
+
+// Structure of a GitHub Actions workflow file, following GitHub's workflow syntax reference
+
+const string: Schema = { type: 'string' };
+const anyMap: Schema = { type: 'object' };
+const scalar: Schema = { type: ['string', 'number', 'boolean'] };
+const env: Schema = { type: 'object', additionalProperties: scalar };
+// Values that can also be an expression such as ${{ matrix.timeout }}
+const numberOrExpression: Schema = { type: ['number', 'string'] };
+const booleanOrExpression: Schema = { type: ['boolean', 'string'] };
+
+const step: Schema = {
+  type: 'object',
+  properties: {
+    id: string,
+    name: string,
+    if: booleanOrExpression,
+    uses: string,
+    run: string,
+    shell: string,
+    with: { type: 'object', additionalProperties: scalar },
+    env,
+    'continue-on-error': booleanOrExpression,
+    'timeout-minutes': numberOrExpression,
+    'working-directory': string
+  }
+};
+
+const job: Schema = {
+  type: 'object',
+  properties: {
+    name: string,
+    needs: { type: ['string', 'array'], items: string },
+    if: booleanOrExpression,
+    'runs-on': { type: ['string', 'array', 'object'] },
+    permissions: { type: ['string', 'object'] },
+    environment: { type: ['string', 'object'] },
+    concurrency: { type: ['string', 'object'] },
+    outputs: { type: 'object', additionalProperties: string },
+    env,
+    defaults: anyMap,
+    steps: { type: 'array', items: step },
+    'timeout-minutes': numberOrExpression,
+    strategy: {
+      type: 'object',
+      properties: {
+        matrix: { type: ['object', 'string'] },
+        'fail-fast': booleanOrExpression,
+        'max-parallel': numberOrExpression
+      }
+    },
+    'continue-on-error': booleanOrExpression,
+    container: { type: ['string', 'object'] },
+    services: anyMap,
+    // Reusable workflow calls
+    uses: string,
+    with: { type: 'object', additionalProperties: scalar },
+    secrets: { type: ['object', 'string'] }
+  }
+};
+
+const workflow: Schema = {
+  type: 'object',
+  required: ['on', 'jobs'],
+  properties: {
+    name: string,
+    'run-name': string,
+    on: { type: ['string', 'array', 'object'] },
+    permissions: { type: ['string', 'object'] },
+    env,
+    defaults: anyMap,
+    concurrency: { type: ['string', 'object'] },
+    jobs: { type: 'object', additionalProperties: job }
+  }
+};
+
+const EVENTS = [
+  'branch_protection_rule', 'check_run', 'check_suite', 'create', 'delete', 'deployment', 'deployment_status',
+  'discussion', 'discussion_comment', 'fork', 'gollum', 'issue_comment', 'issues', 'label', 'merge_group',
+  'milestone', 'page_build', 'public', 'pull_request', 'pull_request_review', 'pull_request_review_comment',
+  'pull_request_target', 'push', 'registry_package', 'release', 'repository_dispatch', 'schedule', 'status',
+  'watch', 'workflow_call', 'workflow_dispatch', 'workflow_run'
+];
+
+const JOB_ID = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+// owner/repo@ref or owner/repo/path@ref; local actions and Docker images need no ref
+const ACTION_REFERENCE = /^[^/@\s]+\/[^@\s]+@[^@\s]+$/;
+
+type Workflow = Record<string, unknown>;
+
+const isMap = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Workflows live in .github/workflows; elsewhere a file counts as one when it has both triggers and jobs
+export const isWorkflow = (path: string, value: unknown): value is Workflow =>
+  isMap(value) && (/(^|\/)\.github\/workflows\/[^/]+$/.test(path) || ('on' in value && 'jobs' in value));
+
+class WorkflowValidator {
+  validate(value: Workflow): ValidationProblem[] {
+    return [
+      ...validateSchema(value, workflow),
+      ...this.checkTriggers(value.on),
+      ...this.checkJobs(value.jobs)
+    ];
+  }
+
+  private checkTriggers(on: unknown): ValidationProblem[] {
+    const problems: ValidationProblem[] = [];
+    const events = typeof on === 'string' ? [on] : Array.isArray(on) ? on : isMap(on) ? Object.keys(on) : [];
+
+    events.forEach((event, index) => {
+      if (typeof event !== 'string' || EVENTS.includes(event)) return;
+      const suggestion = suggestName(event, EVENTS);
+      problems.push({
+        path: isMap(on) ? ['on', event] : Array.isArray(on) ? ['on', index] : ['on'],
+        message: `Unknown event "${event}"${suggestion ? ` - did you mean "${suggestion}"?` : ''}`,
+        severity: 'error'
+      });
+    });
+
+    if (isMap(on) && on.schedule !== undefined) {
+      if (!Array.isArray(on.schedule)) {
+        problems.push({ path: ['on', 'schedule'], message: 'schedule should be a list of "- cron: ..." entries', severity: 'error' });
+      } else {
+        on.schedule.forEach((entry, index) => {
+          const cron = isMap(entry) ? entry.cron : undefined;
+          if (typeof cron !== 'string' || cron.trim().split(/\s+/).length !== 5) {
+            problems.push({
+              path: ['on', 'schedule', index],
+              message: 'Each schedule entry needs a cron expression with five fields, e.g. cron: "0 6 * * 1"',
+              severity: 'error'
+            });
+          }
+        });
+      }
+    }
+    return problems;
+  }
+
+  private checkJobs(jobs: unknown): ValidationProblem[] {
+    if (!isMap(jobs)) return [];
+    const jobIds = Object.keys(jobs);
+    if (jobIds.length === 0) {
+      return [{ path: ['jobs'], message: 'A workflow needs at least one job', severity: 'error' }];
+    }
+
+    return jobIds.flatMap(jobId => {
+      const jobItem = jobs[jobId];
+      const path = ['jobs', jobId];
+      const problems: ValidationProblem[] = [];
+
+      if (!JOB_ID.test(jobId)) {
+        problems.push({
+          path,
+          message: `Job id "${jobId}" must start with a letter or "_" and contain only letters, digits, "-" and "_"`,
+          severity: 'error'
+        });
+      }
+      if (!isMap(jobItem)) return problems;
+
+      const needs = typeof jobItem.needs === 'string' ? [jobItem.needs] : Array.isArray(jobItem.needs) ? jobItem.needs : [];
+      needs.forEach((need, index) => {
+        if (typeof need === 'string' && !jobIds.includes(need)) {
+          problems.push({
+            path: typeof jobItem.needs === 'string' ? [...path, 'needs'] : [...path, 'needs', index],
+            message: `Job "${jobId}" needs "${need}", which isn't a job in this workflow`,
+            severity: 'error'
+          });
+        }
+      });
+
+      if (typeof jobItem.uses === 'string') {
+        // Calls a reusable workflow, which brings its own runner and steps
+        if (!jobItem.uses.startsWith('./') && !ACTION_REFERENCE.test(jobItem.uses)) {
+          problems.push({
+            path: [...path, 'uses'],
+            message: 'Reusable workflows are referenced as ./.github/workflows/file.yml or owner/repo/.github/workflows/file.yml@ref',
+            severity: 'error'
+          });
+        }
+        return problems;
+      }
+
+      if (jobItem['runs-on'] === undefined) {
+        problems.push({ path, message: `Job "${jobId}" is missing "runs-on"`, severity: 'error' });
+      }
+      if (!Array.isArray(jobItem.steps) || jobItem.steps.length === 0) {
+        if (jobItem.steps === undefined) {
+          problems.push({ path, message: `Job "${jobId}" has no steps`, severity: 'error' });
+        }
+        return problems;
+      }
+
+      jobItem.steps.forEach((stepItem, index) => problems.push(...this.checkStep(stepItem, [...path, 'steps', index])));
+      return problems;
+    });
+  }
+
+  private checkStep(stepItem: unknown, path: Array<string | number>): ValidationProblem[] {
+    if (!isMap(stepItem)) return [];
+    if (stepItem.uses === undefined && stepItem.run === undefined) {
+      return [{ path, message: 'Each step needs either "uses" or "run"', severity: 'error' }];
+    }
+    if (stepItem.uses !== undefined && stepItem.run !== undefined) {
+      return [{ path, message: 'A step can\'t have both "uses" and "run"', severity: 'error' }];
+    }
+
+    const uses = stepItem.uses;
+    if (typeof uses === 'string' && !uses.startsWith('./') && !uses.startsWith('docker://') && !ACTION_REFERENCE.test(uses)) {
+      return [{
+        path: [...path, 'uses'],
+        message: `Action "${uses}" needs a version, e.g. ${uses.split('@')[0]}@v4`,
+        severity: 'error'
+      }];
+    }
+    if (stepItem.with !== undefined && stepItem.run !== undefined) {
+      return [{ path: [...path, 'with'], message: '"with" only applies to steps that use an action', severity: 'warning' }];
+    }
+    return [];
+  }
+}
+
+export const workflowValidator = new WorkflowValidator();
@@ -35,6 +35,47 @@ export interface LabInfo {
   tags: string[]
   title: string
   url: string
+  completion_checks?: LabCompletionCheck[]
+  lint?: LabLintConfig
+}
+
+// Editor lint and format settings; beginner labs can turn rules down or off
+export type LintRule = 'syntax' | 'undefined-name' | 'unused' | 'suspicious';
+export type LintSeverity = 'off' | 'info' | 'warning' | 'error';
+
+export interface LabLintConfig {
+  preset?: 'beginner' | 'standard' | 'strict'; // standard when unset
+  rules?: Partial<Record<LintRule, LintSeverity>>; // overrides the preset's severity for a rule
+  format_on_save?: boolean; // learners can still switch it for themselves
+}
+
+// Checks a lab requires to pass before it can be marked as complete
+export type LabCompletionCheck =
+  | { id: string; type: 'tests_pass'; description?: string; files?: string[] }
+  | { id: string; type: 'output_matches'; description?: string; file: string; expected?: string; pattern?: string; stdin?: string }
+  | { id: string; type: 'files_modified'; description?: string; files: string[] };
+
+export interface LabCheckResult {
+  id: string;
+  type: LabCompletionCheck['type'];
+  description: string;
+  passed: boolean;
+  message?: string;
+}
+
+// Check results sent with the completion request
+export interface LabCompletionSummary {
+  lab_url: string;
+  checked_at: string;
+  passed: boolean;
+  checks: Array<Pick<LabCheckResult, 'id' | 'type' | 'passed'>>;
+  files_digest: string;
+}
+
+// `summary` is the exact JSON text that was signed (HMAC-SHA256 with the completion token)
+export interface SignedLabCompletion {
+  summary: string;
+  signature: string | null;
 }
 
 export interface LabContentData {
@@ -42,6 +83,7 @@ export interface LabContentData {
   lab_files: LabFile[];
   premium_files_count: number;
   premium_preview: LabFile[];
+  hidden_tests?: LabFile[]; // run by the Tests tab, never shown in the file tree
 }
 
 export interface LabContent {
@@ -51,6 +93,7 @@ export interface LabContent {
   isPublic: boolean;
   lab_info: LabInfo;
   lab_url: string;
+  completion_token?: string; // per-session key for signing check summaries
 }
 
 export interface LabContentResponse {
@@ -58,4 +101,57 @@ export interface LabContentResponse {
   data: LabContent | undefined;
   error?: string;
   statusCode?: number;
-}
\ No newline at end of file
+}
+
+// Files and folders the learner created, renamed, moved or deleted, on top of the lab's own tree.
+// File content lives in the pending and saved change maps, keyed by the current path.
+export interface WorkspaceChanges {
+  created: string[]; // files added by the learner
+  folders: string[]; // folders added by the learner, kept while empty
+  moved: Record<string, string>; // lab file or folder path -> current path
+  deleted: string[]; // lab file and folder paths
+}
+
+// A named copy of the workspace the learner can go back to
+export interface WorkspaceCheckpoint {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  changes: WorkspaceChanges;
+  files: Record<string, string>; // content of the files that differ from the lab version, by path
+}
+
+// What the IDE syncs between devices: the saved layer, the tree changes and checkpoints.
+// Unsaved edits stay on the device that made them.
+export interface WorkspaceSnapshot {
+  files: Record<string, string>; // saved content by current path
+  changes: WorkspaceChanges;
+  checkpoints: WorkspaceCheckpoint[];
+}
+
+export interface RemoteWorkspace extends WorkspaceSnapshot {
+  revision: number; // increases with every accepted upload
+  updated_at: string;
+}
+
+// A rejected upload carries the newer workspace it would have overwritten
+export type WorkspaceSaveResult =
+  | { status: 'saved'; workspace: RemoteWorkspace }
+  | { status: 'conflict'; workspace: RemoteWorkspace };
+
+// A read-only copy of a learner's workspace, shared by link. Only what differs from the lab is
+// included, and never the content of premium files.
+export interface LabSnapshot {
+  version: 1;
+  lab: {
+    url: string;
+    title: string;
+    course_id: string;
+    content_type: 'lab' | 'article';
+    content_id: string;
+  };
+  created_at: string;
+  changes: WorkspaceChanges;
+  files: Record<string, string>; // content of files that differ from the lab version, by current path
+  selected_path: string | null;
+}
@@ -7,6 +7,21 @@ export interface ExecutionResult {
   executionTime: number;
   memoryUsage?: number;
   logs?: ConsoleLog[];
+  preview?: string; // Full HTML document rendered in the sandboxed preview (web runner)
+  diagnostics?: CodeDiagnostic[]; // Problems found before execution (e.g. type errors)
+  formattedOutput?: FormattedOutput[]; // Output in execution order when it includes figures or HTML
+  debugTrace?: DebugTrace; // Recorded steps of a debug run
+  database?: SqlDatabase; // The SQLite database as a SQL run left it
+}
+
+export interface CodeDiagnostic {
+  file: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+  severity: 'error' | 'warning' | 'info';
+  source?: string; // Tool that reported the problem, e.g. 'typescript'
+  code?: string | number;
 }
 
 export interface ConsoleLog {
@@ -19,21 +34,143 @@ export interface FileMap {
   [fileName: string]: string;
 }
 
+export interface ExecutionOptions {
+  entryFile?: string; // Path of the file being run, used to resolve relative references
+  stdin?: string; // Pre-supplied input, read line by line before the learner is asked
+  onInput?: (request: InputRequest) => Promise<string | null>; // Interactive input; null ends the input (EOF)
+  debug?: boolean; // Record each executed line for the debugger
+  debugStepLimit?: number; // Lines of the lab's code a debug run records; DEBUG_STEP_LIMIT when unset
+  database?: Uint8Array; // SQLite file a SQL run continues from instead of a freshly seeded database
+  sandboxed?: boolean; // Run in an opaque origin, for code the viewer didn't write such as a shared snapshot
+}
+
+export interface SqlColumn {
+  name: string;
+  type: string; // Declared type, empty when the column has none
+  primaryKey: boolean;
+  notNull: boolean;
+}
+
+export interface SqlTable {
+  name: string;
+  type: 'table' | 'view';
+  columns: SqlColumn[];
+  rowCount: number | null; // Not counted for views
+}
+
+export interface SqlDatabase {
+  file: Uint8Array; // The whole SQLite database file
+  tables: SqlTable[];
+}
+
+// Result set of one SQL statement
+export interface TableOutput {
+  statement: string;
+  columns: string[];
+  rows: Array<Array<string | number | null>>; // Blobs are shown by their size
+  rowCount: number; // Rows the statement returned, which can be more than `rows` holds
+}
+
+export interface DebugVariable {
+  name: string;
+  type: string;
+  value: string; // Shortened repr
+}
+
+export interface DebugFrame {
+  name: string;
+  file: string;
+  line: number;
+  locals: DebugVariable[];
+}
+
+export interface DebugStep {
+  file: string;
+  line: number;
+  stack: DebugFrame[]; // Outermost call first
+  globals: DebugVariable[];
+  exception?: string; // Set when an exception was raised at this line
+  outputLength: number; // Length of the output printed before this step
+}
+
+export interface DebugTrace {
+  steps: DebugStep[];
+  truncated: boolean; // The run went on past the step limit, so later lines were not recorded
+  stepLimit: number;
+}
+
+export interface InputRequest {
+  prompt: string;
+  logs: ConsoleLog[]; // Output produced so far, shown above the input line
+}
+
 export interface CodeRunner {
   language: string;
-  execute(code: string, files?: FileMap): Promise<ExecutionResult>;
+  execute(code: string, files?: FileMap, options?: ExecutionOptions): Promise<ExecutionResult>;
   stop(): void;
   isSupported(): boolean;
+  // Runners with a runtime to load, such as Pyodide, can start it early and keep it between runs
+  warmUp?(): Promise<void>;
+  isWarm?(): boolean; // The next run starts without loading anything
+  dispose?(): void; // Releases the runtime, e.g. an idle worker
+}
+
+// What a runner can do, so the IDE only offers the tabs and actions that apply
+export interface RunnerCapabilities {
+  stdin: boolean; // Reads standard input from the Stdin tab and the console
+  tests: boolean; // Runs the lab's test files
+  debug: boolean; // Records the trace the Debug tab steps through
+  preview?: boolean; // Renders a page in the Preview tab that follows later edits
+  database?: boolean; // Leaves a database to browse in the Schema tab
+  validation?: boolean; // Checks files instead of running them
+}
+
+// A runner module as the registry knows it before the module is loaded
+export interface RunnerDefinition {
+  id: string;
+  languages: SupportedLanguage[];
+  extensions: Record<string, SupportedLanguage>; // Lower-case file extension without the dot
+  matchFileName?: (baseName: string) => SupportedLanguage | null; // Files known by name, e.g. Dockerfile
+  capabilities: RunnerCapabilities;
+  isSupported?: () => boolean; // Checked without loading the module, so it has to stay cheap
+  load: () => Promise<(language: SupportedLanguage) => CodeRunner>; // Dynamic import() of the module
 }
 
 export interface FormattedOutput {
-  type: 'log' | 'error' | 'result' | 'plot';
+  type: 'log' | 'error' | 'result' | 'plot' | 'html' | 'table'; // 'plot' content is an image data URL, 'html' is markup, 'table' a TableOutput
   content: string | object;
   timestamp: number;
   level?: 'info' | 'warn' | 'error';
 }
 
-export type SupportedLanguage = 'javascript' | 'python' | 'html' | 'css' | 'typescript';
+export type SupportedLanguage = 'javascript' | 'python' | 'html' | 'css' | 'typescript' | 'sql' | 'yaml' | 'json' | 'dockerfile' | 'shell';
+
+export type TestStatus = 'passed' | 'failed' | 'error' | 'skipped';
+
+export interface TestCaseResult {
+  name: string;
+  status: TestStatus;
+  duration: number; // milliseconds
+  message?: string;
+  expected?: string; // Formatted values of a failed equality assertion
+  actual?: string;
+}
+
+export interface TestFileResult {
+  file: string;
+  hidden: boolean; // Delivered with the lab but not shown in the file tree
+  tests: TestCaseResult[];
+  error?: string; // The file could not be loaded or run
+  output?: string; // Anything the tests printed
+}
+
+export interface TestRunSummary {
+  files: TestFileResult[];
+  passed: number;
+  failed: number;
+  total: number;
+  executionTime: number;
+}
 
 export interface RunnerConfig {
   timeout: number;
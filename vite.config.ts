@@ -1,6 +1,7 @@
 
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, Plugin } from 'vite'
 import react from '@vitejs/plugin-react-swc'
+import fs from 'fs'
 import path from 'path'
 import { componentTagger } from "lovable-tagger";
 
@@ -30,24 +31,73 @@ const dynamicCSPPlugin = (mode: string) => ({
   }
 });
 
-export default defineConfig(({ mode }) => ({
-  plugins: [
-    react(),
-    mode === 'development' && componentTagger(),
-    dynamicCSPPlugin(mode),
-  ].filter(Boolean),
-  base: '/', // Use root path for custom domain
-  server: {
-    host: "::",
-    port: 8080
-  },
-  resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src'),
+// Self-hosted Pyodide: serves the runtime at /pyodide/ in development and copies it into the build.
+// The pyodide npm package holds the runtime and standard library; for packages such as numpy,
+// point PYODIDE_ASSETS_DIR at an extracted full Pyodide release of the same version.
+const PYODIDE_PATH = 'pyodide';
+const PYODIDE_EXCLUDED_FILES = /(^package\.json|\.d\.ts|\.md|\.html|\.map)$/;
+const PYODIDE_CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.wasm': 'application/wasm',
+  '.json': 'application/json',
+  '.zip': 'application/zip'
+};
+
+const selfHostedPyodidePlugin = (assetsDir: string): Plugin => {
+  let outDir = 'dist';
+  const assetFiles = () => fs.readdirSync(assetsDir)
+    .filter(name => !PYODIDE_EXCLUDED_FILES.test(name) && fs.statSync(path.join(assetsDir, name)).isFile());
+
+  return {
+    name: 'self-hosted-pyodide',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
     },
-  },
-  build: {
-    outDir: 'dist',
-    assetsDir: 'assets',
-  }
-}))
+    configureServer(server) {
+      server.middlewares.use(`/${PYODIDE_PATH}`, (req, res, next) => {
+        const name = decodeURIComponent((req.url || '').split('?')[0]).replace(/^\//, '');
+        if (!assetFiles().includes(name)) return next();
+        // Sandboxed runs load Pyodide from an opaque origin, as GitHub Pages allows for the build
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Content-Type', PYODIDE_CONTENT_TYPES[path.extname(name)] || 'application/octet-stream');
+        fs.createReadStream(path.join(assetsDir, name)).pipe(res);
+      });
+    },
+    closeBundle() {
+      const target = path.join(outDir, PYODIDE_PATH);
+      fs.mkdirSync(target, { recursive: true });
+      assetFiles().forEach(name => fs.copyFileSync(path.join(assetsDir, name), path.join(target, name)));
+    }
+  };
+};
+
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd());
+  const pyodideAssetsDir = env.VITE_PYODIDE_SELF_HOST === 'true'
+    ? path.resolve(__dirname, process.env.PYODIDE_ASSETS_DIR || 'node_modules/pyodide')
+    : null;
+
+  return {
+    plugins: [
+      react(),
+      mode === 'development' && componentTagger(),
+      dynamicCSPPlugin(mode),
+      pyodideAssetsDir !== null && selfHostedPyodidePlugin(pyodideAssetsDir),
+    ].filter(Boolean),
+    base: '/', // Use root path for custom domain
+    server: {
+      host: "::",
+      port: 8080
+    },
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, './src'),
+      },
+    },
+    build: {
+      outDir: 'dist',
+      assetsDir: 'assets',
+    }
+  };
+})